@@ -8,7 +8,8 @@
  *   node scripts/dev-cron.js
  *
  * The script reads CRON_SECRET from .env.local automatically.
- * Alternatively, set CRON_SECRET as an environment variable.
+ * Alternatively, set CRON_SECRET as an environment variable. The endpoint
+ * refuses every request until CRON_SECRET is set.
  */
 
 const fs = require("fs");
@@ -27,6 +28,11 @@ if (!CRON_SECRET && fs.existsSync(envPath)) {
     }
 }
 
+if (!CRON_SECRET) {
+    console.error("[Dev Cron] CRON_SECRET is not set — add it to .env.local");
+    process.exit(1);
+}
+
 // ─── Config ─────────────────────────────────────
 
 const PORT = process.env.PORT || 3000;
@@ -37,14 +43,14 @@ const INTERVAL_MS = 60_000; // 60 seconds
 
 async function runCron() {
     const timestamp = new Date().toLocaleString("en-IN", { timeZone: "Asia/Kolkata" });
-    const url = CRON_SECRET
-        ? `${BASE_URL}/api/auto-orders/execute?secret=${CRON_SECRET}`
-        : `${BASE_URL}/api/auto-orders/execute`;
+    const url = `${BASE_URL}/api/auto-orders/execute`;
 
-    console.log(`\n[Dev Cron] ⏰ ${timestamp} — Hitting ${url.replace(CRON_SECRET, "***")}`);
+    console.log(`\n[Dev Cron] ⏰ ${timestamp} — Hitting ${url}`);
 
     try {
-        const res = await fetch(url);
+        const res = await fetch(url, {
+            headers: { Authorization: `Bearer ${CRON_SECRET}` },
+        });
         const data = await res.json();
 
         if (res.ok) {
@@ -63,7 +69,7 @@ async function runCron() {
 console.log("══════════════════════════════════════════════════");
 console.log("  🔄 Auto-Order Dev Cron Simulator");
 console.log(`  📡 Target: ${BASE_URL}/api/auto-orders/execute`);
-console.log(`  🔑 CRON_SECRET: ${CRON_SECRET ? "configured" : "not set (no auth)"}`);
+console.log("  🔑 CRON_SECRET: configured");
 console.log(`  ⏱️  Interval: ${INTERVAL_MS / 1000}s`);
 console.log("══════════════════════════════════════════════════");
 console.log("  Press Ctrl+C to stop\n");
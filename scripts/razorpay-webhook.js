@@ -0,0 +1,127 @@
+/**
+ * Local Razorpay Webhook Signer
+ *
+ * Builds a sample Razorpay webhook event, signs it the way Razorpay does
+ * (HMAC SHA256 of the raw body with the webhook secret) and POSTs it to
+ * the local /api/razorpay/webhook endpoint — no live Razorpay needed.
+ *
+ * Usage:
+ *   node scripts/razorpay-webhook.js payment.captured <userId> <amountRupees> [paymentId]
+ *   node scripts/razorpay-webhook.js payment.failed   <userId> <amountRupees> [paymentId]
+ *   node scripts/razorpay-webhook.js refund.processed <userId> <amountRupees> <paymentId>
+ *
+ * Re-sending the same paymentId is a good way to check idempotency.
+ * The script reads RAZORPAY_WEBHOOK_SECRET from .env.local automatically.
+ * Alternatively, set RAZORPAY_WEBHOOK_SECRET as an environment variable.
+ */
+
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+
+// ─── Load .env.local ────────────────────────────
+
+const envPath = path.join(__dirname, "..", ".env.local");
+let WEBHOOK_SECRET = process.env.RAZORPAY_WEBHOOK_SECRET || "";
+
+if (!WEBHOOK_SECRET && fs.existsSync(envPath)) {
+    const envContent = fs.readFileSync(envPath, "utf-8");
+    const match = envContent.match(/^RAZORPAY_WEBHOOK_SECRET=(.+)$/m);
+    if (match) {
+        WEBHOOK_SECRET = match[1].trim().replace(/^["']|["']$/g, "");
+    }
+}
+
+// ─── Config ─────────────────────────────────────
+
+const PORT = process.env.PORT || 3000;
+const URL = `http://localhost:${PORT}/api/razorpay/webhook`;
+const EVENTS = ["payment.captured", "payment.failed", "refund.processed"];
+
+const [event, userId, amountArg, paymentArg] = process.argv.slice(2);
+const amountPaise = Math.round(Number(amountArg) * 100);
+
+if (!EVENTS.includes(event) || !userId || !(amountPaise > 0) || (event === "refund.processed" && !paymentArg)) {
+    console.error("Usage: node scripts/razorpay-webhook.js <event> <userId> <amountRupees> [paymentId]");
+    console.error(`  events: ${EVENTS.join(", ")} (refund.processed needs the paymentId)`);
+    process.exit(1);
+}
+
+if (!WEBHOOK_SECRET) {
+    console.error("[Webhook] RAZORPAY_WEBHOOK_SECRET is not set");
+    process.exit(1);
+}
+
+// ─── Sample payload ─────────────────────────────
+
+function randomId(prefix) {
+    return `${prefix}_test${crypto.randomBytes(7).toString("hex")}`;
+}
+
+const paymentId = paymentArg || randomId("pay");
+const paymentEntity = {
+    id: paymentId,
+    entity: "payment",
+    amount: amountPaise,
+    currency: "INR",
+    status: event === "payment.failed" ? "failed" : "captured",
+    order_id: randomId("order"),
+    method: "upi",
+    notes: { userId, purpose: "wallet_topup" },
+    ...(event === "payment.failed" && { error_description: "Payment was declined (local test)" }),
+    created_at: Math.floor(Date.now() / 1000),
+};
+
+const payload = { payment: { entity: paymentEntity } };
+if (event === "refund.processed") {
+    payload.refund = {
+        entity: {
+            id: randomId("rfnd"),
+            entity: "refund",
+            amount: amountPaise,
+            currency: "INR",
+            payment_id: paymentId,
+            status: "processed",
+            created_at: Math.floor(Date.now() / 1000),
+        },
+    };
+}
+
+const body = JSON.stringify({
+    entity: "event",
+    account_id: "acc_localtest",
+    event,
+    contains: Object.keys(payload),
+    payload,
+    created_at: Math.floor(Date.now() / 1000),
+});
+
+const signature = crypto.createHmac("sha256", WEBHOOK_SECRET).update(body).digest("hex");
+
+// ─── Send ───────────────────────────────────────
+
+async function send() {
+    console.log(`[Webhook] ➡ ${event} | ${paymentId} | ₹${amountPaise / 100} | user=${userId.slice(0, 8)}…`);
+    try {
+        const res = await fetch(URL, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                "X-Razorpay-Signature": signature,
+                "X-Razorpay-Event-Id": randomId("evt"),
+            },
+            body,
+        });
+        const data = await res.json();
+        if (res.ok) {
+            console.log(`[Webhook] ✅ Status ${res.status}`, JSON.stringify(data));
+        } else {
+            console.error(`[Webhook] ❌ Status ${res.status}:`, data.error || JSON.stringify(data));
+        }
+    } catch (err) {
+        console.error(`[Webhook] 💥 Request failed:`, err.message);
+        console.error(`[Webhook]    Is the dev server running on port ${PORT}?`);
+    }
+}
+
+send();
@@ -7,6 +7,15 @@ import {
     BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
     LineChart, Line, PieChart, Pie, Cell, Legend,
 } from "recharts";
+import {
+    clearAdminSession,
+    getAdminHeaders,
+    getAdminOutletId,
+    getAdminOutlets,
+    isOutletScopedAdmin,
+    setAdminOutlet,
+} from "@/services/adminService";
+import type { Outlet } from "@/types";
 
 interface Stats {
     summary: {
@@ -29,20 +38,27 @@ export default function AdminDashboard() {
     const [loading, setLoading] = useState(true);
     const [canteenOpen, setCanteenOpen] = useState(true);
     const [toggling, setToggling] = useState(false);
+    const [outlets, setOutlets] = useState<Outlet[]>([]);
+    const [outletId, setOutletId] = useState(() => getAdminOutletId());
+    const [scoped] = useState(() => isOutletScopedAdmin());
 
-    const getHeaders = () => {
-        const token = localStorage.getItem("adminToken");
-        return {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${token}`,
-        };
-    };
+    const getHeaders = () => getAdminHeaders();
 
     useEffect(() => {
         fetchStats();
         fetchCanteenStatus();
+        getAdminOutlets()
+            .then((data) => setOutlets(data.outlets))
+            .catch(() => { /* ignore */ });
     }, []);
 
+    // Every admin page reads the outlet from localStorage, so a reload picks it up everywhere
+    const switchOutlet = (id: string) => {
+        setAdminOutlet(id);
+        setOutletId(id);
+        window.location.reload();
+    };
+
     const fetchCanteenStatus = async () => {
         try {
             const res = await fetch("/api/admin/settings", { headers: getHeaders() });
@@ -76,10 +92,7 @@ export default function AdminDashboard() {
 
     const fetchStats = async () => {
         try {
-            const token = localStorage.getItem("adminToken");
-            const res = await fetch("/api/admin/stats", {
-                headers: { Authorization: `Bearer ${token}` },
-            });
+            const res = await fetch("/api/admin/stats", { headers: getAdminHeaders(false) });
             const data = await res.json();
             setStats(data);
         } catch (err) {
@@ -105,16 +118,43 @@ export default function AdminDashboard() {
                             <div className="w-10 h-10 rounded-xl bg-gold-500/20 flex items-center justify-center text-xl">⚡</div>
                             <div>
                                 <h1 className="text-lg font-display font-bold text-white">Admin Dashboard</h1>
-                                <p className="text-xs text-zayko-400">Zayko Management</p>
+                                <p className="text-xs text-zayko-400">
+                                    Zayko Management · {outlets.find((o) => o.id === outletId)?.name || outletId}
+                                </p>
                             </div>
+                            {!scoped && outlets.length > 1 && (
+                                <select
+                                    value={outletId}
+                                    onChange={(e) => switchOutlet(e.target.value)}
+                                    className="ml-2 bg-zayko-900 border border-zayko-700 text-white text-sm rounded-xl px-3 py-2"
+                                >
+                                    {outlets.map((o) => (
+                                        <option key={o.id} value={o.id}>
+                                            {o.name}{o.active ? "" : " (inactive)"}
+                                        </option>
+                                    ))}
+                                </select>
+                            )}
                         </div>
                         <div className="flex items-center gap-2 overflow-x-auto pb-2 sm:pb-0 w-full sm:w-auto scrollbar-hide">
                             <Link href="/admin/orders" className="flex items-center gap-2 px-4 py-2 bg-blue-500/10 hover:bg-blue-500/20 text-blue-400 text-sm rounded-xl transition-all whitespace-nowrap">
                                 📋 Orders
                             </Link>
+                            <Link href="/admin/kitchen" className="flex items-center gap-2 px-4 py-2 bg-orange-500/10 hover:bg-orange-500/20 text-orange-400 text-sm rounded-xl transition-all whitespace-nowrap">
+                                👨‍🍳 Kitchen
+                            </Link>
+                            <Link href="/admin/pickup" className="flex items-center gap-2 px-4 py-2 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 text-sm rounded-xl transition-all whitespace-nowrap">
+                                📷 Pickup
+                            </Link>
                             <Link href="/admin/menu" className="flex items-center gap-2 px-4 py-2 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 text-sm rounded-xl transition-all whitespace-nowrap">
                                 🍔 Menu
                             </Link>
+                            <Link href="/admin/promotions" className="flex items-center gap-2 px-4 py-2 bg-gold-500/10 hover:bg-gold-500/20 text-gold-400 text-sm rounded-xl transition-all whitespace-nowrap">
+                                🏷️ Promotions
+                            </Link>
+                            <Link href="/admin/loyalty" className="flex items-center gap-2 px-4 py-2 bg-amber-500/10 hover:bg-amber-500/20 text-amber-400 text-sm rounded-xl transition-all whitespace-nowrap">
+                                🎖️ Loyalty Rewards
+                            </Link>
                             <Link href="/admin/wallet" className="flex items-center gap-2 px-4 py-2 bg-purple-500/10 hover:bg-purple-500/20 text-purple-400 text-sm rounded-xl transition-all whitespace-nowrap">
                                 💰 Wallet
                             </Link>
@@ -136,8 +176,13 @@ export default function AdminDashboard() {
                             <Link href="/admin/item-suggestions" className="flex items-center gap-2 px-4 py-2 bg-amber-500/10 hover:bg-amber-500/20 text-amber-400 text-sm rounded-xl transition-all whitespace-nowrap">
                                 💡 Suggestions
                             </Link>
+                            {!scoped && (
+                                <Link href="/admin/outlets" className="flex items-center gap-2 px-4 py-2 bg-teal-500/10 hover:bg-teal-500/20 text-teal-400 text-sm rounded-xl transition-all whitespace-nowrap">
+                                    🏬 Outlets
+                                </Link>
+                            )}
                             <button
-                                onClick={() => { localStorage.removeItem("adminToken"); window.location.href = "/admin"; }}
+                                onClick={() => { clearAdminSession(); window.location.href = "/admin"; }}
                                 className="px-3 py-2 text-sm text-red-400 hover:bg-red-500/10 rounded-xl transition-all ml-auto sm:ml-2 whitespace-nowrap"
                             >
                                 Logout
@@ -0,0 +1,202 @@
+/**
+ * Kitchen Display — Real-time ticket board for kitchen staff.
+ *
+ * Subscribes only to active orders (pending / confirmed / preparing),
+ * groups them into columns, shows customizations and combo contents
+ * prominently and sums item counts across the queue. Tickets are bumped
+ * to the next status with large touch targets; "ready" tickets drop off
+ * the board.
+ * Pre-orders wait in a "Scheduled" strip until their prepStartAt.
+ */
+
+"use client";
+import React, { useEffect, useMemo, useState } from "react";
+import AdminGuard from "@/components/AdminGuard";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import { kitchenStartTime, useKitchenOrders } from "@/hooks/useKitchenOrders";
+import { formatPickupTime, isPrepDue } from "@/lib/pickup-slots";
+import { describeComponents } from "@/lib/combos";
+import { getAdminOutletId, updateOrder } from "@/services/adminService";
+import type { Order, OrderStatus } from "@/types";
+
+const COLUMNS: { status: OrderStatus; title: string; accent: string; bump: OrderStatus; bumpLabel: string }[] = [
+    { status: "pending", title: "⏳ New", accent: "border-yellow-500/40 text-yellow-400", bump: "confirmed", bumpLabel: "Accept" },
+    { status: "confirmed", title: "✅ Confirmed", accent: "border-blue-500/40 text-blue-400", bump: "preparing", bumpLabel: "Start" },
+    { status: "preparing", title: "👨‍🍳 Preparing", accent: "border-orange-500/40 text-orange-400", bump: "ready", bumpLabel: "Ready" },
+];
+
+/** Minutes since the ticket came in (or its prep was due), refreshed by the parent's clock */
+function ageMinutes(since: string, now: number): number {
+    return Math.max(0, Math.floor((now - new Date(since).getTime()) / 60000));
+}
+
+function clockTime(iso: string): string {
+    return new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+export default function KitchenDisplayPage() {
+    const [outletId] = useState(() => getAdminOutletId());
+    const { orders: allOrders, loading } = useKitchenOrders(outletId);
+    const [bumping, setBumping] = useState<string | null>(null);
+    const [now, setNow] = useState(() => Date.now());
+
+    // Re-render every 30s so ticket ages stay current
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 30000);
+        return () => clearInterval(interval);
+    }, []);
+
+    // Pre-orders stay off the board until the kitchen should start them
+    const orders = useMemo(() => allOrders.filter((o) => isPrepDue(o, now)), [allOrders, now]);
+    const scheduled = useMemo(() => allOrders.filter((o) => !isPrepDue(o, now)), [allOrders, now]);
+
+    // "12× Masala Dosa in queue" — counts across every active ticket
+    const queueCounts = useMemo(() => {
+        const counts: Record<string, number> = {};
+        for (const order of orders) {
+            for (const item of order.items) {
+                if (item.rejected) continue;
+                counts[item.name] = (counts[item.name] || 0) + item.quantity;
+            }
+        }
+        return Object.entries(counts).sort((a, b) => b[1] - a[1]);
+    }, [orders]);
+
+    const bumpTicket = async (order: Order, next: OrderStatus) => {
+        setBumping(order.id);
+        try {
+            const result = await updateOrder(order.id, { status: next });
+            if (!result.success) toast.error(result.error || "Failed to update ticket");
+        } catch {
+            toast.error("Failed to update ticket");
+        } finally {
+            setBumping(null);
+        }
+    };
+
+    return (
+        <AdminGuard>
+            <div className="min-h-screen bg-zayko-900 flex flex-col">
+                {/* Header */}
+                <div className="bg-zayko-800 border-b border-zayko-700 px-6 py-4">
+                    <div className="flex items-center justify-between gap-4">
+                        <div className="flex items-center gap-3">
+                            <Link href="/admin/dashboard" className="text-zayko-400 hover:text-white transition-colors">←</Link>
+                            <div>
+                                <h1 className="text-lg font-display font-bold text-white">Kitchen Display</h1>
+                                <p className="text-xs text-zayko-400">
+                                    {orders.length} active tickets{scheduled.length > 0 && ` • ${scheduled.length} scheduled`} • live
+                                </p>
+                            </div>
+                        </div>
+                        <span className="w-2.5 h-2.5 bg-emerald-400 rounded-full animate-pulse" title="Live" />
+                    </div>
+
+                    {/* Queue totals */}
+                    {queueCounts.length > 0 && (
+                        <div className="flex gap-2 overflow-x-auto mt-4 pb-1 scrollbar-hide">
+                            {queueCounts.map(([name, count]) => (
+                                <span key={name} className="px-3 py-1.5 rounded-xl bg-zayko-700 text-white text-sm font-semibold whitespace-nowrap">
+                                    <span className="text-gold-400 font-bold">{count}×</span> {name}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* Pre-orders not due yet, next to start first */}
+                    {scheduled.length > 0 && (
+                        <div className="flex gap-2 overflow-x-auto mt-3 pb-1 scrollbar-hide">
+                            {scheduled.map((order) => (
+                                <span key={order.id} className="px-3 py-1.5 rounded-xl bg-zayko-900 border border-zayko-700 text-zayko-300 text-xs whitespace-nowrap">
+                                    ⏰ <span className="font-mono font-bold text-white">#{order.orderId}</span>
+                                    {" "}start {clockTime(order.prepStartAt!)} · pickup {formatPickupTime(order.pickupAt!)}
+                                    {" "}· {order.items.filter((i) => !i.rejected).reduce((n, i) => n + i.quantity, 0)} items
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {loading ? (
+                    <div className="flex-1 flex items-center justify-center">
+                        <div className="w-10 h-10 border-4 border-gold-400 border-t-transparent rounded-full animate-spin"></div>
+                    </div>
+                ) : (
+                    <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-4 p-4">
+                        {COLUMNS.map((col) => {
+                            const tickets = orders.filter((o) => o.status === col.status);
+                            return (
+                                <div key={col.status} className="flex flex-col min-h-0">
+                                    <h2 className={`text-sm font-bold uppercase tracking-widest mb-3 pb-2 border-b-2 ${col.accent}`}>
+                                        {col.title} <span className="text-zayko-500">({tickets.length})</span>
+                                    </h2>
+                                    <div className="space-y-3 overflow-y-auto">
+                                        {tickets.length === 0 && (
+                                            <p className="text-zayko-600 text-sm text-center py-8">No tickets</p>
+                                        )}
+                                        {tickets.map((order) => {
+                                            const age = ageMinutes(kitchenStartTime(order), now);
+                                            return (
+                                                <div key={order.id} className="bg-zayko-800 border border-zayko-700 rounded-2xl overflow-hidden">
+                                                    <div className="flex items-center justify-between px-4 py-3 border-b border-zayko-700">
+                                                        <div>
+                                                            <p className="text-white font-bold font-mono text-lg">#{order.orderId}</p>
+                                                            <p className="text-xs text-zayko-400">{order.userName}</p>
+                                                            {order.pickupAt && (
+                                                                <p className="text-xs font-bold text-gold-400 mt-0.5">⏰ Pickup {formatPickupTime(order.pickupAt)}</p>
+                                                            )}
+                                                        </div>
+                                                        <span className={`text-sm font-bold tabular-nums ${age >= 15 ? "text-red-400 animate-pulse" : age >= 8 ? "text-amber-400" : "text-zayko-400"}`}>
+                                                            {age} min
+                                                        </span>
+                                                    </div>
+
+                                                    <div className="px-4 py-3 space-y-2">
+                                                        {order.items.filter((item) => !item.rejected).map((item, idx) => (
+                                                            <div key={idx}>
+                                                                <p className="text-white text-base font-semibold">
+                                                                    <span className="text-gold-400 font-bold">{item.quantity}×</span> {item.name}
+                                                                    {item.memberName && <span className="text-zayko-400 text-sm font-normal"> · {item.memberName}</span>}
+                                                                </p>
+                                                                {item.selectedOptions && item.selectedOptions.length > 0 && (
+                                                                    <div className="flex flex-wrap gap-1.5 mt-1 ml-6">
+                                                                        {item.selectedOptions.map((opt) => (
+                                                                            <span
+                                                                                key={`${opt.customizationId}-${opt.optionId}`}
+                                                                                className="px-2 py-0.5 rounded-md bg-amber-400/15 border border-amber-400/30 text-amber-300 text-sm font-bold"
+                                                                            >
+                                                                                {opt.customizationTitle}: {opt.optionName}
+                                                                            </span>
+                                                                        ))}
+                                                                    </div>
+                                                                )}
+                                                                {item.components && item.components.length > 0 && (
+                                                                    <p className="mt-1 ml-6 text-sm font-semibold text-sky-300">
+                                                                        🍱 {describeComponents(item.components)}
+                                                                    </p>
+                                                                )}
+                                                            </div>
+                                                        ))}
+                                                    </div>
+
+                                                    <button
+                                                        onClick={() => bumpTicket(order, col.bump)}
+                                                        disabled={bumping === order.id}
+                                                        className="w-full py-5 text-lg font-display font-bold bg-gold-500 text-zayko-900 hover:bg-gold-400 active:scale-[0.99] transition-all disabled:opacity-50"
+                                                    >
+                                                        {bumping === order.id ? "..." : `${col.bumpLabel} →`}
+                                                    </button>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </AdminGuard>
+    );
+}
@@ -0,0 +1,256 @@
+/**
+ * Admin Loyalty Rewards Page — What students can spend loyalty points on
+ * at the outlet being managed (see lib/loyalty)
+ */
+
+"use client";
+
+import React, { useEffect, useState } from "react";
+import AdminGuard from "@/components/AdminGuard";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import { collection, getDocs } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { outletIdOf } from "@/lib/outlets";
+import { describeReward, REWARD_COUPON_DAYS, RUPEES_PER_POINT, STREAK_BONUS_DAYS, STREAK_BONUS_POINTS } from "@/lib/loyalty";
+import { getAdminOutletId, getLoyaltyRewards, manageLoyaltyRewards } from "@/services/adminService";
+import type { LoyaltyReward, LoyaltyRewardType, MenuItem } from "@/types";
+
+const TYPE_LABELS: Record<LoyaltyRewardType, string> = {
+    free_item: "🍵 Free item",
+    discount: "💸 ₹ off",
+};
+
+const EMPTY_FORM = {
+    id: "",
+    type: "free_item" as LoyaltyRewardType,
+    name: "",
+    description: "",
+    pointsCost: "",
+    itemId: "",
+    discountAmount: "",
+    active: true,
+};
+
+type RewardForm = typeof EMPTY_FORM;
+
+function toForm(r: LoyaltyReward): RewardForm {
+    return {
+        id: r.id,
+        type: r.type,
+        name: r.name,
+        description: r.description || "",
+        pointsCost: String(r.pointsCost),
+        itemId: r.itemId || "",
+        discountAmount: r.discountAmount === undefined ? "" : String(r.discountAmount),
+        active: r.active,
+    };
+}
+
+function toReward(form: RewardForm): Partial<LoyaltyReward> {
+    return {
+        ...(form.id && { id: form.id }),
+        type: form.type,
+        name: form.name,
+        description: form.description,
+        pointsCost: Number(form.pointsCost),
+        itemId: form.itemId,
+        discountAmount: form.discountAmount.trim() ? Number(form.discountAmount) : undefined,
+        active: form.active,
+    };
+}
+
+export default function AdminLoyaltyPage() {
+    const [rewards, setRewards] = useState<LoyaltyReward[]>([]);
+    const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [form, setForm] = useState<RewardForm>(EMPTY_FORM);
+
+    const load = async () => {
+        try {
+            setRewards(await getLoyaltyRewards());
+        } catch {
+            toast.error("Failed to load rewards");
+        }
+        setLoading(false);
+    };
+
+    useEffect(() => {
+        load();
+        const outletId = getAdminOutletId();
+        getDocs(collection(db, "menuItems")).then((snap) => {
+            setMenuItems(snap.docs
+                .map((d) => ({ id: d.id, ...d.data() }) as MenuItem)
+                .filter((item) => outletIdOf(item) === outletId)
+                .sort((a, b) => a.name.localeCompare(b.name)));
+        }).catch(() => toast.error("Failed to load the menu"));
+    }, []);
+
+    const save = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        const result = await manageLoyaltyRewards({ action: "save", reward: toReward(form) });
+        if (result.success) {
+            toast.success(form.id ? "Reward updated ✅" : "Reward created ✅");
+            setForm(EMPTY_FORM);
+            load();
+        } else {
+            toast.error(result.error || "Failed to save reward");
+        }
+        setSaving(false);
+    };
+
+    const toggle = async (r: LoyaltyReward) => {
+        const result = await manageLoyaltyRewards({ action: "toggle", id: r.id, active: !r.active });
+        if (result.success) load();
+        else toast.error(result.error || "Failed to update reward");
+    };
+
+    const remove = async (r: LoyaltyReward) => {
+        if (!confirm(`Delete ${r.name}?`)) return;
+        const result = await manageLoyaltyRewards({ action: "delete", id: r.id });
+        if (result.success) load();
+        else toast.error(result.error || "Failed to delete reward");
+    };
+
+    const inputClass = "px-4 py-3 bg-zayko-900 border border-zayko-600 rounded-xl text-white text-sm";
+    const chipClass = (on: boolean) => `px-3 py-1.5 rounded-lg text-xs font-semibold border transition-all ${on ? "bg-gold-500/20 text-gold-400 border-gold-500/30" : "bg-zayko-900 text-zayko-400 border-zayko-700"}`;
+
+    return (
+        <AdminGuard>
+            <div className="min-h-screen bg-zayko-900 pb-12">
+                {/* Header */}
+                <div className="bg-zayko-800 border-b border-zayko-700 px-6 py-4 sticky top-0 z-20">
+                    <div className="max-w-5xl mx-auto flex items-center gap-3">
+                        <Link href="/admin/dashboard" className="text-zayko-400 hover:text-white transition-colors">
+                            ← Dashboard
+                        </Link>
+                        <h1 className="text-xl font-display font-bold text-white">🎖️ Loyalty Rewards</h1>
+                    </div>
+                </div>
+
+                {loading ? (
+                    <div className="flex items-center justify-center py-20">
+                        <div className="w-12 h-12 border-4 border-gold-400 border-t-transparent rounded-full animate-spin"></div>
+                    </div>
+                ) : (
+                    <div className="max-w-5xl mx-auto px-6 mt-8 space-y-8">
+                        {/* Reward list */}
+                        <div className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6">
+                            <h3 className="text-white font-display font-bold text-lg mb-4">Rewards</h3>
+                            {rewards.length === 0 ? (
+                                <div className="text-center py-4 text-zayko-500">No rewards yet.</div>
+                            ) : (
+                                <div className="space-y-3">
+                                    {rewards.map((r) => (
+                                        <div key={r.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-2xl bg-zayko-900/50 border border-zayko-700">
+                                            <div>
+                                                <p className="text-white font-semibold">
+                                                    {r.name} <span className="text-zayko-500 text-xs ml-1">{TYPE_LABELS[r.type]}</span>
+                                                </p>
+                                                <p className="text-zayko-400 text-sm">
+                                                    {describeReward(r)} for <span className="text-gold-400 font-semibold">{r.pointsCost} points</span>
+                                                </p>
+                                                <p className="text-zayko-500 text-xs mt-1">
+                                                    Redeemed {r.redeemedCount} times{r.description ? ` · ${r.description}` : ""}
+                                                </p>
+                                            </div>
+                                            <div className="flex items-center gap-2">
+                                                <span className={`px-2 py-1 rounded-md text-xs font-semibold border ${r.active ? "bg-emerald-500/10 text-emerald-400 border-emerald-500/20" : "bg-red-500/10 text-red-400 border-red-500/20"}`}>
+                                                    {r.active ? "On" : "Off"}
+                                                </span>
+                                                <button onClick={() => setForm(toForm(r))} className="px-3 py-1.5 text-sm bg-zayko-700 hover:bg-zayko-600 text-zayko-200 rounded-lg">
+                                                    Edit
+                                                </button>
+                                                <button onClick={() => toggle(r)} className="px-3 py-1.5 text-sm bg-zayko-700 hover:bg-zayko-600 text-zayko-200 rounded-lg">
+                                                    {r.active ? "Switch off" : "Switch on"}
+                                                </button>
+                                                {!r.redeemedCount && (
+                                                    <button onClick={() => remove(r)} className="px-3 py-1.5 text-sm text-red-400 hover:bg-red-500/10 rounded-lg">
+                                                        Delete
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Create / edit reward */}
+                        <form onSubmit={save} className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6 space-y-4">
+                            <h3 className="text-white font-display font-bold text-lg">{form.id ? `Edit ${form.name}` : "Add Reward"}</h3>
+
+                            <div className="flex flex-wrap gap-2">
+                                {(Object.keys(TYPE_LABELS) as LoyaltyRewardType[]).map((type) => (
+                                    <button key={type} type="button" onClick={() => setForm({ ...form, type })} className={chipClass(form.type === type)}>
+                                        {TYPE_LABELS[type]}
+                                    </button>
+                                ))}
+                            </div>
+
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <input
+                                    value={form.name}
+                                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                                    placeholder="Name (e.g. Free Masala Chai)"
+                                    className={inputClass}
+                                />
+                                <input
+                                    type="number"
+                                    min="1"
+                                    value={form.pointsCost}
+                                    onChange={(e) => setForm({ ...form, pointsCost: e.target.value })}
+                                    placeholder="Points needed"
+                                    className={inputClass}
+                                />
+                                {form.type === "free_item" ? (
+                                    <select value={form.itemId} onChange={(e) => setForm({ ...form, itemId: e.target.value })} className={inputClass}>
+                                        <option value="">Menu item…</option>
+                                        {menuItems.map((item) => <option key={item.id} value={item.id}>{item.name} (₹{item.price})</option>)}
+                                    </select>
+                                ) : (
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        value={form.discountAmount}
+                                        onChange={(e) => setForm({ ...form, discountAmount: e.target.value })}
+                                        placeholder="₹ off the order"
+                                        className={inputClass}
+                                    />
+                                )}
+                                <input
+                                    value={form.description}
+                                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                                    placeholder="Description (optional)"
+                                    className={inputClass}
+                                />
+                            </div>
+
+                            <div className="flex gap-3">
+                                {form.id && (
+                                    <button
+                                        type="button"
+                                        onClick={() => setForm(EMPTY_FORM)}
+                                        className="px-6 py-3 bg-zayko-700 text-zayko-300 rounded-xl font-medium hover:bg-zayko-600"
+                                    >
+                                        Cancel
+                                    </button>
+                                )}
+                                <button type="submit" disabled={saving || !form.name || !form.pointsCost} className="btn-gold px-6 py-3 disabled:opacity-50">
+                                    {saving ? "Saving..." : form.id ? "Save Reward" : "Add Reward"}
+                                </button>
+                            </div>
+                            <p className="text-zayko-500 text-xs">
+                                Students earn 1 point per ₹{RUPEES_PER_POINT} of every completed order, plus {STREAK_BONUS_POINTS} bonus points
+                                for every {STREAK_BONUS_DAYS} days in a row they order. A redeemed reward becomes a personal coupon for this outlet,
+                                valid for {REWARD_COUPON_DAYS} days; a free item covers one unit at its price on the day it was redeemed.
+                            </p>
+                        </form>
+                    </div>
+                )}
+            </div>
+        </AdminGuard>
+    );
+}
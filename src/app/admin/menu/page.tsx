@@ -11,8 +11,11 @@ import ParsedItemsPreview from "@/components/admin/ParsedItemsPreview";
 import MenuFilters, {
     type AvailabilityFilter,
 } from "@/components/admin/MenuFilters";
+import { outletIdOf } from "@/lib/outlets";
+import { comboSavings, comboStock, describeComponents, isCombo, MAX_COMBO_COMPONENTS, MAX_COMBO_COMPONENT_QUANTITY } from "@/lib/combos";
+import { getAdminOutletId, isOutletScopedAdmin } from "@/services/adminService";
 
-import { MenuItem, MenuItemCustomization, MenuItemOption, CategoryDoc } from "@/types";
+import { MenuItem, MenuItemCustomization, MenuItemOption, MenuItemType, ComboComponent, CategoryDoc } from "@/types";
 
 interface ParsedMenuItem {
     name: string;
@@ -47,6 +50,8 @@ export default function AdminMenuPage() {
         available: true,
         preparationTime: "",
         customizations: [] as MenuItemCustomization[],
+        type: "item" as MenuItemType,
+        components: [] as ComboComponent[],
     });
     const [saving, setSaving] = useState(false);
 
@@ -67,12 +72,13 @@ export default function AdminMenuPage() {
 
     useEffect(() => {
         const q = query(collection(db, "menuItems"));
+        const outletId = getAdminOutletId();
         const unsubscribe = onSnapshot(q, (snapshot) => {
             const menuList = snapshot.docs.map((doc) => ({
                 id: doc.id,
                 ...doc.data(),
             })) as MenuItem[];
-            setItems(menuList);
+            setItems(menuList.filter((item) => outletIdOf(item) === outletId));
             setLoading(false);
         });
         return () => unsubscribe();
@@ -91,6 +97,18 @@ export default function AdminMenuPage() {
         return () => unsubscribe();
     }, []);
 
+    // Combos have no stock of their own — it comes from their components
+    const stockOf = useCallback(
+        (item: MenuItem) => (isCombo(item) ? comboStock(item, (id) => items.find((i) => i.id === id)) : item),
+        [items]
+    );
+
+    // Items a combo can be made of
+    const comboChoices = useMemo(
+        () => items.filter((item) => !isCombo(item)).sort((a, b) => a.name.localeCompare(b.name)),
+        [items]
+    );
+
     // Derived: category slugs for dropdowns
     const categorySlugs = useMemo(() => categories.map((c) => c.slug), [categories]);
     const categoryOptions = useMemo(
@@ -115,15 +133,16 @@ export default function AdminMenuPage() {
 
             // Availability filter
             // "unavailable" means: available === false OR quantity === 0
+            const stock = stockOf(item);
             if (availabilityFilter === "available") {
-                if (!item.available || item.quantity === 0) return false;
+                if (!stock.available || stock.quantity === 0) return false;
             } else if (availabilityFilter === "unavailable") {
-                if (item.available && item.quantity > 0) return false;
+                if (stock.available && stock.quantity > 0) return false;
             }
 
             return true;
         });
-    }, [items, searchQuery, categoryFilter, availabilityFilter]);
+    }, [items, searchQuery, categoryFilter, availabilityFilter, stockOf]);
 
     // ─── Auth header helper ───────────────────────
 
@@ -131,6 +150,7 @@ export default function AdminMenuPage() {
         const token = localStorage.getItem("adminToken");
         const headers: Record<string, string> = {
             Authorization: `Bearer ${token}`,
+            "X-Outlet-Id": getAdminOutletId(),
         };
         if (contentType) headers["Content-Type"] = "application/json";
         return headers;
@@ -148,6 +168,8 @@ export default function AdminMenuPage() {
             available: true,
             preparationTime: "",
             customizations: [],
+            type: "item",
+            components: [],
         });
         setEditItem(null);
         setShowForm(false);
@@ -166,20 +188,32 @@ export default function AdminMenuPage() {
                 ? String(item.preparationTime)
                 : "",
             customizations: item.customizations || [],
+            type: isCombo(item) ? "combo" : "item",
+            components: item.components || [],
         });
         setShowForm(true);
     };
 
     const handleSubmit = async () => {
-        if (!form.name || !form.price || !form.quantity) {
+        const combo = form.type === "combo";
+        if (!form.name || !form.price || (!combo && !form.quantity)) {
             toast.error("Name, price, and quantity are required");
             return;
         }
+        if (combo && (form.components.length === 0 || form.components.some((c) => !c.itemId))) {
+            toast.error("Pick the items in the combo");
+            return;
+        }
+
+        // A combo's stock comes from its components, so it has no quantity or customizations
+        const stockFields = combo
+            ? { components: form.components }
+            : { quantity: Number(form.quantity), customizations: form.customizations };
 
         setSaving(true);
         try {
-            if (editItem) {
-                await fetch("/api/admin/menu", {
+            const res = editItem
+                ? await fetch("/api/admin/menu", {
                     method: "PUT",
                     headers: getAdminHeaders(),
                     body: JSON.stringify({
@@ -187,34 +221,35 @@ export default function AdminMenuPage() {
                         name: form.name,
                         price: Number(form.price),
                         category: form.category,
-                        quantity: Number(form.quantity),
-                        customizations: form.customizations,
+                        ...stockFields,
                         preparationTime: form.preparationTime
                             ? Number(form.preparationTime)
                             : 0,
                     }),
-                });
-                toast.success("Item updated! ✅");
-            } else {
-                await fetch("/api/admin/menu", {
+                })
+                : await fetch("/api/admin/menu", {
                     method: "POST",
                     headers: getAdminHeaders(),
                     body: JSON.stringify({
                         name: form.name,
                         price: Number(form.price),
                         category: form.category,
-                        quantity: Number(form.quantity),
                         description: form.description,
                         available: form.available,
-                        customizations: form.customizations,
+                        type: form.type,
+                        ...stockFields,
                         preparationTime: form.preparationTime
                             ? Number(form.preparationTime)
                             : 0,
                     }),
                 });
-                toast.success("Item added! 🎉");
+            if (!res.ok) {
+                const data = await res.json();
+                toast.error(data.error || "Failed to save item");
+            } else {
+                toast.success(editItem ? "Item updated! ✅" : "Item added! 🎉");
+                resetForm();
             }
-            resetForm();
         } catch {
             toast.error("Failed to save item");
         }
@@ -224,11 +259,16 @@ export default function AdminMenuPage() {
     const deleteItem = async (id: string) => {
         if (!confirm("Delete this item?")) return;
         try {
-            await fetch("/api/admin/menu", {
+            const res = await fetch("/api/admin/menu", {
                 method: "DELETE",
                 headers: getAdminHeaders(),
                 body: JSON.stringify({ id }),
             });
+            if (!res.ok) {
+                const data = await res.json();
+                toast.error(data.error || "Failed to delete");
+                return;
+            }
             toast.success("Item deleted");
         } catch {
             toast.error("Failed to delete");
@@ -351,6 +391,45 @@ export default function AdminMenuPage() {
         setForm({ ...form, customizations: updated });
     };
 
+    // ─── Combo Helpers ───────────────────────────
+
+    const addComponent = () => {
+        setForm({ ...form, components: [...form.components, { itemId: "", name: "", quantity: 1 }] });
+    };
+
+    const removeComponent = (index: number) => {
+        setForm({ ...form, components: form.components.filter((_, i) => i !== index) });
+    };
+
+    const updateComponent = (index: number, data: Partial<ComboComponent>) => {
+        const updated = [...form.components];
+        updated[index] = { ...updated[index], ...data };
+        setForm({ ...form, components: updated });
+    };
+
+    const setComponentItem = (index: number, itemId: string) => {
+        const item = comboChoices.find((i) => i.id === itemId);
+        updateComponent(index, { itemId, name: item?.name || "", selectedOptions: [] });
+    };
+
+    /** Choose or un-choose one option of a component — single-choice groups keep one */
+    const toggleComponentOption = (index: number, cust: MenuItemCustomization, opt: MenuItemOption) => {
+        const current = form.components[index].selectedOptions || [];
+        const chosen = current.some((o) => o.customizationId === cust.id && o.optionId === opt.id);
+        const selectedOptions = chosen
+            ? current.filter((o) => !(o.customizationId === cust.id && o.optionId === opt.id))
+            : [
+                ...(cust.type === "single" ? current.filter((o) => o.customizationId !== cust.id) : current),
+                { customizationId: cust.id, customizationTitle: cust.title, optionId: opt.id, optionName: opt.name, price: Number(opt.price) || 0 },
+            ];
+        updateComponent(index, { selectedOptions });
+    };
+
+    const formSavings = comboSavings(
+        { price: Number(form.price) || 0, components: form.components.filter((c) => c.itemId) },
+        (id) => items.find((i) => i.id === id)
+    );
+
     // ─── AI Upload handlers ───────────────────────
 
     const handleItemsParsed = (items: ParsedMenuItem[]) => {
@@ -382,13 +461,15 @@ export default function AdminMenuPage() {
                             </h1>
                         </div>
                         <div className="flex items-center gap-2">
-                            {/* Category Manager Button */}
-                            <button
-                                onClick={() => setShowCatManager(true)}
-                                className="px-4 py-2 bg-teal-500/20 text-teal-300 border border-teal-500/30 rounded-xl text-sm font-medium hover:bg-teal-500/30 transition-all flex items-center gap-2"
-                            >
-                                📂 Categories
-                            </button>
+                            {/* Category Manager Button — categories are shared by all outlets */}
+                            {!isOutletScopedAdmin() && (
+                                <button
+                                    onClick={() => setShowCatManager(true)}
+                                    className="px-4 py-2 bg-teal-500/20 text-teal-300 border border-teal-500/30 rounded-xl text-sm font-medium hover:bg-teal-500/30 transition-all flex items-center gap-2"
+                                >
+                                    📂 Categories
+                                </button>
+                            )}
                             {/* AI Upload Button */}
                             <button
                                 onClick={() => setShowAiUpload(true)}
@@ -445,10 +526,30 @@ export default function AdminMenuPage() {
                         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
                             <div className="bg-zayko-800 border border-zayko-700 rounded-2xl p-6 w-full max-w-md animate-scale-in">
                                 <h3 className="text-lg font-display font-bold text-white mb-4">
-                                    {editItem ? "✏️ Edit Item" : "➕ Add New Item"}
+                                    {editItem
+                                        ? form.type === "combo" ? "✏️ Edit Combo" : "✏️ Edit Item"
+                                        : form.type === "combo" ? "➕ Add New Combo" : "➕ Add New Item"}
                                 </h3>
 
                                 <div className="space-y-3">
+                                    {/* Item or combo — fixed once created */}
+                                    {!editItem && (
+                                        <div className="grid grid-cols-2 gap-2">
+                                            {(["item", "combo"] as MenuItemType[]).map((type) => (
+                                                <button
+                                                    key={type}
+                                                    type="button"
+                                                    onClick={() => setForm({ ...form, type })}
+                                                    className={`px-3 py-2 rounded-xl text-sm font-semibold border transition-all ${form.type === type
+                                                        ? "bg-gold-500/20 text-gold-400 border-gold-500/30"
+                                                        : "bg-zayko-900 text-zayko-400 border-zayko-700"
+                                                        }`}
+                                                >
+                                                    {type === "combo" ? "🍱 Combo" : "🍽️ Item"}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
                                     <input
                                         type="text"
                                         value={form.name}
@@ -458,25 +559,27 @@ export default function AdminMenuPage() {
                                         placeholder="Item name"
                                         className="w-full px-4 py-3 rounded-xl bg-zayko-700 border border-zayko-600 text-white placeholder:text-zayko-500 focus:ring-2 focus:ring-gold-400 focus:outline-none"
                                     />
-                                    <div className="grid grid-cols-2 gap-3">
+                                    <div className={`grid gap-3 ${form.type === "combo" ? "grid-cols-1" : "grid-cols-2"}`}>
                                         <input
                                             type="number"
                                             value={form.price}
                                             onChange={(e) =>
                                                 setForm({ ...form, price: e.target.value })
                                             }
-                                            placeholder="Price (₹)"
-                                            className="w-full px-4 py-3 rounded-xl bg-zayko-700 border border-zayko-600 text-white placeholder:text-zayko-500 focus:ring-2 focus:ring-gold-400 focus:outline-none"
-                                        />
-                                        <input
-                                            type="number"
-                                            value={form.quantity}
-                                            onChange={(e) =>
-                                                setForm({ ...form, quantity: e.target.value })
-                                            }
-                                            placeholder="Quantity"
+                                            placeholder={form.type === "combo" ? "Combo price (₹)" : "Price (₹)"}
                                             className="w-full px-4 py-3 rounded-xl bg-zayko-700 border border-zayko-600 text-white placeholder:text-zayko-500 focus:ring-2 focus:ring-gold-400 focus:outline-none"
                                         />
+                                        {form.type !== "combo" && (
+                                            <input
+                                                type="number"
+                                                value={form.quantity}
+                                                onChange={(e) =>
+                                                    setForm({ ...form, quantity: e.target.value })
+                                                }
+                                                placeholder="Quantity"
+                                                className="w-full px-4 py-3 rounded-xl bg-zayko-700 border border-zayko-600 text-white placeholder:text-zayko-500 focus:ring-2 focus:ring-gold-400 focus:outline-none"
+                                            />
+                                        )}
                                     </div>
                                     <input
                                         type="number"
@@ -514,93 +617,185 @@ export default function AdminMenuPage() {
                                         className="w-full px-4 py-3 rounded-xl bg-zayko-700 border border-zayko-600 text-white placeholder:text-zayko-500 focus:ring-2 focus:ring-gold-400 focus:outline-none resize-none"
                                     />
 
-                                    {/* Customizations Section */}
-                                    <div className="space-y-3 pt-2">
-                                        <div className="flex items-center justify-between">
-                                            <h4 className="text-sm font-bold text-zayko-300 uppercase tracking-wider">Customizations</h4>
-                                            <button
-                                                type="button"
-                                                onClick={addCustomization}
-                                                className="text-xs bg-gold-400/10 text-gold-400 px-2 py-1 rounded-lg hover:bg-gold-400/20 transition-all"
-                                            >
-                                                + Add Section
-                                            </button>
-                                        </div>
-
-                                        {form.customizations.map((cust, cIdx) => (
-                                            <div key={cust.id} className="p-3 bg-zayko-900/50 border border-zayko-600 rounded-xl space-y-3">
-                                                <div className="flex gap-2">
-                                                    <input
-                                                        type="text"
-                                                        value={cust.title}
-                                                        onChange={(e) => updateCustomization(cIdx, { title: e.target.value })}
-                                                        placeholder="e.g. Extra Toppings"
-                                                        className="flex-1 bg-zayko-800 border-none rounded-lg px-3 py-2 text-xs text-white placeholder:text-zayko-500 focus:ring-1 focus:ring-gold-400"
-                                                    />
-                                                    <select
-                                                        value={cust.type}
-                                                        onChange={(e) => updateCustomization(cIdx, { type: e.target.value as "single" | "multiple" })}
-                                                        className="bg-zayko-800 border-none rounded-lg px-2 py-2 text-[10px] text-zayko-300 focus:ring-1 focus:ring-gold-400"
-                                                    >
-                                                        <option value="single">Single</option>
-                                                        <option value="multiple">Multiple</option>
-                                                    </select>
+                                    {/* Combo Contents Section */}
+                                    {form.type === "combo" ? (
+                                        <div className="space-y-3 pt-2">
+                                            <div className="flex items-center justify-between">
+                                                <h4 className="text-sm font-bold text-zayko-300 uppercase tracking-wider">In this combo</h4>
+                                                {form.components.length < MAX_COMBO_COMPONENTS && (
                                                     <button
                                                         type="button"
-                                                        onClick={() => removeCustomization(cIdx)}
-                                                        className="text-red-400 p-2 hover:bg-red-500/10 rounded-lg"
+                                                        onClick={addComponent}
+                                                        className="text-xs bg-gold-400/10 text-gold-400 px-2 py-1 rounded-lg hover:bg-gold-400/20 transition-all"
                                                     >
-                                                        ✕
+                                                        + Add Item
                                                     </button>
-                                                </div>
-
-                                                <label className="flex items-center gap-2 text-[10px] text-zayko-400">
-                                                    <input
-                                                        type="checkbox"
-                                                        checked={cust.required}
-                                                        onChange={(e) => updateCustomization(cIdx, { required: e.target.checked })}
-                                                        className="accent-gold-500"
-                                                    />
-                                                    Required
-                                                </label>
+                                                )}
+                                            </div>
 
-                                                <div className="space-y-2 pl-2 border-l border-zayko-700">
-                                                    {cust.options.map((opt, oIdx) => (
-                                                        <div key={opt.id} className="flex gap-2 items-center">
-                                                            <input
-                                                                type="text"
-                                                                value={opt.name}
-                                                                onChange={(e) => updateOption(cIdx, oIdx, { name: e.target.value })}
-                                                                placeholder="Option name"
-                                                                className="flex-1 bg-zayko-800 border-none rounded-lg px-2 py-1.5 text-[10px] text-white placeholder:text-zayko-600 focus:ring-1 focus:ring-gold-400"
-                                                            />
+                                            {form.components.map((component, cIdx) => {
+                                                const choice = comboChoices.find((i) => i.id === component.itemId);
+                                                return (
+                                                    <div key={cIdx} className="p-3 bg-zayko-900/50 border border-zayko-600 rounded-xl space-y-2">
+                                                        <div className="flex gap-2">
+                                                            <select
+                                                                value={component.itemId}
+                                                                onChange={(e) => setComponentItem(cIdx, e.target.value)}
+                                                                className="flex-1 min-w-0 bg-zayko-800 border-none rounded-lg px-2 py-2 text-xs text-white focus:ring-1 focus:ring-gold-400"
+                                                            >
+                                                                <option value="">Menu item…</option>
+                                                                {comboChoices.map((item) => (
+                                                                    <option key={item.id} value={item.id}>{item.name} (₹{item.price})</option>
+                                                                ))}
+                                                            </select>
                                                             <input
                                                                 type="number"
-                                                                value={opt.price}
-                                                                onChange={(e) => updateOption(cIdx, oIdx, { price: Number(e.target.value) })}
-                                                                placeholder="₹"
-                                                                className="w-14 bg-zayko-800 border-none rounded-lg px-2 py-1.5 text-[10px] text-gold-400 placeholder:text-zayko-600 focus:ring-1 focus:ring-gold-400"
+                                                                min={1}
+                                                                max={MAX_COMBO_COMPONENT_QUANTITY}
+                                                                value={component.quantity}
+                                                                onChange={(e) => updateComponent(cIdx, { quantity: Number(e.target.value) })}
+                                                                title="Units per combo"
+                                                                className="w-14 bg-zayko-800 border-none rounded-lg px-2 py-2 text-xs text-white focus:ring-1 focus:ring-gold-400"
                                                             />
                                                             <button
                                                                 type="button"
-                                                                onClick={() => removeOption(cIdx, oIdx)}
-                                                                className="text-zayko-500 hover:text-red-400"
+                                                                onClick={() => removeComponent(cIdx)}
+                                                                className="text-red-400 p-2 hover:bg-red-500/10 rounded-lg"
                                                             >
                                                                 ✕
                                                             </button>
                                                         </div>
-                                                    ))}
-                                                    <button
-                                                        type="button"
-                                                        onClick={() => addOption(cIdx)}
-                                                        className="text-[10px] text-zayko-400 hover:text-gold-400 p-1 transition-colors"
-                                                    >
-                                                        + Add Option
-                                                    </button>
-                                                </div>
+
+                                                        {/* The component's customization choices, fixed for the combo */}
+                                                        {choice?.customizations?.map((cust) => (
+                                                            <div key={cust.id} className="pl-2 border-l border-zayko-700">
+                                                                <p className="text-[10px] text-zayko-400 mb-1">
+                                                                    {cust.title}{cust.required ? " (required)" : ""}
+                                                                </p>
+                                                                <div className="flex flex-wrap gap-1.5">
+                                                                    {cust.options.map((opt) => {
+                                                                        const on = !!component.selectedOptions?.some((o) => o.customizationId === cust.id && o.optionId === opt.id);
+                                                                        return (
+                                                                            <button
+                                                                                key={opt.id}
+                                                                                type="button"
+                                                                                onClick={() => toggleComponentOption(cIdx, cust, opt)}
+                                                                                className={`px-2 py-1 rounded-lg text-[10px] font-semibold border transition-all ${on
+                                                                                    ? "bg-gold-500/20 text-gold-400 border-gold-500/30"
+                                                                                    : "bg-zayko-800 text-zayko-400 border-zayko-700"
+                                                                                    }`}
+                                                                            >
+                                                                                {opt.name}{opt.price ? ` +₹${opt.price}` : ""}
+                                                                            </button>
+                                                                        );
+                                                                    })}
+                                                                </div>
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                );
+                                            })}
+
+                                            {form.components.some((c) => c.itemId) && Number(form.price) > 0 && (
+                                                <p className={`text-xs ${formSavings > 0 ? "text-emerald-400" : "text-amber-400"}`}>
+                                                    {formSavings > 0
+                                                        ? `Saves ₹${formSavings} over ordering these separately`
+                                                        : "Not cheaper than ordering these separately"}
+                                                </p>
+                                            )}
+                                            <p className="text-[10px] text-zayko-500">
+                                                A combo has no stock of its own — it can be ordered while every item in it is in stock, and ordering it uses up their stock.
+                                            </p>
+                                        </div>
+                                    ) : (
+                                        /* Customizations Section */
+                                        <div className="space-y-3 pt-2">
+                                            <div className="flex items-center justify-between">
+                                                <h4 className="text-sm font-bold text-zayko-300 uppercase tracking-wider">Customizations</h4>
+                                                <button
+                                                    type="button"
+                                                    onClick={addCustomization}
+                                                    className="text-xs bg-gold-400/10 text-gold-400 px-2 py-1 rounded-lg hover:bg-gold-400/20 transition-all"
+                                                >
+                                                    + Add Section
+                                                </button>
                                             </div>
-                                        ))}
-                                    </div>
+
+                                            {form.customizations.map((cust, cIdx) => (
+                                                <div key={cust.id} className="p-3 bg-zayko-900/50 border border-zayko-600 rounded-xl space-y-3">
+                                                    <div className="flex gap-2">
+                                                        <input
+                                                            type="text"
+                                                            value={cust.title}
+                                                            onChange={(e) => updateCustomization(cIdx, { title: e.target.value })}
+                                                            placeholder="e.g. Extra Toppings"
+                                                            className="flex-1 bg-zayko-800 border-none rounded-lg px-3 py-2 text-xs text-white placeholder:text-zayko-500 focus:ring-1 focus:ring-gold-400"
+                                                        />
+                                                        <select
+                                                            value={cust.type}
+                                                            onChange={(e) => updateCustomization(cIdx, { type: e.target.value as "single" | "multiple" })}
+                                                            className="bg-zayko-800 border-none rounded-lg px-2 py-2 text-[10px] text-zayko-300 focus:ring-1 focus:ring-gold-400"
+                                                        >
+                                                            <option value="single">Single</option>
+                                                            <option value="multiple">Multiple</option>
+                                                        </select>
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => removeCustomization(cIdx)}
+                                                            className="text-red-400 p-2 hover:bg-red-500/10 rounded-lg"
+                                                        >
+                                                            ✕
+                                                        </button>
+                                                    </div>
+
+                                                    <label className="flex items-center gap-2 text-[10px] text-zayko-400">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={cust.required}
+                                                            onChange={(e) => updateCustomization(cIdx, { required: e.target.checked })}
+                                                            className="accent-gold-500"
+                                                        />
+                                                        Required
+                                                    </label>
+
+                                                    <div className="space-y-2 pl-2 border-l border-zayko-700">
+                                                        {cust.options.map((opt, oIdx) => (
+                                                            <div key={opt.id} className="flex gap-2 items-center">
+                                                                <input
+                                                                    type="text"
+                                                                    value={opt.name}
+                                                                    onChange={(e) => updateOption(cIdx, oIdx, { name: e.target.value })}
+                                                                    placeholder="Option name"
+                                                                    className="flex-1 bg-zayko-800 border-none rounded-lg px-2 py-1.5 text-[10px] text-white placeholder:text-zayko-600 focus:ring-1 focus:ring-gold-400"
+                                                                />
+                                                                <input
+                                                                    type="number"
+                                                                    value={opt.price}
+                                                                    onChange={(e) => updateOption(cIdx, oIdx, { price: Number(e.target.value) })}
+                                                                    placeholder="₹"
+                                                                    className="w-14 bg-zayko-800 border-none rounded-lg px-2 py-1.5 text-[10px] text-gold-400 placeholder:text-zayko-600 focus:ring-1 focus:ring-gold-400"
+                                                                />
+                                                                <button
+                                                                    type="button"
+                                                                    onClick={() => removeOption(cIdx, oIdx)}
+                                                                    className="text-zayko-500 hover:text-red-400"
+                                                                >
+                                                                    ✕
+                                                                </button>
+                                                            </div>
+                                                        ))}
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => addOption(cIdx)}
+                                                            className="text-[10px] text-zayko-400 hover:text-gold-400 p-1 transition-colors"
+                                                        >
+                                                            + Add Option
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
 
                                     <label className="flex items-center gap-2 text-zayko-300 text-sm cursor-pointer border-t border-zayko-700 pt-3">
                                         <input
@@ -679,104 +874,125 @@ export default function AdminMenuPage() {
                                 <div className="col-span-3 text-right">Actions</div>
                             </div>
 
-                            {filteredItems.map((item) => (
-                                <div
-                                    key={item.id}
-                                    className="bg-zayko-800/50 border border-zayko-700 rounded-xl p-4 lg:p-5 lg:grid lg:grid-cols-12 lg:gap-4 lg:items-center"
-                                >
-                                    {/* Name & Description */}
-                                    <div className="col-span-3 mb-2 lg:mb-0">
-                                        <h4 className="font-semibold text-white">
-                                            {item.name}
-                                        </h4>
-                                        {item.description && (
-                                            <p className="text-xs text-zayko-500 truncate">
-                                                {item.description}
-                                            </p>
-                                        )}
-                                    </div>
+                            {filteredItems.map((item) => {
+                                const combo = isCombo(item);
+                                const stock = stockOf(item);
+                                return (
+                                    <div
+                                        key={item.id}
+                                        className="bg-zayko-800/50 border border-zayko-700 rounded-xl p-4 lg:p-5 lg:grid lg:grid-cols-12 lg:gap-4 lg:items-center"
+                                    >
+                                        {/* Name & Description */}
+                                        <div className="col-span-3 mb-2 lg:mb-0">
+                                            <h4 className="font-semibold text-white">
+                                                {item.name}
+                                                {combo && (
+                                                    <span className="ml-2 px-1.5 py-0.5 bg-gold-400/15 text-gold-400 text-[10px] font-bold rounded">
+                                                        COMBO
+                                                    </span>
+                                                )}
+                                            </h4>
+                                            {combo && (
+                                                <p className="text-xs text-zayko-400 truncate">
+                                                    {describeComponents(item.components)}
+                                                </p>
+                                            )}
+                                            {item.description && (
+                                                <p className="text-xs text-zayko-500 truncate">
+                                                    {item.description}
+                                                </p>
+                                            )}
+                                        </div>
 
-                                    {/* Category */}
-                                    <div className="col-span-2 mb-2 lg:mb-0">
-                                        <span className="px-3 py-1 bg-zayko-700 text-zayko-300 text-xs rounded-full capitalize">
-                                            {item.category}
-                                        </span>
-                                    </div>
+                                        {/* Category */}
+                                        <div className="col-span-2 mb-2 lg:mb-0">
+                                            <span className="px-3 py-1 bg-zayko-700 text-zayko-300 text-xs rounded-full capitalize">
+                                                {item.category}
+                                            </span>
+                                        </div>
 
-                                    {/* Price */}
-                                    <div className="col-span-1 text-gold-400 font-bold mb-2 lg:mb-0">
-                                        ₹{item.price}
-                                    </div>
+                                        {/* Price */}
+                                        <div className="col-span-1 text-gold-400 font-bold mb-2 lg:mb-0">
+                                            ₹{item.price}
+                                        </div>
 
-                                    {/* Quantity — Inline Editable */}
-                                    <div className="col-span-1 mb-2 lg:mb-0">
-                                        {editingQuantity === item.id ? (
-                                            <input
-                                                type="number"
-                                                value={tempQuantity}
-                                                onChange={(e) => setTempQuantity(e.target.value)}
-                                                onBlur={() => saveQuantity(item)}
-                                                onKeyDown={(e) => handleQuantityKeyDown(e, item)}
-                                                min={0}
-                                                autoFocus
-                                                className="w-16 px-2 py-1 rounded-lg bg-zayko-700 border border-gold-400 text-white text-sm focus:outline-none"
-                                            />
-                                        ) : (
+                                        {/* Quantity — Inline Editable */}
+                                        <div className="col-span-1 mb-2 lg:mb-0">
+                                            {combo ? (
+                                                <span
+                                                    className={`px-2 py-1 text-sm font-medium ${stock.quantity === 0 ? "text-red-400" : "text-zayko-300"}`}
+                                                    title="From the stock of the items in the combo"
+                                                >
+                                                    {stock.quantity}
+                                                </span>
+                                            ) : editingQuantity === item.id ? (
+                                                <input
+                                                    type="number"
+                                                    value={tempQuantity}
+                                                    onChange={(e) => setTempQuantity(e.target.value)}
+                                                    onBlur={() => saveQuantity(item)}
+                                                    onKeyDown={(e) => handleQuantityKeyDown(e, item)}
+                                                    min={0}
+                                                    autoFocus
+                                                    className="w-16 px-2 py-1 rounded-lg bg-zayko-700 border border-gold-400 text-white text-sm focus:outline-none"
+                                                />
+                                            ) : (
+                                                <button
+                                                    onClick={() => startQuantityEdit(item)}
+                                                    className={`px-2 py-1 rounded-lg text-sm font-medium transition-all hover:bg-zayko-700 ${item.quantity === 0
+                                                        ? "text-red-400"
+                                                        : "text-zayko-300"
+                                                        }`}
+                                                    title="Click to edit quantity"
+                                                >
+                                                    {item.quantity}
+                                                    <span className="ml-1 text-zayko-600 text-xs">
+                                                        ✎
+                                                    </span>
+                                                </button>
+                                            )}
+                                        </div>
+
+                                        {/* Prep Time */}
+                                        <div className="col-span-1 text-zayko-300 text-sm mb-2 lg:mb-0">
+                                            {item.preparationTime
+                                                ? `${item.preparationTime}m`
+                                                : "—"}
+                                        </div>
+
+                                        {/* Availability Status */}
+                                        <div className="col-span-1 mb-3 lg:mb-0">
                                             <button
-                                                onClick={() => startQuantityEdit(item)}
-                                                className={`px-2 py-1 rounded-lg text-sm font-medium transition-all hover:bg-zayko-700 ${item.quantity === 0
-                                                    ? "text-red-400"
-                                                    : "text-zayko-300"
+                                                onClick={() => toggleAvailability(item)}
+                                                className={`px-3 py-1.5 rounded-lg text-xs font-semibold transition-all ${stock.available && stock.quantity > 0
+                                                    ? "bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30"
+                                                    : "bg-red-500/20 text-red-400 hover:bg-red-500/30"
                                                     }`}
-                                                title="Click to edit quantity"
                                             >
-                                                {item.quantity}
-                                                <span className="ml-1 text-zayko-600 text-xs">
-                                                    ✎
-                                                </span>
+                                                {stock.available && stock.quantity > 0
+                                                    ? "✓ Available"
+                                                    : "✗ Unavailable"}
                                             </button>
-                                        )}
-                                    </div>
-
-                                    {/* Prep Time */}
-                                    <div className="col-span-1 text-zayko-300 text-sm mb-2 lg:mb-0">
-                                        {item.preparationTime
-                                            ? `${item.preparationTime}m`
-                                            : "—"}
-                                    </div>
-
-                                    {/* Availability Status */}
-                                    <div className="col-span-1 mb-3 lg:mb-0">
-                                        <button
-                                            onClick={() => toggleAvailability(item)}
-                                            className={`px-3 py-1.5 rounded-lg text-xs font-semibold transition-all ${item.available && item.quantity > 0
-                                                ? "bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30"
-                                                : "bg-red-500/20 text-red-400 hover:bg-red-500/30"
-                                                }`}
-                                        >
-                                            {item.available && item.quantity > 0
-                                                ? "✓ Available"
-                                                : "✗ Unavailable"}
-                                        </button>
-                                    </div>
+                                        </div>
 
-                                    {/* Actions */}
-                                    <div className="col-span-3 flex gap-2 justify-end">
-                                        <button
-                                            onClick={() => openEdit(item)}
-                                            className="px-3 py-1.5 bg-blue-500/20 text-blue-400 rounded-lg text-xs font-medium hover:bg-blue-500/30 transition-all"
-                                        >
-                                            ✏️ Edit
-                                        </button>
-                                        <button
-                                            onClick={() => deleteItem(item.id)}
-                                            className="px-3 py-1.5 bg-red-500/20 text-red-400 rounded-lg text-xs font-medium hover:bg-red-500/30 transition-all"
-                                        >
-                                            🗑️ Delete
-                                        </button>
+                                        {/* Actions */}
+                                        <div className="col-span-3 flex gap-2 justify-end">
+                                            <button
+                                                onClick={() => openEdit(item)}
+                                                className="px-3 py-1.5 bg-blue-500/20 text-blue-400 rounded-lg text-xs font-medium hover:bg-blue-500/30 transition-all"
+                                            >
+                                                ✏️ Edit
+                                            </button>
+                                            <button
+                                                onClick={() => deleteItem(item.id)}
+                                                className="px-3 py-1.5 bg-red-500/20 text-red-400 rounded-lg text-xs font-medium hover:bg-red-500/30 transition-all"
+                                            >
+                                                🗑️ Delete
+                                            </button>
+                                        </div>
                                     </div>
-                                </div>
-                            ))}
+                                );
+                            })}
                         </div>
                     )}
                 </div>
@@ -1,18 +1,28 @@
 "use client";
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import AdminGuard from "@/components/AdminGuard";
 import Link from "next/link";
 import { db } from "@/lib/firebase";
-import { collection, onSnapshot, query, orderBy } from "firebase/firestore";
+import { collection, onSnapshot, query, orderBy, limit, where } from "firebase/firestore";
 import toast from "react-hot-toast";
 import { useCountdown } from "@/hooks/useCountdown";
 import InvoiceModal from "@/components/InvoiceModal";
 import ThermalReceipt from "@/components/ThermalReceipt";
+import OrderTimeline from "@/components/OrderTimeline";
+import { ORDER_STATUSES, canTransition } from "@/lib/order-status";
+import { getAdminHeaders, getAdminOutletId, getOrders, type AdminOrderFilters } from "@/services/adminService";
+import { useKitchenOrders } from "@/hooks/useKitchenOrders";
+import { formatPickupTime, isPrepDue } from "@/lib/pickup-slots";
+import { lineAmount } from "@/lib/promotions";
+import type { OrderDiscount, OrderStatus, OrderStatusChange } from "@/types";
 
 interface OrderItem {
     name: string;
     price: number;
     quantity: number;
+    rejected?: boolean;
+    memberName?: string;
+    discount?: number;
 }
 
 interface AdminOrder {
@@ -23,17 +33,23 @@ interface AdminOrder {
     userPhone?: string;
     userRollNumber?: string;
     items: OrderItem[];
+    subtotal?: number;
+    discounts?: OrderDiscount[];
     total: number;
+    refundedAmount?: number;
     paymentMode?: string;
-    status: string;
+    status: OrderStatus;
     prepTime?: number;
     estimatedReadyAt?: string;
     readyAt?: string;
+    pickupAt?: string;
+    prepStartAt?: string;
     createdAt: string;
 }
 
-const STATUS_OPTIONS = ["pending", "confirmed", "preparing", "ready", "completed", "cancelled"];
+const STATUS_OPTIONS = ORDER_STATUSES;
 const PREP_TIMES = [5, 10, 15, 20, 30];
+const REJECTABLE_STATUSES = ["pending", "confirmed", "preparing", "ready"];
 
 const statusColors: Record<string, string> = {
     pending: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
@@ -44,6 +60,24 @@ const statusColors: Record<string, string> = {
     cancelled: "bg-red-500/20 text-red-400 border-red-500/30",
 };
 
+/* ─── Pre-order Badge ────────────────────────────────────── */
+function PickupBadge({ order, now }: { order: AdminOrder; now: number }) {
+    if (!order.pickupAt) return null;
+    const waiting = order.status === "pending" || order.status === "confirmed";
+    const due = isPrepDue(order, now);
+    return (
+        <span className={`px-3 py-1 rounded-full text-xs font-semibold border ${waiting && due
+            ? "bg-red-500/20 text-red-300 border-red-500/30 animate-pulse"
+            : "bg-gold-500/10 text-gold-400 border-gold-500/30"
+            }`}>
+            ⏰ Pickup {formatPickupTime(order.pickupAt)}
+            {waiting && order.prepStartAt && (due
+                ? " · start prep now"
+                : ` · prep from ${new Date(order.prepStartAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`)}
+        </span>
+    );
+}
+
 /* ─── Admin Countdown Display ────────────────────────────── */
 function AdminCountdown({ readyAt }: { readyAt?: string }) {
     const { formatted, isExpired, totalSeconds } = useCountdown(readyAt);
@@ -56,13 +90,33 @@ function AdminCountdown({ readyAt }: { readyAt?: string }) {
     );
 }
 
+const PAGE_SIZE = 25;
+const PAYMENT_MODES = ["Wallet"];
+
 export default function AdminOrdersPage() {
     const [orders, setOrders] = useState<AdminOrder[]>([]);
     const [loading, setLoading] = useState(true);
-    const [filter, setFilter] = useState("all");
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [counts, setCounts] = useState<Partial<Record<OrderStatus, number>>>({});
+    const [filter, setFilter] = useState<"all" | OrderStatus>("all");
+    const [fromDate, setFromDate] = useState("");
+    const [toDate, setToDate] = useState("");
+    const [paymentMode, setPaymentMode] = useState("");
     const [customPrepTimes, setCustomPrepTimes] = useState<Record<string, string>>({});
     const [invoiceOrder, setInvoiceOrder] = useState<AdminOrder | null>(null);
     const [receiptOrder, setReceiptOrder] = useState<AdminOrder | null>(null);
+    const [openTimelines, setOpenTimelines] = useState<Record<string, OrderStatusChange[] | null>>({});
+
+    // Active pre-orders, live — surfaced here once their prep should start
+    const [outletId] = useState(() => getAdminOutletId());
+    const { orders: kitchenOrders } = useKitchenOrders(outletId);
+    const [now, setNow] = useState(() => Date.now());
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 30000);
+        return () => clearInterval(interval);
+    }, []);
+    const preOrders = useMemo(() => kitchenOrders.filter((o) => o.pickupAt), [kitchenOrders]);
 
     // Search state
     const [searchTerm, setSearchTerm] = useState("");
@@ -72,67 +126,161 @@ export default function AdminOrdersPage() {
     // Debounce search input
     useEffect(() => {
         const timer = setTimeout(() => {
-            setDebouncedSearch(searchTerm);
+            setDebouncedSearch(searchTerm.trim());
         }, 300);
         return () => clearTimeout(timer);
     }, [searchTerm]);
 
-    // Real-time subscription
+    // "ZKO…" searches by order ID prefix, anything else by roll number
+    const filters = useMemo<AdminOrderFilters>(() => {
+        const isOrderIdSearch = /^zko/i.test(debouncedSearch);
+        return {
+            status: filter === "all" ? undefined : filter,
+            paymentMode: paymentMode || undefined,
+            orderId: isOrderIdSearch ? debouncedSearch : undefined,
+            rollNumber: debouncedSearch && !isOrderIdSearch ? debouncedSearch : undefined,
+            from: isOrderIdSearch ? undefined : fromDate || undefined,
+            to: isOrderIdSearch ? undefined : toDate || undefined,
+        };
+    }, [filter, paymentMode, debouncedSearch, fromDate, toDate]);
+
+    // How many orders are on screen, so live refreshes keep "load more" pages
+    const loadedCountRef = useRef(PAGE_SIZE);
+    loadedCountRef.current = Math.max(PAGE_SIZE, orders.length);
+
+    const loadOrders = useCallback(async (count = PAGE_SIZE) => {
+        try {
+            const data = await getOrders(filters, { limit: Math.min(count, 100) });
+            setOrders(data.orders as AdminOrder[]);
+            setNextCursor(data.nextCursor);
+            if (data.counts) setCounts(data.counts);
+        } catch (error) {
+            console.error("Failed to load orders:", error);
+            toast.error(error instanceof Error ? error.message : "Failed to load orders");
+        } finally {
+            setLoading(false);
+        }
+    }, [filters]);
+
+    // Reload from the first page whenever the filters change
     useEffect(() => {
-        const q = query(collection(db, "orders"), orderBy("createdAt", "desc"));
+        setLoading(true);
+        loadOrders();
+    }, [loadOrders]);
+
+    // Live refresh: watch only the most recently touched order and reload
+    // the visible pages when it changes (new order, status change, refund)
+    useEffect(() => {
+        let first = true;
+        const q = query(
+            collection(db, "orders"),
+            where("outletId", "==", getAdminOutletId()),
+            orderBy("updatedAt", "desc"),
+            limit(1)
+        );
         const unsubscribe = onSnapshot(
             q,
-            (snapshot) => {
-                const orderList = snapshot.docs.map((doc) => ({
-                    id: doc.id,
-                    ...doc.data(),
-                })) as AdminOrder[];
-                setOrders(orderList);
-                setLoading(false);
+            () => {
+                if (first) { first = false; return; }
+                loadOrders(loadedCountRef.current);
             },
             (error) => {
                 console.error("Admin orders listener error:", error);
                 toast.error("Failed to sync orders in real-time. Check connectivity.");
-                setLoading(false);
             }
         );
         return () => unsubscribe();
-    }, []);
+    }, [loadOrders]);
+
+    const loadMore = async () => {
+        if (!nextCursor) return;
+        setLoadingMore(true);
+        try {
+            const data = await getOrders(filters, { cursor: nextCursor, limit: PAGE_SIZE });
+            setOrders((prev) => [...prev, ...(data.orders as AdminOrder[])]);
+            setNextCursor(data.nextCursor);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to load orders");
+        } finally {
+            setLoadingMore(false);
+        }
+    };
 
     const updateOrder = async (orderId: string, data: { status?: string; prepTime?: number }) => {
         try {
-            const token = localStorage.getItem("adminToken");
             const res = await fetch("/api/admin/orders", {
                 method: "PATCH",
-                headers: {
-                    "Content-Type": "application/json",
-                    Authorization: `Bearer ${token}`,
-                },
+                headers: getAdminHeaders(),
                 body: JSON.stringify({ orderId, ...data }),
             });
-            if ((await res.json()).success) {
+            const result = await res.json();
+            if (result.success) {
                 toast.success("Order updated!");
+                // Refresh an open timeline so the new entry shows up
+                if (orderId in openTimelines) fetchTimeline(orderId);
+            } else {
+                toast.error(result.error || "Failed to update order");
             }
         } catch {
             toast.error("Failed to update order");
         }
     };
 
-    // Filter orders by status and search term
-    const filteredOrders = orders.filter((o) => {
-        const matchesStatus = filter === "all" || o.status === filter;
-        const matchesSearch = !debouncedSearch ||
-            o.orderId.toLowerCase().includes(debouncedSearch.toLowerCase()) ||
-            o.userName.toLowerCase().includes(debouncedSearch.toLowerCase());
-        return matchesStatus && matchesSearch;
-    });
+    const rejectItem = async (order: AdminOrder, lineIndex: number) => {
+        const item = order.items[lineIndex];
+        if (!confirm(`Mark ${item.name} × ${item.quantity} as unavailable and refund ₹${lineAmount(item)}?`)) return;
+        try {
+            const res = await fetch("/api/admin/orders/reject-items", {
+                method: "POST",
+                headers: getAdminHeaders(),
+                body: JSON.stringify({ orderId: order.id, lineIndexes: [lineIndex] }),
+            });
+            const result = await res.json();
+            if (result.success) {
+                toast.success(`Refunded ₹${result.refunded} for ${item.name}`);
+            } else {
+                toast.error(result.error || "Failed to reject item");
+            }
+        } catch {
+            toast.error("Failed to reject item");
+        }
+    };
+
+    const fetchTimeline = async (orderId: string) => {
+        setOpenTimelines((prev) => ({ ...prev, [orderId]: prev[orderId] ?? null }));
+        try {
+            const res = await fetch(`/api/admin/orders/history?orderId=${encodeURIComponent(orderId)}`, {
+                headers: getAdminHeaders(false),
+            });
+            const data = await res.json();
+            setOpenTimelines((prev) => ({ ...prev, [orderId]: data.history || [] }));
+        } catch {
+            toast.error("Failed to load timeline");
+            setOpenTimelines((prev) => ({ ...prev, [orderId]: [] }));
+        }
+    };
+
+    const toggleTimeline = (orderId: string) => {
+        if (orderId in openTimelines) {
+            setOpenTimelines((prev) => {
+                const next = { ...prev };
+                delete next[orderId];
+                return next;
+            });
+        } else {
+            fetchTimeline(orderId);
+        }
+    };
+
+    // Filtering happens server-side; the list is already the result
+    const filteredOrders = orders;
 
-    const pendingCount = orders.filter((o) => o.status === "pending").length;
-    const preparingCount = orders.filter((o) => o.status === "preparing").length;
+    const pendingCount = counts.pending || 0;
+    const preparingCount = counts.preparing || 0;
 
     // Auto-scroll to highlighted order when search changes
     useEffect(() => {
-        if (debouncedSearch && filteredOrders.length > 0) {
+        if (/^zko/i.test(debouncedSearch) && filteredOrders.length > 0) {
             const topMatch = filteredOrders[0];
             setHighlightOrderId(topMatch.orderId);
             setTimeout(() => {
@@ -178,7 +326,7 @@ export default function AdminOrdersPage() {
                             <span className="absolute left-4 top-1/2 -translate-y-1/2 text-xl">🔍</span>
                             <input
                                 type="text"
-                                placeholder="Search by Order ID or Customer Name..."
+                                placeholder="Search by Order ID (ZKO…) or Roll Number..."
                                 value={searchTerm}
                                 onChange={(e) => setSearchTerm(e.target.value)}
                                 className="w-full pl-12 pr-12 py-3 bg-zayko-800 border border-zayko-600 rounded-xl text-white placeholder-zayko-400 focus:outline-none focus:ring-2 focus:ring-gold-500 transition-all font-mono"
@@ -194,9 +342,82 @@ export default function AdminOrdersPage() {
                         </div>
                     </div>
 
+                    {/* Pre-orders: due ones first, tap to jump to the order */}
+                    {preOrders.length > 0 && (
+                        <div className="mb-6 bg-zayko-800/50 border border-zayko-700 rounded-2xl p-4">
+                            <h2 className="text-sm font-bold text-white mb-3">⏰ Pre-orders ({preOrders.length})</h2>
+                            <div className="flex flex-wrap gap-2">
+                                {preOrders.map((order) => {
+                                    const due = isPrepDue(order, now);
+                                    return (
+                                        <button
+                                            key={order.id}
+                                            onClick={() => setSearchTerm(order.orderId)}
+                                            className={`px-3 py-2 rounded-xl text-xs text-left border transition-all ${due
+                                                ? "bg-red-500/10 border-red-500/30 text-red-300 hover:bg-red-500/20"
+                                                : "bg-zayko-800 border-zayko-600 text-zayko-300 hover:bg-zayko-700"
+                                                }`}
+                                        >
+                                            <span className="font-mono font-bold text-white">#{order.orderId}</span>
+                                            <span className="capitalize"> · {order.status}</span>
+                                            <br />
+                                            Pickup {formatPickupTime(order.pickupAt!)}
+                                            {due ? " · start now" : ` · prep from ${new Date(order.prepStartAt!).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Date Range + Payment Mode */}
+                    <div className="flex flex-wrap items-end gap-3 mb-4">
+                        <label className="text-xs text-zayko-400">
+                            From
+                            <input
+                                type="date"
+                                value={fromDate}
+                                onChange={(e) => setFromDate(e.target.value)}
+                                disabled={/^zko/i.test(debouncedSearch)}
+                                className="block mt-1 px-3 py-2 bg-zayko-800 border border-zayko-600 rounded-xl text-white text-sm disabled:opacity-40"
+                            />
+                        </label>
+                        <label className="text-xs text-zayko-400">
+                            To
+                            <input
+                                type="date"
+                                value={toDate}
+                                onChange={(e) => setToDate(e.target.value)}
+                                disabled={/^zko/i.test(debouncedSearch)}
+                                className="block mt-1 px-3 py-2 bg-zayko-800 border border-zayko-600 rounded-xl text-white text-sm disabled:opacity-40"
+                            />
+                        </label>
+                        <label className="text-xs text-zayko-400">
+                            Payment
+                            <select
+                                value={paymentMode}
+                                onChange={(e) => setPaymentMode(e.target.value)}
+                                className="block mt-1 px-3 py-2 bg-zayko-800 border border-zayko-600 rounded-xl text-white text-sm"
+                            >
+                                <option value="">All</option>
+                                {PAYMENT_MODES.map((m) => (
+                                    <option key={m} value={m}>{m}</option>
+                                ))}
+                            </select>
+                        </label>
+                        {(fromDate || toDate || paymentMode) && (
+                            <button
+                                onClick={() => { setFromDate(""); setToDate(""); setPaymentMode(""); }}
+                                className="px-3 py-2 text-sm text-zayko-400 hover:text-white transition-colors"
+                            >
+                                Clear filters
+                            </button>
+                        )}
+                    </div>
+
                     {/* Status Filters */}
                     <div className="flex gap-2 overflow-x-auto pb-4 mb-6">
-                        {["all", ...STATUS_OPTIONS].map((s) => (
+                        {(["all", ...STATUS_OPTIONS] as const).map((s) => (
                             <button
                                 key={s}
                                 onClick={() => setFilter(s)}
@@ -205,7 +426,7 @@ export default function AdminOrdersPage() {
                                     : "bg-zayko-800 text-zayko-400 hover:bg-zayko-700"
                                     }`}
                             >
-                                {s} {s !== "all" && `(${orders.filter((o) => o.status === s).length})`}
+                                {s} {s !== "all" && `(${counts[s] ?? 0})`}
                             </button>
                         ))}
                     </div>
@@ -247,6 +468,7 @@ export default function AdminOrdersPage() {
                                                     {(order.status === "preparing" || order.status === "confirmed") && (
                                                         <AdminCountdown readyAt={order.readyAt || order.estimatedReadyAt} />
                                                     )}
+                                                    <PickupBadge order={order} now={now} />
                                                 </div>
                                                 <div className="flex items-center gap-3 mt-1 text-sm text-zayko-400">
                                                     <span>👤 {order.userName}</span>
@@ -260,12 +482,46 @@ export default function AdminOrdersPage() {
 
                                     {/* Items */}
                                     <div className="p-5 border-b border-zayko-700 bg-zayko-800/30">
-                                        {order.items.map((item, idx) => (
-                                            <div key={idx} className="flex justify-between py-1 text-sm">
-                                                <span className="text-zayko-300">{item.name} × {item.quantity}</span>
-                                                <span className="text-zayko-400">₹{item.price * item.quantity}</span>
+                                        {order.items.map((item, idx) => {
+                                            const activeLines = order.items.filter((i) => !i.rejected).length;
+                                            const canReject = !item.rejected && activeLines > 1 && REJECTABLE_STATUSES.includes(order.status);
+                                            return (
+                                                <div key={idx} className="flex justify-between items-center py-1 text-sm gap-3">
+                                                    <span className={item.rejected ? "text-zayko-600 line-through" : "text-zayko-300"}>
+                                                        {item.name} × {item.quantity}
+                                                        {item.memberName && <span className="text-zayko-500"> · {item.memberName}</span>}
+                                                    </span>
+                                                    <span className="flex items-center gap-2">
+                                                        {item.rejected ? (
+                                                            <span className="text-xs font-semibold text-red-400">Unavailable · refunded</span>
+                                                        ) : (
+                                                            <span className="text-zayko-400">₹{item.price * item.quantity}</span>
+                                                        )}
+                                                        {canReject && (
+                                                            <button
+                                                                onClick={() => rejectItem(order, idx)}
+                                                                title="Mark unavailable and refund this line"
+                                                                className="px-2 py-0.5 rounded-md text-xs font-bold bg-red-500/10 text-red-400 hover:bg-red-500/20 transition-all"
+                                                            >
+                                                                ✗
+                                                            </button>
+                                                        )}
+                                                    </span>
+                                                </div>
+                                            );
+                                        })}
+                                        {order.discounts?.map((discount) => (
+                                            <div key={discount.promotionId} className="flex justify-between py-1 text-xs">
+                                                <span className="text-emerald-400">🏷️ {discount.label}{discount.code ? ` (${discount.code})` : ""}</span>
+                                                <span className="text-emerald-400">−₹{discount.amount}</span>
                                             </div>
                                         ))}
+                                        {!!order.refundedAmount && (
+                                            <div className="flex justify-between pt-2 mt-1 border-t border-zayko-700 text-xs">
+                                                <span className="text-zayko-500">Refunded (unavailable items)</span>
+                                                <span className="text-red-400">−₹{order.refundedAmount}</span>
+                                            </div>
+                                        )}
                                     </div>
 
                                     {/* Controls */}
@@ -277,10 +533,12 @@ export default function AdminOrdersPage() {
                                                 <button
                                                     key={s}
                                                     onClick={() => updateOrder(order.id, { status: s })}
-                                                    disabled={order.status === s}
+                                                    disabled={order.status === s || !canTransition(order.status, s)}
                                                     className={`px-3 py-1.5 rounded-lg text-xs font-medium capitalize transition-all ${order.status === s
                                                         ? "bg-gold-500 text-zayko-900"
-                                                        : "bg-zayko-700 text-zayko-300 hover:bg-zayko-600"
+                                                        : canTransition(order.status, s)
+                                                            ? "bg-zayko-700 text-zayko-300 hover:bg-zayko-600"
+                                                            : "bg-zayko-800 text-zayko-600 cursor-not-allowed"
                                                         }`}
                                                 >
                                                     {s}
@@ -356,10 +614,38 @@ export default function AdminOrdersPage() {
                                             >
                                                 🧾 Receipt
                                             </button>
+
+                                            {/* Status Timeline */}
+                                            <button
+                                                onClick={() => toggleTimeline(order.id)}
+                                                className="px-4 py-2 rounded-xl text-sm font-bold bg-zayko-700 text-zayko-200 hover:bg-zayko-600 transition-all"
+                                            >
+                                                🕓 Timeline
+                                            </button>
                                         </div>
+
+                                        {order.id in openTimelines && (
+                                            <div className="pt-3 border-t border-zayko-700">
+                                                <OrderTimeline
+                                                    entries={openTimelines[order.id] || []}
+                                                    loading={openTimelines[order.id] === null}
+                                                    showActor
+                                                />
+                                            </div>
+                                        )}
                                     </div>
                                 </div>
                             ))}
+
+                            {nextCursor && (
+                                <button
+                                    onClick={loadMore}
+                                    disabled={loadingMore}
+                                    className="w-full py-3 rounded-2xl bg-zayko-800 border border-zayko-700 text-zayko-300 font-semibold hover:bg-zayko-700 transition-all disabled:opacity-50"
+                                >
+                                    {loadingMore ? "Loading..." : "Load more orders"}
+                                </button>
+                            )}
                         </div>
                     )}
                 </div>
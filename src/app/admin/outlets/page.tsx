@@ -0,0 +1,286 @@
+/**
+ * Admin Outlets Page — Campus outlets, their admin accounts, and the
+ * one-off migration of pre-outlet data to the main outlet (super admin only)
+ */
+
+"use client";
+
+import React, { useEffect, useState } from "react";
+import AdminGuard from "@/components/AdminGuard";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import { getAdminOutlets, isOutletScopedAdmin, manageOutlets } from "@/services/adminService";
+import { DEFAULT_OUTLET_ID, OUTLET_ID_PATTERN } from "@/lib/outlets";
+import type { Outlet, OutletAdmin } from "@/types";
+
+const EMPTY_OUTLET = { id: "", name: "", description: "", location: "", active: true };
+
+export default function AdminOutletsPage() {
+    const [outlets, setOutlets] = useState<Outlet[]>([]);
+    const [admins, setAdmins] = useState<OutletAdmin[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [form, setForm] = useState(EMPTY_OUTLET);
+    const [editing, setEditing] = useState(false);
+    const [adminForm, setAdminForm] = useState({ username: "", password: "", outletId: DEFAULT_OUTLET_ID });
+    const [migrating, setMigrating] = useState(false);
+    const [scoped] = useState(() => isOutletScopedAdmin());
+
+    const load = async () => {
+        try {
+            const data = await getAdminOutlets();
+            setOutlets(data.outlets);
+            setAdmins(data.admins);
+        } catch {
+            toast.error("Failed to load outlets");
+        }
+        setLoading(false);
+    };
+
+    useEffect(() => {
+        load();
+    }, []);
+
+    const saveOutlet = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!OUTLET_ID_PATTERN.test(form.id)) {
+            toast.error("Outlet ID must be 2–30 lowercase letters, digits or dashes");
+            return;
+        }
+        setSaving(true);
+        const result = await manageOutlets({ action: "save_outlet", outlet: form });
+        if (result.success) {
+            toast.success(editing ? "Outlet updated ✅" : "Outlet created ✅");
+            setForm(EMPTY_OUTLET);
+            setEditing(false);
+            load();
+        } else {
+            toast.error(result.error || "Failed to save outlet");
+        }
+        setSaving(false);
+    };
+
+    const toggleActive = async (outlet: Outlet) => {
+        const result = await manageOutlets({ action: "save_outlet", outlet: { ...outlet, active: !outlet.active } });
+        if (result.success) load();
+        else toast.error(result.error || "Failed to update outlet");
+    };
+
+    const createAdmin = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        const result = await manageOutlets({ action: "create_admin", ...adminForm });
+        if (result.success) {
+            toast.success(`Admin ${adminForm.username} created`);
+            setAdminForm({ username: "", password: "", outletId: adminForm.outletId });
+            load();
+        } else {
+            toast.error(result.error || "Failed to create admin");
+        }
+        setSaving(false);
+    };
+
+    const deleteAdmin = async (username: string) => {
+        if (!confirm(`Remove admin ${username}? They will be signed out when their session expires.`)) return;
+        const result = await manageOutlets({ action: "delete_admin", username });
+        if (result.success) load();
+        else toast.error(result.error || "Failed to remove admin");
+    };
+
+    const assignLegacy = async () => {
+        if (!confirm("Assign every menu item, order and canteen entry without an outlet to the main outlet?")) return;
+        setMigrating(true);
+        const result = await manageOutlets({ action: "assign_legacy" });
+        if (result.success && result.updated) {
+            const total = Object.values(result.updated).reduce((sum, n) => sum + n, 0);
+            toast.success(`${total} records assigned to the main outlet`);
+        } else {
+            toast.error(result.error || "Migration failed");
+        }
+        setMigrating(false);
+    };
+
+    const outletName = (id: string) => outlets.find((o) => o.id === id)?.name || id;
+
+    return (
+        <AdminGuard>
+            <div className="min-h-screen bg-zayko-900 pb-12">
+                {/* Header */}
+                <div className="bg-zayko-800 border-b border-zayko-700 px-6 py-4 sticky top-0 z-20">
+                    <div className="max-w-5xl mx-auto flex items-center gap-3">
+                        <Link href="/admin/dashboard" className="text-zayko-400 hover:text-white transition-colors">
+                            ← Dashboard
+                        </Link>
+                        <h1 className="text-xl font-display font-bold text-white">🏬 Outlets</h1>
+                    </div>
+                </div>
+
+                {scoped ? (
+                    <div className="max-w-5xl mx-auto px-6 mt-8 text-center text-zayko-400">
+                        Only the campus admin can manage outlets.
+                    </div>
+                ) : loading ? (
+                    <div className="flex items-center justify-center py-20">
+                        <div className="w-12 h-12 border-4 border-gold-400 border-t-transparent rounded-full animate-spin"></div>
+                    </div>
+                ) : (
+                    <div className="max-w-5xl mx-auto px-6 mt-8 space-y-8">
+                        {/* Outlet list */}
+                        <div className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6">
+                            <h3 className="text-white font-display font-bold text-lg mb-4">Outlets</h3>
+                            <div className="space-y-3">
+                                {outlets.map((o) => (
+                                    <div key={o.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-2xl bg-zayko-900/50 border border-zayko-700">
+                                        <div>
+                                            <p className="text-white font-semibold">
+                                                {o.name} <span className="text-zayko-500 text-xs font-mono ml-1">{o.id}</span>
+                                            </p>
+                                            <p className="text-zayko-400 text-sm">
+                                                {[o.location, o.description].filter(Boolean).join(" · ") || "—"}
+                                            </p>
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            <span className={`px-2 py-1 rounded-md text-xs font-semibold border ${o.active ? "bg-emerald-500/10 text-emerald-400 border-emerald-500/20" : "bg-red-500/10 text-red-400 border-red-500/20"}`}>
+                                                {o.active ? "Active" : "Inactive"}
+                                            </span>
+                                            <button
+                                                onClick={() => {
+                                                    setForm({ id: o.id, name: o.name, description: o.description || "", location: o.location || "", active: o.active });
+                                                    setEditing(true);
+                                                }}
+                                                className="px-3 py-1.5 text-sm bg-zayko-700 hover:bg-zayko-600 text-zayko-200 rounded-lg"
+                                            >
+                                                Edit
+                                            </button>
+                                            {o.id !== DEFAULT_OUTLET_ID && (
+                                                <button
+                                                    onClick={() => toggleActive(o)}
+                                                    className="px-3 py-1.5 text-sm bg-zayko-700 hover:bg-zayko-600 text-zayko-200 rounded-lg"
+                                                >
+                                                    {o.active ? "Deactivate" : "Activate"}
+                                                </button>
+                                            )}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Create / edit outlet */}
+                        <form onSubmit={saveOutlet} className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6 space-y-4">
+                            <h3 className="text-white font-display font-bold text-lg">{editing ? `Edit ${form.name}` : "Add Outlet"}</h3>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <input
+                                    value={form.id}
+                                    onChange={(e) => setForm({ ...form, id: e.target.value.toLowerCase() })}
+                                    disabled={editing}
+                                    placeholder="ID (e.g. library-cafe)"
+                                    className="px-4 py-3 bg-zayko-900 border border-zayko-600 rounded-xl text-white font-mono text-sm disabled:opacity-50"
+                                />
+                                <input
+                                    value={form.name}
+                                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                                    placeholder="Name"
+                                    className="px-4 py-3 bg-zayko-900 border border-zayko-600 rounded-xl text-white text-sm"
+                                />
+                                <input
+                                    value={form.location}
+                                    onChange={(e) => setForm({ ...form, location: e.target.value })}
+                                    placeholder="Location (optional)"
+                                    className="px-4 py-3 bg-zayko-900 border border-zayko-600 rounded-xl text-white text-sm"
+                                />
+                                <input
+                                    value={form.description}
+                                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                                    placeholder="Description (optional)"
+                                    className="px-4 py-3 bg-zayko-900 border border-zayko-600 rounded-xl text-white text-sm"
+                                />
+                            </div>
+                            <div className="flex gap-3">
+                                {editing && (
+                                    <button
+                                        type="button"
+                                        onClick={() => { setForm(EMPTY_OUTLET); setEditing(false); }}
+                                        className="px-6 py-3 bg-zayko-700 text-zayko-300 rounded-xl font-medium hover:bg-zayko-600"
+                                    >
+                                        Cancel
+                                    </button>
+                                )}
+                                <button type="submit" disabled={saving || !form.id || !form.name} className="btn-gold px-6 py-3 disabled:opacity-50">
+                                    {saving ? "Saving..." : editing ? "Save Outlet" : "Add Outlet"}
+                                </button>
+                            </div>
+                            <p className="text-zayko-500 text-xs">
+                                New outlets start with an empty menu. Switch to the outlet from the dashboard to add items, set hours and manage orders.
+                            </p>
+                        </form>
+
+                        {/* Outlet admins */}
+                        <div className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6 space-y-4">
+                            <h3 className="text-white font-display font-bold text-lg">Outlet Admins</h3>
+                            <p className="text-zayko-500 text-sm">Outlet admins sign in on the admin page and only see their own outlet.</p>
+                            {admins.length === 0 ? (
+                                <div className="text-center py-4 text-zayko-500">No outlet admins yet.</div>
+                            ) : (
+                                <div className="space-y-2">
+                                    {admins.map((a) => (
+                                        <div key={a.username} className="flex items-center justify-between p-3 rounded-xl bg-zayko-900/50 border border-zayko-700">
+                                            <div>
+                                                <p className="text-white font-mono text-sm">{a.username}</p>
+                                                <p className="text-zayko-400 text-xs">{outletName(a.outletId)} · added by {a.createdBy}</p>
+                                            </div>
+                                            <button onClick={() => deleteAdmin(a.username)} className="px-3 py-1.5 text-sm text-red-400 hover:bg-red-500/10 rounded-lg">
+                                                Remove
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                            <form onSubmit={createAdmin} className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+                                <input
+                                    value={adminForm.username}
+                                    onChange={(e) => setAdminForm({ ...adminForm, username: e.target.value.toLowerCase() })}
+                                    placeholder="Username"
+                                    className="px-4 py-3 bg-zayko-900 border border-zayko-600 rounded-xl text-white font-mono text-sm"
+                                />
+                                <input
+                                    type="password"
+                                    value={adminForm.password}
+                                    onChange={(e) => setAdminForm({ ...adminForm, password: e.target.value })}
+                                    placeholder="Password (min 8)"
+                                    className="px-4 py-3 bg-zayko-900 border border-zayko-600 rounded-xl text-white text-sm"
+                                />
+                                <select
+                                    value={adminForm.outletId}
+                                    onChange={(e) => setAdminForm({ ...adminForm, outletId: e.target.value })}
+                                    className="px-4 py-3 bg-zayko-900 border border-zayko-600 rounded-xl text-white text-sm"
+                                >
+                                    {outlets.map((o) => <option key={o.id} value={o.id}>{o.name}</option>)}
+                                </select>
+                                <button type="submit" disabled={saving || !adminForm.username || !adminForm.password} className="btn-gold py-3 disabled:opacity-50">
+                                    Add Admin
+                                </button>
+                            </form>
+                        </div>
+
+                        {/* Legacy data */}
+                        <div className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6">
+                            <h3 className="text-white font-display font-bold text-lg mb-1">Data from before outlets</h3>
+                            <p className="text-zayko-500 text-sm mb-4">
+                                Menu items, orders and canteen entries created before outlets existed belong to {outletName(DEFAULT_OUTLET_ID)}.
+                                Run this once after upgrading so outlet filters include them.
+                            </p>
+                            <button
+                                onClick={assignLegacy}
+                                disabled={migrating}
+                                className="px-6 py-3 bg-zayko-700 hover:bg-zayko-600 text-zayko-200 rounded-xl font-medium disabled:opacity-50"
+                            >
+                                {migrating ? "Assigning..." : "Assign to main outlet"}
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </AdminGuard>
+    );
+}
@@ -2,6 +2,8 @@
 import React, { useState } from "react";
 import { useRouter } from "next/navigation";
 import toast from "react-hot-toast";
+import { DEFAULT_OUTLET_ID } from "@/lib/outlets";
+import { setAdminOutlet } from "@/services/adminService";
 
 export default function AdminLoginPage() {
     const router = useRouter();
@@ -27,6 +29,7 @@ export default function AdminLoginPage() {
             const data = await res.json();
             if (data.success) {
                 localStorage.setItem("adminToken", data.token);
+                setAdminOutlet(data.outletId || DEFAULT_OUTLET_ID, !!data.outletId);
                 toast.success("Welcome, Admin! 🎉");
                 router.push("/admin/dashboard");
             } else {
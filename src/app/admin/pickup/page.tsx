@@ -0,0 +1,222 @@
+/**
+ * Pickup Scanner — Counter staff scan the student's pickup QR.
+ *
+ * Uses the device camera via the browser's BarcodeDetector API (Chrome /
+ * Android). Where that isn't available, the order ID and 6-digit code can
+ * be typed in from the student's screen instead.
+ */
+
+"use client";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import AdminGuard from "@/components/AdminGuard";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import { verifyPickup, type PickupTarget } from "@/services/adminService";
+import { parsePickupPayload } from "@/lib/pickup";
+import type { Order } from "@/types";
+
+// BarcodeDetector isn't in the TS DOM lib yet
+interface DetectedBarcode { rawValue: string }
+interface BarcodeDetectorLike { detect(source: HTMLVideoElement): Promise<DetectedBarcode[]> }
+type BarcodeDetectorCtor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+type VerifiedOrder = Pick<Order, "id" | "orderId" | "userName" | "userRollNumber" | "items" | "total">;
+
+export default function PickupScannerPage() {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const busyRef = useRef(false);
+    const [cameraSupported, setCameraSupported] = useState(true);
+    const [scanning, setScanning] = useState(false);
+    const [verified, setVerified] = useState<VerifiedOrder | null>(null);
+    const [lastError, setLastError] = useState<string | null>(null);
+    const [manualOrderId, setManualOrderId] = useState("");
+    const [manualToken, setManualToken] = useState("");
+
+    const submit = useCallback(async (target: PickupTarget, token: string) => {
+        if (busyRef.current) return;
+        busyRef.current = true;
+        setLastError(null);
+        try {
+            const result = await verifyPickup(target, token);
+            if (result.success && result.order) {
+                setVerified(result.order);
+                toast.success(`#${result.order.orderId} handed over ✅`);
+                setManualOrderId("");
+                setManualToken("");
+            } else {
+                setVerified(null);
+                setLastError(result.error || "Verification failed");
+                toast.error(result.error || "Verification failed");
+            }
+        } catch {
+            setLastError("Verification failed");
+            toast.error("Verification failed");
+        } finally {
+            // Small pause so the same QR isn't submitted again immediately
+            setTimeout(() => { busyRef.current = false; }, 2000);
+        }
+    }, []);
+
+    // Camera + detection loop
+    useEffect(() => {
+        if (!scanning) return;
+
+        const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorCtor }).BarcodeDetector;
+        if (!Detector || !navigator.mediaDevices?.getUserMedia) {
+            setCameraSupported(false);
+            setScanning(false);
+            return;
+        }
+
+        const detector = new Detector({ formats: ["qr_code"] });
+        let stream: MediaStream | null = null;
+        let frame = 0;
+        let stopped = false;
+
+        const tick = async () => {
+            if (stopped || !videoRef.current) return;
+            try {
+                if (!busyRef.current && videoRef.current.readyState >= 2) {
+                    const codes = await detector.detect(videoRef.current);
+                    for (const code of codes) {
+                        const parsed = parsePickupPayload(code.rawValue);
+                        if (parsed) {
+                            submit({ id: parsed.id }, parsed.token);
+                            break;
+                        }
+                    }
+                }
+            } catch (err) {
+                console.error("QR detection failed:", err);
+            }
+            frame = requestAnimationFrame(tick);
+        };
+
+        navigator.mediaDevices
+            .getUserMedia({ video: { facingMode: "environment" } })
+            .then((s) => {
+                stream = s;
+                if (stopped || !videoRef.current) return;
+                videoRef.current.srcObject = s;
+                videoRef.current.play();
+                frame = requestAnimationFrame(tick);
+            })
+            .catch(() => {
+                toast.error("Camera permission denied");
+                setScanning(false);
+            });
+
+        return () => {
+            stopped = true;
+            cancelAnimationFrame(frame);
+            stream?.getTracks().forEach((t) => t.stop());
+        };
+    }, [scanning, submit]);
+
+    const handleManualSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!manualOrderId.trim() || !/^\d{6}$/.test(manualToken)) {
+            toast.error("Enter the order ID and 6-digit code");
+            return;
+        }
+        submit({ orderId: manualOrderId.trim().toUpperCase() }, manualToken);
+    };
+
+    return (
+        <AdminGuard>
+            <div className="min-h-screen bg-zayko-900">
+                {/* Header */}
+                <div className="bg-zayko-800 border-b border-zayko-700 px-6 py-4">
+                    <div className="max-w-xl mx-auto flex items-center gap-3">
+                        <Link href="/admin/dashboard" className="text-zayko-400 hover:text-white transition-colors">
+                            ← Dashboard
+                        </Link>
+                        <h1 className="text-lg font-display font-bold text-white">📷 Pickup Verification</h1>
+                    </div>
+                </div>
+
+                <div className="max-w-xl mx-auto p-6 space-y-6">
+                    {/* Camera */}
+                    {cameraSupported ? (
+                        <div className="bg-zayko-800/50 border border-zayko-700 rounded-2xl overflow-hidden">
+                            <div className="aspect-square bg-black relative">
+                                <video ref={videoRef} playsInline muted className={`w-full h-full object-cover ${scanning ? "" : "hidden"}`} />
+                                {!scanning && (
+                                    <div className="absolute inset-0 flex items-center justify-center text-zayko-500 text-sm">
+                                        Camera off
+                                    </div>
+                                )}
+                                {scanning && (
+                                    <div className="absolute inset-10 border-4 border-gold-400/70 rounded-2xl pointer-events-none" />
+                                )}
+                            </div>
+                            <button
+                                onClick={() => setScanning((v) => !v)}
+                                className={`w-full py-4 font-display font-bold text-lg transition-all ${scanning
+                                    ? "bg-zayko-700 text-white hover:bg-zayko-600"
+                                    : "bg-gold-500 text-zayko-900 hover:bg-gold-400"
+                                    }`}
+                            >
+                                {scanning ? "Stop Camera" : "Start Scanning"}
+                            </button>
+                        </div>
+                    ) : (
+                        <div className="p-4 rounded-2xl bg-amber-500/10 border border-amber-500/30 text-amber-300 text-sm">
+                            QR scanning isn&apos;t supported in this browser — enter the code from the student&apos;s screen below.
+                        </div>
+                    )}
+
+                    {/* Result */}
+                    {verified && (
+                        <div className="p-5 rounded-2xl bg-emerald-500/10 border border-emerald-500/30">
+                            <p className="text-emerald-400 font-bold text-lg">✅ Hand over #{verified.orderId}</p>
+                            <p className="text-white mt-1">
+                                {verified.userName}
+                                {verified.userRollNumber && <span className="text-zayko-400"> • {verified.userRollNumber}</span>}
+                            </p>
+                            <ul className="mt-3 space-y-1">
+                                {verified.items.filter((item) => !item.rejected).map((item, idx) => (
+                                    <li key={idx} className="text-sm text-zayko-200">
+                                        <span className="font-bold text-gold-400">{item.quantity}×</span> {item.name}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    {lastError && !verified && (
+                        <div className="p-5 rounded-2xl bg-red-500/10 border border-red-500/30">
+                            <p className="text-red-400 font-bold">❌ {lastError}</p>
+                            <p className="text-xs text-zayko-400 mt-1">Do not hand over the order.</p>
+                        </div>
+                    )}
+
+                    {/* Manual entry */}
+                    <form onSubmit={handleManualSubmit} className="bg-zayko-800/50 border border-zayko-700 rounded-2xl p-5 space-y-3">
+                        <p className="text-sm font-semibold text-zayko-300">Enter manually</p>
+                        <div className="grid grid-cols-2 gap-3">
+                            <input
+                                type="text"
+                                placeholder="ZKO4F7X"
+                                value={manualOrderId}
+                                onChange={(e) => setManualOrderId(e.target.value.toUpperCase())}
+                                className="px-4 py-3 bg-zayko-800 border border-zayko-600 rounded-xl text-white font-mono placeholder-zayko-500 focus:outline-none focus:ring-2 focus:ring-gold-500"
+                            />
+                            <input
+                                type="text"
+                                inputMode="numeric"
+                                maxLength={6}
+                                placeholder="6-digit code"
+                                value={manualToken}
+                                onChange={(e) => setManualToken(e.target.value.replace(/\D/g, ""))}
+                                className="px-4 py-3 bg-zayko-800 border border-zayko-600 rounded-xl text-white font-mono tracking-widest placeholder-zayko-500 focus:outline-none focus:ring-2 focus:ring-gold-500"
+                            />
+                        </div>
+                        <button type="submit" className="w-full py-3 rounded-xl bg-gold-500 text-zayko-900 font-bold hover:bg-gold-400 transition-all">
+                            Verify Pickup
+                        </button>
+                    </form>
+                </div>
+            </div>
+        </AdminGuard>
+    );
+}
@@ -0,0 +1,411 @@
+/**
+ * Admin Promotions Page — Coupons, happy hours and buy-X-get-Y offers of
+ * the outlet being managed (see lib/promotions)
+ */
+
+"use client";
+
+import React, { useEffect, useState } from "react";
+import AdminGuard from "@/components/AdminGuard";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import { collection, getDocs, orderBy, query } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { outletIdOf } from "@/lib/outlets";
+import { describePromotion, isPromotionLive } from "@/lib/promotions";
+import { getAdminOutletId, getPromotions, managePromotions } from "@/services/adminService";
+import type { CategoryDoc, DayOfWeek, DiscountType, MenuItem, Promotion, PromotionType } from "@/types";
+
+const PROMOTION_DAYS: DayOfWeek[] = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const TYPE_LABELS: Record<PromotionType, string> = {
+    coupon: "🎟️ Coupon",
+    happy_hour: "⏰ Happy hour",
+    buy_x_get_y: "🎁 Buy X get Y",
+};
+
+const EMPTY_FORM = {
+    id: "",
+    type: "coupon" as PromotionType,
+    name: "",
+    active: true,
+    startsAt: "",
+    endsAt: "",
+    discountType: "percent" as DiscountType,
+    value: "",
+    maxDiscount: "",
+    code: "",
+    minOrderAmount: "",
+    usageLimit: "",
+    perUserLimit: "",
+    categories: [] as string[],
+    days: [] as DayOfWeek[],
+    startTime: "16:00",
+    endTime: "18:00",
+    itemId: "",
+    buyQuantity: "2",
+    freeQuantity: "1",
+};
+
+type PromotionForm = typeof EMPTY_FORM;
+
+// <input type="datetime-local"> works in the browser's local time
+const toLocalInput = (iso?: string) => {
+    if (!iso) return "";
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+};
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : undefined);
+const numberOrUndefined = (value: string) => (value.trim() ? Number(value) : undefined);
+
+function toForm(p: Promotion): PromotionForm {
+    const text = (n?: number) => (n === undefined ? "" : String(n));
+    return {
+        ...EMPTY_FORM,
+        id: p.id,
+        type: p.type,
+        name: p.name,
+        active: p.active,
+        startsAt: toLocalInput(p.startsAt),
+        endsAt: toLocalInput(p.endsAt),
+        discountType: p.discountType || "percent",
+        value: text(p.value),
+        maxDiscount: text(p.maxDiscount),
+        code: p.code || "",
+        minOrderAmount: text(p.minOrderAmount),
+        usageLimit: text(p.usageLimit),
+        perUserLimit: text(p.perUserLimit),
+        categories: p.categories || [],
+        days: p.days || [],
+        startTime: p.startTime || EMPTY_FORM.startTime,
+        endTime: p.endTime || EMPTY_FORM.endTime,
+        itemId: p.itemId || "",
+        buyQuantity: text(p.buyQuantity) || EMPTY_FORM.buyQuantity,
+        freeQuantity: text(p.freeQuantity) || EMPTY_FORM.freeQuantity,
+    };
+}
+
+function toPromotion(form: PromotionForm): Partial<Promotion> {
+    return {
+        ...(form.id && { id: form.id }),
+        type: form.type,
+        name: form.name,
+        active: form.active,
+        startsAt: fromLocalInput(form.startsAt),
+        endsAt: fromLocalInput(form.endsAt),
+        discountType: form.discountType,
+        value: numberOrUndefined(form.value),
+        maxDiscount: numberOrUndefined(form.maxDiscount),
+        code: form.code,
+        minOrderAmount: numberOrUndefined(form.minOrderAmount),
+        usageLimit: numberOrUndefined(form.usageLimit),
+        perUserLimit: numberOrUndefined(form.perUserLimit),
+        categories: form.categories,
+        days: form.days,
+        startTime: form.startTime,
+        endTime: form.endTime,
+        itemId: form.itemId,
+        buyQuantity: numberOrUndefined(form.buyQuantity),
+        freeQuantity: numberOrUndefined(form.freeQuantity),
+    };
+}
+
+export default function AdminPromotionsPage() {
+    const [promotions, setPromotions] = useState<Promotion[]>([]);
+    const [categories, setCategories] = useState<CategoryDoc[]>([]);
+    const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [form, setForm] = useState<PromotionForm>(EMPTY_FORM);
+
+    const load = async () => {
+        try {
+            setPromotions(await getPromotions());
+        } catch {
+            toast.error("Failed to load promotions");
+        }
+        setLoading(false);
+    };
+
+    useEffect(() => {
+        load();
+        const outletId = getAdminOutletId();
+        Promise.all([
+            getDocs(query(collection(db, "categories"), orderBy("order", "asc"))),
+            getDocs(collection(db, "menuItems")),
+        ]).then(([categorySnap, menuSnap]) => {
+            setCategories(categorySnap.docs.map((d) => ({ id: d.id, ...d.data() }) as CategoryDoc));
+            setMenuItems(menuSnap.docs
+                .map((d) => ({ id: d.id, ...d.data() }) as MenuItem)
+                .filter((item) => outletIdOf(item) === outletId)
+                .sort((a, b) => a.name.localeCompare(b.name)));
+        }).catch(() => toast.error("Failed to load the menu"));
+    }, []);
+
+    const categoryName = (slug: string) => categories.find((c) => c.slug === slug)?.name || slug;
+
+    const save = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        const result = await managePromotions({ action: "save", promotion: toPromotion(form) });
+        if (result.success) {
+            toast.success(form.id ? "Promotion updated ✅" : "Promotion created ✅");
+            setForm(EMPTY_FORM);
+            load();
+        } else {
+            toast.error(result.error || "Failed to save promotion");
+        }
+        setSaving(false);
+    };
+
+    const toggle = async (p: Promotion) => {
+        const result = await managePromotions({ action: "toggle", id: p.id, active: !p.active });
+        if (result.success) load();
+        else toast.error(result.error || "Failed to update promotion");
+    };
+
+    const remove = async (p: Promotion) => {
+        if (!confirm(`Delete ${p.name}?`)) return;
+        const result = await managePromotions({ action: "delete", id: p.id });
+        if (result.success) load();
+        else toast.error(result.error || "Failed to delete promotion");
+    };
+
+    const toggleIn = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter((v) => v !== value) : [...list, value]);
+    const inputClass = "px-4 py-3 bg-zayko-900 border border-zayko-600 rounded-xl text-white text-sm";
+    const chipClass = (on: boolean) => `px-3 py-1.5 rounded-lg text-xs font-semibold border transition-all ${on ? "bg-gold-500/20 text-gold-400 border-gold-500/30" : "bg-zayko-900 text-zayko-400 border-zayko-700"}`;
+
+    return (
+        <AdminGuard>
+            <div className="min-h-screen bg-zayko-900 pb-12">
+                {/* Header */}
+                <div className="bg-zayko-800 border-b border-zayko-700 px-6 py-4 sticky top-0 z-20">
+                    <div className="max-w-5xl mx-auto flex items-center gap-3">
+                        <Link href="/admin/dashboard" className="text-zayko-400 hover:text-white transition-colors">
+                            ← Dashboard
+                        </Link>
+                        <h1 className="text-xl font-display font-bold text-white">🏷️ Promotions</h1>
+                    </div>
+                </div>
+
+                {loading ? (
+                    <div className="flex items-center justify-center py-20">
+                        <div className="w-12 h-12 border-4 border-gold-400 border-t-transparent rounded-full animate-spin"></div>
+                    </div>
+                ) : (
+                    <div className="max-w-5xl mx-auto px-6 mt-8 space-y-8">
+                        {/* Promotion list */}
+                        <div className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6">
+                            <h3 className="text-white font-display font-bold text-lg mb-4">Promotions</h3>
+                            {promotions.length === 0 ? (
+                                <div className="text-center py-4 text-zayko-500">No promotions yet.</div>
+                            ) : (
+                                <div className="space-y-3">
+                                    {promotions.map((p) => {
+                                        const live = isPromotionLive(p);
+                                        return (
+                                            <div key={p.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-2xl bg-zayko-900/50 border border-zayko-700">
+                                                <div>
+                                                    <p className="text-white font-semibold">
+                                                        {p.name} <span className="text-zayko-500 text-xs ml-1">{TYPE_LABELS[p.type]}</span>
+                                                    </p>
+                                                    <p className="text-zayko-400 text-sm">
+                                                        {p.type === "happy_hour"
+                                                            ? describePromotion({ ...p, categories: (p.categories || []).map(categoryName) })
+                                                            : describePromotion(p)}
+                                                    </p>
+                                                    {p.type === "coupon" && (
+                                                        <p className="text-zayko-500 text-xs mt-1">
+                                                            Redeemed {p.usedCount}{p.usageLimit ? ` / ${p.usageLimit}` : ""} times
+                                                            {p.perUserLimit ? ` · ${p.perUserLimit} per student` : ""}
+                                                        </p>
+                                                    )}
+                                                    {(p.startsAt || p.endsAt) && (
+                                                        <p className="text-zayko-500 text-xs mt-1">
+                                                            {p.startsAt ? `From ${new Date(p.startsAt).toLocaleString("en-IN")}` : ""}
+                                                            {p.startsAt && p.endsAt ? " · " : ""}
+                                                            {p.endsAt ? `Until ${new Date(p.endsAt).toLocaleString("en-IN")}` : ""}
+                                                        </p>
+                                                    )}
+                                                </div>
+                                                <div className="flex items-center gap-2">
+                                                    <span className={`px-2 py-1 rounded-md text-xs font-semibold border ${live ? "bg-emerald-500/10 text-emerald-400 border-emerald-500/20" : p.active ? "bg-amber-500/10 text-amber-400 border-amber-500/20" : "bg-red-500/10 text-red-400 border-red-500/20"}`}>
+                                                        {live ? "Live" : p.active ? "Scheduled" : "Off"}
+                                                    </span>
+                                                    <button onClick={() => setForm(toForm(p))} className="px-3 py-1.5 text-sm bg-zayko-700 hover:bg-zayko-600 text-zayko-200 rounded-lg">
+                                                        Edit
+                                                    </button>
+                                                    <button onClick={() => toggle(p)} className="px-3 py-1.5 text-sm bg-zayko-700 hover:bg-zayko-600 text-zayko-200 rounded-lg">
+                                                        {p.active ? "Switch off" : "Switch on"}
+                                                    </button>
+                                                    {!p.usedCount && (
+                                                        <button onClick={() => remove(p)} className="px-3 py-1.5 text-sm text-red-400 hover:bg-red-500/10 rounded-lg">
+                                                            Delete
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Create / edit promotion */}
+                        <form onSubmit={save} className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6 space-y-4">
+                            <h3 className="text-white font-display font-bold text-lg">{form.id ? `Edit ${form.name}` : "Add Promotion"}</h3>
+
+                            <div className="flex flex-wrap gap-2">
+                                {(Object.keys(TYPE_LABELS) as PromotionType[]).map((type) => (
+                                    <button
+                                        key={type}
+                                        type="button"
+                                        disabled={!!form.id}
+                                        onClick={() => setForm({ ...form, type })}
+                                        className={`${chipClass(form.type === type)} disabled:opacity-50`}
+                                    >
+                                        {TYPE_LABELS[type]}
+                                    </button>
+                                ))}
+                            </div>
+
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <input
+                                    value={form.name}
+                                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                                    placeholder="Name shown on the bill (e.g. Evening Chai Hour)"
+                                    className={inputClass}
+                                />
+                                {form.type === "coupon" && (
+                                    <input
+                                        value={form.code}
+                                        onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                                        placeholder="Code (e.g. WELCOME50)"
+                                        className={`${inputClass} font-mono`}
+                                    />
+                                )}
+                                {form.type === "buy_x_get_y" && (
+                                    <select value={form.itemId} onChange={(e) => setForm({ ...form, itemId: e.target.value })} className={inputClass}>
+                                        <option value="">Menu item…</option>
+                                        {menuItems.map((item) => <option key={item.id} value={item.id}>{item.name}</option>)}
+                                    </select>
+                                )}
+                            </div>
+
+                            {form.type !== "buy_x_get_y" ? (
+                                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                                    <select
+                                        value={form.discountType}
+                                        onChange={(e) => setForm({ ...form, discountType: e.target.value as DiscountType })}
+                                        className={inputClass}
+                                    >
+                                        <option value="percent">% off</option>
+                                        <option value="flat">{form.type === "coupon" ? "₹ off the order" : "₹ off each item"}</option>
+                                    </select>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        value={form.value}
+                                        onChange={(e) => setForm({ ...form, value: e.target.value })}
+                                        placeholder={form.discountType === "percent" ? "Percent (1–100)" : "Amount (₹)"}
+                                        className={inputClass}
+                                    />
+                                    {form.type === "coupon" && form.discountType === "percent" && (
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            value={form.maxDiscount}
+                                            onChange={(e) => setForm({ ...form, maxDiscount: e.target.value })}
+                                            placeholder="Max discount ₹ (optional)"
+                                            className={inputClass}
+                                        />
+                                    )}
+                                </div>
+                            ) : (
+                                <div className="grid grid-cols-2 gap-4">
+                                    <label className="text-zayko-400 text-sm space-y-1">
+                                        <span>Buy</span>
+                                        <input type="number" min="1" value={form.buyQuantity} onChange={(e) => setForm({ ...form, buyQuantity: e.target.value })} className={`${inputClass} w-full`} />
+                                    </label>
+                                    <label className="text-zayko-400 text-sm space-y-1">
+                                        <span>Get free</span>
+                                        <input type="number" min="1" value={form.freeQuantity} onChange={(e) => setForm({ ...form, freeQuantity: e.target.value })} className={`${inputClass} w-full`} />
+                                    </label>
+                                </div>
+                            )}
+
+                            {form.type === "coupon" && (
+                                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                                    <input type="number" min="0" value={form.minOrderAmount} onChange={(e) => setForm({ ...form, minOrderAmount: e.target.value })} placeholder="Min order ₹ (optional)" className={inputClass} />
+                                    <input type="number" min="0" value={form.usageLimit} onChange={(e) => setForm({ ...form, usageLimit: e.target.value })} placeholder="Total uses (optional)" className={inputClass} />
+                                    <input type="number" min="0" value={form.perUserLimit} onChange={(e) => setForm({ ...form, perUserLimit: e.target.value })} placeholder="Uses per student (optional)" className={inputClass} />
+                                </div>
+                            )}
+
+                            {form.type === "happy_hour" && (
+                                <div className="space-y-3">
+                                    <div>
+                                        <p className="text-zayko-400 text-sm mb-2">Categories</p>
+                                        <div className="flex flex-wrap gap-2">
+                                            {categories.map((c) => (
+                                                <button key={c.id} type="button" onClick={() => setForm({ ...form, categories: toggleIn(form.categories, c.slug) })} className={chipClass(form.categories.includes(c.slug))}>
+                                                    {c.name}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                    <div>
+                                        <p className="text-zayko-400 text-sm mb-2">Days (none = every day)</p>
+                                        <div className="flex flex-wrap gap-2">
+                                            {PROMOTION_DAYS.map((day) => (
+                                                <button key={day} type="button" onClick={() => setForm({ ...form, days: toggleIn(form.days, day) })} className={chipClass(form.days.includes(day))}>
+                                                    {day}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-3 text-zayko-400 text-sm">
+                                        <input type="time" value={form.startTime} onChange={(e) => setForm({ ...form, startTime: e.target.value })} className={inputClass} />
+                                        <span>to</span>
+                                        <input type="time" value={form.endTime} onChange={(e) => setForm({ ...form, endTime: e.target.value })} className={inputClass} />
+                                        <span>IST</span>
+                                    </div>
+                                </div>
+                            )}
+
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <label className="text-zayko-400 text-sm space-y-1">
+                                    <span>Starts (optional)</span>
+                                    <input type="datetime-local" value={form.startsAt} onChange={(e) => setForm({ ...form, startsAt: e.target.value })} className={`${inputClass} w-full`} />
+                                </label>
+                                <label className="text-zayko-400 text-sm space-y-1">
+                                    <span>Ends (optional)</span>
+                                    <input type="datetime-local" value={form.endsAt} onChange={(e) => setForm({ ...form, endsAt: e.target.value })} className={`${inputClass} w-full`} />
+                                </label>
+                            </div>
+
+                            <div className="flex gap-3">
+                                {form.id && (
+                                    <button
+                                        type="button"
+                                        onClick={() => setForm(EMPTY_FORM)}
+                                        className="px-6 py-3 bg-zayko-700 text-zayko-300 rounded-xl font-medium hover:bg-zayko-600"
+                                    >
+                                        Cancel
+                                    </button>
+                                )}
+                                <button type="submit" disabled={saving || !form.name} className="btn-gold px-6 py-3 disabled:opacity-50">
+                                    {saving ? "Saving..." : form.id ? "Save Promotion" : "Add Promotion"}
+                                </button>
+                            </div>
+                            <p className="text-zayko-500 text-xs">
+                                Happy hours and buy-X-get-Y offers apply on their own and don&apos;t stack — each item gets the best one.
+                                Coupons come off the rest when a student enters the code at checkout.
+                            </p>
+                        </form>
+                    </div>
+                )}
+            </div>
+        </AdminGuard>
+    );
+}
@@ -1,31 +1,44 @@
 /**
- * Admin Settings Page — Canteen hours + open/close toggle
+ * Admin Settings Page — Canteen hours (daily or weekly slots) + holidays +
+ * open/close toggle + pre-order pickup slots + cancellation rules + PIN
+ * threshold for large orders
  */
 
 "use client";
 import React, { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import toast from "react-hot-toast";
+import { getAdminHeaders, isOutletScopedAdmin } from "@/services/adminService";
+import { CANTEEN_TIME_ZONE, MAX_SLOTS_PER_DAY } from "@/lib/canteen-schedule";
+import { istDateKey } from "@/lib/ist-date";
+import { DEFAULT_PICKUP_SLOT_MINUTES, MAX_PICKUP_SLOT_CAPACITY, MAX_PRE_ORDER_DAYS, PICKUP_SLOT_LENGTHS } from "@/lib/pickup-slots";
+import type { CanteenHoliday, CanteenTimeSlot, DayOfWeek, WeeklySchedule } from "@/types";
 
 interface CanteenConfig {
     isOpen: boolean;
     startTime: string;
     endTime: string;
+    schedule?: WeeklySchedule;
+    holidays?: CanteenHoliday[];
+    cancelGraceMinutes?: number;
+    cancelledStockDisposition?: "restock" | "waste";
+    pinOrderThreshold?: number;
+    pickupSlotCapacity?: number;
+    pickupSlotMinutes?: number;
+    preOrderDaysAhead?: number;
 }
 
+const SCHEDULE_DAYS: DayOfWeek[] = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
 export default function AdminSettingsPage() {
     const router = useRouter();
     const [config, setConfig] = useState<CanteenConfig>({ isOpen: true, startTime: "09:00", endTime: "17:00" });
     const [loading, setLoading] = useState(true);
     const [saving, setSaving] = useState(false);
+    const [weekly, setWeekly] = useState(false);
+    const [newHoliday, setNewHoliday] = useState<CanteenHoliday>({ date: "", message: "" });
 
-    const getHeaders = () => {
-        const token = localStorage.getItem("adminToken");
-        return {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${token}`,
-        };
-    };
+    const getHeaders = () => getAdminHeaders();
 
     useEffect(() => {
         const token = localStorage.getItem("adminToken");
@@ -35,6 +48,7 @@ export default function AdminSettingsPage() {
             .then((res) => res.json())
             .then((data) => {
                 setConfig(data);
+                setWeekly(!!data.schedule);
                 setLoading(false);
             })
             .catch(() => {
@@ -49,12 +63,18 @@ export default function AdminSettingsPage() {
             const res = await fetch("/api/admin/settings", {
                 method: "PUT",
                 headers: getHeaders(),
-                body: JSON.stringify(config),
+                body: JSON.stringify({
+                    ...config,
+                    // null switches the outlet back to the single daily hours
+                    schedule: weekly ? config.schedule : null,
+                    holidays: (config.holidays || []).filter((h) => h.date >= istDateKey()),
+                }),
             });
+            const data = await res.json();
             if (res.ok) {
                 toast.success("Settings saved! ✅");
             } else {
-                toast.error("Failed to save");
+                toast.error(data.error || "Failed to save");
             }
         } catch {
             toast.error("Error saving settings");
@@ -62,6 +82,39 @@ export default function AdminSettingsPage() {
         setSaving(false);
     };
 
+    // Start the weekly editor from the current daily hours on every day
+    const enableWeekly = () => {
+        const slot: CanteenTimeSlot = { start: config.startTime, end: config.endTime };
+        setConfig({
+            ...config,
+            schedule: config.schedule || Object.fromEntries(SCHEDULE_DAYS.map((d) => [d, [{ ...slot }]])),
+        });
+        setWeekly(true);
+    };
+
+    const updateDay = (day: DayOfWeek, slots: CanteenTimeSlot[]) => {
+        setConfig({ ...config, schedule: { ...config.schedule, [day]: slots } });
+    };
+
+    const copyToWeekdays = (from: DayOfWeek) => {
+        const slots = config.schedule?.[from] || [];
+        const schedule = { ...config.schedule };
+        for (const day of SCHEDULE_DAYS.slice(0, 5)) schedule[day] = slots.map((s) => ({ ...s }));
+        setConfig({ ...config, schedule });
+    };
+
+    const addHoliday = () => {
+        if (!newHoliday.date) return;
+        const others = (config.holidays || []).filter((h) => h.date !== newHoliday.date);
+        const holidays = [...others, { date: newHoliday.date, ...(newHoliday.message?.trim() && { message: newHoliday.message.trim() }) }]
+            .sort((a, b) => a.date.localeCompare(b.date));
+        setConfig({ ...config, holidays });
+        setNewHoliday({ date: "", message: "" });
+    };
+
+    const today = istDateKey();
+    const upcomingHolidays = (config.holidays || []).filter((h) => h.date >= today);
+
     if (loading) {
         return (
             <div className="min-h-screen flex items-center justify-center">
@@ -106,26 +159,265 @@ export default function AdminSettingsPage() {
 
                     {/* Operating Hours */}
                     <div>
-                        <h3 className="font-display font-bold text-lg text-zayko-700 mb-4">🕐 Operating Hours</h3>
-                        <div className="grid grid-cols-2 gap-6">
-                            <div>
-                                <label className="text-sm font-medium text-gray-700 mb-1 block">Opening Time</label>
-                                <input
-                                    type="time"
-                                    value={config.startTime}
-                                    onChange={(e) => setConfig({ ...config, startTime: e.target.value })}
-                                    className="input-field text-lg font-mono"
-                                />
+                        <div className="flex items-center justify-between mb-4">
+                            <h3 className="font-display font-bold text-lg text-zayko-700">🕐 Operating Hours</h3>
+                            <div className="flex rounded-xl bg-gray-100 p-1 text-sm font-semibold">
+                                <button
+                                    onClick={() => setWeekly(false)}
+                                    className={`px-3 py-1.5 rounded-lg ${!weekly ? "bg-white shadow text-zayko-700" : "text-gray-500"}`}
+                                >
+                                    Same every day
+                                </button>
+                                <button
+                                    onClick={enableWeekly}
+                                    className={`px-3 py-1.5 rounded-lg ${weekly ? "bg-white shadow text-zayko-700" : "text-gray-500"}`}
+                                >
+                                    Weekly slots
+                                </button>
                             </div>
-                            <div>
-                                <label className="text-sm font-medium text-gray-700 mb-1 block">Closing Time</label>
+                        </div>
+                        <p className="text-xs text-gray-400 mb-4">All times are {CANTEEN_TIME_ZONE} (IST).</p>
+
+                        {!weekly ? (
+                            <div className="grid grid-cols-2 gap-6">
+                                <div>
+                                    <label className="text-sm font-medium text-gray-700 mb-1 block">Opening Time</label>
+                                    <input
+                                        type="time"
+                                        value={config.startTime}
+                                        onChange={(e) => setConfig({ ...config, startTime: e.target.value })}
+                                        className="input-field text-lg font-mono"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="text-sm font-medium text-gray-700 mb-1 block">Closing Time</label>
+                                    <input
+                                        type="time"
+                                        value={config.endTime}
+                                        onChange={(e) => setConfig({ ...config, endTime: e.target.value })}
+                                        className="input-field text-lg font-mono"
+                                    />
+                                </div>
+                            </div>
+                        ) : (
+                            <div className="space-y-4">
+                                {SCHEDULE_DAYS.map((day) => {
+                                    const slots = config.schedule?.[day] || [];
+                                    return (
+                                        <div key={day} className="border border-gray-100 rounded-xl p-3">
+                                            <div className="flex items-center justify-between mb-2">
+                                                <span className="font-bold text-zayko-700">{day}</span>
+                                                <div className="flex gap-3 text-xs">
+                                                    {day === "Mon" && (
+                                                        <button onClick={() => copyToWeekdays("Mon")} className="text-zayko-600 hover:underline">
+                                                            Copy to Tue–Fri
+                                                        </button>
+                                                    )}
+                                                    {slots.length < MAX_SLOTS_PER_DAY && (
+                                                        <button
+                                                            onClick={() => updateDay(day, [...slots, { start: "12:00", end: "14:00" }])}
+                                                            className="text-zayko-600 hover:underline"
+                                                        >
+                                                            + Add slot
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </div>
+                                            {slots.length === 0 ? (
+                                                <p className="text-sm text-gray-400">Closed all day</p>
+                                            ) : (
+                                                <div className="space-y-2">
+                                                    {slots.map((slot, idx) => {
+                                                        const setSlot = (patch: Partial<CanteenTimeSlot>) =>
+                                                            updateDay(day, slots.map((s, i) => (i === idx ? { ...s, ...patch } : s)));
+                                                        return (
+                                                            <div key={idx} className="flex items-center gap-2">
+                                                                <input
+                                                                    value={slot.label || ""}
+                                                                    onChange={(e) => setSlot({ label: e.target.value })}
+                                                                    placeholder="Label (e.g. Lunch)"
+                                                                    maxLength={30}
+                                                                    className="input-field text-sm flex-1 min-w-0"
+                                                                />
+                                                                <input
+                                                                    type="time"
+                                                                    value={slot.start}
+                                                                    onChange={(e) => setSlot({ start: e.target.value })}
+                                                                    className="input-field text-sm font-mono w-28"
+                                                                />
+                                                                <span className="text-gray-400">–</span>
+                                                                <input
+                                                                    type="time"
+                                                                    value={slot.end}
+                                                                    onChange={(e) => setSlot({ end: e.target.value })}
+                                                                    className="input-field text-sm font-mono w-28"
+                                                                />
+                                                                <button
+                                                                    onClick={() => updateDay(day, slots.filter((_, i) => i !== idx))}
+                                                                    className="text-red-400 hover:text-red-600 px-2"
+                                                                    title="Remove slot"
+                                                                >
+                                                                    ✕
+                                                                </button>
+                                                            </div>
+                                                        );
+                                                    })}
+                                                </div>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Holidays */}
+                    <div>
+                        <h3 className="font-display font-bold text-lg text-zayko-700 mb-1">🏖️ Holidays</h3>
+                        <p className="text-sm text-gray-500 mb-4">
+                            The canteen stays closed all day on these dates; students see your message instead of the hours.
+                        </p>
+                        {upcomingHolidays.length > 0 && (
+                            <div className="space-y-2 mb-4">
+                                {upcomingHolidays.map((h) => (
+                                    <div key={h.date} className="flex items-center justify-between bg-gray-50 rounded-xl px-4 py-2">
+                                        <div>
+                                            <span className="font-mono text-sm text-zayko-700">{h.date}</span>
+                                            {h.message && <span className="text-sm text-gray-500 ml-3">{h.message}</span>}
+                                        </div>
+                                        <button
+                                            onClick={() => setConfig({ ...config, holidays: (config.holidays || []).filter((x) => x.date !== h.date) })}
+                                            className="text-red-400 hover:text-red-600 text-sm"
+                                        >
+                                            Remove
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        <div className="flex gap-2">
+                            <input
+                                type="date"
+                                min={today}
+                                value={newHoliday.date}
+                                onChange={(e) => setNewHoliday({ ...newHoliday, date: e.target.value })}
+                                className="input-field text-sm font-mono w-44"
+                            />
+                            <input
+                                value={newHoliday.message || ""}
+                                onChange={(e) => setNewHoliday({ ...newHoliday, message: e.target.value })}
+                                placeholder="Message (e.g. Closed for Diwali 🪔)"
+                                maxLength={120}
+                                className="input-field text-sm flex-1 min-w-0"
+                            />
+                            <button onClick={addHoliday} disabled={!newHoliday.date} className="btn-primary px-4 text-sm disabled:opacity-50">
+                                Add
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* Pre-orders */}
+                    <div>
+                        <h3 className="font-display font-bold text-lg text-zayko-700 mb-1">⏰ Pre-orders</h3>
+                        <p className="text-sm text-gray-500 mb-4">
+                            Let students order ahead for a pickup time within your opening hours. Each pickup slot takes a limited number of orders (0 = pre-orders off). Stock is reserved when the order is placed; the kitchen sees it when prep should start.
+                        </p>
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                            <label className="text-xs text-gray-500">
+                                Orders per slot
                                 <input
-                                    type="time"
-                                    value={config.endTime}
-                                    onChange={(e) => setConfig({ ...config, endTime: e.target.value })}
-                                    className="input-field text-lg font-mono"
+                                    type="number"
+                                    min={0}
+                                    max={MAX_PICKUP_SLOT_CAPACITY}
+                                    value={config.pickupSlotCapacity ?? 0}
+                                    onChange={(e) => setConfig({ ...config, pickupSlotCapacity: Math.min(MAX_PICKUP_SLOT_CAPACITY, Math.max(0, parseInt(e.target.value) || 0)) })}
+                                    className="input-field text-lg font-mono mt-1"
                                 />
-                            </div>
+                            </label>
+                            <label className="text-xs text-gray-500">
+                                Slot length
+                                <select
+                                    value={config.pickupSlotMinutes ?? DEFAULT_PICKUP_SLOT_MINUTES}
+                                    onChange={(e) => setConfig({ ...config, pickupSlotMinutes: Number(e.target.value) })}
+                                    className="input-field text-lg mt-1"
+                                >
+                                    {PICKUP_SLOT_LENGTHS.map((m) => (
+                                        <option key={m} value={m}>{m} min</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="text-xs text-gray-500">
+                                Book up to
+                                <select
+                                    value={config.preOrderDaysAhead ?? 0}
+                                    onChange={(e) => setConfig({ ...config, preOrderDaysAhead: Number(e.target.value) })}
+                                    className="input-field text-lg mt-1"
+                                >
+                                    {Array.from({ length: MAX_PRE_ORDER_DAYS + 1 }, (_, d) => (
+                                        <option key={d} value={d}>{d === 0 ? "Today only" : `${d} day${d === 1 ? "" : "s"} ahead`}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        </div>
+                    </div>
+
+                    {/* Cancellation Window */}
+                    <div>
+                        <h3 className="font-display font-bold text-lg text-zayko-700 mb-1">↩️ Cancellation Window</h3>
+                        <p className="text-sm text-gray-500 mb-4">
+                            Students can always cancel pending orders. Allow cancelling confirmed orders for this many minutes after ordering (0 = pending only).
+                        </p>
+                        <input
+                            type="number"
+                            min={0}
+                            max={30}
+                            value={config.cancelGraceMinutes ?? 2}
+                            onChange={(e) => setConfig({ ...config, cancelGraceMinutes: Math.min(30, Math.max(0, parseInt(e.target.value) || 0)) })}
+                            className="input-field text-lg font-mono w-32"
+                        />
+                        <span className="ml-2 text-sm text-gray-500">minutes</span>
+                    </div>
+
+                    {/* PIN for Large Orders — campus-wide, super admin only */}
+                    {!isOutletScopedAdmin() && <div>
+                        <h3 className="font-display font-bold text-lg text-zayko-700 mb-1">🔐 PIN for Large Orders</h3>
+                        <p className="text-sm text-gray-500 mb-4">
+                            Students must enter their PIN for orders above this amount (0 = every order). Wallet transfers always need the PIN.
+                        </p>
+                        <span className="mr-2 text-sm text-gray-500">₹</span>
+                        <input
+                            type="number"
+                            min={0}
+                            max={5000}
+                            value={config.pinOrderThreshold ?? 200}
+                            onChange={(e) => setConfig({ ...config, pinOrderThreshold: Math.min(5000, Math.max(0, parseInt(e.target.value) || 0)) })}
+                            className="input-field text-lg font-mono w-32"
+                        />
+                        <p className="text-xs text-gray-400 mt-2">Applies to every outlet.</p>
+                    </div>}
+
+                    {/* Stock on Admin Cancellation */}
+                    <div>
+                        <h3 className="font-display font-bold text-lg text-zayko-700 mb-1">📦 Stock on Cancellation</h3>
+                        <p className="text-sm text-gray-500 mb-4">
+                            When you cancel an order, put its items back in stock or write them off as waste. Student cancellations are always restocked.
+                        </p>
+                        <div className="grid grid-cols-2 gap-3">
+                            {([
+                                { value: "restock", label: "♻️ Restock" },
+                                { value: "waste", label: "🗑️ Write off as waste" },
+                            ] as const).map((opt) => (
+                                <button
+                                    key={opt.value}
+                                    onClick={() => setConfig({ ...config, cancelledStockDisposition: opt.value })}
+                                    className={`py-3 rounded-xl font-bold text-sm transition-all ${(config.cancelledStockDisposition ?? "restock") === opt.value
+                                        ? "bg-zayko-600 text-white"
+                                        : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                                        }`}
+                                >
+                                    {opt.label}
+                                </button>
+                            ))}
                         </div>
                     </div>
 
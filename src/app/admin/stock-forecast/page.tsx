@@ -3,6 +3,7 @@ import React, { useEffect, useState } from "react";
 import AdminGuard from "@/components/AdminGuard";
 import Link from "next/link";
 import toast from "react-hot-toast";
+import { getAdminHeaders } from "@/services/adminService";
 import {
     BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell,
 } from "recharts";
@@ -50,10 +51,7 @@ export default function StockForecastPage() {
     const [highDemandOnly, setHighDemandOnly] = useState(false);
     const [shortageOnly, setShortageOnly] = useState(false);
 
-    const getHeaders = () => ({
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${localStorage.getItem("adminToken")}`,
-    });
+    const getHeaders = () => getAdminHeaders();
 
     useEffect(() => {
         fetchData();
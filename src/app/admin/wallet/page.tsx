@@ -3,7 +3,7 @@
 import React, { useEffect, useState, useMemo } from "react";
 import AdminGuard from "@/components/AdminGuard";
 import { db } from "@/lib/firebase";
-import { doc, onSnapshot, collection, query, orderBy, limit } from "firebase/firestore";
+import { doc, onSnapshot, collection, query, where, orderBy, limit } from "firebase/firestore";
 import Link from "next/link";
 import toast from "react-hot-toast";
 import {
@@ -16,36 +16,131 @@ import {
     ResponsiveContainer,
 } from "recharts";
 import { Parser } from "@json2csv/plainjs";
+import {
+    getCanteenPayouts,
+    getSettlementStatement,
+    getSettlementStatements,
+    getAdminOutletId,
+    getWithdrawals,
+    isOutletScopedAdmin,
+    requestCanteenPayout,
+    reviewWithdrawal,
+    updateCanteenPayout,
+} from "@/services/adminService";
+import { addDays, istDateKey } from "@/lib/ist-date";
+import { canteenWalletId } from "@/lib/outlets";
+import type { CanteenPayout, CanteenPayoutStatus, CanteenTransaction, CanteenWallet, SettlementStatement, Withdrawal } from "@/types";
+
+const PAYOUT_BADGES: Record<CanteenPayoutStatus, string> = {
+    requested: "bg-amber-500/10 text-amber-400 border-amber-500/20",
+    approved: "bg-blue-500/10 text-blue-400 border-blue-500/20",
+    paid: "bg-emerald-500/10 text-emerald-400 border-emerald-500/20",
+    rejected: "bg-red-500/10 text-red-400 border-red-500/20",
+};
 
-interface CanteenWallet {
-    totalBalance: number;
-    pendingAmount: number;
-    todayCollection: number;
-    todayDate: string;
-    lastUpdated: string;
+function downloadBlob(blob: Blob, filename: string) {
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    window.URL.revokeObjectURL(url);
 }
 
-interface WalletTransaction {
-    id: string;
-    amount: number;
-    type: "credit" | "withdrawal" | "refund_deduction";
-    orderId?: string;
-    description: string;
-    createdAt: string;
+/** Summary rows followed by every entry of the day */
+function statementCsv(statement: SettlementStatement): string {
+    const summary = [
+        ["Settlement statement", statement.date + (statement.finalized ? "" : " (provisional)")],
+        ["Opening balance", statement.openingBalance.toFixed(2)],
+        [`Completed orders (${statement.orderCount})`, statement.orderCredits.toFixed(2)],
+        [`Refunds (${statement.refundCount})`, (-statement.refunds).toFixed(2)],
+        [`Payouts (${statement.withdrawalCount})`, (-statement.withdrawals).toFixed(2)],
+        ["Closing balance", statement.closingBalance.toFixed(2)],
+    ].map((row) => row.join(",")).join("\n");
+
+    const lines = new Parser({
+        fields: ["createdAt", "type", "amount", "description", "orderId", "bankReference"],
+    }).parse(statement.lines || []);
+
+    return `${summary}\n\n${lines}`;
+}
+
+/** Plain-text PDF (the built-in font has no ₹ glyph, so amounts use "Rs.") */
+async function statementPdf(statement: SettlementStatement) {
+    const jsPDF = (await import("jspdf")).default;
+    const pdf = new jsPDF();
+    const money = (n: number) => `Rs. ${n.toFixed(2)}`;
+
+    pdf.setFontSize(16);
+    pdf.text("Zayko Canteen — Daily Settlement Statement", 14, 18);
+    pdf.setFontSize(10);
+    pdf.text(`${statement.date} (Asia/Kolkata)${statement.finalized ? "" : " — provisional, day not yet closed"}`, 14, 25);
+
+    let y = 38;
+    const summary: [string, string][] = [
+        ["Opening balance", money(statement.openingBalance)],
+        [`Completed orders (${statement.orderCount})`, `+ ${money(statement.orderCredits)}`],
+        [`Refunds (${statement.refundCount})`, `- ${money(statement.refunds)}`],
+        [`Payouts (${statement.withdrawalCount})`, `- ${money(statement.withdrawals)}`],
+        ["Closing balance", money(statement.closingBalance)],
+    ];
+    for (const [label, value] of summary) {
+        pdf.text(label, 14, y);
+        pdf.text(value, 196, y, { align: "right" });
+        y += 7;
+    }
+
+    y += 6;
+    pdf.setFontSize(9);
+    pdf.text("Time", 14, y);
+    pdf.text("Type", 36, y);
+    pdf.text("Description", 66, y);
+    pdf.text("Amount", 196, y, { align: "right" });
+    y += 6;
+
+    for (const line of statement.lines || []) {
+        if (y > 282) {
+            pdf.addPage();
+            y = 18;
+        }
+        const sign = line.type === "credit" ? "+" : "-";
+        pdf.text(new Date(line.createdAt).toLocaleTimeString("en-IN", { hour: "2-digit", minute: "2-digit", timeZone: "Asia/Kolkata" }), 14, y);
+        pdf.text(line.type.replace("_", " "), 36, y);
+        pdf.text(pdf.splitTextToSize(line.description, 100)[0], 66, y);
+        pdf.text(`${sign} ${money(line.amount)}`, 196, y, { align: "right" });
+        y += 6;
+    }
+
+    pdf.save(`zayko-statement-${statement.date}.pdf`);
 }
 
 export default function AdminWalletPage() {
     const [wallet, setWallet] = useState<CanteenWallet | null>(null);
-    const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
+    const [transactions, setTransactions] = useState<CanteenTransaction[]>([]);
     const [loading, setLoading] = useState(true);
     const [withdrawAmount, setWithdrawAmount] = useState("");
+    const [payoutNote, setPayoutNote] = useState("");
     const [withdrawing, setWithdrawing] = useState(false);
     const [showWithdraw, setShowWithdraw] = useState(false);
+    const [studentWithdrawals, setStudentWithdrawals] = useState<Withdrawal[]>([]);
+    const [reviewing, setReviewing] = useState<string | null>(null);
+    const [payouts, setPayouts] = useState<CanteenPayout[]>([]);
+    const [updatingPayout, setUpdatingPayout] = useState<string | null>(null);
+    const [statementTo, setStatementTo] = useState(() => istDateKey());
+    const [statementFrom, setStatementFrom] = useState(() => addDays(istDateKey(), -6));
+    const [statements, setStatements] = useState<SettlementStatement[]>([]);
+    const [downloading, setDownloading] = useState<string | null>(null);
+    // Student wallets are campus-wide, so only the super admin reviews withdrawals
+    const [scoped] = useState(() => isOutletScopedAdmin());
 
     // ─── Real-time Listeners ───
     useEffect(() => {
-        // Listen to Wallet Document
-        const walletUnsub = onSnapshot(doc(db, "wallets", "canteen_owner"), (docSnap) => {
+        const outletId = getAdminOutletId();
+
+        // Listen to the outlet's Wallet Document
+        const walletUnsub = onSnapshot(doc(db, "wallets", canteenWalletId(outletId)), (docSnap) => {
             if (docSnap.exists()) {
                 setWallet(docSnap.data() as CanteenWallet);
             }
@@ -53,9 +148,14 @@ export default function AdminWalletPage() {
         });
 
         // Listen to Recent Transactions (limit to 100 for performance)
-        const q = query(collection(db, "canteenTransactions"), orderBy("createdAt", "desc"), limit(100));
+        const q = query(
+            collection(db, "canteenTransactions"),
+            where("outletId", "==", outletId),
+            orderBy("createdAt", "desc"),
+            limit(100)
+        );
         const txUnsub = onSnapshot(q, (snapshot) => {
-            const txs = snapshot.docs.map((d) => ({ id: d.id, ...d.data() } as WalletTransaction));
+            const txs = snapshot.docs.map((d) => ({ id: d.id, ...d.data() } as CanteenTransaction));
             setTransactions(txs);
         });
 
@@ -65,6 +165,124 @@ export default function AdminWalletPage() {
         };
     }, []);
 
+    // ─── Student Withdrawal Requests ───
+    const loadStudentWithdrawals = async () => {
+        try {
+            const [requested, processing] = await Promise.all([
+                getWithdrawals("requested"),
+                getWithdrawals("processing"),
+            ]);
+            setStudentWithdrawals([...processing, ...requested]);
+        } catch {
+            toast.error("Failed to load withdrawal requests");
+        }
+    };
+
+    useEffect(() => {
+        if (!scoped) loadStudentWithdrawals();
+    }, [scoped]);
+
+    const handleReview = async (w: Withdrawal, action: "approve" | "reject" | "settle") => {
+        let reason: string | undefined;
+        if (action === "approve") {
+            if (!confirm(`Refund ₹${w.amount} to ${w.userName}'s original payment method?`)) return;
+        } else if (action === "settle") {
+            if (!confirm(`Finish ${w.userName}'s withdrawal? Refunds already issued are found on Razorpay, the rest are issued now.`)) return;
+        } else {
+            const input = prompt(`Reason for rejecting ${w.userName}'s withdrawal (optional):`);
+            if (input === null) return;
+            reason = input;
+        }
+
+        setReviewing(w.id);
+        try {
+            const result = await reviewWithdrawal(w.id, action, reason);
+            if (!result.success) {
+                toast.error(result.error || "Failed to process withdrawal");
+            } else if (result.status === "rejected") {
+                toast.success("Withdrawal rejected — amount returned to wallet");
+            } else if (result.status === "failed") {
+                toast.error("Razorpay refund failed — amount returned to wallet");
+            } else if (result.returnedAmount) {
+                toast.success(`₹${result.refundedAmount} refunded, ₹${result.returnedAmount} returned to wallet`);
+            } else {
+                toast.success(`₹${result.refundedAmount} refunded 🎉`);
+            }
+        } catch {
+            toast.error("Network error processing withdrawal");
+        } finally {
+            setReviewing(null);
+            loadStudentWithdrawals();
+        }
+    };
+
+    // ─── Canteen Payouts ───
+    const loadPayouts = async () => {
+        try {
+            setPayouts(await getCanteenPayouts());
+        } catch {
+            toast.error("Failed to load payouts");
+        }
+    };
+
+    useEffect(() => {
+        loadPayouts();
+    }, []);
+
+    const handlePayoutAction = async (payout: CanteenPayout, action: "approve" | "pay" | "reject") => {
+        const extra: { bankReference?: string; reason?: string } = {};
+        if (action === "approve") {
+            if (!confirm(`Approve the ₹${payout.amount.toFixed(2)} payout for bank transfer?`)) return;
+        } else if (action === "pay") {
+            const reference = prompt(`Bank reference / UTR for the ₹${payout.amount.toFixed(2)} transfer:`);
+            if (!reference) return;
+            extra.bankReference = reference;
+        } else {
+            const input = prompt("Reason for rejecting this payout (optional):");
+            if (input === null) return;
+            extra.reason = input;
+        }
+
+        setUpdatingPayout(payout.id);
+        try {
+            const result = await updateCanteenPayout(payout.id, action, extra);
+            if (result.success) {
+                toast.success(action === "pay" ? "Payout marked as paid 🏦" : action === "approve" ? "Payout approved" : "Payout rejected");
+            } else {
+                toast.error(result.error || "Failed to update payout");
+            }
+        } catch {
+            toast.error("Network error updating payout");
+        } finally {
+            setUpdatingPayout(null);
+            loadPayouts();
+        }
+    };
+
+    // ─── Settlement Statements ───
+    useEffect(() => {
+        getSettlementStatements(statementFrom, statementTo)
+            .then(setStatements)
+            .catch((err) => toast.error(err.message || "Failed to load statements"));
+    }, [statementFrom, statementTo, transactions.length]);
+
+    const downloadStatement = async (date: string, format: "csv" | "pdf") => {
+        setDownloading(`${date}-${format}`);
+        try {
+            const statement = await getSettlementStatement(date);
+            if (format === "csv") {
+                downloadBlob(new Blob([statementCsv(statement)], { type: "text/csv" }), `zayko-statement-${date}.csv`);
+            } else {
+                await statementPdf(statement);
+            }
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to download ${format.toUpperCase()}`);
+        } finally {
+            setDownloading(null);
+        }
+    };
+
     // ─── Chart Data Aggregation ───
     const chartData = useMemo(() => {
         // Group credits by date for the area chart
@@ -95,7 +313,9 @@ export default function AdminWalletPage() {
         return Object.entries(dailyTotals).map(([date, amount]) => ({ date, amount }));
     }, [transactions]);
 
-    // ─── Withdrawal Handler ───
+    // ─── Payout Request Handler ───
+    const availableForPayout = Math.max(0, (wallet?.totalBalance || 0) - (wallet?.payoutHeld || 0));
+
     const handleWithdraw = async (e: React.FormEvent) => {
         e.preventDefault();
         const amount = Number(withdrawAmount);
@@ -104,32 +324,25 @@ export default function AdminWalletPage() {
             toast.error("Enter a valid amount");
             return;
         }
-        if (amount > (wallet?.totalBalance || 0)) {
+        if (amount > availableForPayout) {
             toast.error("Insufficient balance");
             return;
         }
 
         setWithdrawing(true);
         try {
-            const res = await fetch("/api/admin/wallet/withdraw", {
-                method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                    Authorization: `Bearer ${localStorage.getItem("adminToken")}`,
-                },
-                body: JSON.stringify({ amount }),
-            });
-            const data = await res.json();
-
-            if (res.ok) {
-                toast.success("Withdrawal successful! 🎉");
+            const result = await requestCanteenPayout(amount, payoutNote);
+            if (result.success) {
+                toast.success("Payout requested — approve it once the transfer is cleared");
                 setShowWithdraw(false);
                 setWithdrawAmount("");
+                setPayoutNote("");
+                loadPayouts();
             } else {
-                toast.error(data.error || "Withdrawal failed");
+                toast.error(result.error || "Payout request failed");
             }
         } catch {
-            toast.error("Network error processing withdrawal");
+            toast.error("Network error requesting payout");
         } finally {
             setWithdrawing(false);
         }
@@ -142,15 +355,7 @@ export default function AdminWalletPage() {
                 fields: ["createdAt", "type", "amount", "description", "orderId"],
             });
             const csv = parser.parse(transactions);
-            const blob = new Blob([csv], { type: "text/csv" });
-            const url = window.URL.createObjectURL(blob);
-            const a = document.createElement("a");
-            a.href = url;
-            a.download = `zayko-earnings-${new Date().toISOString().split("T")[0]}.csv`;
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            window.URL.revokeObjectURL(url);
+            downloadBlob(new Blob([csv], { type: "text/csv" }), `zayko-earnings-${new Date().toISOString().split("T")[0]}.csv`);
         } catch (err) {
             console.error(err);
             toast.error("Failed to export CSV");
@@ -198,11 +403,14 @@ export default function AdminWalletPage() {
                             <div className="mt-4 text-5xl font-display font-bold text-white tracking-tight">
                                 ₹{wallet?.totalBalance?.toFixed(2) || "0.00"}
                             </div>
+                            {!!wallet?.payoutHeld && (
+                                <p className="mt-2 text-sm text-gold-200/70">₹{wallet.payoutHeld.toFixed(2)} reserved for open payouts</p>
+                            )}
                             <button
                                 onClick={() => setShowWithdraw(true)}
                                 className="mt-6 w-full btn-gold py-3 shadow-[0_0_20px_rgba(255,215,0,0.2)]"
                             >
-                                Withdraw Funds
+                                Request Payout
                             </button>
                         </div>
 
@@ -231,6 +439,199 @@ export default function AdminWalletPage() {
                         </div>
                     </div>
 
+                    {/* Canteen Payouts */}
+                    <div className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6 backdrop-blur-md">
+                        <h3 className="text-white font-display font-bold text-lg mb-1">🏧 Canteen Payouts</h3>
+                        <p className="text-zayko-500 text-sm mb-6">Request → approve → mark paid with the bank reference once the transfer has gone through.</p>
+
+                        {payouts.length === 0 ? (
+                            <div className="text-center py-6 text-zayko-500">No payouts yet.</div>
+                        ) : (
+                            <div className="space-y-3">
+                                {payouts.map((p) => (
+                                    <div key={p.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-2xl bg-zayko-900/50 border border-zayko-700">
+                                        <div>
+                                            <p className="text-white font-semibold">
+                                                ₹{p.amount.toFixed(2)}
+                                                {p.note && <span className="text-zayko-400 font-normal"> • {p.note}</span>}
+                                            </p>
+                                            <p className="text-xs text-zayko-500 mt-0.5">
+                                                Requested by {p.requestedBy} • {new Date(p.requestedAt).toLocaleString()}
+                                                {p.approvedBy && ` • Approved by ${p.approvedBy}`}
+                                                {p.bankReference && ` • Ref ${p.bankReference}`}
+                                                {p.rejectionReason && ` • ${p.rejectionReason}`}
+                                            </p>
+                                        </div>
+                                        <div className="flex items-center gap-3">
+                                            <span className={`px-3 py-1.5 rounded-lg border text-xs font-semibold uppercase ${PAYOUT_BADGES[p.status]}`}>
+                                                {p.status}
+                                            </span>
+                                            {(p.status === "requested" || p.status === "approved") && (
+                                                <button
+                                                    onClick={() => handlePayoutAction(p, "reject")}
+                                                    disabled={updatingPayout === p.id}
+                                                    className="px-4 py-2 rounded-lg bg-zayko-700 text-zayko-300 text-sm font-medium hover:bg-zayko-600 transition-colors disabled:opacity-50"
+                                                >
+                                                    Reject
+                                                </button>
+                                            )}
+                                            {p.status === "requested" && (
+                                                <button
+                                                    onClick={() => handlePayoutAction(p, "approve")}
+                                                    disabled={updatingPayout === p.id}
+                                                    className="px-4 py-2 rounded-lg bg-blue-500 text-white text-sm font-bold hover:bg-blue-400 transition-colors disabled:opacity-50"
+                                                >
+                                                    {updatingPayout === p.id ? "..." : "Approve"}
+                                                </button>
+                                            )}
+                                            {p.status === "approved" && (
+                                                <button
+                                                    onClick={() => handlePayoutAction(p, "pay")}
+                                                    disabled={updatingPayout === p.id}
+                                                    className="px-4 py-2 rounded-lg bg-emerald-500 text-zayko-900 text-sm font-bold hover:bg-emerald-400 transition-colors disabled:opacity-50"
+                                                >
+                                                    {updatingPayout === p.id ? "..." : "Mark Paid"}
+                                                </button>
+                                            )}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Settlement Statements */}
+                    <div className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6 backdrop-blur-md">
+                        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-6">
+                            <div>
+                                <h3 className="text-white font-display font-bold text-lg mb-1">🧾 Daily Settlement Statements</h3>
+                                <p className="text-zayko-500 text-sm">Opening balance, completed orders, refunds, payouts and closing balance per day (IST).</p>
+                            </div>
+                            <div className="flex items-center gap-2 text-sm">
+                                <input
+                                    type="date"
+                                    value={statementFrom}
+                                    max={statementTo}
+                                    onChange={(e) => e.target.value && setStatementFrom(e.target.value)}
+                                    className="px-3 py-2 bg-zayko-900 border border-zayko-600 rounded-lg text-white"
+                                />
+                                <span className="text-zayko-500">→</span>
+                                <input
+                                    type="date"
+                                    value={statementTo}
+                                    min={statementFrom}
+                                    max={istDateKey()}
+                                    onChange={(e) => e.target.value && setStatementTo(e.target.value)}
+                                    className="px-3 py-2 bg-zayko-900 border border-zayko-600 rounded-lg text-white"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-left border-collapse text-sm">
+                                <thead>
+                                    <tr className="border-b border-zayko-700 text-zayko-400">
+                                        <th className="pb-3 font-medium">Date</th>
+                                        <th className="pb-3 font-medium text-right">Opening</th>
+                                        <th className="pb-3 font-medium text-right">Orders</th>
+                                        <th className="pb-3 font-medium text-right">Refunds</th>
+                                        <th className="pb-3 font-medium text-right">Payouts</th>
+                                        <th className="pb-3 font-medium text-right">Closing</th>
+                                        <th className="pb-3 font-medium text-right">Download</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {[...statements].reverse().map((st) => (
+                                        <tr key={st.date} className="border-b border-zayko-700/50 last:border-0">
+                                            <td className="py-3 text-zayko-300">
+                                                {st.date}
+                                                {!st.finalized && <span className="ml-2 text-xs text-amber-400">open</span>}
+                                            </td>
+                                            <td className="py-3 text-right text-zayko-300">₹{st.openingBalance.toFixed(2)}</td>
+                                            <td className="py-3 text-right text-emerald-400">+₹{st.orderCredits.toFixed(2)} <span className="text-zayko-500">({st.orderCount})</span></td>
+                                            <td className="py-3 text-right text-red-400">-₹{st.refunds.toFixed(2)}</td>
+                                            <td className="py-3 text-right text-purple-400">-₹{st.withdrawals.toFixed(2)}</td>
+                                            <td className="py-3 text-right text-white font-semibold">₹{st.closingBalance.toFixed(2)}</td>
+                                            <td className="py-3 text-right whitespace-nowrap">
+                                                {(["csv", "pdf"] as const).map((format) => (
+                                                    <button
+                                                        key={format}
+                                                        onClick={() => downloadStatement(st.date, format)}
+                                                        disabled={downloading === `${st.date}-${format}`}
+                                                        className="ml-2 px-2.5 py-1 rounded-md bg-zayko-700 text-zayko-200 text-xs font-semibold hover:bg-zayko-600 disabled:opacity-50"
+                                                    >
+                                                        {format.toUpperCase()}
+                                                    </button>
+                                                ))}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+
+                    {/* Student Withdrawal Requests */}
+                    {!scoped && <div className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6 backdrop-blur-md">
+                        <h3 className="text-white font-display font-bold text-lg mb-1">🏦 Student Withdrawal Requests</h3>
+                        <p className="text-zayko-500 text-sm mb-6">Approving refunds the amount via Razorpay to the student&apos;s original top-ups, oldest first.</p>
+
+                        {studentWithdrawals.length === 0 ? (
+                            <div className="text-center py-6 text-zayko-500">No pending requests.</div>
+                        ) : (
+                            <div className="space-y-3">
+                                {studentWithdrawals.map((w) => (
+                                    <div key={w.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-2xl bg-zayko-900/50 border border-zayko-700">
+                                        <div>
+                                            <p className="text-white font-semibold">
+                                                {w.userName}
+                                                {w.userRollNumber && <span className="text-zayko-400 font-normal"> • {w.userRollNumber}</span>}
+                                            </p>
+                                            <p className="text-xs text-zayko-500 mt-0.5">
+                                                Requested {new Date(w.requestedAt).toLocaleString()}
+                                            </p>
+                                        </div>
+                                        <div className="flex items-center gap-3">
+                                            <span className="text-xl font-display font-bold text-gold-400">₹{w.amount.toFixed(2)}</span>
+                                            {w.status === "processing" ? (
+                                                <>
+                                                    <span className="px-3 py-1.5 rounded-lg bg-blue-500/10 text-blue-400 border border-blue-500/20 text-xs font-semibold">
+                                                        PROCESSING
+                                                    </span>
+                                                    {/* Approvals that were cut short stay processing until settled */}
+                                                    <button
+                                                        onClick={() => handleReview(w, "settle")}
+                                                        disabled={reviewing === w.id}
+                                                        className="px-4 py-2 rounded-lg bg-zayko-700 text-zayko-300 text-sm font-medium hover:bg-zayko-600 transition-colors disabled:opacity-50"
+                                                    >
+                                                        {reviewing === w.id ? "..." : "Retry / Settle"}
+                                                    </button>
+                                                </>
+                                            ) : (
+                                                <>
+                                                    <button
+                                                        onClick={() => handleReview(w, "reject")}
+                                                        disabled={reviewing === w.id}
+                                                        className="px-4 py-2 rounded-lg bg-zayko-700 text-zayko-300 text-sm font-medium hover:bg-zayko-600 transition-colors disabled:opacity-50"
+                                                    >
+                                                        Reject
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleReview(w, "approve")}
+                                                        disabled={reviewing === w.id}
+                                                        className="px-4 py-2 rounded-lg bg-emerald-500 text-zayko-900 text-sm font-bold hover:bg-emerald-400 transition-colors disabled:opacity-50"
+                                                    >
+                                                        {reviewing === w.id ? "..." : "Approve & Refund"}
+                                                    </button>
+                                                </>
+                                            )}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>}
+
                     {/* Chart Section */}
                     <div className="bg-zayko-800/50 border border-zayko-700 rounded-3xl p-6 backdrop-blur-md">
                         <h3 className="text-white font-display font-bold text-lg mb-6 flex items-center gap-2">
@@ -329,9 +730,9 @@ export default function AdminWalletPage() {
                 {showWithdraw && (
                     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
                         <div className="bg-zayko-800 border border-zayko-700 rounded-3xl p-6 w-full max-w-sm animate-scale-in">
-                            <h3 className="text-xl font-display font-bold text-white mb-2">Withdraw Funds</h3>
+                            <h3 className="text-xl font-display font-bold text-white mb-2">Request Payout</h3>
                             <p className="text-zayko-400 text-sm mb-6">
-                                Available Balance: <strong className="text-gold-400">₹{wallet?.totalBalance?.toFixed(2)}</strong>
+                                Available for payout: <strong className="text-gold-400">₹{availableForPayout.toFixed(2)}</strong>
                             </p>
 
                             <form onSubmit={handleWithdraw}>
@@ -341,7 +742,7 @@ export default function AdminWalletPage() {
                                         type="number"
                                         min="1"
                                         step="0.01"
-                                        max={wallet?.totalBalance || 0}
+                                        max={availableForPayout}
                                         value={withdrawAmount}
                                         onChange={(e) => setWithdrawAmount(e.target.value)}
                                         className="w-full pl-8 pr-4 py-3 bg-zayko-900 border border-zayko-600 rounded-xl text-white focus:ring-2 focus:ring-gold-400 focus:outline-none font-medium"
@@ -349,6 +750,14 @@ export default function AdminWalletPage() {
                                         autoFocus
                                     />
                                 </div>
+                                <input
+                                    type="text"
+                                    value={payoutNote}
+                                    onChange={(e) => setPayoutNote(e.target.value)}
+                                    maxLength={200}
+                                    placeholder="Note (optional)"
+                                    className="w-full mb-6 px-4 py-3 bg-zayko-900 border border-zayko-600 rounded-xl text-white focus:ring-2 focus:ring-gold-400 focus:outline-none text-sm"
+                                />
                                 <div className="flex gap-3">
                                     <button
                                         type="button"
@@ -362,7 +771,7 @@ export default function AdminWalletPage() {
                                         disabled={withdrawing || !withdrawAmount}
                                         className="flex-1 btn-gold py-3 font-medium disabled:opacity-50"
                                     >
-                                        {withdrawing ? "Processing..." : "Confirm"}
+                                        {withdrawing ? "Requesting..." : "Request"}
                                     </button>
                                 </div>
                             </form>
@@ -5,9 +5,15 @@
  * - Removed hardcoded credential fallbacks (fail if env vars missing)
  * - Replaced Base64 token with signed JWT via signAdminToken()
  * - Added rate limiting (5 requests per minute per IP)
+ *
+ * The env credentials sign in the super admin. Anyone else is looked up in
+ * outletAdmins/{username} (bcrypt hash) and gets a token scoped to that
+ * outlet; accounts of deactivated outlets can't sign in.
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import bcrypt from "bcryptjs";
+import { adminDb } from "@/lib/firebase-admin";
 import { signAdminToken } from "@/lib/admin-auth";
 import { checkRateLimit } from "@/lib/rate-limit";
 
@@ -31,17 +37,36 @@ export async function POST(req: NextRequest) {
             );
         }
 
-        if (username !== adminUsername || password !== adminPassword) {
+        if (username === adminUsername && password === adminPassword) {
+            // SECURITY: Sign a proper JWT instead of Base64 string
+            const token = signAdminToken(username);
+            return NextResponse.json({ token, success: true });
+        }
+
+        // Outlet admin accounts
+        const accountId = typeof username === "string" ? username.trim().toLowerCase() : "";
+        const accountDoc = accountId && typeof password === "string"
+            ? await adminDb.collection("outletAdmins").doc(accountId).get()
+            : null;
+        const account = accountDoc?.exists ? accountDoc.data()! : null;
+
+        if (!account || !(await bcrypt.compare(password, account.passwordHash))) {
             return NextResponse.json(
                 { error: "Invalid credentials" },
                 { status: 401 }
             );
         }
 
-        // SECURITY: Sign a proper JWT instead of Base64 string
-        const token = signAdminToken(username);
+        const outletDoc = await adminDb.collection("outlets").doc(account.outletId).get();
+        if (outletDoc.exists && outletDoc.data()!.active === false) {
+            return NextResponse.json(
+                { error: "This outlet is deactivated" },
+                { status: 403 }
+            );
+        }
 
-        return NextResponse.json({ token, success: true });
+        const token = signAdminToken(accountId, account.outletId);
+        return NextResponse.json({ token, success: true, outletId: account.outletId });
     } catch {
         return NextResponse.json(
             { error: "Internal server error" },
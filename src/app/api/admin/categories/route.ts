@@ -5,6 +5,9 @@
  * POST   → Create category (duplicate check, auto-slug)
  * PUT    → Rename category (cascades slug to menuItems)
  * DELETE → Delete category (blocked if items exist)
+ *
+ * Categories are shared by every outlet, so only the super admin can
+ * change them.
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -13,10 +16,14 @@ import { verifyAdmin } from "@/lib/admin-auth";
 
 export const runtime = "nodejs";
 
-function requireAdmin(req: NextRequest): NextResponse | null {
-    if (!verifyAdmin(req)) {
+function requireAdmin(req: NextRequest, write = false): NextResponse | null {
+    const admin = verifyAdmin(req);
+    if (!admin) {
         return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (write && admin.outletId) {
+        return NextResponse.json({ error: "Only the campus admin can change categories" }, { status: 403 });
+    }
     return null;
 }
 
@@ -55,7 +62,7 @@ export async function GET(req: NextRequest) {
 // ─── POST: Create new category ──────────────────
 
 export async function POST(req: NextRequest) {
-    const authError = requireAdmin(req);
+    const authError = requireAdmin(req, true);
     if (authError) return authError;
 
     try {
@@ -103,7 +110,7 @@ export async function POST(req: NextRequest) {
 // ─── PUT: Rename category ───────────────────────
 
 export async function PUT(req: NextRequest) {
-    const authError = requireAdmin(req);
+    const authError = requireAdmin(req, true);
     if (authError) return authError;
 
     try {
@@ -163,7 +170,7 @@ export async function PUT(req: NextRequest) {
 // ─── DELETE: Remove category ────────────────────
 
 export async function DELETE(req: NextRequest) {
-    const authError = requireAdmin(req);
+    const authError = requireAdmin(req, true);
     if (authError) return authError;
 
     try {
@@ -0,0 +1,63 @@
+/**
+ * GET /api/admin/inventory-adjustments — Restocked vs. wasted units
+ *
+ * Query: ?from=YYYY-MM-DD&to=YYYY-MM-DD — IST calendar days, inclusive
+ * (defaults to today), at most MAX_RANGE_DAYS days per request
+ * Returns the raw inventoryAdjustments entries plus per-item totals so
+ * stock reports can separate sold units from returned and written-off ones.
+ * Entries are limited to the admin's outlet (see adminOutletId).
+ *
+ * SECURITY: Admin JWT required.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { addDays, isDateKey, istDateKey, istDayStart } from "@/lib/ist-date";
+import { adminOutletId, verifyAdmin } from "@/lib/admin-auth";
+import type { InventoryAdjustment } from "@/types";
+
+export const runtime = "nodejs";
+
+const MAX_RANGE_DAYS = 31;
+
+export async function GET(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const today = istDateKey();
+        const from = req.nextUrl.searchParams.get("from") || today;
+        const to = req.nextUrl.searchParams.get("to") || from;
+        if (!isDateKey(from) || !isDateKey(to) || from > to) {
+            return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+        }
+        if (addDays(from, MAX_RANGE_DAYS - 1) < to) {
+            return NextResponse.json({ error: `At most ${MAX_RANGE_DAYS} days per request` }, { status: 400 });
+        }
+
+        const snapshot = await adminDb
+            .collection("inventoryAdjustments")
+            .where("outletId", "==", adminOutletId(req, admin))
+            .where("createdAt", ">=", istDayStart(from))
+            .where("createdAt", "<", istDayStart(addDays(to, 1)))
+            .orderBy("createdAt", "desc")
+            .get();
+
+        const adjustments = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as InventoryAdjustment);
+
+        const totals: Record<string, { itemName: string; restocked: number; wasted: number }> = {};
+        for (const adj of adjustments) {
+            const row = totals[adj.menuItemId] || { itemName: adj.itemName, restocked: 0, wasted: 0 };
+            if (adj.action === "restock") row.restocked += adj.quantity;
+            else row.wasted += adj.quantity;
+            totals[adj.menuItemId] = row;
+        }
+
+        return NextResponse.json({ from, to, adjustments, totals });
+    } catch (error) {
+        console.error("Failed to fetch inventory adjustments:", error);
+        return NextResponse.json({ error: "Failed to fetch inventory adjustments" }, { status: 500 });
+    }
+}
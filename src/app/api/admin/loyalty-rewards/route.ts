@@ -0,0 +1,128 @@
+/**
+ * /api/admin/loyalty-rewards — What students of the admin's outlet can
+ * spend loyalty points on (see lib/loyalty)
+ *
+ * GET  → { rewards } cheapest first
+ * POST { action, ... }:
+ *      - save    { reward: { id?, type, name, pointsCost, ... } } creates,
+ *                or updates an existing reward (its redemption count stays)
+ *      - toggle  { id, active }
+ *      - delete  { id } — only rewards nobody has redeemed; switch the rest
+ *                off so the ledger still points at them
+ *
+ * Coupons already issued for a reward keep their value when it changes.
+ *
+ * SECURITY: Admin JWT required; outlet admins only see and change their
+ * own outlet's rewards.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { adminOutletId, verifyAdmin } from "@/lib/admin-auth";
+import { outletIdOf } from "@/lib/outlets";
+import { LoyaltyError, MAX_REWARDS_PER_OUTLET, normalizeReward } from "@/lib/loyalty";
+import type { LoyaltyReward } from "@/types";
+
+export const runtime = "nodejs";
+
+const rewardsRef = () => adminDb.collection("loyaltyRewards");
+
+async function listRewards(outletId: string): Promise<LoyaltyReward[]> {
+    const snap = await rewardsRef().where("outletId", "==", outletId).get();
+    return snap.docs
+        .map((d) => ({ id: d.id, ...d.data() }) as LoyaltyReward)
+        .sort((a, b) => a.pointsCost - b.pointsCost);
+}
+
+export async function GET(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        return NextResponse.json({ rewards: await listRewards(adminOutletId(req, admin)) });
+    } catch (error) {
+        console.error("Failed to fetch loyalty rewards:", error);
+        return NextResponse.json({ error: "Failed to fetch rewards" }, { status: 500 });
+    }
+}
+
+export async function POST(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const body = await req.json();
+        const outletId = adminOutletId(req, admin);
+        const now = new Date().toISOString();
+
+        if (body.action === "save") {
+            const id = typeof body.reward?.id === "string" ? body.reward.id : "";
+            const fields = normalizeReward(body.reward);
+
+            if (!id && (await listRewards(outletId)).length >= MAX_REWARDS_PER_OUTLET) {
+                return NextResponse.json({ error: `An outlet can have at most ${MAX_REWARDS_PER_OUTLET} rewards` }, { status: 400 });
+            }
+            if (fields.type === "free_item") {
+                const item = await adminDb.collection("menuItems").doc(fields.itemId!).get();
+                if (!item.exists || outletIdOf(item.data()) !== outletId) {
+                    return NextResponse.json({ error: "Menu item not found" }, { status: 404 });
+                }
+                fields.itemName = item.data()!.name;
+            }
+
+            const ref = id ? rewardsRef().doc(id) : rewardsRef().doc();
+            const reward = await adminDb.runTransaction(async (transaction) => {
+                const doc = id ? await transaction.get(ref) : null;
+                if (doc && (!doc.exists || outletIdOf(doc.data()) !== outletId)) {
+                    throw new LoyaltyError("Reward not found", 404);
+                }
+                // Full set so fields of the old type don't linger
+                const saved: Omit<LoyaltyReward, "id"> = {
+                    ...fields,
+                    outletId,
+                    redeemedCount: Number(doc?.data()?.redeemedCount) || 0,
+                    createdAt: doc?.data()?.createdAt || now,
+                    updatedAt: now,
+                };
+                transaction.set(ref, saved);
+                return { id: ref.id, ...saved };
+            });
+            return NextResponse.json({ success: true, reward });
+        }
+
+        const id = typeof body.id === "string" ? body.id : "";
+        if (!id) {
+            return NextResponse.json({ error: "Reward ID required" }, { status: 400 });
+        }
+        const ref = rewardsRef().doc(id);
+        const doc = await ref.get();
+        if (!doc.exists || outletIdOf(doc.data()) !== outletId) {
+            return NextResponse.json({ error: "Reward not found" }, { status: 404 });
+        }
+
+        if (body.action === "toggle") {
+            await ref.update({ active: body.active === true, updatedAt: now });
+            return NextResponse.json({ success: true });
+        }
+
+        if (body.action === "delete") {
+            if ((Number(doc.data()!.redeemedCount) || 0) > 0) {
+                return NextResponse.json({ error: "This reward has been redeemed — switch it off instead" }, { status: 409 });
+            }
+            await ref.delete();
+            return NextResponse.json({ success: true });
+        }
+
+        return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+    } catch (error) {
+        if (error instanceof LoyaltyError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Failed to update loyalty rewards:", error);
+        return NextResponse.json({ error: "Failed to update rewards" }, { status: 500 });
+    }
+}
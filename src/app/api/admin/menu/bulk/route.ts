@@ -4,13 +4,15 @@
  * Accepts an array of confirmed menu items and batch-writes them to Firestore.
  * Used after the admin reviews AI-parsed items and clicks "Confirm & Add All".
  *
+ * Items are added to the admin's outlet.
+ *
  * Request body: { items: Array<{ name, price, category }> }
  * Response:     { success: true, count: number, ids: string[] }
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { adminDb } from "@/lib/firebase-admin";
-import { verifyAdmin } from "@/lib/admin-auth";
+import { adminOutletId, verifyAdmin } from "@/lib/admin-auth";
 
 interface BulkMenuItem {
     name: string;
@@ -22,7 +24,8 @@ export const runtime = "nodejs";
 
 export async function POST(req: NextRequest): Promise<NextResponse> {
     // SECURITY: Admin-only endpoint
-    if (!verifyAdmin(req)) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
         return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
@@ -52,6 +55,7 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
         const batch = adminDb.batch();
         const ids: string[] = [];
         const now = new Date().toISOString();
+        const outletId = adminOutletId(req, admin);
 
         for (const item of items) {
             const docRef = adminDb.collection("menuItems").doc();
@@ -65,6 +69,7 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
                 quantity: 50,           // Default: 50 units
                 preparationTime: 0,
                 description: "",
+                outletId,
                 createdAt: now,
                 updatedAt: now,
             });
@@ -4,29 +4,65 @@
  * SECURITY CHANGES:
  * - All handlers now require admin JWT verification via verifyAdmin()
  * - Returns 401 Unauthorized if token is missing or invalid
+ * - Items belong to the admin's outlet (adminOutletId); an item's outlet
+ *   can't be changed and outlet admins can't edit other outlets' items
+ *
+ * Combos (type "combo", see lib/combos) bundle other items of the same
+ * outlet: their components are checked and snapshotted here, they keep no
+ * stock of their own, and an item can't be deleted while a combo uses it.
+ * An item's type is fixed when it's created.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { adminDb } from "@/lib/firebase-admin";
-import { verifyAdmin } from "@/lib/admin-auth";
+import { adminOutletId, canManageOutlet, verifyAdmin } from "@/lib/admin-auth";
+import { outletIdOf } from "@/lib/outlets";
+import { ComboError, isCombo, normalizeComponents } from "@/lib/combos";
+import { OrderPlacementError, priceLine } from "@/lib/order-placement";
+import type { ComboComponent } from "@/types";
 
 export const runtime = "nodejs";
 
-// SECURITY: Centralized auth check for all admin menu operations
-function requireAdmin(req: NextRequest): NextResponse | null {
-    if (!verifyAdmin(req)) {
-        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    return null;
+/**
+ * A combo's components checked against the outlet's menu, each with its
+ * item name and chosen options filled in from the menu as it is now.
+ */
+async function resolveComponents(raw: unknown, outletId: string): Promise<ComboComponent[]> {
+    const inputs = normalizeComponents(raw);
+    const snapshots = await adminDb.getAll(...inputs.map((c) => adminDb.collection("menuItems").doc(c.itemId)));
+    return inputs.map((input, index) => {
+        const snapshot = snapshots[index];
+        if (!snapshot.exists || outletIdOf(snapshot.data()) !== outletId) {
+            throw new ComboError("A combo item was not found", 404);
+        }
+        if (isCombo(snapshot.data())) {
+            throw new ComboError(`${snapshot.data()!.name} is a combo itself`);
+        }
+        try {
+            // Same option rules as ordering the item on its own
+            const line = priceLine({ id: input.itemId, quantity: input.quantity, selectedOptions: input.selectedOptions }, snapshot);
+            const component: ComboComponent = { itemId: line.id, name: line.name, quantity: input.quantity };
+            if (line.selectedOptions) component.selectedOptions = line.selectedOptions;
+            return component;
+        } catch (error) {
+            if (error instanceof OrderPlacementError) throw new ComboError(error.message);
+            throw error;
+        }
+    });
 }
 
 export async function GET(req: NextRequest) {
-    const authError = requireAdmin(req);
-    if (authError) return authError;
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
 
     try {
+        const outletId = adminOutletId(req, admin);
         const snapshot = await adminDb.collection("menuItems").get();
-        const items = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }));
+        const items = snapshot.docs
+            .filter((doc) => outletIdOf(doc.data()) === outletId)
+            .map((doc) => ({ id: doc.id, ...doc.data() }));
         return NextResponse.json({ items });
     } catch (error) {
         console.error("Failed to fetch menu items:", error);
@@ -35,53 +71,101 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
-    const authError = requireAdmin(req);
-    if (authError) return authError;
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
 
     try {
         const body = await req.json();
+        const outletId = adminOutletId(req, admin);
+        if (isCombo(body)) {
+            body.components = await resolveComponents(body.components, outletId);
+            body.quantity = 0;
+            body.customizations = [];
+        } else {
+            delete body.components;
+        }
         const docRef = await adminDb.collection("menuItems").add({
             ...body,
+            outletId,
             createdAt: new Date().toISOString(),
             updatedAt: new Date().toISOString(),
         });
         return NextResponse.json({ id: docRef.id, success: true });
     } catch (error) {
+        if (error instanceof ComboError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
         console.error("Failed to add menu item:", error);
         return NextResponse.json({ error: "Failed to add item" }, { status: 500 });
     }
 }
 
 export async function PUT(req: NextRequest) {
-    const authError = requireAdmin(req);
-    if (authError) return authError;
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
 
     try {
         const { id, ...data } = await req.json();
         if (!id) {
             return NextResponse.json({ error: "Item ID required" }, { status: 400 });
         }
-        await adminDb.collection("menuItems").doc(id).update({
+        delete data.outletId;
+        delete data.type;
+        const itemRef = adminDb.collection("menuItems").doc(id);
+        const existing = (await itemRef.get()).data();
+        if (!canManageOutlet(admin, existing)) {
+            return NextResponse.json({ error: "Item not found" }, { status: 404 });
+        }
+        if (!isCombo(existing)) {
+            delete data.components;
+        } else if ("components" in data) {
+            data.components = await resolveComponents(data.components, outletIdOf(existing));
+            data.quantity = 0;
+            data.customizations = [];
+        }
+        await itemRef.update({
             ...data,
             updatedAt: new Date().toISOString(),
         });
         return NextResponse.json({ success: true });
     } catch (error) {
+        if (error instanceof ComboError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
         console.error("Failed to update menu item:", error);
         return NextResponse.json({ error: "Failed to update item" }, { status: 500 });
     }
 }
 
 export async function DELETE(req: NextRequest) {
-    const authError = requireAdmin(req);
-    if (authError) return authError;
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
 
     try {
         const { id } = await req.json();
         if (!id) {
             return NextResponse.json({ error: "Item ID required" }, { status: 400 });
         }
-        await adminDb.collection("menuItems").doc(id).delete();
+        const itemRef = adminDb.collection("menuItems").doc(id);
+        if (!canManageOutlet(admin, (await itemRef.get()).data())) {
+            return NextResponse.json({ error: "Item not found" }, { status: 404 });
+        }
+        const combos = await adminDb.collection("menuItems").where("type", "==", "combo").get();
+        const usedIn = combos.docs.find((doc) =>
+            ((doc.data().components || []) as ComboComponent[]).some((c) => c.itemId === id));
+        if (usedIn) {
+            return NextResponse.json(
+                { error: `This item is part of the ${usedIn.data().name} combo — take it out of the combo first` },
+                { status: 409 }
+            );
+        }
+        await itemRef.delete();
         return NextResponse.json({ success: true });
     } catch (error) {
         console.error("Failed to delete menu item:", error);
@@ -0,0 +1,41 @@
+/**
+ * GET /api/admin/orders/history?orderId=xxx — Status timeline for one order
+ *
+ * Reads orders/{orderId}/statusHistory (oldest first). Admin JWT required.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { canManageOutlet, verifyAdmin } from "@/lib/admin-auth";
+
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const orderId = req.nextUrl.searchParams.get("orderId");
+    if (!orderId) {
+        return NextResponse.json({ error: "Order ID required" }, { status: 400 });
+    }
+
+    try {
+        const orderRef = adminDb.collection("orders").doc(orderId);
+        if (admin.outletId && !canManageOutlet(admin, (await orderRef.get()).data())) {
+            return NextResponse.json({ error: "Order not found" }, { status: 404 });
+        }
+
+        const snapshot = await orderRef
+            .collection("statusHistory")
+            .orderBy("createdAt", "asc")
+            .get();
+
+        const history = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }));
+        return NextResponse.json({ history });
+    } catch (error) {
+        console.error("Failed to fetch order history:", error);
+        return NextResponse.json({ error: "Failed to fetch order history" }, { status: 500 });
+    }
+}
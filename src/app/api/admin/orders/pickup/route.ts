@@ -0,0 +1,146 @@
+/**
+ * POST /api/admin/orders/pickup — Verify a pickup at the counter
+ *
+ * Body: { id, token: "123456" } — the order doc id and code decoded from
+ * the QR on the student's order card — or { orderId: "ZKO4F7X", token }
+ * typed in from it. Short order IDs can repeat: when a typed-in one matches
+ * several orders and the code matches none of them, the admin is asked to
+ * scan the QR (409) and no attempt is counted against any order.
+ *
+ * Marks the order `completed` only if it is `ready` and the one-time token
+ * matches; the token is then deleted so the same QR can't be reused.
+ *
+ * SECURITY:
+ * - Admin JWT required; rate limited
+ * - Tokens are only readable by the order's owner (Firestore rules), so a
+ *   matching token proves the student holds that order
+ * - After MAX_FAILED_ATTEMPTS wrong codes the order must be handed over
+ *   manually from /admin/orders
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { DocumentSnapshot, FieldValue } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { canManageOutlet, verifyAdmin } from "@/lib/admin-auth";
+import { outletIdOf } from "@/lib/outlets";
+import { ORDER_DOC_ID_PATTERN } from "@/lib/pickup";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { updateCanteenWallet } from "@/lib/canteen-wallet";
+import { recordStatusChange } from "@/lib/order-status";
+import type { OrderStatus } from "@/types";
+
+export const runtime = "nodejs";
+
+const MAX_FAILED_ATTEMPTS = 5;
+
+class PickupError extends Error {
+    status: number;
+    constructor(message: string, status: number) {
+        super(message);
+        this.status = status;
+    }
+}
+
+export async function POST(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const rateLimitResponse = checkRateLimit(req, 30, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    try {
+        const body = await req.json();
+        const id = typeof body.id === "string" ? body.id.trim() : "";
+        const orderId = typeof body.orderId === "string" ? body.orderId.trim().toUpperCase() : "";
+        const token = typeof body.token === "string" ? body.token.trim() : "";
+        if ((id ? !ORDER_DOC_ID_PATTERN.test(id) : !orderId) || !/^\d{6}$/.test(token)) {
+            return NextResponse.json({ error: "Order ID and 6-digit pickup code required" }, { status: 400 });
+        }
+
+        const result = await adminDb.runTransaction(async (transaction) => {
+            let orderDoc: DocumentSnapshot | undefined;
+            if (id) {
+                orderDoc = await transaction.get(adminDb.collection("orders").doc(id));
+            } else {
+                const snapshot = await transaction.get(adminDb.collection("orders").where("orderId", "==", orderId));
+                const candidates = snapshot.docs.filter((d) => canManageOutlet(admin, d.data()));
+                if (candidates.length > 1) {
+                    // Only a matching code tells the orders apart
+                    orderDoc = candidates.find((d) => d.data().status === "ready" && d.data().pickupToken === token);
+                    if (!orderDoc) {
+                        throw new PickupError("Several orders share this ID — scan the QR code instead", 409);
+                    }
+                } else {
+                    orderDoc = candidates[0];
+                }
+            }
+            if (!orderDoc?.exists || !canManageOutlet(admin, orderDoc.data())) {
+                throw new PickupError("Order not found", 404);
+            }
+
+            const order = orderDoc.data()!;
+            const status = order.status as OrderStatus;
+
+            if (status === "completed") {
+                throw new PickupError(`Already collected${order.pickupVerifiedAt ? ` at ${new Date(order.pickupVerifiedAt).toLocaleTimeString("en-IN")}` : ""}`, 409);
+            }
+            if (status !== "ready") {
+                throw new PickupError(`Order is ${status}, not ready for pickup`, 409);
+            }
+            if ((order.pickupFailedAttempts || 0) >= MAX_FAILED_ATTEMPTS) {
+                throw new PickupError("Too many wrong codes — verify the student manually", 423);
+            }
+            if (!order.pickupToken || order.pickupToken !== token) {
+                transaction.update(orderDoc.ref, { pickupFailedAttempts: FieldValue.increment(1) });
+                return { ok: false as const };
+            }
+
+            await updateCanteenWallet(transaction, status, "completed", order.total, order.orderId, outletIdOf(order), order.userId);
+
+            const now = new Date().toISOString();
+            transaction.update(orderDoc.ref, {
+                status: "completed",
+                pickupToken: FieldValue.delete(),
+                pickupVerifiedAt: now,
+                pickupVerifiedBy: admin.username,
+                updatedAt: now,
+            });
+
+            recordStatusChange(transaction, orderDoc.ref, {
+                from: status,
+                to: "completed",
+                changedBy: admin.username,
+                actorRole: "admin",
+                note: "Pickup verified by QR",
+                createdAt: now,
+            });
+
+            return {
+                ok: true as const,
+                order: {
+                    id: orderDoc.id,
+                    orderId: order.orderId,
+                    userName: order.userName,
+                    userRollNumber: order.userRollNumber,
+                    items: order.items,
+                    total: order.total,
+                },
+            };
+        });
+
+        // Failed attempts are committed above, so the error is returned here
+        if (!result.ok) {
+            return NextResponse.json({ error: "Pickup code does not match this order" }, { status: 403 });
+        }
+
+        return NextResponse.json({ success: true, order: result.order });
+    } catch (error) {
+        if (error instanceof PickupError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Pickup verification failed:", error);
+        return NextResponse.json({ error: "Pickup verification failed" }, { status: 500 });
+    }
+}
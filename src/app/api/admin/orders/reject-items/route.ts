@@ -0,0 +1,145 @@
+/**
+ * POST /api/admin/orders/reject-items — Partial fulfilment
+ *
+ * Body: { orderId, lineIndexes: number[], note?, stockDisposition? }
+ *
+ * Marks individual OrderItem lines as unavailable and, in one transaction:
+ * - refunds just those lines to the user's wallet (wallet ledger `refund`),
+ *   or to the members who paid for them on a split group order — what the
+ *   lines were charged, after their promotion discounts
+ * - reduces Order.total and adds to Order.refundedAmount
+ * - releases the refunded amount from the canteen wallet via updateCanteenWallet
+ * - restocks or writes off the lines per the cancellation stock setting
+ *
+ * At least one line must remain — reject everything by cancelling instead.
+ * Without `stockDisposition`, the order's outlet's setting applies.
+ *
+ * SECURITY: Admin JWT required.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { FieldValue } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { canManageOutlet, verifyAdmin } from "@/lib/admin-auth";
+import { outletIdOf } from "@/lib/outlets";
+import { updateCanteenWallet } from "@/lib/canteen-wallet";
+import { openWallet, postWalletEntry, roundMoney, WALLET_PARTIES, type WalletHandle } from "@/lib/wallet-ledger";
+import { paymentShares } from "@/lib/order-placement";
+import { lineAmount } from "@/lib/promotions";
+import { applyStockReturn, getConfiguredStockDisposition, isStockDisposition, prepareStockReturn } from "@/lib/inventory";
+import type { OrderItem, OrderStatus, StockDisposition } from "@/types";
+
+export const runtime = "nodejs";
+
+const REJECTABLE_STATUSES: OrderStatus[] = ["pending", "confirmed", "preparing", "ready"];
+
+class RejectItemsError extends Error {
+    constructor(message: string, public status: number = 400) {
+        super(message);
+        this.name = "RejectItemsError";
+    }
+}
+
+export async function POST(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { orderId, lineIndexes, note, stockDisposition } = await req.json();
+        if (!orderId || typeof orderId !== "string") {
+            return NextResponse.json({ error: "Order ID required" }, { status: 400 });
+        }
+        if (!Array.isArray(lineIndexes) || lineIndexes.length === 0 || !lineIndexes.every((i) => Number.isInteger(i) && i >= 0)) {
+            return NextResponse.json({ error: "lineIndexes must be a non-empty list of item positions" }, { status: 400 });
+        }
+        if (stockDisposition !== undefined && !isStockDisposition(stockDisposition)) {
+            return NextResponse.json({ error: "Invalid stock disposition" }, { status: 400 });
+        }
+
+        const indexes = new Set<number>(lineIndexes);
+        const orderRef = adminDb.collection("orders").doc(orderId);
+
+        const result = await adminDb.runTransaction(async (transaction) => {
+            // 1. READ PHASE
+            const orderDoc = await transaction.get(orderRef);
+            if (!orderDoc.exists || !canManageOutlet(admin, orderDoc.data())) {
+                throw new RejectItemsError("Order not found", 404);
+            }
+
+            const orderData = orderDoc.data()!;
+            const status = orderData.status as OrderStatus;
+            if (!REJECTABLE_STATUSES.includes(status)) {
+                throw new RejectItemsError(`Cannot reject items on a ${status} order`, 409);
+            }
+
+            const items = (orderData.items || []) as OrderItem[];
+            for (const i of indexes) {
+                if (!items[i]) throw new RejectItemsError(`Order has no item at position ${i + 1}`);
+                if (items[i].rejected) throw new RejectItemsError(`${items[i].name} was already rejected`, 409);
+            }
+            const remaining = items.filter((item, i) => !item.rejected && !indexes.has(i));
+            if (remaining.length === 0) {
+                throw new RejectItemsError("Every item would be rejected — cancel the order instead");
+            }
+
+            const disposition: StockDisposition = stockDisposition || await getConfiguredStockDisposition(outletIdOf(orderData));
+
+            const rejected = items.filter((_, i) => indexes.has(i));
+            const refund = roundMoney(rejected.reduce((sum, item) => sum + lineAmount(item), 0));
+            const stockReturn = await prepareStockReturn(transaction, rejected, disposition);
+            const refunds: { wallet: WalletHandle; amount: number }[] = [];
+            for (const [payer, amount] of paymentShares(rejected, orderData.userId)) {
+                refunds.push({ wallet: await openWallet(transaction, payer), amount });
+            }
+
+            // Releases `refund` from pendingAmount for confirmed/preparing/ready
+            // orders — the same bookkeeping as cancelling that slice of the order
+            await updateCanteenWallet(transaction, status, "cancelled", refund, orderData.orderId, outletIdOf(orderData));
+
+            // 2. WRITE PHASE
+            const now = new Date().toISOString();
+
+            transaction.update(orderRef, {
+                items: items.map((item, i) => (indexes.has(i) ? { ...item, rejected: true, rejectedAt: now } : item)),
+                total: FieldValue.increment(-refund),
+                refundedAmount: FieldValue.increment(refund),
+                updatedAt: now,
+            });
+
+            const names = rejected.map((item) => `${item.name} x${item.quantity}`).join(", ");
+            for (const { wallet, amount } of refunds) {
+                if (amount <= 0) continue;
+                postWalletEntry(transaction, wallet, {
+                    type: "refund",
+                    direction: "credit",
+                    amount,
+                    description: `Refund - ${names} unavailable (Order #${orderData.orderId})${note ? ` — ${note}` : ""}`,
+                    counterparty: WALLET_PARTIES.canteen,
+                    orderId: orderData.orderId,
+                    createdAt: now,
+                });
+            }
+
+            applyStockReturn(transaction, stockReturn, {
+                orderId: orderData.orderId,
+                orderDocId: orderRef.id,
+                outletId: outletIdOf(orderData),
+                reason: "item_rejected",
+                changedBy: admin.username,
+                createdAt: now,
+            });
+
+            return { refund, total: (Number(orderData.total) || 0) - refund, disposition };
+        });
+
+        return NextResponse.json({ success: true, refunded: result.refund, total: result.total, stockDisposition: result.disposition });
+    } catch (error) {
+        if (error instanceof RejectItemsError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Failed to reject order items:", error);
+        return NextResponse.json({ error: "Failed to reject items" }, { status: 500 });
+    }
+}
@@ -1,38 +1,124 @@
 /**
- * Admin Orders API — View all orders + Update order status/prepTime
+ * Admin Orders API — Paginated/filtered order list + Update order status/prepTime
  * 
  * SECURITY CHANGES:
  * - All handlers now require admin JWT verification via verifyAdmin()
  * - Returns 401 Unauthorized if token is missing or invalid
+ * - PATCH enforces the ORDER_TRANSITIONS state machine and writes every
+ *   change to orders/{id}/statusHistory with the admin username
+ * - Cancelling returns stock per the order's outlet's
+ *   canteenConfig.cancelledStockDisposition ("restock" or "waste"),
+ *   overridable per request via `stockDisposition`
+ * - Illegal transitions answer 409, an unknown order 404
+ * - Orders are listed for the admin's outlet; outlet admins can't touch
+ *   other outlets' orders
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { adminDb } from "@/lib/firebase-admin";
-import { verifyAdmin } from "@/lib/admin-auth";
-import { FieldValue } from "firebase-admin/firestore";
+import { adminOutletId, canManageOutlet, verifyAdmin } from "@/lib/admin-auth";
+import { outletIdOf } from "@/lib/outlets";
+import { FieldValue, type Query } from "firebase-admin/firestore";
 import { updateCanteenWallet } from "@/lib/canteen-wallet";
+import { ORDER_STATUSES, assertTransition, isOrderStatus, OrderTransitionError, recordStatusChange } from "@/lib/order-status";
+import { cancelOrderInTransaction, OrderCancellationError } from "@/lib/order-cancellation";
+import { isStockDisposition } from "@/lib/inventory";
+import { addDays, isDateKey, istDayStart } from "@/lib/ist-date";
+import type { OrderStatus, StockDisposition } from "@/types";
 
 export const runtime = "nodejs";
 
-// SECURITY: Centralized auth check for all admin orders operations
-function requireAdmin(req: NextRequest): NextResponse | null {
-    if (!verifyAdmin(req)) {
-        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    return null;
-}
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
 
+/**
+ * GET /api/admin/orders — Cursor-paginated, server-filtered order list
+ * for the admin's outlet (see adminOutletId)
+ *
+ * Query params (all optional):
+ * - status, paymentMode, userId, rollNumber — exact matches
+ * - from, to — IST calendar days (YYYY-MM-DD), inclusive
+ * - orderId — order ID prefix ("ZKO4F"); combines with status and
+ *   paymentMode only, not with userId, rollNumber or from/to
+ * - limit (default 25, max 100), cursor — `nextCursor` from the previous page
+ *
+ * The first page (no cursor) also returns per-status `counts` for the
+ * filter chips. Each filter combination needs a composite index in
+ * firestore.indexes.json.
+ */
 export async function GET(req: NextRequest) {
-    const authError = requireAdmin(req);
-    if (authError) return authError;
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
 
     try {
-        const snapshot = await adminDb
-            .collection("orders")
-            .orderBy("createdAt", "desc")
-            .get();
-        const orders = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }));
-        return NextResponse.json({ orders });
+        const params = req.nextUrl.searchParams;
+        const status = params.get("status");
+        const paymentMode = params.get("paymentMode");
+        const userId = params.get("userId");
+        const rollNumber = params.get("rollNumber");
+        const from = params.get("from");
+        const to = params.get("to");
+        const orderIdPrefix = params.get("orderId")?.trim().toUpperCase();
+        const cursor = params.get("cursor");
+        const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(params.get("limit") || "", 10) || DEFAULT_PAGE_SIZE));
+
+        if (status && !isOrderStatus(status)) {
+            return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+        }
+        if ((from && !isDateKey(from)) || (to && !isDateKey(to))) {
+            return NextResponse.json({ error: "Dates must be YYYY-MM-DD" }, { status: 400 });
+        }
+        if (orderIdPrefix && (from || to)) {
+            return NextResponse.json({ error: "Order ID search cannot be combined with a date range" }, { status: 400 });
+        }
+        if (orderIdPrefix && (userId || rollNumber)) {
+            return NextResponse.json({ error: "Order ID search cannot be combined with a student filter" }, { status: 400 });
+        }
+
+        // Equality filters first — shared by the page query and the counts
+        let base: Query = adminDb.collection("orders").where("outletId", "==", adminOutletId(req, admin));
+        if (paymentMode) base = base.where("paymentMode", "==", paymentMode);
+        if (userId) base = base.where("userId", "==", userId);
+        if (rollNumber) base = base.where("userRollNumber", "==", rollNumber.trim());
+
+        if (orderIdPrefix) {
+            base = base
+                .where("orderId", ">=", orderIdPrefix)
+                .where("orderId", "<", `${orderIdPrefix}\uf8ff`);
+        } else {
+            if (from) base = base.where("createdAt", ">=", istDayStart(from));
+            if (to) base = base.where("createdAt", "<", istDayStart(addDays(to, 1)));
+        }
+
+        let pageQuery = status ? base.where("status", "==", status) : base;
+        pageQuery = orderIdPrefix
+            ? pageQuery.orderBy("orderId", "asc")
+            : pageQuery.orderBy("createdAt", "desc");
+
+        if (cursor) {
+            const cursorDoc = await adminDb.collection("orders").doc(cursor).get();
+            if (!cursorDoc.exists) {
+                return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+            }
+            pageQuery = pageQuery.startAfter(cursorDoc);
+        }
+
+        const snapshot = await pageQuery.limit(limit + 1).get();
+        const docs = snapshot.docs.slice(0, limit);
+        const orders = docs.map((doc) => ({ id: doc.id, ...doc.data() }));
+        const nextCursor = snapshot.docs.length > limit ? docs[docs.length - 1].id : null;
+
+        let counts: Record<string, number> | undefined;
+        if (!cursor) {
+            const results = await Promise.all(
+                ORDER_STATUSES.map((s) => base.where("status", "==", s).count().get())
+            );
+            counts = Object.fromEntries(ORDER_STATUSES.map((s, i) => [s, results[i].data().count]));
+        }
+
+        return NextResponse.json({ orders, nextCursor, counts });
     } catch (error) {
         console.error("Failed to fetch orders:", error);
         return NextResponse.json({ error: "Failed to fetch orders" }, { status: 500 });
@@ -40,75 +126,57 @@ export async function GET(req: NextRequest) {
 }
 
 export async function PATCH(req: NextRequest) {
-    const authError = requireAdmin(req);
-    if (authError) return authError;
+    // SECURITY: Admin identity is taken from the JWT for the audit trail
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
 
     try {
-        const { orderId, status, prepTime } = await req.json();
+        const { orderId, status, prepTime, note, stockDisposition } = await req.json();
         if (!orderId) {
             return NextResponse.json({ error: "Order ID required" }, { status: 400 });
         }
+        if (status !== undefined && !isOrderStatus(status)) {
+            return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+        }
+        if (stockDisposition !== undefined && !isStockDisposition(stockDisposition)) {
+            return NextResponse.json({ error: "Invalid stock disposition" }, { status: 400 });
+        }
 
         const orderRef = adminDb.collection("orders").doc(orderId);
 
-        await adminDb.runTransaction(async (transaction) => {
-            const orderDoc = await transaction.get(orderRef);
-            if (!orderDoc.exists) throw new Error("Order not found");
-
-            const orderData = orderDoc.data()!;
-            const oldStatus = orderData.status;
-
+        const disposition = await adminDb.runTransaction(async (transaction): Promise<StockDisposition | undefined> => {
             // --- 1. HANDLE CANCELLATION & REFUND ---
             if (status === "cancelled") {
-                if (oldStatus === "cancelled") {
-                    throw new Error("Order is already cancelled");
-                }
-
-                const userId = orderData.userId;
-                const total = orderData.total;
-                const orderIdDisplay = orderData.orderId;
-
-                // Sync Wallet (deduct pending/total if cancelling an active/completed order)
-                await updateCanteenWallet(transaction, oldStatus, "cancelled", total, orderIdDisplay);
-
-                // Update order
-                transaction.update(orderRef, {
-                    status: "cancelled",
-                    updatedAt: new Date().toISOString(),
-                });
-
-                // Refund User Wallet
-                const userRef = adminDb.collection("users").doc(userId);
-                transaction.update(userRef, {
-                    walletBalance: FieldValue.increment(total),
-                });
-
-                // Record Refund Txn for User
-                const txnRef = adminDb.collection("walletTransactions").doc();
-                transaction.set(txnRef, {
-                    userId,
-                    type: "refund",
-                    amount: total,
-                    description: `Refund - Order #${orderIdDisplay} Cancelled`,
-                    transactionId: txnRef.id,
-                    createdAt: new Date().toISOString(),
+                // Without an explicit disposition, the order's outlet's setting applies
+                const result = await cancelOrderInTransaction(transaction, orderRef, {
+                    changedBy: admin.username,
+                    actorRole: "admin",
+                    note,
+                    stockDisposition,
+                    guard: (order) => {
+                        if (!canManageOutlet(admin, order)) throw new OrderCancellationError("Order not found", 404);
+                    },
                 });
+                return result.stockDisposition; // End transaction for cancellation block
+            }
 
-                return; // End transaction for cancellation block
+            const orderDoc = await transaction.get(orderRef);
+            if (!orderDoc.exists || !canManageOutlet(admin, orderDoc.data())) {
+                throw new OrderTransitionError("Order not found", 404);
             }
 
+            const orderData = orderDoc.data()!;
+            const oldStatus = orderData.status as OrderStatus;
+            const now = new Date().toISOString();
+
             // --- 2. NORMAL STATUS / PREP TIME UPDATE ---
             const updateData: Record<string, unknown> = {
-                updatedAt: new Date().toISOString(),
+                updatedAt: now,
             };
 
-            let newStatus = status || oldStatus;
-
-            // When status is set to "ready", clear countdowns
-            if (newStatus === "ready") {
-                updateData.readyAt = null;
-                updateData.estimatedReadyAt = null;
-            }
+            let newStatus: OrderStatus = status || oldStatus;
 
             if (prepTime) {
                 updateData.prepTime = prepTime;
@@ -122,7 +190,20 @@ export async function PATCH(req: NextRequest) {
                 }
             }
 
+            // When status is set to "ready", clear countdowns
+            if (newStatus === "ready") {
+                updateData.readyAt = null;
+                updateData.estimatedReadyAt = null;
+            }
+
+            // Manual hand-over (no QR scan) still retires the pickup code
+            if (newStatus === "completed" && oldStatus !== "completed") {
+                updateData.pickupToken = FieldValue.delete();
+            }
+
             if (newStatus !== oldStatus) {
+                // STATE MACHINE: Reject illegal jumps (e.g. completed → preparing)
+                assertTransition(oldStatus, newStatus);
                 updateData.status = newStatus;
 
                 // Sync Wallet for status progression
@@ -131,17 +212,37 @@ export async function PATCH(req: NextRequest) {
                     oldStatus,
                     newStatus,
                     orderData.total,
-                    orderData.orderId
+                    orderData.orderId,
+                    outletIdOf(orderData),
+                    orderData.userId
                 );
+
+                recordStatusChange(transaction, orderRef, {
+                    from: oldStatus,
+                    to: newStatus,
+                    changedBy: admin.username,
+                    actorRole: "admin",
+                    note: prepTime ? `Prep time ${prepTime} min` : note,
+                    createdAt: now,
+                });
+            } else if (prepTime && ["cancelled", "completed"].includes(oldStatus)) {
+                throw new OrderTransitionError(`Cannot set prep time on a ${oldStatus} order`);
             }
 
             transaction.update(orderRef, updateData);
+            return undefined;
         });
 
-        return NextResponse.json({ success: true, refunded: status === "cancelled" });
+        return NextResponse.json({
+            success: true,
+            refunded: status === "cancelled",
+            ...(status === "cancelled" && { stockDisposition: disposition }),
+        });
     } catch (error) {
+        if (error instanceof OrderCancellationError || error instanceof OrderTransitionError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
         console.error("Failed to update order:", error);
-        const message = error instanceof Error ? error.message : "Failed to update order";
-        return NextResponse.json({ error: message }, { status: 500 });
+        return NextResponse.json({ error: "Failed to update order" }, { status: 500 });
     }
 }
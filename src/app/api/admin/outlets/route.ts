@@ -0,0 +1,177 @@
+/**
+ * /api/admin/outlets — Campus outlets and their admin accounts
+ *
+ * GET  → { outlets, admins }. Outlet admins only see their own outlet.
+ * POST { action, ... } — super admin only:
+ *      - save_outlet   { outlet: { id, name, description?, location?, active?, order? } }
+ *                      creates or updates outlets/{id}
+ *      - create_admin  { username, password, outletId } → outletAdmins/{username}
+ *      - delete_admin  { username }
+ *      - assign_legacy stamps outletId = default outlet on menu items,
+ *                      orders, canteen entries and inventory adjustments
+ *                      created before outlets
+ *
+ * SECURITY: Admin JWT required. Passwords are stored as bcrypt hashes and
+ * never returned.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import bcrypt from "bcryptjs";
+import { QueryDocumentSnapshot } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { verifyAdmin } from "@/lib/admin-auth";
+import { DEFAULT_OUTLET_ID, OUTLET_ID_PATTERN, withDefaultOutlet } from "@/lib/outlets";
+import type { Outlet, OutletAdmin } from "@/types";
+
+export const runtime = "nodejs";
+
+const USERNAME_PATTERN = /^[a-z0-9._-]{3,30}$/;
+const MIN_PASSWORD_LENGTH = 8;
+const LEGACY_COLLECTIONS = ["menuItems", "orders", "canteenTransactions", "canteenPayouts", "inventoryAdjustments"];
+const BATCH_SIZE = 400;
+
+async function listOutlets(): Promise<Outlet[]> {
+    const snap = await adminDb.collection("outlets").get();
+    return withDefaultOutlet(snap.docs.map((d) => ({ id: d.id, ...d.data() }) as Outlet));
+}
+
+async function outletExists(outletId: string): Promise<boolean> {
+    if (outletId === DEFAULT_OUTLET_ID) return true;
+    return (await adminDb.collection("outlets").doc(outletId).get()).exists;
+}
+
+export async function GET(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const outlets = await listOutlets();
+        if (admin.outletId) {
+            return NextResponse.json({ outlets: outlets.filter((o) => o.id === admin.outletId), admins: [] });
+        }
+
+        const adminsSnap = await adminDb.collection("outletAdmins").orderBy("createdAt", "asc").get();
+        const admins: OutletAdmin[] = adminsSnap.docs.map((d) => {
+            const data = d.data();
+            return { username: d.id, outletId: data.outletId, createdBy: data.createdBy, createdAt: data.createdAt };
+        });
+
+        return NextResponse.json({ outlets, admins });
+    } catch (error) {
+        console.error("Failed to fetch outlets:", error);
+        return NextResponse.json({ error: "Failed to fetch outlets" }, { status: 500 });
+    }
+}
+
+export async function POST(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (admin.outletId) {
+        return NextResponse.json({ error: "Only the campus admin can manage outlets" }, { status: 403 });
+    }
+
+    try {
+        const body = await req.json();
+        const now = new Date().toISOString();
+
+        if (body.action === "save_outlet") {
+            const input = (body.outlet || {}) as Partial<Outlet>;
+            const id = typeof input.id === "string" ? input.id.trim().toLowerCase() : "";
+            const name = typeof input.name === "string" ? input.name.trim() : "";
+            if (!OUTLET_ID_PATTERN.test(id)) {
+                return NextResponse.json({ error: "Outlet ID must be 2–30 lowercase letters, digits or dashes" }, { status: 400 });
+            }
+            if (name.length < 2 || name.length > 60) {
+                return NextResponse.json({ error: "Outlet name must be 2–60 characters" }, { status: 400 });
+            }
+            if (id === DEFAULT_OUTLET_ID && input.active === false) {
+                return NextResponse.json({ error: "The main outlet can't be deactivated" }, { status: 400 });
+            }
+
+            const ref = adminDb.collection("outlets").doc(id);
+            const existing = await ref.get();
+            const outlet: Omit<Outlet, "id"> = {
+                name,
+                active: input.active !== false,
+                order: Number.isInteger(input.order) ? input.order! : existing.data()?.order ?? (await listOutlets()).length,
+                ...(typeof input.description === "string" && { description: input.description.trim().slice(0, 200) }),
+                ...(typeof input.location === "string" && { location: input.location.trim().slice(0, 100) }),
+                createdAt: existing.data()?.createdAt || now,
+                updatedAt: now,
+            };
+            await ref.set(outlet, { merge: true });
+            return NextResponse.json({ success: true, outlet: { id, ...outlet } });
+        }
+
+        if (body.action === "create_admin") {
+            const username = typeof body.username === "string" ? body.username.trim().toLowerCase() : "";
+            const password = typeof body.password === "string" ? body.password : "";
+            const outletId = typeof body.outletId === "string" ? body.outletId : "";
+            if (!USERNAME_PATTERN.test(username) || username === process.env.ADMIN_USERNAME?.toLowerCase()) {
+                return NextResponse.json({ error: "Username must be 3–30 lowercase letters, digits, dots, dashes or underscores" }, { status: 400 });
+            }
+            if (password.length < MIN_PASSWORD_LENGTH) {
+                return NextResponse.json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }, { status: 400 });
+            }
+            if (!OUTLET_ID_PATTERN.test(outletId) || !(await outletExists(outletId))) {
+                return NextResponse.json({ error: "Outlet not found" }, { status: 404 });
+            }
+
+            try {
+                await adminDb.collection("outletAdmins").doc(username).create({
+                    outletId,
+                    passwordHash: await bcrypt.hash(password, 10),
+                    createdBy: admin.username,
+                    createdAt: now,
+                });
+            } catch {
+                return NextResponse.json({ error: "That username is already taken" }, { status: 409 });
+            }
+            return NextResponse.json({ success: true });
+        }
+
+        if (body.action === "delete_admin") {
+            const username = typeof body.username === "string" ? body.username.trim().toLowerCase() : "";
+            if (!username) {
+                return NextResponse.json({ error: "Username required" }, { status: 400 });
+            }
+            await adminDb.collection("outletAdmins").doc(username).delete();
+            return NextResponse.json({ success: true });
+        }
+
+        if (body.action === "assign_legacy") {
+            const updated: Record<string, number> = {};
+            for (const name of LEGACY_COLLECTIONS) {
+                updated[name] = 0;
+                let last: QueryDocumentSnapshot | undefined;
+                for (;;) {
+                    let query = adminDb.collection(name).select("outletId").orderBy("__name__").limit(BATCH_SIZE);
+                    if (last) query = query.startAfter(last);
+                    const snap = await query.get();
+                    if (snap.empty) break;
+
+                    const batch = adminDb.batch();
+                    let pending = 0;
+                    for (const doc of snap.docs) {
+                        if (doc.get("outletId")) continue;
+                        batch.update(doc.ref, { outletId: DEFAULT_OUTLET_ID });
+                        pending++;
+                    }
+                    if (pending > 0) await batch.commit();
+                    updated[name] += pending;
+                    last = snap.docs[snap.docs.length - 1];
+                }
+            }
+            return NextResponse.json({ success: true, updated });
+        }
+
+        return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+    } catch (error) {
+        console.error("Outlet update failed:", error);
+        return NextResponse.json({ error: "Outlet update failed" }, { status: 500 });
+    }
+}
@@ -0,0 +1,138 @@
+/**
+ * /api/admin/promotions — Coupons, happy hours and buy-X-get-Y offers of
+ * the admin's outlet (see lib/promotions)
+ *
+ * GET  → { promotions } newest first, without the personal coupons
+ *        students redeem loyalty rewards for (/api/admin/loyalty-rewards)
+ * POST { action, ... }:
+ *      - save    { promotion: { id?, type, name, ... } } creates, or replaces
+ *                the rules of an existing promotion (its redemption count stays)
+ *      - toggle  { id, active }
+ *      - delete  { id } — only promotions nobody has redeemed; switch the
+ *                rest off so cancelled orders can still give coupons back
+ *
+ * Promotions are applied by placeOrder only, so clients never read them
+ * directly (no firestore.rules entry).
+ *
+ * SECURITY: Admin JWT required; outlet admins only see and change their
+ * own outlet's promotions.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { adminOutletId, verifyAdmin } from "@/lib/admin-auth";
+import { outletIdOf } from "@/lib/outlets";
+import { MAX_PROMOTIONS_PER_OUTLET, normalizePromotion, PromotionError } from "@/lib/promotions";
+import type { Promotion } from "@/types";
+
+export const runtime = "nodejs";
+
+const promotionsRef = () => adminDb.collection("promotions");
+
+async function listPromotions(outletId: string): Promise<Promotion[]> {
+    const snap = await promotionsRef().where("outletId", "==", outletId).get();
+    return snap.docs
+        .map((d) => ({ id: d.id, ...d.data() }) as Promotion)
+        .filter((p) => !p.userId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function GET(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        return NextResponse.json({ promotions: await listPromotions(adminOutletId(req, admin)) });
+    } catch (error) {
+        console.error("Failed to fetch promotions:", error);
+        return NextResponse.json({ error: "Failed to fetch promotions" }, { status: 500 });
+    }
+}
+
+export async function POST(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const body = await req.json();
+        const outletId = adminOutletId(req, admin);
+        const now = new Date().toISOString();
+
+        if (body.action === "save") {
+            const id = typeof body.promotion?.id === "string" ? body.promotion.id : "";
+            const fields = normalizePromotion(body.promotion);
+            const existing = await listPromotions(outletId);
+
+            if (fields.type === "coupon" && existing.some((p) => p.type === "coupon" && p.code === fields.code && p.id !== id)) {
+                return NextResponse.json({ error: `Code ${fields.code} is already used by another coupon` }, { status: 409 });
+            }
+            if (!id && existing.length >= MAX_PROMOTIONS_PER_OUTLET) {
+                return NextResponse.json({ error: `An outlet can have at most ${MAX_PROMOTIONS_PER_OUTLET} promotions` }, { status: 400 });
+            }
+            if (fields.type === "buy_x_get_y") {
+                const item = await adminDb.collection("menuItems").doc(fields.itemId!).get();
+                if (!item.exists || outletIdOf(item.data()) !== outletId) {
+                    return NextResponse.json({ error: "Menu item not found" }, { status: 404 });
+                }
+                fields.itemName = item.data()!.name;
+            }
+
+            const ref = id ? promotionsRef().doc(id) : promotionsRef().doc();
+            const promotion = await adminDb.runTransaction(async (transaction) => {
+                const doc = id ? await transaction.get(ref) : null;
+                if (doc && (!doc.exists || outletIdOf(doc.data()) !== outletId || doc.data()!.userId)) {
+                    throw new PromotionError("Promotion not found", 404);
+                }
+                if (doc && doc.data()!.type !== fields.type) {
+                    throw new PromotionError("A promotion's type can't be changed — create a new one");
+                }
+                // Full set so fields of the old rules don't linger
+                const saved: Omit<Promotion, "id"> = {
+                    ...fields,
+                    outletId,
+                    usedCount: Number(doc?.data()?.usedCount) || 0,
+                    createdAt: doc?.data()?.createdAt || now,
+                    updatedAt: now,
+                };
+                transaction.set(ref, saved);
+                return { id: ref.id, ...saved };
+            });
+            return NextResponse.json({ success: true, promotion });
+        }
+
+        const id = typeof body.id === "string" ? body.id : "";
+        if (!id) {
+            return NextResponse.json({ error: "Promotion ID required" }, { status: 400 });
+        }
+        const ref = promotionsRef().doc(id);
+        const doc = await ref.get();
+        if (!doc.exists || outletIdOf(doc.data()) !== outletId || doc.data()!.userId) {
+            return NextResponse.json({ error: "Promotion not found" }, { status: 404 });
+        }
+
+        if (body.action === "toggle") {
+            await ref.update({ active: body.active === true, updatedAt: now });
+            return NextResponse.json({ success: true });
+        }
+
+        if (body.action === "delete") {
+            if ((Number(doc.data()!.usedCount) || 0) > 0) {
+                return NextResponse.json({ error: "This coupon has been redeemed — switch it off instead" }, { status: 409 });
+            }
+            await ref.delete();
+            return NextResponse.json({ success: true });
+        }
+
+        return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+    } catch (error) {
+        if (error instanceof PromotionError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Failed to update promotions:", error);
+        return NextResponse.json({ error: "Failed to update promotions" }, { status: 500 });
+    }
+}
@@ -1,22 +1,41 @@
 /**
  * Admin Settings API — GET + PUT canteen configuration
  * 
- * Stored in Firestore at settings/canteenConfig.
- * Admins can toggle canteen open/close and set operating hours.
+ * Stored per outlet at settings/{canteenConfigDocId(outletId)} for the
+ * admin's outlet (settings/canteenConfig for the default outlet).
+ * Admins can toggle canteen open/close, set operating hours — either one
+ * daily startTime/endTime or a weekly `schedule` of slots per weekday —
+ * holiday closures (see lib/canteen-schedule), the customer cancellation
+ * grace period, what happens to stock when an admin cancels an order
+ * (restock vs. write off as waste), the order total above which
+ * students must confirm with their PIN, and pre-order pickup slots
+ * (length, orders per slot, days ahead — see lib/pickup-slots).
+ *
+ * The PIN threshold protects student wallets across every outlet, so it
+ * lives on the default outlet's config and only the super admin can set it.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { verifyAdmin } from "@/lib/admin-auth";
+import { adminOutletId, verifyAdmin } from "@/lib/admin-auth";
 import { adminDb } from "@/lib/firebase-admin";
+import { DEFAULT_CANCEL_GRACE_MINUTES } from "@/lib/order-status";
+import { DEFAULT_STOCK_DISPOSITION, isStockDisposition } from "@/lib/inventory";
+import { getPinOrderThreshold } from "@/lib/pin-auth";
+import { canteenConfigDocId, DEFAULT_OUTLET_ID } from "@/lib/outlets";
+import { normalizeHolidays, normalizeSchedule, ScheduleError } from "@/lib/canteen-schedule";
+import { MAX_PICKUP_SLOT_CAPACITY, MAX_PRE_ORDER_DAYS, PICKUP_SLOT_LENGTHS } from "@/lib/pickup-slots";
+import { FieldValue } from "firebase-admin/firestore";
 
 export const runtime = "nodejs";
 
-const CONFIG_PATH = "settings/canteenConfig";
+const configRef = (outletId: string) => adminDb.collection("settings").doc(canteenConfigDocId(outletId));
 
 const DEFAULT_CONFIG = {
     isOpen: true,
     startTime: "09:00",
     endTime: "17:00",
+    cancelGraceMinutes: DEFAULT_CANCEL_GRACE_MINUTES,
+    cancelledStockDisposition: DEFAULT_STOCK_DISPOSITION,
 };
 
 // GET /api/admin/settings — Fetch current canteen config
@@ -27,13 +46,15 @@ export async function GET(req: NextRequest) {
     }
 
     try {
-        const doc = await adminDb.doc(CONFIG_PATH).get();
+        const outletId = adminOutletId(req, admin);
+        const doc = await configRef(outletId).get();
+        const pinOrderThreshold = await getPinOrderThreshold();
         if (!doc.exists) {
             // Initialize with defaults if not set
-            await adminDb.doc(CONFIG_PATH).set(DEFAULT_CONFIG);
-            return NextResponse.json(DEFAULT_CONFIG);
+            await configRef(outletId).set(DEFAULT_CONFIG);
+            return NextResponse.json({ ...DEFAULT_CONFIG, pinOrderThreshold });
         }
-        return NextResponse.json(doc.data());
+        return NextResponse.json({ ...doc.data(), pinOrderThreshold });
     } catch (error) {
         console.error("Failed to fetch settings:", error);
         return NextResponse.json({ error: "Failed to fetch settings" }, { status: 500 });
@@ -63,16 +84,63 @@ export async function PUT(req: NextRequest) {
             update.endTime = data.endTime;
         }
 
-        if (Object.keys(update).length === 0) {
+        // null switches back to the single daily startTime/endTime
+        if (data.schedule === null) {
+            update.schedule = FieldValue.delete();
+        } else if (data.schedule !== undefined) {
+            update.schedule = normalizeSchedule(data.schedule);
+        }
+
+        if (data.holidays !== undefined) {
+            update.holidays = normalizeHolidays(data.holidays);
+        }
+
+        if (Number.isInteger(data.cancelGraceMinutes) && data.cancelGraceMinutes >= 0 && data.cancelGraceMinutes <= 30) {
+            update.cancelGraceMinutes = data.cancelGraceMinutes;
+        }
+
+        if (isStockDisposition(data.cancelledStockDisposition)) {
+            update.cancelledStockDisposition = data.cancelledStockDisposition;
+        }
+
+        if (Number.isInteger(data.pickupSlotCapacity) && data.pickupSlotCapacity >= 0 && data.pickupSlotCapacity <= MAX_PICKUP_SLOT_CAPACITY) {
+            update.pickupSlotCapacity = data.pickupSlotCapacity;
+        }
+
+        if (PICKUP_SLOT_LENGTHS.includes(data.pickupSlotMinutes)) {
+            update.pickupSlotMinutes = data.pickupSlotMinutes;
+        }
+
+        if (Number.isInteger(data.preOrderDaysAhead) && data.preOrderDaysAhead >= 0 && data.preOrderDaysAhead <= MAX_PRE_ORDER_DAYS) {
+            update.preOrderDaysAhead = data.preOrderDaysAhead;
+        }
+
+        let pinOrderThreshold: number | undefined;
+        if (!admin.outletId && Number.isInteger(data.pinOrderThreshold) && data.pinOrderThreshold >= 0 && data.pinOrderThreshold <= 5000) {
+            pinOrderThreshold = data.pinOrderThreshold;
+        }
+
+        if (Object.keys(update).length === 0 && pinOrderThreshold === undefined) {
             return NextResponse.json({ error: "No valid fields to update" }, { status: 400 });
         }
 
-        update.updatedAt = new Date().toISOString();
+        const updatedAt = new Date().toISOString();
+        const outletId = adminOutletId(req, admin);
 
-        await adminDb.doc(CONFIG_PATH).set(update, { merge: true });
+        if (pinOrderThreshold !== undefined) {
+            if (outletId === DEFAULT_OUTLET_ID) update.pinOrderThreshold = pinOrderThreshold;
+            else await configRef(DEFAULT_OUTLET_ID).set({ pinOrderThreshold, updatedAt }, { merge: true });
+        }
+
+        if (Object.keys(update).length > 0) {
+            await configRef(outletId).set({ ...update, updatedAt }, { merge: true });
+        }
 
         return NextResponse.json({ success: true });
     } catch (error) {
+        if (error instanceof ScheduleError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
         console.error("Failed to update settings:", error);
         return NextResponse.json({ error: "Failed to update settings" }, { status: 500 });
     }
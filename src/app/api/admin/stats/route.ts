@@ -4,17 +4,19 @@
  * SECURITY CHANGES:
  * - Requires admin JWT verification via verifyAdmin()
  * - Returns 401 Unauthorized if token is missing or invalid
+ * - Figures cover the admin's outlet only
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { adminDb } from "@/lib/firebase-admin";
-import { verifyAdmin } from "@/lib/admin-auth";
+import { adminOutletId, verifyAdmin } from "@/lib/admin-auth";
 
 export const runtime = "nodejs";
 
 export async function GET(req: NextRequest) {
     // SECURITY: Require valid admin JWT
-    if (!verifyAdmin(req)) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
         return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
@@ -25,6 +27,7 @@ export async function GET(req: NextRequest) {
         // Fetch orders from last 30 days
         const snapshot = await adminDb
             .collection("orders")
+            .where("outletId", "==", adminOutletId(req, admin))
             .where("createdAt", ">=", thirtyDaysAgo.toISOString())
             .orderBy("createdAt", "desc")
             .get();
@@ -1,7 +1,8 @@
 /**
  * /api/admin/stock-forecast — Admin Stock Forecast API
  *
- * GET — Returns aggregated demand data from all active userDemandPlans.
+ * GET — Returns aggregated demand data from all active userDemandPlans
+ * for items on the admin's outlet menu.
  * Protected by admin JWT verification.
  *
  * Response shape:
@@ -15,7 +16,8 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { adminDb } from "@/lib/firebase-admin";
-import { verifyAdmin } from "@/lib/admin-auth";
+import { adminOutletId, verifyAdmin } from "@/lib/admin-auth";
+import { outletIdOf } from "@/lib/outlets";
 
 const ALL_DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
 
@@ -36,7 +38,25 @@ export async function GET(req: NextRequest) {
 
         console.log(`[StockForecast] Found ${plansSnap.size} active demand plans`);
 
-        // ── 2. Single-pass aggregation ──
+        // ── 2. Fetch current stock + outlet from menuItems (batched) ──
+        const outletId = adminOutletId(req, admin);
+        const uniqueItemIds = [...new Set(plansSnap.docs.map((d) => d.data().itemId as string).filter(Boolean))];
+        const stockMap: Record<string, number> = {};
+
+        // Firestore getAll supports up to 500 docs at a time
+        const BATCH_SIZE = 100;
+        for (let i = 0; i < uniqueItemIds.length; i += BATCH_SIZE) {
+            const batch = uniqueItemIds.slice(i, i + BATCH_SIZE);
+            const refs = batch.map((id) => adminDb.collection("menuItems").doc(id));
+            const docs = await adminDb.getAll(...refs);
+            docs.forEach((d) => {
+                if (d.exists && outletIdOf(d.data()) === outletId) {
+                    stockMap[d.id] = d.data()?.quantity ?? 0;
+                }
+            });
+        }
+
+        // ── 3. Single-pass aggregation (this outlet's items only) ──
         const demandByDay: Record<string, Record<string, number>> = {};
         const weeklyTotals: Record<string, number> = {};
         const activeUserIds = new Set<string>();
@@ -48,6 +68,7 @@ export async function GET(req: NextRequest) {
 
         plansSnap.forEach((doc) => {
             const plan = doc.data();
+            if (!(plan.itemId in stockMap)) return;
             activeUserIds.add(plan.userId);
 
             const itemName: string = plan.itemName;
@@ -66,23 +87,6 @@ export async function GET(req: NextRequest) {
             weeklyTotals[itemName] = (weeklyTotals[itemName] || 0) + quantity * days.length;
         });
 
-        // ── 3. Fetch current stock from menuItems (batched) ──
-        const uniqueItemIds = [...new Set(Object.values(itemIdMap))];
-        const stockMap: Record<string, number> = {};
-
-        // Firestore getAll supports up to 500 docs at a time
-        const BATCH_SIZE = 100;
-        for (let i = 0; i < uniqueItemIds.length; i += BATCH_SIZE) {
-            const batch = uniqueItemIds.slice(i, i + BATCH_SIZE);
-            const refs = batch.map((id) => adminDb.collection("menuItems").doc(id));
-            const docs = await adminDb.getAll(...refs);
-            docs.forEach((d) => {
-                if (d.exists) {
-                    stockMap[d.id] = d.data()?.quantity ?? 0;
-                }
-            });
-        }
-
         // ── 4. Build stock comparison ──
         const stockComparison = Object.entries(itemIdMap).map(([itemName, itemId]) => {
             const currentStock = stockMap[itemId] ?? 0;
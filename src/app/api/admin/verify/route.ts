@@ -22,5 +22,6 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({
         valid: true,
         username: admin.username,
+        outletId: admin.outletId || null,
     });
 }
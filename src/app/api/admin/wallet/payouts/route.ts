@@ -0,0 +1,206 @@
+/**
+ * /api/admin/wallet/payouts — Canteen owner payouts to the bank
+ *
+ * GET   ?status=requested|approved|paid|rejected → payouts, newest first
+ * POST  { amount, note? } → request a payout; the amount is reserved in
+ *       the outlet wallet's payoutHeld so it can't be requested twice
+ * PATCH { payoutId, action, bankReference?, reason? }
+ *       - approve: requested → approved (cleared for bank transfer)
+ *       - pay:     approved → paid; needs the bank reference (UTR). Only
+ *                  now does the amount leave totalBalance and a
+ *                  "withdrawal" canteenTransaction get written
+ *       - reject:  requested / approved → rejected, reservation released
+ *
+ * Payouts belong to the admin's outlet (see adminOutletId) and move that
+ * outlet's canteen wallet.
+ *
+ * SECURITY: Admin JWT required. Status guards run inside transactions so
+ * each step happens exactly once.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { FieldValue } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { adminOutletId, canManageOutlet, verifyAdmin } from "@/lib/admin-auth";
+import { canteenWalletId, outletIdOf } from "@/lib/outlets";
+import { roundMoney } from "@/lib/wallet-ledger";
+import type { CanteenPayout, CanteenPayoutStatus } from "@/types";
+
+export const runtime = "nodejs";
+
+const STATUSES: CanteenPayoutStatus[] = ["requested", "approved", "paid", "rejected"];
+const BANK_REFERENCE_PATTERN = /^[A-Za-z0-9-]{6,30}$/;
+
+class PayoutError extends Error {
+    constructor(message: string, public status: number = 400) {
+        super(message);
+        this.name = "PayoutError";
+    }
+}
+
+export async function GET(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const status = req.nextUrl.searchParams.get("status") as CanteenPayoutStatus | null;
+        if (status && !STATUSES.includes(status)) {
+            return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+        }
+
+        const base = adminDb.collection("canteenPayouts").where("outletId", "==", adminOutletId(req, admin));
+        const query = status ? base.where("status", "==", status) : base;
+        const snap = await query.orderBy("requestedAt", "desc").limit(50).get();
+
+        const payouts = snap.docs.map((d) => ({ id: d.id, ...d.data() }) as CanteenPayout);
+        return NextResponse.json({ payouts });
+    } catch (error) {
+        console.error("Failed to fetch payouts:", error);
+        return NextResponse.json({ error: "Failed to fetch payouts" }, { status: 500 });
+    }
+}
+
+export async function POST(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { amount, note } = await req.json();
+        const payoutAmount = roundMoney(Number(amount));
+        if (!Number.isFinite(payoutAmount) || payoutAmount <= 0) {
+            return NextResponse.json({ error: "Invalid payout amount" }, { status: 400 });
+        }
+
+        const outletId = adminOutletId(req, admin);
+        const walletRef = adminDb.collection("wallets").doc(canteenWalletId(outletId));
+        const payoutRef = adminDb.collection("canteenPayouts").doc();
+
+        const payout = await adminDb.runTransaction(async (transaction) => {
+            const walletDoc = await transaction.get(walletRef);
+            if (!walletDoc.exists) throw new PayoutError("Wallet not found", 404);
+
+            const wallet = walletDoc.data()!;
+            const available = roundMoney((wallet.totalBalance || 0) - (wallet.payoutHeld || 0));
+            if (available < payoutAmount) {
+                throw new PayoutError(`Only ₹${available} available (₹${wallet.payoutHeld || 0} reserved by open payouts)`);
+            }
+
+            const now = new Date().toISOString();
+            const record: Omit<CanteenPayout, "id"> = {
+                amount: payoutAmount,
+                status: "requested",
+                outletId,
+                ...(typeof note === "string" && note.trim() && { note: note.trim().slice(0, 200) }),
+                requestedBy: admin.username,
+                requestedAt: now,
+            };
+            transaction.set(payoutRef, record);
+            transaction.update(walletRef, {
+                payoutHeld: FieldValue.increment(payoutAmount),
+                lastUpdated: now,
+            });
+            return { id: payoutRef.id, ...record };
+        });
+
+        return NextResponse.json({ success: true, payout });
+    } catch (error) {
+        if (error instanceof PayoutError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Payout request failed:", error);
+        return NextResponse.json({ error: "Payout request failed" }, { status: 500 });
+    }
+}
+
+export async function PATCH(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { payoutId, action, bankReference, reason } = await req.json();
+        if (!payoutId || typeof payoutId !== "string") {
+            return NextResponse.json({ error: "Payout ID required" }, { status: 400 });
+        }
+        if (action !== "approve" && action !== "pay" && action !== "reject") {
+            return NextResponse.json({ error: "Action must be approve, pay or reject" }, { status: 400 });
+        }
+        const reference = typeof bankReference === "string" ? bankReference.trim().toUpperCase() : "";
+        if (action === "pay" && !BANK_REFERENCE_PATTERN.test(reference)) {
+            return NextResponse.json({ error: "Enter the bank reference / UTR (6–30 letters or digits)" }, { status: 400 });
+        }
+
+        const payoutRef = adminDb.collection("canteenPayouts").doc(payoutId);
+
+        const status = await adminDb.runTransaction(async (transaction) => {
+            const payoutDoc = await transaction.get(payoutRef);
+            if (!payoutDoc.exists || !canManageOutlet(admin, payoutDoc.data())) {
+                throw new PayoutError("Payout not found", 404);
+            }
+
+            const payout = payoutDoc.data() as Omit<CanteenPayout, "id">;
+            const walletRef = adminDb.collection("wallets").doc(canteenWalletId(outletIdOf(payout)));
+            const walletDoc = await transaction.get(walletRef);
+            const now = new Date().toISOString();
+
+            if (action === "approve") {
+                if (payout.status !== "requested") throw new PayoutError(`Payout is already ${payout.status}`, 409);
+                transaction.update(payoutRef, { status: "approved", approvedBy: admin.username, approvedAt: now });
+                return "approved" as const;
+            }
+
+            if (action === "reject") {
+                if (payout.status !== "requested" && payout.status !== "approved") {
+                    throw new PayoutError(`Payout is already ${payout.status}`, 409);
+                }
+                transaction.update(payoutRef, {
+                    status: "rejected",
+                    rejectedBy: admin.username,
+                    rejectedAt: now,
+                    ...(typeof reason === "string" && reason.trim() && { rejectionReason: reason.trim().slice(0, 200) }),
+                });
+                transaction.update(walletRef, { payoutHeld: FieldValue.increment(-payout.amount), lastUpdated: now });
+                return "rejected" as const;
+            }
+
+            // pay
+            if (payout.status !== "approved") {
+                throw new PayoutError(payout.status === "requested" ? "Approve the payout first" : `Payout is already ${payout.status}`, 409);
+            }
+            const balance = walletDoc.data()?.totalBalance || 0;
+            if (balance < payout.amount) {
+                throw new PayoutError(`Balance ₹${balance} is below the payout — reject it and request again`, 409);
+            }
+
+            transaction.update(payoutRef, { status: "paid", bankReference: reference, paidBy: admin.username, paidAt: now });
+            transaction.update(walletRef, {
+                totalBalance: FieldValue.increment(-payout.amount),
+                payoutHeld: FieldValue.increment(-payout.amount),
+                lastUpdated: now,
+            });
+            transaction.set(adminDb.collection("canteenTransactions").doc(), {
+                amount: payout.amount,
+                type: "withdrawal",
+                outletId: outletIdOf(payout),
+                payoutId,
+                bankReference: reference,
+                description: `Payout to bank — ref ${reference}`,
+                createdAt: now,
+            });
+            return "paid" as const;
+        });
+
+        return NextResponse.json({ success: true, status });
+    } catch (error) {
+        if (error instanceof PayoutError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Payout update failed:", error);
+        return NextResponse.json({ error: "Payout update failed" }, { status: 500 });
+    }
+}
@@ -0,0 +1,129 @@
+/**
+ * GET /api/admin/wallet/reconcile — Recompute student balances from the ledger
+ *
+ * Sums every walletTransactions entry per user (legacy entries included via
+ * ledgerDelta) and compares the result with users.walletBalance. Also walks
+ * each user's running balance and reports the first entry whose
+ * balanceBefore doesn't follow from the previous entry.
+ *
+ * Query: ?userId=<uid> to check a single user; otherwise users are checked
+ * a page at a time in document-id order — limit (default 50, max 200),
+ * cursor (`nextCursor` from the previous page). ?all=1 includes users
+ * without drift in the response. Totals cover the returned page only.
+ *
+ * Read-only — drift is flagged, never auto-corrected.
+ *
+ * SECURITY: Admin JWT required; outlet admins are refused.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { FieldPath } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { verifyAdmin } from "@/lib/admin-auth";
+import { ledgerDelta, roundMoney } from "@/lib/wallet-ledger";
+import type { WalletReconciliation, WalletTransaction } from "@/types";
+
+export const runtime = "nodejs";
+
+// Firestore caps "in" filters at 30 values
+const IN_QUERY_LIMIT = 30;
+
+export async function GET(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (admin.outletId) {
+        return NextResponse.json({ error: "Student wallets are managed by the campus admin" }, { status: 403 });
+    }
+
+    try {
+        const userId = req.nextUrl.searchParams.get("userId");
+        const includeAll = req.nextUrl.searchParams.get("all") === "1";
+        const cursor = req.nextUrl.searchParams.get("cursor");
+        const limit = Math.min(Math.max(parseInt(req.nextUrl.searchParams.get("limit") || "50", 10) || 50, 1), 200);
+
+        let usersQuery = adminDb.collection("users")
+            .select("name", "walletBalance")
+            .orderBy(FieldPath.documentId());
+        if (userId) {
+            usersQuery = usersQuery.where(FieldPath.documentId(), "==", userId);
+        } else if (cursor) {
+            usersQuery = usersQuery.startAfter(cursor);
+        }
+
+        const pageSnap = await usersQuery.limit(limit + 1).get();
+        const userDocs = pageSnap.docs.slice(0, limit);
+        const nextCursor = !userId && pageSnap.docs.length > limit ? userDocs[userDocs.length - 1].id : null;
+
+        // Only this page's ledger entries are loaded
+        const userIds = userDocs.map((doc) => doc.id);
+        const ledgerSnaps = await Promise.all(
+            Array.from({ length: Math.ceil(userIds.length / IN_QUERY_LIMIT) }, (_, i) =>
+                adminDb.collection("walletTransactions")
+                    .where("userId", "in", userIds.slice(i * IN_QUERY_LIMIT, (i + 1) * IN_QUERY_LIMIT))
+                    .get()
+            )
+        );
+        const ledgerDocs = ledgerSnaps.flatMap((snap) => snap.docs);
+
+        // Group entries per owner, oldest first
+        const entriesByUser = new Map<string, (Partial<WalletTransaction> & { id: string })[]>();
+        for (const doc of ledgerDocs) {
+            const entry = { id: doc.id, ...doc.data() } as Partial<WalletTransaction> & { id: string };
+            if (!entry.userId) continue;
+            const list = entriesByUser.get(entry.userId) || [];
+            list.push(entry);
+            entriesByUser.set(entry.userId, list);
+        }
+
+        const results: WalletReconciliation[] = [];
+        let totalDrift = 0;
+
+        for (const userDoc of userDocs) {
+            const entries = (entriesByUser.get(userDoc.id) || [])
+                .sort((a, b) => (a.createdAt || "").localeCompare(b.createdAt || ""));
+
+            let running = 0;
+            let brokenChainAt: string | undefined;
+            for (const entry of entries) {
+                if (!brokenChainAt && typeof entry.balanceBefore === "number" && roundMoney(entry.balanceBefore) !== roundMoney(running)) {
+                    brokenChainAt = entry.id;
+                }
+                running += ledgerDelta(entry);
+            }
+
+            const walletBalance = Number(userDoc.data().walletBalance) || 0;
+            const ledgerBalance = roundMoney(running);
+            const drift = roundMoney(walletBalance - ledgerBalance);
+            totalDrift = roundMoney(totalDrift + drift);
+
+            if (includeAll || drift !== 0 || brokenChainAt) {
+                results.push({
+                    userId: userDoc.id,
+                    name: userDoc.data().name || "Unknown",
+                    walletBalance,
+                    ledgerBalance,
+                    drift,
+                    entries: entries.length,
+                    ...(brokenChainAt && { brokenChainAt }),
+                });
+            }
+        }
+
+        results.sort((a, b) => Math.abs(b.drift) - Math.abs(a.drift));
+
+        return NextResponse.json({
+            checkedAt: new Date().toISOString(),
+            usersChecked: userDocs.length,
+            entriesChecked: ledgerDocs.length,
+            drifted: results.filter((r) => r.drift !== 0).length,
+            totalDrift,
+            results,
+            nextCursor,
+        });
+    } catch (error) {
+        console.error("Wallet reconciliation failed:", error);
+        return NextResponse.json({ error: "Reconciliation failed" }, { status: 500 });
+    }
+}
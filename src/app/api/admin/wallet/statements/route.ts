@@ -0,0 +1,56 @@
+/**
+ * GET /api/admin/wallet/statements — Daily canteen settlement statements
+ *
+ * Query:
+ * - ?date=YYYY-MM-DD            → { statement } with its transaction lines
+ * - ?from=YYYY-MM-DD&to=YYYY-MM-DD → { statements } (totals only, max 31 days)
+ *
+ * Dates are Asia/Kolkata calendar days; statements cover the admin's
+ * outlet. See lib/canteen-statements.
+ *
+ * SECURITY: Admin JWT required.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminOutletId, verifyAdmin } from "@/lib/admin-auth";
+import { buildStatements, MAX_STATEMENT_DAYS } from "@/lib/canteen-statements";
+import { addDays, isDateKey, istDateKey } from "@/lib/ist-date";
+
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const outletId = adminOutletId(req, admin);
+        const params = req.nextUrl.searchParams;
+        const today = istDateKey();
+        const date = params.get("date");
+
+        if (date) {
+            if (!isDateKey(date) || date > today) {
+                return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+            }
+            const [statement] = await buildStatements(outletId, date, date, true);
+            return NextResponse.json({ statement });
+        }
+
+        const to = params.get("to") || today;
+        const from = params.get("from") || addDays(to, -6);
+        if (!isDateKey(from) || !isDateKey(to) || from > to || to > today) {
+            return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+        }
+        if (addDays(from, MAX_STATEMENT_DAYS - 1) < to) {
+            return NextResponse.json({ error: `At most ${MAX_STATEMENT_DAYS} days per request` }, { status: 400 });
+        }
+
+        const statements = await buildStatements(outletId, from, to);
+        return NextResponse.json({ statements });
+    } catch (error) {
+        console.error("Failed to build settlement statements:", error);
+        return NextResponse.json({ error: "Failed to build statements" }, { status: 500 });
+    }
+}
@@ -0,0 +1,317 @@
+/**
+ * /api/admin/wallet/withdrawals — Review student withdrawal requests
+ *
+ * GET  ?status=requested|processing|completed|rejected|failed
+ *      → withdrawals, oldest first for open statuses, newest first otherwise
+ * POST { withdrawalId, action: "approve" | "reject" | "settle", reason? }
+ *
+ * APPROVE:
+ * 1. Transaction: requested → processing, allocate FIFO across the
+ *    student's top-ups (see lib/wallet-withdrawals)
+ * 2. Issue one Razorpay refund per allocated payment (notes carry the
+ *    withdrawalId so the refund.processed webhook doesn't debit again).
+ *    Each outcome is written to the withdrawal as soon as it's known.
+ * 3. Transaction: record refunds on payments/{id}, return anything not
+ *    refunded to the wallet, mark completed (or failed if nothing went out)
+ *
+ * SETTLE: finishes an approval that stopped after step 1 or 2 (error or
+ * timeout) and left the withdrawal `processing`. Refunds still pending are
+ * looked up on Razorpay by withdrawalId before being issued, so a refund
+ * that went out without being recorded isn't issued twice; then step 3.
+ *
+ * REJECT: requested → rejected, held amount credited back.
+ *
+ * SECURITY: Admin JWT required; student money isn't any one outlet's, so
+ * outlet admins are refused. Status guards run inside transactions so
+ * a request can only be approved or rejected once.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { DocumentReference, FieldValue } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { verifyAdmin } from "@/lib/admin-auth";
+import { openWallet, postWalletEntry, roundMoney, WALLET_PARTIES } from "@/lib/wallet-ledger";
+import {
+    allocateRefunds,
+    loadRefundablePayments,
+    OPEN_WITHDRAWAL_STATUSES,
+    WithdrawalError,
+} from "@/lib/wallet-withdrawals";
+import type { PaymentRefund, Withdrawal, WithdrawalRefund, WithdrawalStatus } from "@/types";
+import Razorpay from "razorpay";
+
+export const runtime = "nodejs";
+
+// ── Fail-fast env validation ────────────────────────────────────────────
+if (!process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID || !process.env.RAZORPAY_KEY_SECRET) {
+    throw new Error(
+        "[FATAL] Missing Razorpay env vars. Set NEXT_PUBLIC_RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET in .env.local"
+    );
+}
+
+const razorpay = new Razorpay({
+    key_id: process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID,
+    key_secret: process.env.RAZORPAY_KEY_SECRET,
+});
+
+const STATUSES: WithdrawalStatus[] = ["requested", "processing", "completed", "rejected", "failed"];
+
+/** An approval still running must not be settled alongside it */
+const SETTLE_AFTER_MS = 2 * 60_000;
+
+/** Razorpay SDK errors carry `error.description`; anything else its message */
+function refundErrorMessage(err: unknown): string {
+    if (err && typeof err === "object") {
+        const { error, message } = err as { error?: { description?: unknown }; message?: unknown };
+        if (typeof error?.description === "string") return error.description;
+        if (typeof message === "string") return message;
+    }
+    return "Refund failed";
+}
+
+/** A refund of `paymentId` already issued for this withdrawal, if any */
+async function findIssuedRefund(paymentId: string, withdrawalId: string) {
+    const { items } = await razorpay.payments.fetchMultipleRefund(paymentId, { count: 100 });
+    return items.find((r) => r.notes?.withdrawalId === withdrawalId && r.status !== "failed");
+}
+
+/**
+ * STEP 2: issue the withdrawal's pending refunds. Outcomes are saved one
+ * by one, so nothing issued is forgotten if the run is cut short. With
+ * `resume`, a pending refund is first looked up on Razorpay.
+ */
+async function issueRefunds(
+    withdrawalRef: DocumentReference,
+    withdrawal: Withdrawal,
+    refunds: WithdrawalRefund[],
+    resume: boolean
+): Promise<void> {
+    const results = [...refunds];
+    for (let i = 0; i < results.length; i++) {
+        const refund = results[i];
+        if (refund.status !== "pending") continue;
+        // A failed lookup leaves the refund pending (and the withdrawal processing)
+        const existing = resume ? await findIssuedRefund(refund.paymentId, withdrawalRef.id) : undefined;
+        try {
+            const issued = existing || await razorpay.payments.refund(refund.paymentId, {
+                    amount: Math.round(refund.amount * 100),
+                    notes: { withdrawalId: withdrawalRef.id, userId: withdrawal.userId },
+                });
+            results[i] = { ...refund, status: "processed", razorpayRefundId: issued.id };
+        } catch (refundErr: unknown) {
+            console.error(`[Withdrawal] Refund failed for ${refund.paymentId}:`, refundErr);
+            results[i] = { ...refund, status: "failed", error: refundErrorMessage(refundErr) };
+        }
+        await withdrawalRef.update({ refunds: results });
+    }
+}
+
+/**
+ * STEP 3: record the refunds that went out, return the rest to the wallet
+ * and close the withdrawal. Runs once: only a `processing` withdrawal
+ * with no refund still pending is settled.
+ */
+async function settleWithdrawal(withdrawalRef: DocumentReference) {
+    return adminDb.runTransaction(async (transaction) => {
+        const doc = await transaction.get(withdrawalRef);
+        if (!doc.exists) throw new WithdrawalError("Withdrawal not found", 404);
+        const withdrawal = doc.data() as Withdrawal;
+        if (withdrawal.status !== "processing") {
+            throw new WithdrawalError(`Withdrawal is already ${withdrawal.status}`, 409);
+        }
+        const results = withdrawal.refunds || [];
+        if (results.some((r) => r.status === "pending")) {
+            throw new WithdrawalError("Some refunds are still pending — settle again", 409);
+        }
+
+        const refundedAmount = roundMoney(
+            results.filter((r) => r.status === "processed").reduce((sum, r) => sum + r.amount, 0)
+        );
+        const returnedAmount = roundMoney(withdrawal.amount - refundedAmount);
+        const status: WithdrawalStatus = refundedAmount > 0 ? "completed" : "failed";
+
+        const wallet = returnedAmount > 0 ? await openWallet(transaction, withdrawal.userId) : null;
+        const now = new Date().toISOString();
+
+        for (const result of results) {
+            if (result.status !== "processed" || !result.razorpayRefundId) continue;
+            const refundRecord: PaymentRefund = {
+                amount: result.amount,
+                debited: result.amount, // held when the withdrawal was requested
+                shortfall: 0,
+                processedAt: now,
+                withdrawalId: withdrawalRef.id,
+            };
+            transaction.update(adminDb.collection("payments").doc(result.paymentId), {
+                [`refunds.${result.razorpayRefundId}`]: refundRecord,
+                refundedAmount: FieldValue.increment(result.amount),
+            });
+        }
+
+        transaction.update(withdrawalRef, {
+            status,
+            refundedAmount,
+            returnedAmount,
+            completedAt: now,
+        });
+
+        if (wallet) {
+            postWalletEntry(transaction, wallet, {
+                type: "withdrawal",
+                direction: "credit",
+                amount: returnedAmount,
+                description: refundedAmount > 0
+                    ? "Withdrawal partly refunded — remainder returned to wallet"
+                    : "Withdrawal refund failed — returned to wallet",
+                counterparty: WALLET_PARTIES.razorpay,
+                referenceId: withdrawalRef.id,
+                createdAt: now,
+            });
+        }
+
+        return { withdrawal, status, refundedAmount, returnedAmount, refunds: results };
+    });
+}
+
+export async function GET(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (admin.outletId) {
+        return NextResponse.json({ error: "Student wallets are managed by the campus admin" }, { status: 403 });
+    }
+
+    try {
+        const status = req.nextUrl.searchParams.get("status") as WithdrawalStatus | null;
+        if (status && !STATUSES.includes(status)) {
+            return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+        }
+
+        const base = adminDb.collection("withdrawals");
+        const query = status
+            ? base.where("status", "==", status)
+                .orderBy("requestedAt", OPEN_WITHDRAWAL_STATUSES.includes(status) ? "asc" : "desc")
+            : base.orderBy("requestedAt", "desc");
+
+        const snap = await query.limit(100).get();
+        // Canteen payouts used to be written here too (no userId) — now canteenPayouts
+        const withdrawals = snap.docs
+            .filter((d) => d.data().userId)
+            .map((d) => ({ id: d.id, ...d.data() }) as Withdrawal);
+        return NextResponse.json({ withdrawals });
+    } catch (error) {
+        console.error("Failed to fetch withdrawals:", error);
+        return NextResponse.json({ error: "Failed to fetch withdrawals" }, { status: 500 });
+    }
+}
+
+export async function POST(req: NextRequest) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (admin.outletId) {
+        return NextResponse.json({ error: "Student wallets are managed by the campus admin" }, { status: 403 });
+    }
+
+    try {
+        const { withdrawalId, action, reason } = await req.json();
+        if (!withdrawalId || typeof withdrawalId !== "string") {
+            return NextResponse.json({ error: "Withdrawal ID required" }, { status: 400 });
+        }
+        if (action !== "approve" && action !== "reject" && action !== "settle") {
+            return NextResponse.json({ error: "Action must be approve, reject or settle" }, { status: 400 });
+        }
+
+        const withdrawalRef = adminDb.collection("withdrawals").doc(withdrawalId);
+        const reviewedBy = admin.username || "Admin";
+
+        if (action === "reject") {
+            await adminDb.runTransaction(async (transaction) => {
+                const doc = await transaction.get(withdrawalRef);
+                if (!doc.exists) throw new WithdrawalError("Withdrawal not found", 404);
+                const withdrawal = doc.data() as Withdrawal;
+                if (withdrawal.status !== "requested") {
+                    throw new WithdrawalError(`Withdrawal is already ${withdrawal.status}`, 409);
+                }
+
+                const wallet = await openWallet(transaction, withdrawal.userId);
+                const now = new Date().toISOString();
+
+                transaction.update(withdrawalRef, {
+                    status: "rejected",
+                    returnedAmount: withdrawal.amount,
+                    reviewedAt: now,
+                    reviewedBy,
+                    ...(typeof reason === "string" && reason.trim() && { rejectionReason: reason.trim().slice(0, 200) }),
+                });
+
+                postWalletEntry(transaction, wallet, {
+                    type: "withdrawal",
+                    direction: "credit",
+                    amount: withdrawal.amount,
+                    description: "Withdrawal rejected — returned to wallet",
+                    counterparty: WALLET_PARTIES.admin,
+                    referenceId: withdrawalId,
+                    createdAt: now,
+                });
+            });
+
+            return NextResponse.json({ success: true, status: "rejected" });
+        }
+
+        if (action === "settle") {
+            const doc = await withdrawalRef.get();
+            if (!doc.exists) throw new WithdrawalError("Withdrawal not found", 404);
+            const current = doc.data() as Withdrawal;
+            if (current.status !== "processing") {
+                throw new WithdrawalError(`Withdrawal is already ${current.status}`, 409);
+            }
+            if (Date.now() - new Date(current.reviewedAt || 0).getTime() < SETTLE_AFTER_MS) {
+                throw new WithdrawalError("This withdrawal is still being approved — try again in a couple of minutes", 409);
+            }
+            await issueRefunds(withdrawalRef, current, current.refunds || [], true);
+        } else {
+            // ── STEP 1: Claim the request and allocate FIFO ─────────────
+            const { withdrawal, allocation } = await adminDb.runTransaction(async (transaction) => {
+                const doc = await transaction.get(withdrawalRef);
+                if (!doc.exists) throw new WithdrawalError("Withdrawal not found", 404);
+                const current = doc.data() as Withdrawal;
+                if (current.status !== "requested") {
+                    throw new WithdrawalError(`Withdrawal is already ${current.status}`, 409);
+                }
+
+                const payments = await loadRefundablePayments(transaction, current.userId);
+                const refunds = allocateRefunds(payments, current.amount);
+
+                transaction.update(withdrawalRef, {
+                    status: "processing",
+                    refunds,
+                    reviewedAt: new Date().toISOString(),
+                    reviewedBy,
+                });
+
+                return { withdrawal: current, allocation: refunds };
+            });
+
+            // ── STEP 2: Issue Razorpay refunds (outside any transaction) ─
+            await issueRefunds(withdrawalRef, withdrawal, allocation, false);
+        }
+
+        // ── STEP 3: Record refunds, return the remainder ────────────────
+        const { withdrawal, status, refundedAmount, returnedAmount, refunds } = await settleWithdrawal(withdrawalRef);
+
+        console.log(
+            `[Withdrawal] ${status === "completed" ? "✅" : "❌"} ${withdrawalId} | refunded ₹${refundedAmount} | returned ₹${returnedAmount} | user=${withdrawal.userId.slice(0, 8)}…`
+        );
+
+        return NextResponse.json({ success: true, status, refundedAmount, returnedAmount, refunds });
+    } catch (error) {
+        if (error instanceof WithdrawalError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Withdrawal review failed:", error);
+        return NextResponse.json({ error: "Failed to process withdrawal" }, { status: 500 });
+    }
+}
@@ -1,55 +1,183 @@
 /**
  * GET /api/auto-orders/execute — Triggered by cron.
- * Processes all active auto-orders that match the current time and day.
+ * Places a real order for every active auto-order that is due today and
+ * whose scheduled time has passed, using the same transactional path as
+ * POST /api/orders (stock decrement, wallet debit, walletTransactions).
+ *
+ * - Requires CRON_SECRET as Authorization: Bearer <secret> (timing-safe);
+ *   refused with 503 until CRON_SECRET is set
+ * - Duplicate guard: at most one attempt per auto-order per day
+ *   (lastExecutedAt / lastFailedAt), checked inside the transaction
+ * - Every attempt writes an autoOrderExecutions record
+ * - Respects open/close + operating hours of the outlet the item belongs to
+ * - Times, weekdays and "today" are IST (istClock), whatever the host's zone
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import crypto from "crypto";
 import { adminDb } from "@/lib/firebase-admin";
+import { FieldValue } from "firebase-admin/firestore";
+import { getCanteenClosedReason, placeOrderInTransaction, resolveOrderOutlet } from "@/lib/order-placement";
+import { istClock } from "@/lib/canteen-schedule";
+import type { AutoOrder, DayOfWeek } from "@/types";
+
+export const runtime = "nodejs";
+
+function isScheduledToday(autoOrder: AutoOrder, today: DayOfWeek): boolean {
+    switch (autoOrder.frequency) {
+        case "daily":
+            return true;
+        case "weekdays":
+            return today !== "Sat" && today !== "Sun";
+        case "custom":
+            return !!autoOrder.customDays?.includes(today);
+        default:
+            return false;
+    }
+}
+
+function alreadyAttemptedToday(autoOrder: Partial<AutoOrder>, todayKey: string): boolean {
+    const attempts = [autoOrder.lastExecutedAt, autoOrder.lastFailedAt];
+    return attempts.some((iso) => !!iso && istClock(new Date(iso)).date === todayKey);
+}
+
+function isAuthorizedCron(req: NextRequest, secret: string): boolean {
+    const authHeader = req.headers.get("authorization") || "";
+    if (!authHeader.startsWith("Bearer ")) return false;
+
+    const given = Buffer.from(authHeader.slice("Bearer ".length));
+    const expected = Buffer.from(secret);
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+/**
+ * Record a failed attempt on the auto-order and in autoOrderExecutions.
+ */
+async function recordFailure(autoOrder: AutoOrder, reason: string, executedAt: string) {
+    const batch = adminDb.batch();
+    batch.update(adminDb.collection("auto-orders").doc(autoOrder.id), {
+        lastFailedAt: executedAt,
+        lastFailureReason: reason,
+        totalFailures: FieldValue.increment(1),
+        updatedAt: executedAt,
+    });
+    batch.set(adminDb.collection("autoOrderExecutions").doc(), {
+        autoOrderId: autoOrder.id,
+        userId: autoOrder.userId,
+        success: false,
+        failureReason: reason,
+        executedAt,
+    });
+    await batch.commit();
+}
+
+/**
+ * Execute a single auto-order. Returns the placed orderId, null if another
+ * run already handled it today, or throws with the failure reason.
+ */
+async function executeAutoOrder(autoOrder: AutoOrder, todayKey: string, executedAt: string): Promise<string | null> {
+    return adminDb.runTransaction(async (transaction) => {
+        const autoOrderRef = adminDb.collection("auto-orders").doc(autoOrder.id);
+        const autoOrderDoc = await transaction.get(autoOrderRef);
+        const current = autoOrderDoc.data() as Partial<AutoOrder> | undefined;
+
+        // Duplicate guard (re-checked inside the transaction to survive overlapping cron runs)
+        if (!current || current.status !== "active" || alreadyAttemptedToday(current, todayKey)) {
+            return null;
+        }
+
+        // Priced from menuItems and stock-checked inside the transaction
+        const { orderId, total } = await placeOrderInTransaction(transaction, {
+            userId: autoOrder.userId,
+            items: [{ id: autoOrder.itemId, name: autoOrder.itemName, quantity: Number(autoOrder.quantity) || 1 }],
+            describe: (id) => `Auto Order #${id}`,
+            extra: { autoOrderId: autoOrder.id },
+            actorRole: "system",
+        });
+
+        transaction.update(autoOrderRef, {
+            lastExecutedAt: executedAt,
+            totalExecutions: FieldValue.increment(1),
+            updatedAt: executedAt,
+        });
+
+        transaction.set(adminDb.collection("autoOrderExecutions").doc(), {
+            autoOrderId: autoOrder.id,
+            userId: autoOrder.userId,
+            orderId,
+            success: true,
+            amountDeducted: total,
+            executedAt,
+        });
+
+        return orderId;
+    });
+}
 
 export async function GET(req: NextRequest) {
-    // In production, you might want to check a CRON_SECRET header from Vercel/cron-job.org
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+        console.error("[AutoOrders] CRON_SECRET is not set");
+        return NextResponse.json({ error: "Cron not configured" }, { status: 503 });
+    }
+    if (!isAuthorizedCron(req, secret)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
 
     try {
         const now = new Date();
-        const currentHour = now.getHours().toString().padStart(2, "0");
-        const currentMinute = now.getMinutes().toString().padStart(2, "0");
-        const currentTime = `${currentHour}:${currentMinute}`;
+        const executedAt = now.toISOString();
+        const { date: todayKey, weekday: today, minutes } = istClock(now);
+        const currentTime = `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
 
-        const days = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
-        const currentDay = days[now.getDay()];
-
-        // Find active auto-orders for this time
+        // Every active auto-order whose time has passed today (catches up missed cron ticks)
         const snapshot = await adminDb.collection("auto-orders")
             .where("status", "==", "active")
-            .where("time", "==", currentTime)
+            .where("time", "<=", currentTime)
             .get();
 
-        const results = [];
-        for (const doc of snapshot.docs) {
-            const data = doc.data();
-
-            // Handle frequency logic
-            let shouldExecute = false;
-            if (data.frequency === "daily") {
-                shouldExecute = true;
-            } else if (data.frequency === "weekdays" && !["saturday", "sunday"].includes(currentDay)) {
-                shouldExecute = true;
-            } else if (data.frequency === "custom" && data.customDays?.includes(currentDay)) {
-                shouldExecute = true;
-            }
+        const candidates = snapshot.docs
+            .map((doc) => ({ id: doc.id, ...doc.data() }) as AutoOrder)
+            .filter((ao) => isScheduledToday(ao, today) && !alreadyAttemptedToday(ao, todayKey));
 
-            if (shouldExecute) {
-                // Logic to create an actual order (simplified here)
-                // In a real app, you'd call a internal function or order API
-                results.push({ id: doc.id, userId: data.userId, executed: true });
+        const results: { id: string; userId: string; success: boolean; orderId?: string; error?: string }[] = [];
+
+        if (candidates.length > 0) {
+            // Each outlet has its own hours; look each one up once per run
+            const closedReasons = new Map<string, string | null>();
+
+            for (const autoOrder of candidates) {
+                try {
+                    const outletId = await resolveOrderOutlet([{ id: autoOrder.itemId }]);
+                    if (!closedReasons.has(outletId)) {
+                        closedReasons.set(outletId, await getCanteenClosedReason(outletId, now));
+                    }
+                    const closedReason = closedReasons.get(outletId);
+                    if (closedReason) throw new Error(closedReason);
+
+                    const orderId = await executeAutoOrder(autoOrder, todayKey, executedAt);
+                    if (orderId) {
+                        results.push({ id: autoOrder.id, userId: autoOrder.userId, success: true, orderId });
+                    }
+                } catch (err) {
+                    const reason = err instanceof Error ? err.message : "Execution failed";
+                    console.error(`[AutoOrders] ❌ ${autoOrder.id} failed: ${reason}`);
+                    await recordFailure(autoOrder, reason, executedAt);
+                    results.push({ id: autoOrder.id, userId: autoOrder.userId, success: false, error: reason });
+                }
             }
         }
 
+        const succeeded = results.filter((r) => r.success).length;
+
         return NextResponse.json({
             success: true,
             processed: snapshot.size,
-            executed: results.length,
-            time: currentTime
+            candidates: candidates.length,
+            succeeded,
+            failed: results.length - succeeded,
+            results,
+            time: currentTime,
         });
     } catch (error) {
         console.error("Auto-order execution failed:", error);
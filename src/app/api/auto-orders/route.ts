@@ -30,6 +30,8 @@ export async function POST(req: NextRequest) {
         const docRef = await adminDb.collection("auto-orders").add({
             ...data,
             status: "active",
+            totalExecutions: 0,
+            totalFailures: 0,
             createdAt: new Date().toISOString(),
             updatedAt: new Date().toISOString(),
         });
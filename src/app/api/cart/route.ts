@@ -0,0 +1,84 @@
+/**
+ * /api/cart — The signed-in user's saved cart (carts/{uid}, see lib/cart-store)
+ *
+ * GET  → { items, updatedAt, changes, stockIssues } — the saved cart checked
+ *        against the live menu: `changes` are unit prices that moved (same
+ *        shape as a PRICE_CHANGED response), `stockIssues` are lines that are
+ *        sold out or short on stock. `items` carry refreshed maxQuantity.
+ * PUT  → replace { items } → { success, updatedAt }
+ * POST → sign-in merge { items } — the browser's cart is merged into the
+ *        saved one; returns GET's fields plus `dropped` (browser lines that
+ *        didn't fit, e.g. from another outlet)
+ *
+ * Other devices follow the cart live from carts/{uid} (firestore.rules).
+ *
+ * SECURITY:
+ * - Requires Firebase ID token; a user can only touch their own cart
+ * - Saved prices are only what the client displayed — orders are always
+ *   re-priced by placeOrder
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { CartError, mergeSavedCart, parseCartItems, readSavedCart, revalidateCart, saveCart } from "@/lib/cart-store";
+
+export const runtime = "nodejs";
+
+function errorResponse(error: unknown, fallback: string) {
+    if (error instanceof CartError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`${fallback}:`, error);
+    return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET(req: NextRequest) {
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { items, updatedAt } = await readSavedCart(uid);
+        return NextResponse.json({ updatedAt, ...(await revalidateCart(items)) });
+    } catch (error) {
+        return errorResponse(error, "Failed to load cart");
+    }
+}
+
+export async function PUT(req: NextRequest) {
+    const rateLimitResponse = checkRateLimit(req, 120, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { items } = await req.json();
+        const { updatedAt } = await saveCart(uid, parseCartItems(items));
+        return NextResponse.json({ success: true, updatedAt });
+    } catch (error) {
+        return errorResponse(error, "Failed to save cart");
+    }
+}
+
+export async function POST(req: NextRequest) {
+    const rateLimitResponse = checkRateLimit(req, 10, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { items } = await req.json();
+        const { items: merged, updatedAt, dropped } = await mergeSavedCart(uid, parseCartItems(items ?? []));
+        return NextResponse.json({ success: true, updatedAt, dropped, ...(await revalidateCart(merged)) });
+    } catch (error) {
+        return errorResponse(error, "Failed to merge cart");
+    }
+}
@@ -5,6 +5,11 @@
  * - Requires Firebase ID token verification
  * - Rate limited (20 req/min per IP)
  * - Order ID uses UUID format instead of 6-digit random
+ *
+ * Hours and menu answers are for the outlet the student is browsing
+ * (`outletId` in the body, default outlet otherwise). Combo questions get
+ * the outlet's own combos when it has any in stock, and a combo put
+ * together from quick items otherwise.
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -13,7 +18,13 @@ import { getAuthenticatedUser } from "@/lib/user-auth";
 import { checkRateLimit } from "@/lib/rate-limit";
 import { adminDb } from "@/lib/firebase-admin";
 import { generateOrderId } from "@/lib/orderIdUtils";
-import { FieldValue } from "firebase-admin/firestore";
+import { placeOrder, quoteOrder, validateOrderLines } from "@/lib/order-placement";
+import { getPinOrderThreshold, readPinToken } from "@/lib/pin-auth";
+import { canteenConfigDocId, DEFAULT_OUTLET_ID, OUTLET_ID_PATTERN } from "@/lib/outlets";
+import { describeWeek, evaluateCanteenStatus, formatSlots, istClock, slotsFor, type ScheduleConfig } from "@/lib/canteen-schedule";
+import { formatPickupTime } from "@/lib/pickup-slots";
+import { comboSavings, comboStock, describeComponents, isCombo } from "@/lib/combos";
+import type { MenuItem } from "@/types";
 
 export const runtime = "nodejs";
 
@@ -29,22 +40,30 @@ export async function POST(req: NextRequest) {
     }
 
     try {
-        const { messages, cart, userProfile, action } = await req.json();
+        const { messages, cart, userProfile, action, outletId: requestedOutlet, pickupAt, couponCode: rawCoupon } = await req.json();
+        const scheduledPickup = typeof pickupAt === "string" && pickupAt ? pickupAt : undefined;
+        const couponCode = typeof rawCoupon === "string" && rawCoupon.trim() ? rawCoupon : undefined;
+        const outletId = typeof requestedOutlet === "string" && OUTLET_ID_PATTERN.test(requestedOutlet)
+            ? requestedOutlet
+            : DEFAULT_OUTLET_ID;
 
         // SECURITY: Zayko-format order ID (replaces UUID-based ID)
         const generateId = () => generateOrderId();
 
-        // Fetch canteen status for AI context
+        // Fetch canteen status for AI context — same schedule evaluator as order placement
         let canteenIsOpen = true;
         let canteenTiming = "9AM – 6PM";
+        let closedReason = "";
+        let weekHours = "";
         try {
-            const configDoc = await adminDb.doc("settings/canteenConfig").get();
+            const configDoc = await adminDb.collection("settings").doc(canteenConfigDocId(outletId)).get();
             if (configDoc.exists) {
-                const config = configDoc.data();
-                canteenIsOpen = config?.isOpen !== false;
-                if (config?.startTime && config?.endTime) {
-                    canteenTiming = `${config.startTime} – ${config.endTime}`;
-                }
+                const config = configDoc.data() as ScheduleConfig;
+                const status = evaluateCanteenStatus(config);
+                canteenIsOpen = status.isOpen;
+                closedReason = status.reason || "";
+                canteenTiming = status.holiday ? "Closed today" : formatSlots(slotsFor(config, istClock().weekday));
+                weekHours = describeWeek(config);
             }
         } catch (e) {
             console.error("Failed to fetch canteen config for chat:", e);
@@ -56,9 +75,10 @@ export async function POST(req: NextRequest) {
             ? `\n\nCURRENT USER INFO:\n- Name: ${userName}\n- Email: ${userProfile?.email || "N/A"}\n- Roll Number: ${userProfile?.rollNumber || "N/A"}`
             : "";
 
-        const canteenStatusBlock = canteenIsOpen
-            ? `\n\nCANTEEN STATUS: OPEN (Timing: ${canteenTiming})`
-            : `\n\nCANTEEN STATUS: CLOSED (Timing: ${canteenTiming})\nIMPORTANT: Canteen is currently closed. Do NOT suggest any food items. Respond to any food/order request with: "Canteen abhi band hai 😔 Timing: ${canteenTiming}"`;
+        const hoursBlock = weekHours ? `\n\nCANTEEN HOURS (IST, next 7 days):\n${weekHours}` : "";
+        const canteenStatusBlock = (canteenIsOpen
+            ? `\n\nCANTEEN STATUS: OPEN (Today: ${canteenTiming})`
+            : `\n\nCANTEEN STATUS: CLOSED (Today: ${canteenTiming})\nIMPORTANT: Canteen is currently closed. Do NOT suggest any food items. Respond to any food/order request with: "Canteen abhi band hai 😔 ${closedReason || `Timing: ${canteenTiming}`}"`) + hoursBlock;
 
         let systemPrompt = `You are the official AI Assistant of Zayko – a Smart Food Ordering Platform.
 
@@ -241,10 +261,20 @@ Never go outside canteen domain.`;
 
         if (action === "place_order" && cart && cart.length > 0 && userProfile) {
             const orderId = generateId();
-            const cartSummary = cart
-                .map((item: { name: string; quantity: number; price: number }) => `• ${item.name} x${item.quantity} — ₹${item.price * item.quantity}`)
+
+            // Summary uses server-side prices (same pricing as placeOrder)
+            let quote;
+            try {
+                quote = await quoteOrder(validateOrderLines(cart), { couponCode, userId: uid });
+            } catch (err) {
+                const message = err instanceof Error ? err.message : "Could not price your cart";
+                return NextResponse.json({ message: `❌ ${message}`, provider: "error" });
+            }
+            const { total } = quote;
+            const cartSummary = quote.items
+                .map((item) => `• ${item.name} x${item.quantity} — ₹${item.price * item.quantity}`)
+                .concat(quote.discounts.map((d) => `• ${d.label}${d.code ? ` (${d.code})` : ""} — −₹${d.amount}`))
                 .join("\n");
-            const total = cart.reduce((sum: number, item: { price: number; quantity: number }) => sum + item.price * item.quantity, 0);
 
             systemPrompt += `\n\nThe user wants to place an order. Here are the details:
 Student Name: ${userProfile.name}
@@ -256,14 +286,16 @@ ${cartSummary}
 
 Total: ₹${total}
 Order ID: #${orderId}
+Pickup: ${scheduledPickup ? `${formatPickupTime(scheduledPickup)} (pre-order)` : "as soon as it's ready"}
 
 Generate a short, friendly order confirmation message that:
 1. Greets the student by name
 2. Lists all items with quantities and prices
 3. Shows the total amount
 4. Shows the Order ID #${orderId}
-5. Asks if they want to confirm the order
-6. Mentions the amount will be deducted from their wallet
+5. Mentions the pickup time (and any discount lines, as savings)
+6. Asks if they want to confirm the order
+7. Mentions the amount will be deducted from their wallet
 Keep it concise and fun with emojis!`;
 
             const chatMessages: ChatMessage[] = [
@@ -303,6 +335,7 @@ Keep it concise and fun with emojis!`;
                 if (faqResult.dynamic === "fastest_items") {
                     try {
                         const menuSnap = await adminDb.collection("menuItems")
+                            .where("outletId", "==", outletId)
                             .where("available", "==", true)
                             .orderBy("preparationTime", "asc")
                             .limit(5)
@@ -325,12 +358,39 @@ Keep it concise and fun with emojis!`;
 
                 if (faqResult.dynamic === "combo_suggestion") {
                     try {
+                        // The outlet's own combos first, while their items are in stock
+                        const comboSnap = await adminDb.collection("menuItems")
+                            .where("outletId", "==", outletId)
+                            .where("type", "==", "combo")
+                            .get();
+                        const combos = comboSnap.docs.map((d) => d.data() as MenuItem).filter((c) => c.available);
+                        const componentIds = [...new Set(combos.flatMap((c) => (c.components || []).map((x) => x.itemId)))];
+                        const componentSnaps = componentIds.length > 0
+                            ? await adminDb.getAll(...componentIds.map((id) => adminDb.collection("menuItems").doc(id)))
+                            : [];
+                        const lookup = (id: string) => componentSnaps.find((s) => s.id === id)?.data() as MenuItem | undefined;
+                        const inStock = combos.filter((c) => comboStock(c, lookup).available);
+                        if (inStock.length > 0) {
+                            const list = inStock
+                                .sort((a, b) => a.price - b.price)
+                                .map((c) => {
+                                    const savings = comboSavings(c, lookup);
+                                    return `• ${c.name} — ₹${c.price}${savings > 0 ? ` (save ₹${savings})` : ""}\n  ${describeComponents(c.components)}`;
+                                })
+                                .join("\n");
+                            return NextResponse.json({
+                                message: `Yeh combos abhi available hain 🍱\n\n${list}\n\nMenu se combo cart mein add karo!`,
+                                provider: "faq",
+                            });
+                        }
+
                         const menuSnap = await adminDb.collection("menuItems")
+                            .where("outletId", "==", outletId)
                             .where("available", "==", true)
                             .orderBy("preparationTime", "asc")
                             .limit(10)
                             .get();
-                        const items = menuSnap.docs.map((d) => d.data());
+                        const items = menuSnap.docs.map((d) => d.data()).filter((it) => !isCombo(it));
                         if (items.length < 2) {
                             return NextResponse.json({ message: "Abhi combo ke liye enough items available nahi hain 😔", provider: "faq" });
                         }
@@ -361,45 +421,17 @@ Keep it concise and fun with emojis!`;
         // we execute the order placement if the LLM confirms the intent.
 
         if (action === "confirm_order" && cart && cart.length > 0) {
-            // Re-generate order ID and place it
-            const orderId = generateId();
-            const total = cart.reduce((sum: number, item: { price: number; quantity: number }) => sum + item.price * item.quantity, 0);
-
             try {
-                await adminDb.runTransaction(async (transaction) => {
-                    const userRef = adminDb.collection("users").doc(uid);
-                    const userSnap = await transaction.get(userRef);
-                    if (!userSnap.exists) throw new Error("User not found");
-
-                    const walletBalance = userSnap.data()?.walletBalance || 0;
-                    if (walletBalance < total) throw new Error("Insufficient wallet balance");
-
-                    // Deduct wallet
-                    transaction.update(userRef, { walletBalance: FieldValue.increment(-total) });
-
-                    // Create order
-                    const orderRef = adminDb.collection("orders").doc();
-                    transaction.set(orderRef, {
-                        orderId,
-                        userId: uid,
-                        userName: userProfile.name,
-                        userEmail: userProfile.email,
-                        userPhone: userSnap.data()?.phone || "",
-                        items: cart,
-                        total,
-                        status: "pending",
-                        createdAt: new Date().toISOString(),
-                    });
-
-                    // Record transaction
-                    const txnRef = adminDb.collection("walletTransactions").doc();
-                    transaction.set(txnRef, {
-                        userId: uid,
-                        type: "debit",
-                        amount: total,
-                        description: `Jarvis Order #${orderId}`,
-                        createdAt: new Date().toISOString(),
-                    });
+                // Same placement path as POST /api/orders (hours, pricing, stock, wallet)
+                const { orderId, total } = await placeOrder({
+                    userId: uid,
+                    items: validateOrderLines(cart),
+                    userName: userProfile?.name,
+                    userEmail: userProfile?.email,
+                    describe: (id) => `Jarvis Order #${id}`,
+                    pin: { token: readPinToken(req, uid), requiredAbove: await getPinOrderThreshold() },
+                    pickupAt: scheduledPickup,
+                    couponCode,
                 });
 
                 return NextResponse.json({
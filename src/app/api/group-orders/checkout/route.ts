@@ -0,0 +1,60 @@
+/**
+ * POST /api/group-orders/checkout — Host places a group order { groupId, pickupAt? }
+ *
+ * Places the whole shared cart as one order (one kitchen ticket) and
+ * closes the cart. In "split" mode every member is debited for their own
+ * lines; in "host" mode the host pays and the others get money requests.
+ * Returns { success, orderId, total, requested }.
+ *
+ * SECURITY:
+ * - Requires Firebase ID token; only the cart's host can check out
+ * - Items re-priced by placeOrderInTransaction; stale prices are saved to
+ *   the cart and rejected with 409 { code: "PRICE_CHANGED", changes }
+ * - The host's own share above pinOrderThreshold needs an X-Pin-Token
+ * - In "split" mode members must have confirmed (`ready`) their share,
+ *   with their PIN when it's above pinOrderThreshold
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { OrderPlacementError } from "@/lib/order-placement";
+import { getPinOrderThreshold, readPinToken } from "@/lib/pin-auth";
+import { checkoutGroupCart, GroupOrderError } from "@/lib/group-orders";
+
+export const runtime = "nodejs";
+
+export async function POST(req: NextRequest) {
+    const rateLimitResponse = checkRateLimit(req, 10, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { groupId, pickupAt } = await req.json();
+        if (!groupId || typeof groupId !== "string") {
+            return NextResponse.json({ error: "groupId is required" }, { status: 400 });
+        }
+
+        const { orderId, total, requested } = await checkoutGroupCart(groupId, uid, {
+            pinToken: readPinToken(req, uid),
+            pinRequiredAbove: await getPinOrderThreshold(),
+            pickupAt: typeof pickupAt === "string" && pickupAt ? pickupAt : undefined,
+        });
+
+        return NextResponse.json({ success: true, orderId, total, requested });
+    } catch (error) {
+        if (error instanceof GroupOrderError) {
+            return NextResponse.json({ error: error.message, ...(error.code && { code: error.code }) }, { status: error.status });
+        }
+        if (error instanceof OrderPlacementError) {
+            return NextResponse.json(error.toJSON(), { status: error.status });
+        }
+        console.error("Group order checkout failed:", error);
+        const message = error instanceof Error ? error.message : "Failed to place group order";
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,134 @@
+/**
+ * /api/group-orders — Shared carts for group orders (see lib/group-orders)
+ *
+ * POST  → create { outletId?, items? } → { success, groupId }
+ *         - items: the host's current cart, copied in as their lines; its
+ *           outlet becomes the group's outlet
+ * PATCH → { groupId, action, ... }
+ *         - join: add the caller to the cart
+ *         - set_items { items }: replace the caller's own lines
+ *         - ready { ready }: confirm (or withdraw) paying for their lines;
+ *           a share above pinOrderThreshold needs an X-Pin-Token
+ *         - payment_mode { paymentMode: "split" | "host" }: host only
+ *         - leave: remove the caller; the host leaving cancels the cart
+ *
+ * Members read the cart live from groupCarts/{id} (firestore.rules);
+ * checkout is POST /api/group-orders/checkout.
+ *
+ * SECURITY:
+ * - Requires Firebase ID token; members can only change their own lines
+ * - Line prices always come from menuItems
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { OrderPlacementError, resolveOrderOutlet, validateOrderLines } from "@/lib/order-placement";
+import { DEFAULT_OUTLET_ID, OUTLET_ID_PATTERN } from "@/lib/outlets";
+import { getPinOrderThreshold, readPinToken } from "@/lib/pin-auth";
+import {
+    createGroupCart,
+    GroupOrderError,
+    isGroupPaymentMode,
+    joinGroupCart,
+    leaveGroupCart,
+    setMemberLines,
+    setMemberReady,
+    setPaymentMode,
+} from "@/lib/group-orders";
+
+export const runtime = "nodejs";
+
+async function userName(uid: string): Promise<string> {
+    const userDoc = await adminDb.collection("users").doc(uid).get();
+    return userDoc.data()?.name || "Student";
+}
+
+function errorResponse(error: unknown, fallback: string) {
+    if (error instanceof GroupOrderError) {
+        return NextResponse.json({ error: error.message, ...(error.code && { code: error.code }) }, { status: error.status });
+    }
+    if (error instanceof OrderPlacementError) {
+        return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+    console.error(`${fallback}:`, error);
+    return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function POST(req: NextRequest) {
+    const rateLimitResponse = checkRateLimit(req, 5, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { outletId, items } = await req.json();
+
+        const seeded = Array.isArray(items) && items.length > 0;
+        let groupOutlet = DEFAULT_OUTLET_ID;
+        if (seeded) {
+            groupOutlet = await resolveOrderOutlet(validateOrderLines(items));
+        } else if (outletId !== undefined) {
+            if (typeof outletId !== "string" || !OUTLET_ID_PATTERN.test(outletId)) {
+                return NextResponse.json({ error: "Invalid outlet" }, { status: 400 });
+            }
+            groupOutlet = outletId;
+        }
+
+        const cart = await createGroupCart({ uid, name: await userName(uid) }, groupOutlet, seeded ? items : undefined);
+        return NextResponse.json({ success: true, groupId: cart.id });
+    } catch (error) {
+        return errorResponse(error, "Failed to start group order");
+    }
+}
+
+export async function PATCH(req: NextRequest) {
+    const rateLimitResponse = checkRateLimit(req, 60, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { groupId, action, items, ready, paymentMode } = await req.json();
+        if (!groupId || typeof groupId !== "string") {
+            return NextResponse.json({ error: "groupId is required" }, { status: 400 });
+        }
+
+        switch (action) {
+            case "join":
+                await joinGroupCart(groupId, { uid, name: await userName(uid) });
+                break;
+            case "set_items":
+                await setMemberLines(groupId, uid, items);
+                break;
+            case "ready":
+                await setMemberReady(groupId, uid, ready === true, {
+                    token: readPinToken(req, uid),
+                    requiredAbove: await getPinOrderThreshold(),
+                });
+                break;
+            case "payment_mode":
+                if (!isGroupPaymentMode(paymentMode)) {
+                    return NextResponse.json({ error: "Invalid payment mode" }, { status: 400 });
+                }
+                await setPaymentMode(groupId, uid, paymentMode);
+                break;
+            case "leave":
+                await leaveGroupCart(groupId, uid);
+                break;
+            default:
+                return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        return errorResponse(error, "Failed to update group order");
+    }
+}
@@ -0,0 +1,176 @@
+/**
+ * /api/guardian — Guardian controls over linked students' wallets
+ *
+ * GET  → { students: GuardianStudent[], categories } — linked students
+ *        (balance, limits, today's / this week's usage) and pending invites
+ * POST → { action, ... }
+ *        - invite        { studentCode }  → student accepts on /profile
+ *        - cancel_invite { studentId }
+ *        - unlink        { studentId }    → limits stay, student can edit them again
+ *        - set_limits    { studentId, limits: { daily?, weekly?, categories? } }
+ *
+ * Guardians top up a student's wallet through /api/razorpay/create-order
+ * with { forUserId }.
+ *
+ * SECURITY: Requires Firebase ID token. Every action re-reads the student
+ * inside a transaction and checks guardianId / guardianInvite is the caller.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { FieldValue } from "firebase-admin/firestore";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { getLimitCategories, parseSpendingLimits, readSpendingUsage } from "@/lib/spending-limits";
+import type { GuardianStudent } from "@/types";
+
+export const runtime = "nodejs";
+
+type GuardianUpdate = { status: number; error: string } | null;
+
+export async function GET(req: NextRequest) {
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const [linkedSnap, invitedSnap, categories] = await Promise.all([
+            adminDb.collection("users").where("guardianId", "==", uid).get(),
+            adminDb.collection("users").where("guardianInvite.guardianId", "==", uid).get(),
+            getLimitCategories(),
+        ]);
+
+        const students: GuardianStudent[] = await Promise.all([
+            ...linkedSnap.docs.map(async (doc) => {
+                const data = doc.data();
+                return {
+                    id: doc.id,
+                    name: data.name || "Unknown",
+                    rollNumber: data.rollNumber,
+                    walletBalance: Number(data.walletBalance) || 0,
+                    limits: data.spendingLimits || {},
+                    usage: await readSpendingUsage(doc.id),
+                    pending: false,
+                };
+            }),
+            ...invitedSnap.docs.map(async (doc) => ({
+                id: doc.id,
+                name: doc.data().name || "Unknown",
+                rollNumber: doc.data().rollNumber,
+                walletBalance: 0,
+                limits: {},
+                usage: { today: 0, thisWeek: 0, categoriesToday: {} },
+                pending: true,
+            })),
+        ]);
+
+        return NextResponse.json({ students, categories });
+    } catch (error) {
+        console.error("Failed to fetch guardian students:", error);
+        return NextResponse.json({ error: "Failed to fetch students" }, { status: 500 });
+    }
+}
+
+export async function POST(req: NextRequest) {
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const rateLimitResponse = checkRateLimit(req, 10, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    try {
+        const { action, studentCode, studentId, limits } = await req.json();
+        const guardianRef = adminDb.collection("users").doc(uid);
+
+        if (action === "invite") {
+            if (!studentCode || typeof studentCode !== "string") {
+                return NextResponse.json({ error: "Student code is required" }, { status: 400 });
+            }
+            const studentSnap = await adminDb
+                .collection("users")
+                .where("uniqueCode", "==", studentCode.toUpperCase().trim())
+                .limit(1)
+                .get();
+            if (studentSnap.empty) {
+                return NextResponse.json({ error: "No student found with that code" }, { status: 404 });
+            }
+            const studentRef = studentSnap.docs[0].ref;
+            if (studentRef.id === uid) {
+                return NextResponse.json({ error: "You can't be your own guardian" }, { status: 400 });
+            }
+
+            const result = await adminDb.runTransaction<GuardianUpdate>(async (transaction) => {
+                const [guardianDoc, studentDoc] = await Promise.all([transaction.get(guardianRef), transaction.get(studentRef)]);
+                if (!guardianDoc.exists) return { status: 404, error: "User profile not found" };
+                const student = studentDoc.data()!;
+                if (student.guardianId) {
+                    return { status: 409, error: student.guardianId === uid ? "Already linked" : "This student already has a guardian" };
+                }
+                if (guardianDoc.data()!.guardianId === studentRef.id) {
+                    return { status: 400, error: "This student is your guardian" };
+                }
+
+                transaction.update(studentRef, {
+                    guardianInvite: {
+                        guardianId: uid,
+                        guardianName: guardianDoc.data()!.name || "Guardian",
+                        createdAt: new Date().toISOString(),
+                    },
+                });
+                return null;
+            });
+
+            if (result) return NextResponse.json({ error: result.error }, { status: result.status });
+            return NextResponse.json({ success: true, message: `Invite sent to ${studentSnap.docs[0].data().name || "student"}` });
+        }
+
+        if (action !== "cancel_invite" && action !== "unlink" && action !== "set_limits") {
+            return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+        }
+        if (!studentId || typeof studentId !== "string") {
+            return NextResponse.json({ error: "Student ID required" }, { status: 400 });
+        }
+
+        const parsed = action === "set_limits" ? parseSpendingLimits(limits) : null;
+        if (parsed && "error" in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+
+        const studentRef = adminDb.collection("users").doc(studentId);
+        const result = await adminDb.runTransaction<GuardianUpdate>(async (transaction) => {
+            const studentDoc = await transaction.get(studentRef);
+            const student = studentDoc.data();
+
+            if (action === "cancel_invite") {
+                if (student?.guardianInvite?.guardianId !== uid) return { status: 404, error: "Invite not found" };
+                transaction.update(studentRef, { guardianInvite: FieldValue.delete() });
+                return null;
+            }
+
+            // SECURITY: only the linked guardian
+            if (student?.guardianId !== uid) return { status: 404, error: "Student not found" };
+
+            if (action === "unlink") {
+                transaction.update(studentRef, {
+                    guardianId: FieldValue.delete(),
+                    guardianName: FieldValue.delete(),
+                });
+                return null;
+            }
+
+            transaction.update(studentRef, {
+                spendingLimits: { ...parsed!.limits, updatedAt: new Date().toISOString(), updatedBy: "guardian" },
+            });
+            return null;
+        });
+
+        if (result) return NextResponse.json({ error: result.error }, { status: result.status });
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Guardian action failed:", error);
+        return NextResponse.json({ error: "Guardian action failed" }, { status: 500 });
+    }
+}
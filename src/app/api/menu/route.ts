@@ -4,22 +4,28 @@
  * SECURITY CHANGES:
  * - GET: Remains public (no auth required — menu is public data)
  * - POST (seed): Now requires admin JWT authentication
+ *
+ * GET ?outletId= limits the menu to one outlet; POST seeds the admin's outlet.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { adminDb } from "@/lib/firebase-admin";
-import { verifyAdmin } from "@/lib/admin-auth";
+import { adminOutletId, verifyAdmin } from "@/lib/admin-auth";
+import { outletIdOf } from "@/lib/outlets";
 
 export const runtime = "nodejs";
 
 // GET /api/menu — Fetch all menu items (public)
-export async function GET() {
+export async function GET(req: NextRequest) {
     try {
+        const outletId = req.nextUrl.searchParams.get("outletId");
         const snapshot = await adminDb.collection("menuItems").get();
-        const items = snapshot.docs.map((doc) => ({
-            id: doc.id,
-            ...doc.data(),
-        }));
+        const items = snapshot.docs
+            .filter((doc) => !outletId || outletIdOf(doc.data()) === outletId)
+            .map((doc) => ({
+                id: doc.id,
+                ...doc.data(),
+            }));
         return NextResponse.json({ items });
     } catch (error) {
         console.error("Error fetching menu:", error);
@@ -30,17 +36,20 @@ export async function GET() {
 // POST /api/menu — Seed menu items (ADMIN ONLY)
 export async function POST(req: NextRequest) {
     // SECURITY: Require admin JWT to seed menu items
-    if (!verifyAdmin(req)) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
         return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
     try {
         const { items } = await req.json();
         const batch = adminDb.batch();
+        const outletId = adminOutletId(req, admin);
         for (const item of items) {
             const ref = adminDb.collection("menuItems").doc();
             batch.set(ref, {
                 ...item,
+                outletId,
                 createdAt: new Date().toISOString(),
             });
         }
@@ -0,0 +1,80 @@
+/**
+ * POST /api/orders/cancel — Customer cancels their own order
+ *
+ * Allowed while the order is `pending`, or `confirmed` within the
+ * configurable grace period (the order's outlet canteenConfig.cancelGraceMinutes).
+ * Refunds the wallet in full and puts the items back in stock.
+ *
+ * SECURITY:
+ * - Requires Firebase ID token; the order must belong to the caller
+ * - Window is re-checked inside the transaction against the stored order
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { cancelOrderInTransaction, OrderCancellationError } from "@/lib/order-cancellation";
+import { DEFAULT_CANCEL_GRACE_MINUTES, isWithinCancelWindow } from "@/lib/order-status";
+import { canteenConfigDocId, outletIdOf } from "@/lib/outlets";
+import type { Order } from "@/types";
+
+export const runtime = "nodejs";
+
+export async function POST(req: NextRequest) {
+    // SECURITY: Require Firebase ID token
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const rateLimitResponse = checkRateLimit(req, 5, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    try {
+        const { orderId } = await req.json();
+        if (!orderId || typeof orderId !== "string") {
+            return NextResponse.json({ error: "Order ID required" }, { status: 400 });
+        }
+
+        // Each outlet sets its own grace period; the outlet never changes after placement
+        const orderRef = adminDb.collection("orders").doc(orderId);
+        const orderDoc = await orderRef.get();
+        const configDoc = await adminDb.collection("settings").doc(canteenConfigDocId(outletIdOf(orderDoc.data()))).get();
+        const graceMinutes = configDoc.data()?.cancelGraceMinutes ?? DEFAULT_CANCEL_GRACE_MINUTES;
+
+        const userDoc = await adminDb.collection("users").doc(uid).get();
+        const userName = userDoc.data()?.name || "Customer";
+
+        const result = await adminDb.runTransaction((transaction) =>
+            cancelOrderInTransaction(transaction, orderRef, {
+                changedBy: userName,
+                actorRole: "user",
+                // Nothing has been cooked yet — always back on the shelf
+                stockDisposition: "restock",
+                guard: (order) => {
+                    // SECURITY: Prevent IDOR — users can only cancel their own orders
+                    if (order.userId !== uid) {
+                        throw new OrderCancellationError("Order not found", 404);
+                    }
+                    if (!isWithinCancelWindow(order as Order, graceMinutes)) {
+                        throw new OrderCancellationError(
+                            order.status === "cancelled"
+                                ? "Order is already cancelled"
+                                : "This order can no longer be cancelled — please contact the canteen",
+                            409
+                        );
+                    }
+                },
+            })
+        );
+
+        return NextResponse.json({ success: true, orderId: result.orderId, refunded: result.refunded });
+    } catch (error) {
+        if (error instanceof OrderCancellationError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Order cancellation failed:", error);
+        return NextResponse.json({ error: "Failed to cancel order" }, { status: 500 });
+    }
+}
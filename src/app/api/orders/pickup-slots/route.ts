@@ -0,0 +1,75 @@
+/**
+ * GET /api/orders/pickup-slots — Pickup times a cart can be pre-ordered for
+ *
+ * Query params:
+ * - items — comma-separated menu item ids in the cart; they decide the
+ *   outlet and how long the order takes to prepare
+ * - date — IST day (YYYY-MM-DD), defaults to the first bookable day
+ *
+ * Returns { enabled, dates, date, prepMinutes, slots } where slots only
+ * lists times the order can still make, with the room left in each.
+ * POST /api/orders enforces the same rules again when the order is placed.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+import { getCanteenClosedReason, OrderPlacementError, outletOfSnapshots } from "@/lib/order-placement";
+import { canteenConfigDocId } from "@/lib/outlets";
+import { isDateKey } from "@/lib/ist-date";
+import { pickupDates, pickupSlotDocId, upcomingPickupTimes, type PickupConfig } from "@/lib/pickup-slots";
+import type { PickupSlot } from "@/types";
+
+export const runtime = "nodejs";
+
+const MAX_ITEMS = 50;
+
+export async function GET(req: NextRequest) {
+    // SECURITY: Require Firebase ID token
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const params = req.nextUrl.searchParams;
+        const ids = [...new Set((params.get("items") || "").split(",").map((id) => id.trim()).filter(Boolean))];
+        if (ids.length === 0 || ids.length > MAX_ITEMS) {
+            return NextResponse.json({ error: "Cart items required" }, { status: 400 });
+        }
+
+        const now = new Date();
+        const snapshots = await adminDb.getAll(...ids.map((id) => adminDb.collection("menuItems").doc(id)));
+        const outletId = outletOfSnapshots(snapshots);
+        const prepMinutes = Math.max(0, ...snapshots.map((s) => Number(s.data()?.preparationTime) || 0));
+
+        const closedReason = await getCanteenClosedReason(outletId, now, true);
+        const configDoc = await adminDb.collection("settings").doc(canteenConfigDocId(outletId)).get();
+        const config = (configDoc.data() || {}) as PickupConfig;
+        const dates = closedReason ? [] : pickupDates(config, now);
+        if (dates.length === 0) {
+            return NextResponse.json({ enabled: false, dates, slots: [], prepMinutes });
+        }
+
+        const requested = params.get("date");
+        const date = isDateKey(requested) && dates.includes(requested) ? requested : dates[0];
+        const times = upcomingPickupTimes(config, date, now, prepMinutes);
+
+        const counters = times.length > 0
+            ? await adminDb.getAll(...times.map((t) => adminDb.collection("pickupSlots").doc(pickupSlotDocId(outletId, t.at))))
+            : [];
+        const capacity = config.pickupSlotCapacity || 0;
+        const slots: PickupSlot[] = times.map((t, i) => ({
+            ...t,
+            remaining: Math.max(0, capacity - (Number(counters[i].data()?.count) || 0)),
+        }));
+
+        return NextResponse.json({ enabled: true, dates, date, prepMinutes, slots });
+    } catch (error) {
+        if (error instanceof OrderPlacementError) {
+            return NextResponse.json(error.toJSON(), { status: error.status });
+        }
+        console.error("Failed to load pickup slots:", error);
+        return NextResponse.json({ error: "Failed to load pickup slots" }, { status: 500 });
+    }
+}
@@ -0,0 +1,38 @@
+/**
+ * POST /api/orders/quote — Price a cart against the live menu
+ *
+ * Runs the same pricing + customization checks as POST /api/orders
+ * without placing anything, promotions and an optional `couponCode`
+ * included. Returns { items, subtotal, discounts, total } on success,
+ * 409 { code: "PRICE_CHANGED", changes } so the cart can show a diff, or
+ * 409 { code: "COUPON_INVALID" } with the reason the coupon can't be used.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+import { quoteOrder, validateOrderLines, OrderPlacementError } from "@/lib/order-placement";
+
+export const runtime = "nodejs";
+
+export async function POST(req: NextRequest) {
+    // SECURITY: Require Firebase ID token
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { items, couponCode } = await req.json();
+        const quote = await quoteOrder(validateOrderLines(items), {
+            couponCode: typeof couponCode === "string" && couponCode ? couponCode : undefined,
+            userId: uid,
+        });
+        return NextResponse.json({ success: true, ...quote });
+    } catch (error) {
+        if (error instanceof OrderPlacementError) {
+            return NextResponse.json(error.toJSON(), { status: error.status });
+        }
+        console.error("Order quote failed:", error);
+        return NextResponse.json({ error: "Failed to price cart" }, { status: 500 });
+    }
+}
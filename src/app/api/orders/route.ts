@@ -6,13 +6,21 @@
  * - POST: Requires Firebase ID token, enforces caller === userId
  * - Order ID now uses UUID-based format (not 6-digit random number)
  * - Client-provided orderId is ignored — server generates it
+ * - Client-provided prices/total are never charged — items re-priced by placeOrder(),
+ *   mismatching carts rejected with 409 { code: "PRICE_CHANGED", changes }
+ * - Orders above canteenConfig.pinOrderThreshold need an X-Pin-Token from
+ *   /api/users/verify-pin, else 403 { code: "PIN_REQUIRED" | "PIN_NOT_SET" }
+ * - Optional `pickupAt` books a pre-order slot (see /api/orders/pickup-slots);
+ *   invalid or full slots get 409 { code: "PICKUP_UNAVAILABLE" | "PICKUP_SLOT_FULL" }
+ * - Optional `couponCode` is checked against the outlet's promotions by
+ *   placeOrder; one that can't be used gets 409 { code: "COUPON_INVALID" }
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { adminDb } from "@/lib/firebase-admin";
 import { getAuthenticatedUser } from "@/lib/user-auth";
-import { generateOrderId } from "@/lib/orderIdUtils";
-import { FieldValue, DocumentSnapshot } from "firebase-admin/firestore";
+import { placeOrder, validateOrderLines, OrderPlacementError } from "@/lib/order-placement";
+import { getPinOrderThreshold, readPinToken } from "@/lib/pin-auth";
 
 export const runtime = "nodejs";
 
@@ -56,137 +64,32 @@ export async function POST(req: NextRequest) {
     }
 
     try {
-        const { userId, items, total, userName, userEmail } = await req.json();
+        const { userId, items, userName, userEmail, pickupAt, couponCode } = await req.json();
 
         // SECURITY: Prevent IDOR — user can only create orders for themselves
         if (userId !== uid) {
             return NextResponse.json({ error: "Forbidden" }, { status: 403 });
         }
 
-        if (!items || !Array.isArray(items) || items.length === 0) {
-            return NextResponse.json({ error: "No items in order" }, { status: 400 });
-        }
-
-        if (!total || total <= 0) {
-            return NextResponse.json({ error: "Invalid order total" }, { status: 400 });
-        }
-
-        // SECURITY: Server generates the order ID (ignores client-provided orderId)
-        const orderId = generateOrderId();
-
-        // CANTEEN CHECK: Block orders if canteen is closed
-        const configDoc = await adminDb.doc("settings/canteenConfig").get();
-        if (configDoc.exists) {
-            const config = configDoc.data();
-            if (config && config.isOpen === false) {
-                return NextResponse.json({ error: "Canteen is currently closed" }, { status: 403 });
-            }
-
-            // Check operating hours
-            if (config?.startTime && config?.endTime) {
-                const now = new Date();
-                const currentMinutes = now.getHours() * 60 + now.getMinutes();
-                const [startH, startM] = config.startTime.split(":").map(Number);
-                const [endH, endM] = config.endTime.split(":").map(Number);
-                const startMinutes = startH * 60 + startM;
-                const endMinutes = endH * 60 + endM;
-
-                if (currentMinutes < startMinutes || currentMinutes > endMinutes) {
-                    return NextResponse.json(
-                        { error: `Canteen is open from ${config.startTime} to ${config.endTime}` },
-                        { status: 403 }
-                    );
-                }
-            }
-        }
-        await adminDb.runTransaction(async (transaction) => {
-            // 1. READ PHASE: Fetch all required data first
-
-            // 1.1 Fetch user doc
-            const userRef = adminDb.collection("users").doc(userId);
-            const userDoc = await transaction.get(userRef);
-            if (!userDoc.exists) throw new Error("User not found");
-
-            // 1.2 Fetch all menu items in parallel (within the transaction)
-            const itemSnapshots: { item: any, snapshot: DocumentSnapshot }[] = [];
-            for (const item of items) {
-                const itemRef = adminDb.collection("menuItems").doc(item.id);
-                const itemDoc = await transaction.get(itemRef);
-                itemSnapshots.push({ item, snapshot: itemDoc });
-            }
-
-            // 2. VALIDATION PHASE
-
-            // 2.1 Check wallet balance
-            const walletBalance = userDoc.data()?.walletBalance || 0;
-            if (walletBalance < total) {
-                throw new Error("Insufficient wallet balance");
-            }
-
-            // 2.2 Check menu item quantities
-            for (const { item, snapshot } of itemSnapshots) {
-                if (!snapshot.exists) throw new Error(`Item ${item.name} no longer exists`);
-
-                const currentQty = snapshot.data()?.quantity || 0;
-                if (currentQty < item.quantity) {
-                    throw new Error(`${item.name} only has ${currentQty} left`);
-                }
-            }
-
-            // 3. WRITE PHASE: All updates happen after all reads/validations
-
-            // 3.1 Update menu item quantities
-            for (const { item, snapshot } of itemSnapshots) {
-                const itemRef = adminDb.collection("menuItems").doc(item.id);
-                const currentQty = snapshot.data()?.quantity || 0;
-                const newQty = currentQty - item.quantity;
-
-                transaction.update(itemRef, {
-                    quantity: newQty,
-                    available: newQty > 0,
-                    updatedAt: new Date().toISOString(),
-                });
-            }
-
-            // 3.2 Deduct wallet
-            transaction.update(userRef, {
-                walletBalance: FieldValue.increment(-total),
-            });
-
-            // 3.3 Create order document
-            const userRollNumber = userDoc.data()?.rollNumber || "";
-            const userPhone = userDoc.data()?.phone || "";
-            const orderRef = adminDb.collection("orders").doc();
-            transaction.set(orderRef, {
-                orderId,
-                userId,
-                userName: userName || "Unknown",
-                userEmail: userEmail || "Unknown",
-                userPhone,
-                userRollNumber,
-                items,
-                total,
-                paymentMode: "Wallet",
-                status: "pending",
-                createdAt: new Date().toISOString(),
-                updatedAt: new Date().toISOString(),
-            });
-
-            // 3.4 Record wallet debit transaction
-            const txnRef = adminDb.collection("walletTransactions").doc();
-            transaction.set(txnRef, {
-                userId,
-                type: "debit",
-                amount: total,
-                description: `Order #${orderId}`,
-                transactionId: txnRef.id,
-                createdAt: new Date().toISOString(),
-            });
+        // SECURITY: Items are re-priced server-side; client `total` is ignored
+        // and client line prices only used to detect stale carts.
+        // Canteen hours, stock, wallet and PIN are all checked by placeOrder().
+        const { orderId, total } = await placeOrder({
+            userId,
+            items: validateOrderLines(items),
+            userName,
+            userEmail,
+            pin: { token: readPinToken(req, uid), requiredAbove: await getPinOrderThreshold() },
+            pickupAt: typeof pickupAt === "string" && pickupAt ? pickupAt : undefined,
+            couponCode: typeof couponCode === "string" && couponCode ? couponCode : undefined,
         });
 
-        return NextResponse.json({ success: true, orderId });
+        return NextResponse.json({ success: true, orderId, total });
     } catch (error) {
         console.error("Order creation failed:", error);
+        if (error instanceof OrderPlacementError) {
+            return NextResponse.json(error.toJSON(), { status: error.status });
+        }
         const message = error instanceof Error ? error.message : "Failed to create order";
         return NextResponse.json({ error: message }, { status: 500 });
     }
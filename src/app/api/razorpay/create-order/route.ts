@@ -7,6 +7,10 @@
  * 3. Create order via Razorpay Orders API (dynamic, not static QR)
  * 4. Return order_id to frontend for Razorpay Checkout
  *
+ * GUARDIAN TOP-UPS: pass { forUserId } to top up a linked student's wallet.
+ * The order notes carry userId = student, paidBy = guardian; verify and the
+ * webhook credit the student from those notes.
+ *
  * SECURITY:
  * - key_secret never leaves the server
  * - Env vars validated at startup (fail-fast)
@@ -15,6 +19,7 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthenticatedUser } from "@/lib/user-auth";
+import { adminDb } from "@/lib/firebase-admin";
 import Razorpay from "razorpay";
 
 export const runtime = "nodejs";
@@ -46,7 +51,7 @@ export async function POST(req: NextRequest) {
     }
 
     try {
-        const { amount } = await req.json();
+        const { amount, forUserId } = await req.json();
 
         // Validate amount (server-side, never trust frontend)
         const parsedAmount = Number(amount);
@@ -61,21 +66,31 @@ export async function POST(req: NextRequest) {
             );
         }
 
+        // SECURITY: only a student's linked guardian may top up for them
+        const walletOwner = typeof forUserId === "string" && forUserId && forUserId !== uid ? forUserId : uid;
+        if (walletOwner !== uid) {
+            const studentDoc = await adminDb.collection("users").doc(walletOwner).get();
+            if (!studentDoc.exists || studentDoc.data()?.guardianId !== uid) {
+                return NextResponse.json({ error: "You're not this student's guardian" }, { status: 403 });
+            }
+        }
+
         // Convert to paise (integer) — Razorpay rejects float values
         const amountInPaise = Math.round(parsedAmount * 100);
 
         const order = await razorpay.orders.create({
             amount: amountInPaise,
             currency: "INR",
-            receipt: `w_${uid.slice(0, 8)}_${Date.now()}`,
+            receipt: `w_${walletOwner.slice(0, 8)}_${Date.now()}`,
             notes: {
-                userId: uid,
+                userId: walletOwner,
                 purpose: "wallet_topup",
+                ...(walletOwner !== uid && { paidBy: uid }),
             },
         });
 
         console.log(
-            `[Razorpay] Order created: ${order.id} | ₹${parsedAmount} | user=${uid.slice(0, 8)}…`
+            `[Razorpay] Order created: ${order.id} | ₹${parsedAmount} | user=${walletOwner.slice(0, 8)}…${walletOwner !== uid ? ` (guardian ${uid.slice(0, 8)}…)` : ""}`
         );
 
         return NextResponse.json({
@@ -4,20 +4,23 @@
  * PRODUCTION FLOW:
  * 1. Verify Firebase ID token (authentication)
  * 2. Verify Razorpay payment signature (HMAC SHA256, timing-safe)
- * 3. Cross-verify amount with Razorpay Orders API (don't trust frontend)
+ * 3. Cross-verify amount with Razorpay Orders API (don't trust frontend);
+ *    the wallet owner comes from the order notes — the caller, or the
+ *    student a guardian paid for
  * 4. Atomic Firestore transaction: dedup → credit wallet → log transaction
+ *    (shared with the webhook — see lib/razorpay-payments)
  *
  * SECURITY:
  * - Timing-safe signature comparison (prevents timing attacks)
  * - Server-side amount fetched from Razorpay (never trust client amount)
- * - Idempotent via payments/{payment_id} dedup doc
+ * - Idempotent via payments/{payment_id} dedup doc — if the webhook
+ *   credited first, this returns success without crediting again
  * - Atomic wallet credit + transaction log in single Firestore transaction
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthenticatedUser } from "@/lib/user-auth";
-import { adminDb } from "@/lib/firebase-admin";
-import { FieldValue } from "firebase-admin/firestore";
+import { creditTopup, MAX_TOPUP_AMOUNT, MIN_TOPUP_AMOUNT } from "@/lib/razorpay-payments";
 import crypto from "crypto";
 import Razorpay from "razorpay";
 
@@ -85,9 +88,11 @@ export async function POST(req: NextRequest) {
 
         // ── STEP 2: Cross-verify amount from Razorpay (don't trust frontend) ─
         let orderAmount: number;
+        let notes: Record<string, string | number | null> = {};
         try {
             const order = await razorpay.orders.fetch(razorpay_order_id);
             orderAmount = Number(order.amount); // in paise
+            if (order.notes && !Array.isArray(order.notes)) notes = order.notes;
         } catch (fetchErr) {
             console.error("[Razorpay] Failed to fetch order for cross-check:", fetchErr);
             return NextResponse.json(
@@ -96,63 +101,44 @@ export async function POST(req: NextRequest) {
             );
         }
 
+        // SECURITY: credit the owner recorded at create-order, and only if
+        // the caller is that owner or the guardian who paid
+        const walletOwner = typeof notes.userId === "string" && notes.userId ? notes.userId : uid;
+        const paidBy = walletOwner !== uid ? uid : undefined;
+        if (paidBy && notes.paidBy !== uid) {
+            return NextResponse.json({ error: "Payment does not belong to you" }, { status: 403 });
+        }
+
         // Convert paise → rupees
         const amountInRupees = Math.round(orderAmount / 100);
 
-        if (amountInRupees < 1 || amountInRupees > 5000) {
+        if (amountInRupees < MIN_TOPUP_AMOUNT || amountInRupees > MAX_TOPUP_AMOUNT) {
             return NextResponse.json({ error: "Invalid amount" }, { status: 400 });
         }
 
         // ── STEP 3: Atomic Firestore transaction ────────────────────────
-        await adminDb.runTransaction(async (transaction) => {
-            // DEDUP: Check if this payment was already processed
-            const paymentRef = adminDb.collection("payments").doc(razorpay_payment_id);
-            const paymentDoc = await transaction.get(paymentRef);
-            if (paymentDoc.exists) {
-                throw new Error("Payment already processed");
-            }
-
-            const userRef = adminDb.collection("users").doc(uid);
-            const userDoc = await transaction.get(userRef);
+        const result = await creditTopup({
+            paymentId: razorpay_payment_id,
+            orderId: razorpay_order_id,
+            userId: walletOwner,
+            paidBy,
+            amountPaise: orderAmount,
+            source: "checkout",
+        });
 
-            if (!userDoc.exists) {
-                throw new Error("User not found");
+        if (!result.credited) {
+            if (result.userId !== walletOwner) {
+                return NextResponse.json({ error: "Payment already processed" }, { status: 409 });
             }
-
-            // Record payment for dedup
-            transaction.set(paymentRef, {
-                razorpayPaymentId: razorpay_payment_id,
-                razorpayOrderId: razorpay_order_id,
-                userId: uid,
-                amount: amountInRupees,
-                amountPaise: orderAmount,
-                verified: true,
-                createdAt: new Date().toISOString(),
+            // Webhook got there first
+            return NextResponse.json({
+                success: true,
+                message: `₹${result.amount} added to wallet`,
             });
-
-            // Credit wallet
-            transaction.update(userRef, {
-                walletBalance: FieldValue.increment(amountInRupees),
-            });
-
-            // Record wallet transaction
-            const txnRef = adminDb.collection("walletTransactions").doc();
-            transaction.set(txnRef, {
-                userId: uid,
-                fromUserId: "razorpay",
-                toUserId: uid,
-                type: "topup",
-                amount: amountInRupees,
-                description: `Wallet top-up via Razorpay`,
-                razorpayPaymentId: razorpay_payment_id,
-                razorpayOrderId: razorpay_order_id,
-                transactionId: txnRef.id,
-                createdAt: new Date().toISOString(),
-            });
-        });
+        }
 
         console.log(
-            `[Razorpay] ✅ Payment verified: ${razorpay_payment_id} | ₹${amountInRupees} | user=${uid.slice(0, 8)}…`
+            `[Razorpay] ✅ Payment verified: ${razorpay_payment_id} | ₹${amountInRupees} | user=${walletOwner.slice(0, 8)}…`
         );
 
         return NextResponse.json({
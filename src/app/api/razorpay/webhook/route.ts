@@ -0,0 +1,214 @@
+/**
+ * POST /api/razorpay/webhook — Razorpay server-to-server payment events
+ *
+ * Backstop for the checkout callback: if the tab closes after payment,
+ * the captured payment is still credited from here.
+ *
+ * EVENTS:
+ * - payment.captured  → credit wallet (shared dedup with /api/razorpay/verify)
+ * - payment.failed    → record the failed attempt on payments/{id}
+ * - refund.processed  → debit the refunded amount, once per refund id
+ *                        (skipped for student withdrawals — already held)
+ *
+ * SECURITY:
+ * - X-Razorpay-Signature = HMAC SHA256 of the raw body with
+ *   RAZORPAY_WEBHOOK_SECRET, compared timing-safe
+ * - Wallet owner taken from the Razorpay order notes set in create-order,
+ *   never from anything the client sent (payment notes included); events
+ *   whose order can't be fetched are skipped
+ * - Idempotent: duplicates / retries return 200 without side effects
+ *
+ * Local testing: scripts/razorpay-webhook.js signs and sends sample events.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { applyRefund, creditTopup, recordFailedPayment } from "@/lib/razorpay-payments";
+import crypto from "crypto";
+import Razorpay from "razorpay";
+
+export const runtime = "nodejs";
+
+interface RazorpayPaymentEntity {
+    id: string;
+    order_id: string;
+    amount: number;
+    status: string;
+    notes?: Record<string, string> | unknown[];
+    error_description?: string;
+}
+
+interface RazorpayRefundEntity {
+    id: string;
+    payment_id: string;
+    amount: number;
+    notes?: Record<string, string> | unknown[];
+}
+
+interface RazorpayWebhookEvent {
+    event: string;
+    payload: {
+        payment?: { entity: RazorpayPaymentEntity };
+        refund?: { entity: RazorpayRefundEntity };
+    };
+}
+
+// Optional at startup so deployments without a webhook configured keep
+// working — requests are refused until the secret is set.
+const WEBHOOK_SECRET = process.env.RAZORPAY_WEBHOOK_SECRET || "";
+
+const razorpay = process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID && process.env.RAZORPAY_KEY_SECRET
+    ? new Razorpay({
+        key_id: process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID,
+        key_secret: process.env.RAZORPAY_KEY_SECRET,
+    })
+    : null;
+
+function verifySignature(rawBody: string, signature: string): boolean {
+    const expected = crypto
+        .createHmac("sha256", WEBHOOK_SECRET)
+        .update(rawBody)
+        .digest("hex");
+
+    const sigBuffer = Buffer.from(signature, "hex");
+    const expectedBuffer = Buffer.from(expected, "hex");
+    return sigBuffer.length === expectedBuffer.length && crypto.timingSafeEqual(sigBuffer, expectedBuffer);
+}
+
+/** Notes are an object when set, an empty array when not */
+function readNotes(notes: unknown): Record<string, string> {
+    return notes && !Array.isArray(notes) && typeof notes === "object"
+        ? (notes as Record<string, string>)
+        : {};
+}
+
+/**
+ * Notes create-order put on the payment's Razorpay order. Payment notes are
+ * never used — the payer can set those at checkout. null when the order
+ * can't be fetched (no order id, or Razorpay keys not configured).
+ */
+async function fetchOrderNotes(payment: RazorpayPaymentEntity): Promise<Record<string, string> | null> {
+    if (!razorpay || !payment.order_id) {
+        console.error(`[Razorpay Webhook] Cannot fetch the order for ${payment.id} — Razorpay keys or order id missing`);
+        return null;
+    }
+    const order = await razorpay.orders.fetch(payment.order_id);
+    return readNotes(order.notes);
+}
+
+/**
+ * Wallet top-up owner (and paying guardian, if any) for a payment, from
+ * the order notes. null for non-top-up payments or when the order can't
+ * be fetched.
+ */
+async function resolveTopupOwner(payment: RazorpayPaymentEntity): Promise<{ userId: string; paidBy?: string } | null> {
+    const notes = await fetchOrderNotes(payment);
+    if (!notes) return null;
+    if (notes.purpose && notes.purpose !== "wallet_topup") return null;
+    return notes.userId ? { userId: notes.userId, paidBy: notes.paidBy || undefined } : null;
+}
+
+export async function POST(req: NextRequest) {
+    if (!WEBHOOK_SECRET) {
+        console.error("[Razorpay Webhook] RAZORPAY_WEBHOOK_SECRET is not set");
+        return NextResponse.json({ error: "Webhook not configured" }, { status: 503 });
+    }
+
+    // Signature is over the exact bytes received — read raw, parse after
+    const rawBody = await req.text();
+    const signature = req.headers.get("x-razorpay-signature") || "";
+
+    if (!signature || !verifySignature(rawBody, signature)) {
+        console.warn("[Razorpay Webhook] ⚠ Invalid signature");
+        return NextResponse.json({ error: "Invalid signature" }, { status: 400 });
+    }
+
+    let event: RazorpayWebhookEvent;
+    try {
+        event = JSON.parse(rawBody);
+    } catch {
+        return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+    }
+
+    try {
+        switch (event.event) {
+            case "payment.captured": {
+                const payment = event.payload.payment?.entity;
+                if (!payment) break;
+
+                const owner = await resolveTopupOwner(payment);
+                if (!owner) {
+                    console.warn(`[Razorpay Webhook] No wallet owner for ${payment.id} — ignored`);
+                    break;
+                }
+                const { userId } = owner;
+
+                const result = await creditTopup({
+                    paymentId: payment.id,
+                    orderId: payment.order_id,
+                    userId,
+                    paidBy: owner.paidBy,
+                    amountPaise: Number(payment.amount),
+                    source: "webhook",
+                });
+                console.log(
+                    `[Razorpay Webhook] ${result.credited ? "✅ Credited" : "↩ Already credited"}: ${payment.id} | ₹${result.amount} | user=${userId.slice(0, 8)}…`
+                );
+                break;
+            }
+
+            case "payment.failed": {
+                const payment = event.payload.payment?.entity;
+                if (!payment) break;
+
+                const notes = await fetchOrderNotes(payment);
+                await recordFailedPayment({
+                    paymentId: payment.id,
+                    orderId: payment.order_id,
+                    userId: notes?.userId,
+                    amountPaise: Number(payment.amount),
+                    reason: payment.error_description,
+                });
+                console.log(`[Razorpay Webhook] ❌ Payment failed: ${payment.id}`);
+                break;
+            }
+
+            case "refund.processed": {
+                const refund = event.payload.refund?.entity;
+                if (!refund) break;
+
+                // Issued by /api/admin/wallet/withdrawals — the wallet was
+                // debited when the student requested it
+                if (readNotes(refund.notes).withdrawalId) {
+                    console.log(`[Razorpay Webhook] Withdrawal refund acknowledged: ${refund.id}`);
+                    break;
+                }
+
+                const result = await applyRefund({
+                    refundId: refund.id,
+                    paymentId: refund.payment_id,
+                    amountPaise: Number(refund.amount),
+                });
+                if (result.shortfall > 0) {
+                    console.warn(
+                        `[Razorpay Webhook] ⚠ Refund ${refund.id} exceeds wallet balance — ₹${result.shortfall} not recovered`
+                    );
+                }
+                console.log(
+                    `[Razorpay Webhook] ${result.applied ? `↩ Refund applied (₹${result.debited})` : "Refund skipped"}: ${refund.id}`
+                );
+                break;
+            }
+
+            default:
+                // Subscribed to more events than we handle — acknowledge
+                break;
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        // Non-2xx makes Razorpay retry; dedup keeps retries safe
+        console.error(`[Razorpay Webhook] ${event.event} failed:`, error);
+        const message = error instanceof Error ? error.message : "Webhook processing failed";
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
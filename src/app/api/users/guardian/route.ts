@@ -0,0 +1,59 @@
+/**
+ * POST /api/users/guardian — Accept or decline a guardian's link invite
+ *
+ * Body: { action: "accept" | "decline" }
+ *
+ * Accepting hands control of the caller's spending limits to the guardian
+ * and lets them top up this wallet. Only the guardian can unlink later.
+ *
+ * SECURITY: Requires Firebase ID token; acts on the caller's own invite.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { FieldValue } from "firebase-admin/firestore";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+
+export const runtime = "nodejs";
+
+export async function POST(req: NextRequest) {
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { action } = await req.json();
+        if (action !== "accept" && action !== "decline") {
+            return NextResponse.json({ error: "Action must be accept or decline" }, { status: 400 });
+        }
+
+        const userRef = adminDb.collection("users").doc(uid);
+        const result = await adminDb.runTransaction(async (transaction) => {
+            const userDoc = await transaction.get(userRef);
+            const invite = userDoc.data()?.guardianInvite;
+            if (!userDoc.exists || !invite) return { status: 404, error: "No pending guardian invite" };
+
+            if (action === "decline") {
+                transaction.update(userRef, { guardianInvite: FieldValue.delete() });
+                return null;
+            }
+
+            if (userDoc.data()!.guardianId) return { status: 409, error: "You already have a guardian" };
+            transaction.update(userRef, {
+                guardianId: invite.guardianId,
+                guardianName: invite.guardianName,
+                guardianInvite: FieldValue.delete(),
+            });
+            return null;
+        });
+
+        if (result) {
+            return NextResponse.json({ error: result.error }, { status: result.status });
+        }
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Guardian invite response failed:", error);
+        return NextResponse.json({ error: "Failed to update guardian" }, { status: 500 });
+    }
+}
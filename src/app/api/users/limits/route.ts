@@ -0,0 +1,83 @@
+/**
+ * /api/users/limits — The caller's own spending limits
+ *
+ * GET → { limits, usage, categories, guardian, guardianInvite }
+ * PUT → { daily?, weekly?, categories? } — replaces the limits; blank
+ *       values remove a limit
+ *
+ * SECURITY: Requires Firebase ID token. Once a guardian is linked only
+ * they can change the limits (via /api/guardian) — PUT returns 403.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+import { getLimitCategories, parseSpendingLimits, readSpendingUsage } from "@/lib/spending-limits";
+
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const [userDoc, usage, categories] = await Promise.all([
+            adminDb.collection("users").doc(uid).get(),
+            readSpendingUsage(uid),
+            getLimitCategories(),
+        ]);
+        if (!userDoc.exists) {
+            return NextResponse.json({ error: "User profile not found" }, { status: 404 });
+        }
+        const user = userDoc.data()!;
+
+        return NextResponse.json({
+            limits: user.spendingLimits || {},
+            usage,
+            categories,
+            guardian: user.guardianId ? { id: user.guardianId, name: user.guardianName || "Guardian" } : null,
+            guardianInvite: user.guardianInvite || null,
+        });
+    } catch (error) {
+        console.error("Failed to fetch spending limits:", error);
+        return NextResponse.json({ error: "Failed to fetch limits" }, { status: 500 });
+    }
+}
+
+export async function PUT(req: NextRequest) {
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const parsed = parseSpendingLimits(await req.json());
+        if ("error" in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+
+        const userRef = adminDb.collection("users").doc(uid);
+        const result = await adminDb.runTransaction(async (transaction) => {
+            const userDoc = await transaction.get(userRef);
+            if (!userDoc.exists) return { status: 404, error: "User profile not found" };
+            if (userDoc.data()!.guardianId) {
+                return { status: 403, error: "Your limits are managed by your guardian" };
+            }
+
+            transaction.update(userRef, {
+                spendingLimits: { ...parsed.limits, updatedAt: new Date().toISOString(), updatedBy: "self" },
+            });
+            return null;
+        });
+
+        if (result) {
+            return NextResponse.json({ error: result.error }, { status: result.status });
+        }
+        return NextResponse.json({ success: true, limits: parsed.limits });
+    } catch (error) {
+        console.error("Failed to update spending limits:", error);
+        return NextResponse.json({ error: "Failed to update limits" }, { status: 500 });
+    }
+}
@@ -0,0 +1,101 @@
+/**
+ * /api/users/loyalty — The caller's loyalty points, ledger and rewards
+ * (see lib/loyalty)
+ *
+ * GET  → { account, entries, rewards, coupons } — the latest ledger
+ *        entries, every outlet's active rewards (cheapest first) and the
+ *        reward coupons still waiting to be used
+ * POST { action: "redeem", rewardId } → { coupon, points } — spends the
+ *        points and issues a personal coupon for the reward's outlet
+ *
+ * SECURITY: Requires Firebase ID token. Points are only ever written
+ * server-side (users docs and loyaltyLedger are read-only to clients).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { withDefaultOutlet } from "@/lib/outlets";
+import { LoyaltyError } from "@/lib/loyalty";
+import { loyaltyLedgerRef, readLoyaltyAccount, redeemReward } from "@/lib/loyalty-store";
+import type { LoyaltyEntry, LoyaltyReward, Outlet, Promotion } from "@/types";
+
+export const runtime = "nodejs";
+
+const LEDGER_PAGE_SIZE = 30;
+
+export async function GET(req: NextRequest) {
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const [userDoc, ledgerSnap, rewardsSnap, couponsSnap, outletsSnap] = await Promise.all([
+            adminDb.collection("users").doc(uid).get(),
+            loyaltyLedgerRef().where("userId", "==", uid).orderBy("createdAt", "desc").limit(LEDGER_PAGE_SIZE).get(),
+            adminDb.collection("loyaltyRewards").where("active", "==", true).get(),
+            adminDb.collection("promotions").where("userId", "==", uid).get(),
+            adminDb.collection("outlets").get(),
+        ]);
+        if (!userDoc.exists) {
+            return NextResponse.json({ error: "User profile not found" }, { status: 404 });
+        }
+
+        const outlets = withDefaultOutlet(outletsSnap.docs.map((d) => ({ id: d.id, ...d.data() }) as Outlet));
+        const outletName = (id: string) => outlets.find((o) => o.id === id)?.name || id;
+
+        const rewards = rewardsSnap.docs
+            .map((d) => ({ id: d.id, ...d.data() }) as LoyaltyReward)
+            .sort((a, b) => a.pointsCost - b.pointsCost)
+            .map((reward) => ({ ...reward, outletName: outletName(reward.outletId) }));
+
+        const now = new Date().toISOString();
+        const coupons = couponsSnap.docs
+            .map((d) => ({ id: d.id, ...d.data() }) as Promotion)
+            .filter((c) => c.active && c.usedCount < (c.usageLimit || 1) && (!c.endsAt || now < c.endsAt))
+            .sort((a, b) => (a.endsAt || "").localeCompare(b.endsAt || ""))
+            .map((coupon) => ({ ...coupon, outletName: outletName(coupon.outletId) }));
+
+        return NextResponse.json({
+            account: readLoyaltyAccount(userDoc.data()),
+            entries: ledgerSnap.docs.map((d) => ({ id: d.id, ...d.data() }) as LoyaltyEntry),
+            rewards,
+            coupons,
+        });
+    } catch (error) {
+        console.error("Failed to fetch loyalty points:", error);
+        return NextResponse.json({ error: "Failed to fetch loyalty points" }, { status: 500 });
+    }
+}
+
+export async function POST(req: NextRequest) {
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const rateLimitResponse = checkRateLimit(req, 10, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    try {
+        const body = await req.json();
+        if (body.action !== "redeem") {
+            return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+        }
+        const rewardId = typeof body.rewardId === "string" ? body.rewardId : "";
+        if (!rewardId) {
+            return NextResponse.json({ error: "Reward ID required" }, { status: 400 });
+        }
+
+        const result = await redeemReward(uid, rewardId);
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        if (error instanceof LoyaltyError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Failed to redeem reward:", error);
+        return NextResponse.json({ error: "Failed to redeem reward" }, { status: 500 });
+    }
+}
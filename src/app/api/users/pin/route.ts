@@ -0,0 +1,131 @@
+/**
+ * POST /api/users/pin — Set, change or reset the transaction PIN
+ *
+ * Body: { action: "set" | "change" | "reset", pin, currentPin? }
+ * - set    → first PIN, only when none exists
+ * - change → needs the current PIN (wrong guesses count towards the
+ *            same lockout as /api/users/verify-pin)
+ * - reset  → forgotten PIN: needs a fresh Firebase sign-in (auth_time
+ *            within PIN_RESET_MAX_AUTH_AGE_SECONDS) and clears any lockout
+ *
+ * Every change bumps `pinVersion`, invalidating outstanding PIN tokens.
+ * Returns a new { pinToken, expiresIn } so the caller can carry on.
+ *
+ * SECURITY: Requires Firebase ID token. The PIN is stored as a bcrypt hash.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb, adminAuth } from "@/lib/firebase-admin";
+import { FieldValue } from "firebase-admin/firestore";
+import { checkRateLimit } from "@/lib/rate-limit";
+import {
+    isValidPinFormat,
+    MAX_PIN_ATTEMPTS,
+    PIN_LOCKOUT_MINUTES,
+    PIN_RESET_MAX_AUTH_AGE_SECONDS,
+    PIN_TOKEN_TTL_SECONDS,
+    pinLockoutMinutesLeft,
+    signPinToken,
+} from "@/lib/pin-auth";
+import bcrypt from "bcryptjs";
+
+export const runtime = "nodejs";
+
+type PinUpdate = { ok: true; pinVersion: number } | { ok: false; status: number; error: string };
+
+export async function POST(req: NextRequest) {
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    let uid: string;
+    let authTime: number;
+
+    try {
+        const decoded = await adminAuth.verifyIdToken(authHeader.slice(7));
+        uid = decoded.uid;
+        authTime = decoded.auth_time;
+    } catch {
+        return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const rateLimitResponse = checkRateLimit(req, 5, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    try {
+        const { action, pin, currentPin } = await req.json();
+
+        if (action !== "set" && action !== "change" && action !== "reset") {
+            return NextResponse.json({ error: "Action must be set, change or reset" }, { status: 400 });
+        }
+        if (!isValidPinFormat(pin)) {
+            return NextResponse.json({ error: "New PIN must be 4 digits" }, { status: 400 });
+        }
+        if (action === "change" && !isValidPinFormat(currentPin)) {
+            return NextResponse.json({ error: "Current PIN required" }, { status: 400 });
+        }
+        if (action === "reset" && Date.now() / 1000 - authTime > PIN_RESET_MAX_AUTH_AGE_SECONDS) {
+            return NextResponse.json(
+                { error: "Please sign in again to reset your PIN", code: "REAUTH_REQUIRED" },
+                { status: 401 }
+            );
+        }
+
+        // Hash outside the transaction — it's slow and retries would redo it
+        const pinHash = await bcrypt.hash(pin, 10);
+        const userRef = adminDb.collection("users").doc(uid);
+
+        const result = await adminDb.runTransaction<PinUpdate>(async (transaction) => {
+            const userDoc = await transaction.get(userRef);
+            if (!userDoc.exists) {
+                return { ok: false, status: 404, error: "User profile not found" };
+            }
+            const user = userDoc.data()!;
+
+            if (action === "set" && user.pinHash) {
+                return { ok: false, status: 409, error: "PIN already set — change or reset it instead" };
+            }
+
+            if (action === "change") {
+                if (!user.pinHash) {
+                    return { ok: false, status: 400, error: "PIN not set for this account" };
+                }
+                const lockedFor = pinLockoutMinutesLeft(user);
+                if (lockedFor > 0) {
+                    return { ok: false, status: 423, error: `Too many wrong PINs. Try again in ${lockedFor} min or reset your PIN.` };
+                }
+                if (!(await bcrypt.compare(currentPin, user.pinHash))) {
+                    const attempts = (user.pinFailedAttempts || 0) + 1;
+                    transaction.update(userRef, attempts >= MAX_PIN_ATTEMPTS
+                        ? { pinFailedAttempts: 0, pinLockedUntil: new Date(Date.now() + PIN_LOCKOUT_MINUTES * 60000).toISOString() }
+                        : { pinFailedAttempts: attempts });
+                    return { ok: false, status: 401, error: "Current PIN is incorrect" };
+                }
+            }
+
+            const pinVersion = (user.pinVersion || 0) + 1;
+            transaction.update(userRef, {
+                pinHash,
+                pinVersion,
+                pinFailedAttempts: 0,
+                pinLockedUntil: FieldValue.delete(),
+                pinUpdatedAt: new Date().toISOString(),
+            });
+            return { ok: true, pinVersion };
+        });
+
+        if (!result.ok) {
+            return NextResponse.json({ error: result.error }, { status: result.status });
+        }
+
+        return NextResponse.json({
+            success: true,
+            pinToken: signPinToken(uid, result.pinVersion),
+            expiresIn: PIN_TOKEN_TTL_SECONDS,
+        });
+    } catch (error) {
+        console.error("PIN update failed:", error);
+        return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+}
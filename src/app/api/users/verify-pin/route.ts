@@ -1,9 +1,36 @@
+/**
+ * POST /api/users/verify-pin — Check the transaction PIN, issue a PIN token
+ *
+ * On success returns { pinToken, expiresIn } — a short-lived token that
+ * transfers and large orders require in the X-Pin-Token header (see
+ * lib/pin-auth).
+ *
+ * SECURITY:
+ * - Requires Firebase ID token
+ * - MAX_PIN_ATTEMPTS wrong PINs lock verification for PIN_LOCKOUT_MINUTES
+ *   (423); attempt counting runs in a transaction so parallel guesses
+ *   can't slip past the limit
+ */
+
 import { NextRequest, NextResponse } from "next/server";
 import { adminDb, adminAuth } from "@/lib/firebase-admin";
+import { FieldValue } from "firebase-admin/firestore";
+import {
+    isValidPinFormat,
+    MAX_PIN_ATTEMPTS,
+    PIN_LOCKOUT_MINUTES,
+    PIN_TOKEN_TTL_SECONDS,
+    pinLockoutMinutesLeft,
+    signPinToken,
+} from "@/lib/pin-auth";
 import bcrypt from "bcryptjs";
 
 export const runtime = "nodejs";
 
+type PinCheck =
+    | { ok: true; pinVersion: number }
+    | { ok: false; status: number; error: string; attemptsLeft?: number };
+
 export async function POST(req: NextRequest) {
     const authHeader = req.headers.get("authorization");
     if (!authHeader?.startsWith("Bearer ")) {
@@ -23,28 +50,61 @@ export async function POST(req: NextRequest) {
     try {
         const { pin } = await req.json();
 
-        if (!pin || !/^\d{4}$/.test(pin)) {
+        if (!isValidPinFormat(pin)) {
             return NextResponse.json({ error: "4-digit PIN required" }, { status: 400 });
         }
 
-        const userDoc = await adminDb.collection("users").doc(uid).get();
-        if (!userDoc.exists) {
-            return NextResponse.json({ error: "User profile not found" }, { status: 404 });
-        }
+        const userRef = adminDb.collection("users").doc(uid);
 
-        const { pinHash } = userDoc.data()!;
-        if (!pinHash) {
-            return NextResponse.json({ error: "PIN not set for this account" }, { status: 400 });
-        }
+        const result = await adminDb.runTransaction<PinCheck>(async (transaction) => {
+            const userDoc = await transaction.get(userRef);
+            if (!userDoc.exists) {
+                return { ok: false, status: 404, error: "User profile not found" };
+            }
+
+            const user = userDoc.data()!;
+            if (!user.pinHash) {
+                return { ok: false, status: 400, error: "PIN not set for this account" };
+            }
+
+            const lockedFor = pinLockoutMinutesLeft(user);
+            if (lockedFor > 0) {
+                return { ok: false, status: 423, error: `Too many wrong PINs. Try again in ${lockedFor} min or reset your PIN.` };
+            }
+
+            if (await bcrypt.compare(pin, user.pinHash)) {
+                transaction.update(userRef, {
+                    pinFailedAttempts: 0,
+                    pinLockedUntil: FieldValue.delete(),
+                });
+                return { ok: true, pinVersion: user.pinVersion || 0 };
+            }
+
+            const attempts = (user.pinFailedAttempts || 0) + 1;
+            if (attempts >= MAX_PIN_ATTEMPTS) {
+                transaction.update(userRef, {
+                    pinFailedAttempts: 0,
+                    pinLockedUntil: new Date(Date.now() + PIN_LOCKOUT_MINUTES * 60000).toISOString(),
+                });
+                return { ok: false, status: 423, error: `Too many wrong PINs. Locked for ${PIN_LOCKOUT_MINUTES} min.` };
+            }
 
-        const isValid = await bcrypt.compare(pin, pinHash);
+            transaction.update(userRef, { pinFailedAttempts: attempts });
+            return { ok: false, status: 401, error: "Incorrect PIN", attemptsLeft: MAX_PIN_ATTEMPTS - attempts };
+        });
 
-        if (isValid) {
-            return NextResponse.json({ success: true });
-        } else {
-            return NextResponse.json({ error: "Incorrect PIN" }, { status: 401 });
+        if (!result.ok) {
+            return NextResponse.json(
+                { error: result.error, ...(result.attemptsLeft !== undefined && { attemptsLeft: result.attemptsLeft }) },
+                { status: result.status }
+            );
         }
 
+        return NextResponse.json({
+            success: true,
+            pinToken: signPinToken(uid, result.pinVersion),
+            expiresIn: PIN_TOKEN_TTL_SECONDS,
+        });
     } catch (error) {
         console.error("PIN verification failed:", error);
         return NextResponse.json({ error: "Internal server error" }, { status: 500 });
@@ -0,0 +1,234 @@
+/**
+ * /api/wallet/requests — Money requests and split bills between students
+ *
+ * GET   → { incoming, outgoing } — the caller's requests, newest first.
+ *         Pending requests past `expiresAt` are marked expired here.
+ * POST  → create { codes: string[], amount?, orderId?, note? }
+ *         - amount: ask each classmate for this much
+ *         - orderId (order doc id): split that order's total evenly between
+ *           the caller and the classmates; the caller's share isn't requested
+ * PATCH → respond { requestId, action: "pay" | "decline" | "cancel" }
+ *         - pay / decline: the payer; pay runs through transferInTransaction
+ *           and needs an X-Pin-Token like any transfer
+ *         - cancel: the requester
+ *
+ * SECURITY:
+ * - Requires Firebase ID token; every action checks the caller's role on
+ *   the request
+ * - Status + expiry re-checked inside the pay transaction, so a request
+ *   can only be paid once
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { readPinToken } from "@/lib/pin-auth";
+import { roundMoney } from "@/lib/wallet-ledger";
+import { assertTransferAmount, transferInTransaction, TransferError } from "@/lib/wallet-transfer";
+import { isMoneyRequestExpired, newMoneyRequest } from "@/lib/money-requests";
+import type { MoneyRequest } from "@/types";
+
+export const runtime = "nodejs";
+
+const MAX_PAYERS = 10;
+
+export async function GET(req: NextRequest) {
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const [incomingSnap, outgoingSnap] = await Promise.all([
+            adminDb.collection("moneyRequests").where("payerId", "==", uid).orderBy("createdAt", "desc").limit(30).get(),
+            adminDb.collection("moneyRequests").where("requesterId", "==", uid).orderBy("createdAt", "desc").limit(30).get(),
+        ]);
+
+        // Lazily expire stale requests as they're read
+        const now = new Date();
+        const batch = adminDb.batch();
+        let expiredCount = 0;
+
+        const toRequests = (docs: FirebaseFirestore.QueryDocumentSnapshot[]) => docs.map((doc) => {
+            const request = { id: doc.id, ...doc.data() } as MoneyRequest;
+            if (isMoneyRequestExpired(request, now)) {
+                batch.update(doc.ref, { status: "expired" });
+                expiredCount++;
+                return { ...request, status: "expired" as const };
+            }
+            return request;
+        });
+
+        const incoming = toRequests(incomingSnap.docs);
+        const outgoing = toRequests(outgoingSnap.docs);
+        if (expiredCount > 0) await batch.commit();
+
+        return NextResponse.json({ incoming, outgoing });
+    } catch (error) {
+        console.error("Failed to fetch money requests:", error);
+        return NextResponse.json({ error: "Failed to fetch requests" }, { status: 500 });
+    }
+}
+
+export async function POST(req: NextRequest) {
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const rateLimitResponse = checkRateLimit(req, 5, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    try {
+        const { codes, amount, orderId, note } = await req.json();
+
+        if (!Array.isArray(codes) || codes.length === 0 || codes.some((c) => typeof c !== "string")) {
+            return NextResponse.json({ error: "Add at least one classmate's code" }, { status: 400 });
+        }
+        const uniqueCodes = [...new Set((codes as string[]).map((c) => c.toUpperCase().trim()).filter(Boolean))];
+        if (uniqueCodes.length === 0 || uniqueCodes.length > MAX_PAYERS) {
+            return NextResponse.json({ error: `You can request from 1–${MAX_PAYERS} classmates at a time` }, { status: 400 });
+        }
+
+        const requesterDoc = await adminDb.collection("users").doc(uid).get();
+        if (!requesterDoc.exists) {
+            return NextResponse.json({ error: "User profile not found" }, { status: 404 });
+        }
+        const requesterName = requesterDoc.data()!.name || "Unknown";
+
+        // Work out each payer's share
+        let share: number;
+        let displayOrderId: string | undefined;
+        let description = typeof note === "string" ? note.trim().slice(0, 100) : "";
+
+        if (orderId) {
+            const orderDoc = await adminDb.collection("orders").doc(String(orderId)).get();
+            const order = orderDoc.data();
+            if (!orderDoc.exists || order?.userId !== uid) {
+                return NextResponse.json({ error: "Order not found" }, { status: 404 });
+            }
+            if (order.status === "cancelled") {
+                return NextResponse.json({ error: "Cancelled orders can't be split" }, { status: 400 });
+            }
+            share = roundMoney(order.total / (uniqueCodes.length + 1));
+            displayOrderId = order.orderId;
+            description = description || `Split: Order #${order.orderId}`;
+        } else {
+            share = roundMoney(Number(amount));
+        }
+        assertTransferAmount(share);
+
+        // Resolve payers by uniqueCode
+        const payersSnap = await adminDb.collection("users").where("uniqueCode", "in", uniqueCodes).get();
+        const found = new Map(payersSnap.docs.map((d) => [d.data().uniqueCode as string, d]));
+        const missing = uniqueCodes.filter((c) => !found.has(c));
+        if (missing.length > 0) {
+            return NextResponse.json({ error: `No user found for ${missing.join(", ")}` }, { status: 404 });
+        }
+        if ([...found.values()].some((d) => d.id === uid)) {
+            return NextResponse.json({ error: "You can't request money from yourself" }, { status: 400 });
+        }
+
+        const now = new Date();
+        const groupId = uniqueCodes.length > 1 || displayOrderId ? adminDb.collection("moneyRequests").doc().id : undefined;
+
+        const batch = adminDb.batch();
+        const requests: MoneyRequest[] = [];
+        for (const payerDoc of found.values()) {
+            const ref = adminDb.collection("moneyRequests").doc();
+            const record = newMoneyRequest({
+                requesterId: uid,
+                requesterName,
+                payerId: payerDoc.id,
+                payerName: payerDoc.data().name || "Unknown",
+                amount: share,
+                note: description,
+                groupId,
+                orderId: displayOrderId,
+            }, now);
+            batch.set(ref, record);
+            requests.push({ id: ref.id, ...record });
+        }
+        await batch.commit();
+
+        return NextResponse.json({ success: true, requests });
+    } catch (error) {
+        if (error instanceof TransferError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Money request creation failed:", error);
+        return NextResponse.json({ error: "Failed to create request" }, { status: 500 });
+    }
+}
+
+export async function PATCH(req: NextRequest) {
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const { requestId, action } = await req.json();
+        if (!requestId || typeof requestId !== "string") {
+            return NextResponse.json({ error: "Request ID required" }, { status: 400 });
+        }
+        if (action !== "pay" && action !== "decline" && action !== "cancel") {
+            return NextResponse.json({ error: "Action must be pay, decline or cancel" }, { status: 400 });
+        }
+
+        const requestRef = adminDb.collection("moneyRequests").doc(requestId);
+        const pinToken = action === "pay" ? readPinToken(req, uid) : null;
+
+        const outcome = await adminDb.runTransaction(async (transaction) => {
+            const doc = await transaction.get(requestRef);
+            const request = doc.exists ? ({ id: doc.id, ...doc.data() } as MoneyRequest) : null;
+
+            // SECURITY: only the payer can pay/decline, only the requester can cancel
+            const actorId = action === "cancel" ? request?.requesterId : request?.payerId;
+            if (!request || actorId !== uid) {
+                throw new TransferError("Request not found", 404);
+            }
+
+            const now = new Date();
+            if (isMoneyRequestExpired(request, now)) {
+                transaction.update(requestRef, { status: "expired" });
+                return "expired" as const;
+            }
+            if (request.status !== "pending") {
+                throw new TransferError(`Request is already ${request.status}`, 409);
+            }
+
+            if (action === "pay") {
+                await transferInTransaction(transaction, {
+                    senderId: uid,
+                    recipientId: request.requesterId,
+                    amount: request.amount,
+                    pinToken,
+                    describe: {
+                        sender: (name) => `Paid ${name}${request.note ? ` — ${request.note}` : ""}`,
+                        recipient: (name) => `${name} paid your request${request.note ? ` — ${request.note}` : ""}`,
+                    },
+                    referenceId: requestId,
+                    createdAt: now.toISOString(),
+                });
+            }
+
+            const status = action === "pay" ? "paid" : action === "decline" ? "declined" : "cancelled";
+            transaction.update(requestRef, { status, respondedAt: now.toISOString() });
+            return status;
+        });
+
+        if (outcome === "expired") {
+            return NextResponse.json({ error: "This request has expired", status: "expired" }, { status: 410 });
+        }
+
+        return NextResponse.json({ success: true, status: outcome });
+    } catch (error) {
+        if (error instanceof TransferError) {
+            return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+        }
+        console.error("Money request update failed:", error);
+        return NextResponse.json({ error: "Failed to update request" }, { status: 500 });
+    }
+}
@@ -4,6 +4,7 @@
  * SECURITY CHANGES:
  * - GET: Requires Firebase ID token, enforces caller === userId
  * - POST: Admin-only top-up (no more self-service free money)
+ *   — campus admin only; outlet admins are refused
  * - Top-up uses Firestore transaction for atomic balance + txn record
  * - Rate limited (10 req/min)
  * - Removed `paymentVerified = true` bypass
@@ -14,7 +15,7 @@ import { adminDb } from "@/lib/firebase-admin";
 import { getAuthenticatedUser } from "@/lib/user-auth";
 import { verifyAdmin } from "@/lib/admin-auth";
 import { checkRateLimit } from "@/lib/rate-limit";
-import { FieldValue } from "firebase-admin/firestore";
+import { openWallet, postWalletEntry, WALLET_PARTIES } from "@/lib/wallet-ledger";
 
 export const runtime = "nodejs";
 
@@ -73,12 +74,16 @@ export async function POST(req: NextRequest) {
     if (rateLimitResponse) return rateLimitResponse;
 
     // SECURITY: Only admin can top up wallets (removed self-service bypass)
-    if (!verifyAdmin(req)) {
+    const admin = verifyAdmin(req);
+    if (!admin) {
         return NextResponse.json(
             { error: "Unauthorized — only admin can add funds" },
             { status: 401 }
         );
     }
+    if (admin.outletId) {
+        return NextResponse.json({ error: "Student wallets are managed by the campus admin" }, { status: 403 });
+    }
 
     try {
         const { userId, amount } = await req.json();
@@ -93,27 +98,15 @@ export async function POST(req: NextRequest) {
 
         // SECURITY: Atomic transaction — balance update + transaction record together
         await adminDb.runTransaction(async (transaction) => {
-            const userRef = adminDb.collection("users").doc(userId);
-            const userDoc = await transaction.get(userRef);
-
-            if (!userDoc.exists) {
-                throw new Error("User not found");
-            }
-
-            // Update balance atomically
-            transaction.update(userRef, {
-                walletBalance: FieldValue.increment(amount),
-            });
+            const wallet = await openWallet(transaction, userId);
 
-            // Record the transaction atomically
-            const txnRef = adminDb.collection("walletTransactions").doc();
-            transaction.set(txnRef, {
-                userId,
-                type: "credit",
+            // Balance update + ledger entry together
+            postWalletEntry(transaction, wallet, {
+                type: "topup",
+                direction: "credit",
                 amount,
                 description: `Wallet top-up (Admin)`,
-                transactionId: txnRef.id,
-                createdAt: new Date().toISOString(),
+                counterparty: WALLET_PARTIES.admin,
             });
         });
 
@@ -0,0 +1,134 @@
+/**
+ * /api/wallet/withdraw — Student withdrawal requests (refund to source)
+ *
+ * GET  → the caller's withdrawals, newest first
+ * POST → request a withdrawal { amount? } — defaults to everything that
+ *        can be refunded (wallet balance capped by unrefunded top-ups)
+ *
+ * The amount is debited from the wallet immediately ("withdrawal" ledger
+ * entry) so it can't be spent while an admin reviews the request on
+ * /admin/wallet. Rejection or failed refunds put it back.
+ *
+ * SECURITY:
+ * - Requires Firebase ID token
+ * - One open withdrawal per student, checked inside the transaction
+ * - Refundable amount computed from verified payments, never the client
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { getAuthenticatedUser } from "@/lib/user-auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { openWallet, postWalletEntry, roundMoney, WALLET_PARTIES } from "@/lib/wallet-ledger";
+import {
+    loadRefundablePayments,
+    MIN_WITHDRAWAL_AMOUNT,
+    OPEN_WITHDRAWAL_STATUSES,
+    totalRefundable,
+    WithdrawalError,
+} from "@/lib/wallet-withdrawals";
+import type { Withdrawal } from "@/types";
+
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const snap = await adminDb
+            .collection("withdrawals")
+            .where("userId", "==", uid)
+            .orderBy("requestedAt", "desc")
+            .limit(20)
+            .get();
+
+        const withdrawals = snap.docs.map((d) => ({ id: d.id, ...d.data() }) as Withdrawal);
+        return NextResponse.json({ withdrawals });
+    } catch (error) {
+        console.error("Failed to fetch withdrawals:", error);
+        return NextResponse.json({ error: "Failed to fetch withdrawals" }, { status: 500 });
+    }
+}
+
+export async function POST(req: NextRequest) {
+    const uid = await getAuthenticatedUser(req);
+    if (!uid) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const rateLimitResponse = checkRateLimit(req, 3, 60_000);
+    if (rateLimitResponse) return rateLimitResponse;
+
+    try {
+        const body = await req.json().catch(() => ({}));
+        const requested = body.amount === undefined || body.amount === null ? null : Number(body.amount);
+        if (requested !== null && (!Number.isFinite(requested) || requested < MIN_WITHDRAWAL_AMOUNT)) {
+            return NextResponse.json({ error: `Amount must be at least ₹${MIN_WITHDRAWAL_AMOUNT}` }, { status: 400 });
+        }
+
+        const withdrawalRef = adminDb.collection("withdrawals").doc();
+
+        const withdrawal = await adminDb.runTransaction(async (transaction) => {
+            const openSnap = await transaction.get(
+                adminDb.collection("withdrawals")
+                    .where("userId", "==", uid)
+                    .where("status", "in", OPEN_WITHDRAWAL_STATUSES)
+                    .limit(1)
+            );
+            if (!openSnap.empty) {
+                throw new WithdrawalError("You already have a withdrawal in progress", 409);
+            }
+
+            const wallet = await openWallet(transaction, uid, () => new WithdrawalError("User not found", 404));
+            const payments = await loadRefundablePayments(transaction, uid);
+
+            const available = roundMoney(Math.min(wallet.balance, totalRefundable(payments)));
+            const amount = roundMoney(requested ?? available);
+
+            if (available < MIN_WITHDRAWAL_AMOUNT) {
+                throw new WithdrawalError("No refundable balance — only money topped up via Razorpay can be withdrawn");
+            }
+            if (amount > available) {
+                throw new WithdrawalError(`You can withdraw up to ₹${available}`);
+            }
+
+            const now = new Date().toISOString();
+            const record: Omit<Withdrawal, "id"> = {
+                userId: uid,
+                userName: wallet.data.name || "Unknown",
+                ...(wallet.data.rollNumber && { userRollNumber: wallet.data.rollNumber }),
+                amount,
+                status: "requested",
+                refunds: [],
+                refundedAmount: 0,
+                returnedAmount: 0,
+                requestedAt: now,
+            };
+            transaction.set(withdrawalRef, record);
+
+            // Hold the amount until the request is reviewed
+            postWalletEntry(transaction, wallet, {
+                type: "withdrawal",
+                direction: "debit",
+                amount,
+                description: "Withdrawal requested",
+                counterparty: WALLET_PARTIES.razorpay,
+                referenceId: withdrawalRef.id,
+                createdAt: now,
+            });
+
+            return { id: withdrawalRef.id, ...record };
+        });
+
+        return NextResponse.json({ success: true, withdrawal });
+    } catch (error) {
+        if (error instanceof WithdrawalError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Withdrawal request failed:", error);
+        return NextResponse.json({ error: "Failed to request withdrawal" }, { status: 500 });
+    }
+}
@@ -1,21 +1,82 @@
 "use client";
-import React, { useEffect } from "react";
+import React, { useEffect, useState } from "react";
 import { useAuth } from "@/context/AuthContext";
 import { useCart } from "@/context/CartContext";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import toast from "react-hot-toast";
 import { motion, AnimatePresence } from "framer-motion";
+import { quoteOrder } from "@/services/orderService";
+import { createGroupOrder } from "@/services/groupOrderService";
+import PickupTimePicker from "@/components/PickupTimePicker";
+import { normalizeCouponCode } from "@/lib/promotions";
+import type { CartItem, CartPriceChange, OrderDiscount } from "@/types";
+
+const toOrderLines = (items: CartItem[]) => items.map((item) => ({
+    id: item.id,
+    name: item.name,
+    price: item.price,
+    quantity: item.quantity,
+    selectedOptions: item.selectedOptions,
+}));
+
+type CartPricing = { discounts: OrderDiscount[]; total: number };
 
 export default function CartPage() {
-    const { user, profile, loading } = useAuth();
-    const { items, updateQuantity, removeItem, clearCart, total, itemCount } = useCart();
+    const { user, profile, loading, getIdToken } = useAuth();
+    const {
+        items, updateQuantity, removeItem, clearCart, applyPriceChanges, total, itemCount,
+        priceChanges: menuPriceChanges, stockIssues, revalidate,
+    } = useCart();
     const router = useRouter();
+    const [checking, setChecking] = useState(false);
+    const [priceChanges, setPriceChanges] = useState<CartPriceChange[]>([]);
+    const [pickupAt, setPickupAt] = useState<string | null>(null);
+    const [startingGroup, setStartingGroup] = useState(false);
+    const [couponInput, setCouponInput] = useState("");
+    const [couponCode, setCouponCode] = useState<string | null>(null);
+    const [applyingCoupon, setApplyingCoupon] = useState(false);
+    // Server-side discounts for the current cart — null until quoted
+    const [pricing, setPricing] = useState<CartPricing | null>(null);
 
     useEffect(() => {
         if (!loading && !user) router.push("/auth");
     }, [user, loading, router]);
 
+    // Check the saved cart against the menu whenever the cart is opened
+    useEffect(() => {
+        revalidate();
+    }, [revalidate]);
+
+    // Promotions are worked out server-side — re-quote as the cart changes
+    useEffect(() => {
+        if (!user || items.length === 0) {
+            setPricing(null);
+            return;
+        }
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            try {
+                const token = await getIdToken();
+                if (!token || cancelled) return;
+                const data = await quoteOrder(token, toOrderLines(items), couponCode || undefined);
+                if (cancelled) return;
+                if (data.code === "COUPON_INVALID") {
+                    toast.error(data.error || "That coupon can't be used");
+                    setCouponCode(null);
+                    return;
+                }
+                setPricing(data.success ? { discounts: data.discounts || [], total: data.total ?? 0 } : null);
+            } catch {
+                if (!cancelled) setPricing(null);
+            }
+        }, 500);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [user, items, couponCode, getIdToken]);
+
     if (loading) {
         return (
             <div className="min-h-screen bg-zayko-900 flex items-center justify-center">
@@ -26,20 +87,110 @@ export default function CartPage() {
 
     if (!user) return null;
 
-    const handlePlaceOrder = () => {
+    const payable = pricing?.total ?? total;
+
+    const applyCoupon = async () => {
+        const code = normalizeCouponCode(couponInput);
+        if (!code) return;
+        setApplyingCoupon(true);
+        try {
+            const token = await getIdToken();
+            if (!token) return;
+            const data = await quoteOrder(token, toOrderLines(items), code);
+            if (!data.success) {
+                toast.error(data.error || "That coupon can't be used");
+                return;
+            }
+            setCouponCode(code);
+            setCouponInput("");
+            setPricing({ discounts: data.discounts || [], total: data.total ?? 0 });
+            toast.success(`${code} applied 🎟️`);
+        } catch {
+            toast.error("Could not check the coupon. Please try again.");
+        } finally {
+            setApplyingCoupon(false);
+        }
+    };
+
+    const handlePlaceOrder = async () => {
         if (!profile) {
             toast.error("Please complete your profile first");
             return;
         }
-        if ((profile.walletBalance || 0) < total) {
+        if ((profile.walletBalance || 0) < payable) {
             toast.error("Insufficient wallet balance. Please top up your wallet first!", {
                 icon: "💰",
                 style: { background: "#1e3a5f", color: "#fff" }
             });
             return;
         }
-        // Navigate to chat with order intent
-        router.push("/chat?action=place_order");
+
+        // Re-price the cart server-side before checkout so stale prices surface here
+        setChecking(true);
+        try {
+            const token = await getIdToken();
+            if (!token) return;
+            const data = await quoteOrder(token, toOrderLines(items), couponCode || undefined);
+
+            if (data.code === "PRICE_CHANGED" && data.changes) {
+                setPriceChanges(data.changes);
+                toast.error("Some prices have changed. Please review your cart.");
+                return;
+            }
+            if (data.code === "COUPON_INVALID") {
+                setCouponCode(null);
+                toast.error(data.error || "That coupon can't be used");
+                return;
+            }
+            if (data.success && (profile.walletBalance || 0) < (data.total ?? 0)) {
+                toast.error("Insufficient wallet balance. Please top up your wallet first!", { icon: "💰" });
+                return;
+            }
+            if (!data.success) {
+                toast.error(data.error || "Could not verify your cart");
+                return;
+            }
+        } catch {
+            toast.error("Could not verify your cart. Please try again.");
+            return;
+        } finally {
+            setChecking(false);
+        }
+
+        // Navigate to chat with order intent (and the pre-order slot and coupon, if any)
+        const params = new URLSearchParams({ action: "place_order" });
+        if (pickupAt) params.set("pickupAt", pickupAt);
+        if (couponCode) params.set("coupon", couponCode);
+        router.push(`/chat?${params}`);
+    };
+
+    // Move this cart into a shared group cart and open it
+    const handleStartGroup = async () => {
+        setStartingGroup(true);
+        try {
+            const token = await getIdToken();
+            if (!token) return;
+            const data = await createGroupOrder(token, items);
+            if (!data.success || !data.groupId) {
+                toast.error(data.error || "Could not start a group order");
+                return;
+            }
+            clearCart();
+            router.push(`/group?id=${data.groupId}`);
+        } catch {
+            toast.error("Could not start a group order");
+        } finally {
+            setStartingGroup(false);
+        }
+    };
+
+    // A checkout quote's diff wins over the background check's
+    const shownChanges = priceChanges.length > 0 ? priceChanges : menuPriceChanges;
+
+    const acceptPriceChanges = () => {
+        applyPriceChanges(shownChanges);
+        setPriceChanges([]);
+        toast.success("Cart updated with latest prices");
     };
 
     return (
@@ -148,6 +299,115 @@ export default function CartPage() {
                             </AnimatePresence>
                         </div>
 
+                        {/* Prices Updated Diff */}
+                        {shownChanges.length > 0 && (
+                            <div className="bg-amber-500/10 border border-amber-500/30 p-4 rounded-2xl space-y-3">
+                                <h3 className="font-display font-bold text-sm text-amber-400 uppercase tracking-widest">⚠️ Prices Updated</h3>
+                                <div className="space-y-1.5">
+                                    {shownChanges.map((change) => (
+                                        <div key={`${change.index}-${change.id}`} className="flex justify-between text-xs sm:text-sm">
+                                            <span className="text-white truncate">
+                                                {change.name}
+                                                {change.selectedOptions && change.selectedOptions.length > 0 && (
+                                                    <span className="text-zayko-500"> ({change.selectedOptions.map((o) => o.optionName).join(", ")})</span>
+                                                )}
+                                            </span>
+                                            <span className="shrink-0 ml-2">
+                                                <span className="text-zayko-500 line-through">₹{change.oldPrice}</span>
+                                                <span className={`font-bold ml-2 ${change.newPrice > change.oldPrice ? "text-red-400" : "text-emerald-400"}`}>₹{change.newPrice}</span>
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                                <button
+                                    onClick={acceptPriceChanges}
+                                    className="w-full py-2.5 bg-amber-500 text-zayko-900 rounded-xl text-xs font-bold active:scale-[0.98] transition-all"
+                                >
+                                    ACCEPT NEW PRICES
+                                </button>
+                            </div>
+                        )}
+
+                        {/* Sold out / low stock since the item was added */}
+                        {stockIssues.length > 0 && (
+                            <div className="bg-red-500/10 border border-red-500/30 p-4 rounded-2xl space-y-3">
+                                <h3 className="font-display font-bold text-sm text-red-400 uppercase tracking-widest">⚠️ Availability Changed</h3>
+                                <div className="space-y-2">
+                                    {stockIssues.map((issue) => (
+                                        <div key={`${issue.id}-${JSON.stringify(issue.selectedOptions)}`} className="flex items-center justify-between gap-3 text-xs sm:text-sm">
+                                            <span className="text-white min-w-0">
+                                                <span className="truncate block">{issue.name}</span>
+                                                <span className="text-[10px] text-zayko-400">
+                                                    {issue.available === 0 ? issue.reason || "Sold out" : `Only ${issue.available} left`}
+                                                </span>
+                                            </span>
+                                            <button
+                                                onClick={() => issue.available === 0
+                                                    ? removeItem(issue.id, issue.selectedOptions)
+                                                    : updateQuantity(issue.id, issue.available, issue.selectedOptions)}
+                                                className="shrink-0 px-3 py-1.5 bg-red-500/20 text-red-300 rounded-lg text-[10px] font-bold uppercase tracking-wider active:scale-95 transition-all"
+                                            >
+                                                {issue.available === 0 ? "Remove" : `Keep ${issue.available}`}
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Pickup Time — only shown when the outlet takes pre-orders */}
+                        <PickupTimePicker
+                            itemIds={[...new Set(items.map((item) => item.id))]}
+                            value={pickupAt}
+                            onChange={setPickupAt}
+                        />
+
+                        {/* Coupon */}
+                        <div className="p-4 rounded-2xl bg-white/[0.03] border border-white/[0.06] space-y-2">
+                            <p className="text-sm font-bold text-white">🎟️ Coupon</p>
+                            {couponCode ? (
+                                <div className="flex items-center justify-between text-xs sm:text-sm">
+                                    <span className="font-mono font-bold text-emerald-400">{couponCode} applied</span>
+                                    <button
+                                        onClick={() => setCouponCode(null)}
+                                        className="text-[10px] font-bold text-red-400 uppercase tracking-wider"
+                                    >
+                                        Remove
+                                    </button>
+                                </div>
+                            ) : (
+                                <div className="flex gap-2">
+                                    <input
+                                        value={couponInput}
+                                        onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                                        onKeyDown={(e) => e.key === "Enter" && applyCoupon()}
+                                        placeholder="Enter code"
+                                        className="flex-1 min-w-0 px-3 py-2 bg-zayko-900 border border-white/[0.08] rounded-xl text-white text-sm font-mono placeholder:font-sans placeholder:text-zayko-600"
+                                    />
+                                    <button
+                                        onClick={applyCoupon}
+                                        disabled={applyingCoupon || !couponInput.trim()}
+                                        className="px-4 py-2 bg-gold-400/10 text-gold-400 border border-gold-400/20 rounded-xl text-xs font-bold active:scale-95 transition-all disabled:opacity-40"
+                                    >
+                                        {applyingCoupon ? "..." : "APPLY"}
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Group Order */}
+                        <button
+                            onClick={handleStartGroup}
+                            disabled={startingGroup}
+                            className="w-full p-4 rounded-2xl bg-white/[0.03] border border-white/[0.06] flex items-center justify-between text-left hover:bg-white/[0.05] active:scale-[0.99] transition-all disabled:opacity-50"
+                        >
+                            <div>
+                                <p className="text-sm font-bold text-white">👥 {startingGroup ? "Starting..." : "Start a group order"}</p>
+                                <p className="text-[10px] text-zayko-500 mt-0.5">Friends add their own items — one ticket, everyone pays their share</p>
+                            </div>
+                            <span className="text-gold-400 text-lg">→</span>
+                        </button>
+
                         {/* Summary Section */}
                         <div className="bg-zayko-800/20 border border-white/[0.04] p-6 rounded-3xl mt-4 space-y-4">
                             <h3 className="font-display font-bold text-sm text-zayko-400 uppercase tracking-widest mb-2">Order Summary</h3>
@@ -157,6 +417,14 @@ export default function CartPage() {
                                     <span className="text-zayko-500">Subtotal ({itemCount} items)</span>
                                     <span className="text-white font-medium">₹{total}</span>
                                 </div>
+                                {pricing?.discounts.map((discount) => (
+                                    <div key={discount.promotionId} className="flex justify-between text-xs sm:text-sm">
+                                        <span className="text-emerald-400">
+                                            {discount.label}{discount.code ? ` (${discount.code})` : ""}
+                                        </span>
+                                        <span className="text-emerald-400 font-medium">−₹{discount.amount}</span>
+                                    </div>
+                                ))}
                                 <div className="flex justify-between text-xs sm:text-sm">
                                     <span className="text-zayko-500">Platform Fee</span>
                                     <span className="text-emerald-400 font-bold bg-emerald-400/10 px-2 py-0.5 rounded-md uppercase tracking-tighter text-[10px]">FREE ✨</span>
@@ -164,7 +432,7 @@ export default function CartPage() {
                                 <div className="h-px bg-white/[0.04] my-2" />
                                 <div className="flex justify-between items-center">
                                     <span className="font-display font-bold text-lg text-white">To Pay</span>
-                                    <span className="font-display font-bold text-3xl text-gold-400 tabular-nums">₹{total}</span>
+                                    <span className="font-display font-bold text-3xl text-gold-400 tabular-nums">₹{payable}</span>
                                 </div>
                             </div>
 
@@ -174,12 +442,12 @@ export default function CartPage() {
                                     <span className="w-8 h-8 rounded-full bg-gold-400/10 flex items-center justify-center text-sm">💰</span>
                                     <div className="text-left">
                                         <p className="text-[10px] text-zayko-500 font-bold uppercase tracking-widest leading-none mb-1">Wallet Balance</p>
-                                        <p className={`text-sm font-bold ${(profile?.walletBalance || 0) >= total ? "text-emerald-400" : "text-red-400"}`}>
+                                        <p className={`text-sm font-bold ${(profile?.walletBalance || 0) >= payable ? "text-emerald-400" : "text-red-400"}`}>
                                             ₹{profile?.walletBalance || 0}
                                         </p>
                                     </div>
                                 </div>
-                                {(profile?.walletBalance || 0) < total && (
+                                {(profile?.walletBalance || 0) < payable && (
                                     <Link href="/wallet" className="text-xs font-bold text-gold-400 bg-gold-400/10 px-3 py-1.5 rounded-xl border border-gold-400/20 active:scale-95">
                                         ADD CASH
                                     </Link>
@@ -198,7 +466,7 @@ export default function CartPage() {
                             initial={{ scale: 0.95, opacity: 0 }}
                             animate={{ scale: 1, opacity: 1 }}
                             onClick={handlePlaceOrder}
-                            disabled={(profile?.walletBalance || 0) < total}
+                            disabled={checking || shownChanges.length > 0 || stockIssues.length > 0 || (profile?.walletBalance || 0) < payable}
                             className="w-full flex items-center justify-between bg-gradient-to-r from-gold-500 to-gold-400 text-zayko-900 px-6 py-4 rounded-2xl shadow-[0_10px_40px_rgba(251,191,36,0.3)] hover:shadow-[0_15px_50px_rgba(251,191,36,0.4)] transition-all font-display font-bold text-lg group active:scale-[0.98] disabled:from-zayko-700 disabled:to-zayko-700 disabled:text-zayko-500 disabled:shadow-none"
                         >
                             <div className="flex flex-col items-start leading-none">
@@ -206,12 +474,12 @@ export default function CartPage() {
                                 <span>Place Order</span>
                             </div>
                             <div className="flex items-center gap-2">
-                                <span>₹{total}</span>
+                                <span>₹{payable}</span>
                                 <span className="text-2xl group-hover:translate-x-1 transition-transform">→</span>
                             </div>
                         </motion.button>
 
-                        {(profile?.walletBalance || 0) < total && (
+                        {(profile?.walletBalance || 0) < payable && (
                             <p className="text-center text-[10px] text-red-400 font-bold mt-2 uppercase tracking-tight">Insufficient Balance. Please top up your wallet first.</p>
                         )}
                     </div>
@@ -5,6 +5,9 @@ import { useCart } from "@/context/CartContext";
 import { useRouter, useSearchParams } from "next/navigation";
 import ChatBubble from "@/components/ChatBubble";
 import toast from "react-hot-toast";
+import { createOrder } from "@/services/orderService";
+import { getSelectedOutletId } from "@/lib/outlets";
+import { formatPickupTime } from "@/lib/pickup-slots";
 
 export default function ChatPage() {
     return (
@@ -27,8 +30,8 @@ interface Message {
 }
 
 function ChatPageInner() {
-    const { user, profile, loading, refreshProfile, getIdToken } = useAuth();
-    const { items: cartItems, total: cartTotal, clearCart } = useCart();
+    const { user, profile, loading, refreshProfile, getIdToken, requestPinToken } = useAuth();
+    const { items: cartItems, total: cartTotal, clearCart, outletId: cartOutletId } = useCart();
     const router = useRouter();
     const searchParams = useSearchParams();
     const [messages, setMessages] = useState<Message[]>([]);
@@ -37,6 +40,10 @@ function ChatPageInner() {
     const [pendingOrder, setPendingOrder] = useState<{ orderId: string; total: number } | null>(null);
     const chatEndRef = useRef<HTMLDivElement>(null);
     const inputRef = useRef<HTMLInputElement>(null);
+    // Pre-order slot chosen in the cart, null for "as soon as ready"
+    const pickupAt = searchParams?.get("pickupAt") || null;
+    // Coupon applied in the cart (re-checked when the order is placed)
+    const couponCode = searchParams?.get("coupon") || null;
 
     useEffect(() => {
         if (!loading && !user) router.push("/auth");
@@ -74,7 +81,10 @@ function ChatPageInner() {
                 body: JSON.stringify({
                     action: "place_order",
                     cart: cartItems,
+                    outletId: cartOutletId || getSelectedOutletId(),
                     userProfile: profile,
+                    pickupAt,
+                    couponCode,
                 }),
             });
 
@@ -98,38 +108,60 @@ function ChatPageInner() {
 
         try {
             const token = await getIdToken();
-            const res = await fetch("/api/orders", {
-                method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                    Authorization: `Bearer ${token}`,
-                },
-                body: JSON.stringify({
-                    userId: user.uid,
-                    items: cartItems.map((item) => ({
-                        id: item.id,
-                        name: item.name,
-                        price: item.price,
-                        quantity: item.quantity,
-                    })),
-                    total: pendingOrder.total,
-                    orderId: pendingOrder.orderId,
-                    userName: profile.name,
-                    userEmail: profile.email,
-                }),
-            });
-
-            const data = await res.json();
+            if (!token) throw new Error("Not signed in");
+            const orderData = {
+                userId: user.uid,
+                items: cartItems.map((item) => ({
+                    id: item.id,
+                    name: item.name,
+                    price: item.price,
+                    quantity: item.quantity,
+                    selectedOptions: item.selectedOptions,
+                })),
+                userName: profile.name,
+                userEmail: profile.email,
+                ...(pickupAt && { pickupAt }),
+                ...(couponCode && { couponCode }),
+            };
+
+            let data = await createOrder(token, orderData);
+
+            // Orders above the canteen's PIN threshold need the PIN — try a
+            // still-valid token first, then prompt
+            for (const fresh of [false, true]) {
+                if (data.code !== "PIN_REQUIRED") break;
+                const pinToken = await requestPinToken({ fresh });
+                if (!pinToken) break;
+                data = await createOrder(token, orderData, pinToken);
+            }
 
             if (data.success) {
                 addMessage(
                     "assistant",
-                    `🎉 Order confirmed!\n\n✅ Order #${pendingOrder.orderId} has been placed successfully!\n💰 ₹${pendingOrder.total} deducted from your wallet.\n\nYour food is being prepared! Check the Orders page for real-time updates. Enjoy your meal! 🍽️😊`
+                    `🎉 Order confirmed!\n\n✅ Order #${data.orderId} has been placed successfully!\n💰 ₹${data.total} deducted from your wallet.\n\n${pickupAt
+                        ? `⏰ It'll be ready for pickup ${formatPickupTime(pickupAt)}.`
+                        : "Your food is being prepared!"} Check the Orders page for real-time updates. Enjoy your meal! 🍽️😊`
                 );
                 clearCart();
                 setPendingOrder(null);
                 await refreshProfile();
                 toast.success("Order placed successfully! 🎉");
+            } else if (data.code === "PIN_REQUIRED") {
+                addMessage("assistant", "🔐 This order needs your PIN. Tap confirm again when you're ready.");
+            } else if (data.code === "PIN_NOT_SET") {
+                addMessage("assistant", `🔐 ${data.error}\n\nGo to Profile → Transaction PIN to set one.`);
+            } else if (data.code === "SPENDING_LIMIT") {
+                setPendingOrder(null);
+                addMessage("assistant", `🚦 ${data.error}\n\nYou can review your limits under Profile → Spending Limits.`);
+            } else if (data.code === "PICKUP_UNAVAILABLE" || data.code === "PICKUP_SLOT_FULL") {
+                setPendingOrder(null);
+                addMessage("assistant", `⏰ ${data.error}\n\nPlease go back to your cart and choose another pickup time. 🛒`);
+            } else if (data.code === "COUPON_INVALID") {
+                setPendingOrder(null);
+                addMessage("assistant", `🎟️ ${data.error}\n\nRemove or change the coupon in your cart and place the order again. 🛒`);
+            } else if (data.code === "PRICE_CHANGED") {
+                setPendingOrder(null);
+                addMessage("assistant", `⚠️ ${data.error}\n\nPlease review the updated prices in your cart and place the order again. 🛒`);
             } else {
                 addMessage("assistant", `❌ ${data.error || "Failed to place order. Please try again."}`);
             }
@@ -172,7 +204,11 @@ function ChatPageInner() {
                     "Content-Type": "application/json",
                     Authorization: `Bearer ${token}`,
                 },
-                body: JSON.stringify({ messages: chatMessages, userProfile: profile ? { name: profile.name, email: profile.email, rollNumber: profile.rollNumber } : undefined }),
+                body: JSON.stringify({
+                    messages: chatMessages,
+                    userProfile: profile ? { name: profile.name, email: profile.email, rollNumber: profile.rollNumber } : undefined,
+                    outletId: cartOutletId || getSelectedOutletId(),
+                }),
             });
 
             const data = await res.json();
@@ -0,0 +1,459 @@
+"use client";
+import React, { Suspense, useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import { useGroupCart } from "@/hooks/useGroupCart";
+import { useMenu } from "@/hooks/useMenu";
+import { checkoutGroupOrder, updateGroupOrder } from "@/services/groupOrderService";
+import { outletIdOf } from "@/lib/outlets";
+import { sameCartLine } from "@/lib/cart-sync";
+import { formatPickupTime } from "@/lib/pickup-slots";
+import CustomizationModal from "@/components/CustomizationModal";
+import PickupTimePicker from "@/components/PickupTimePicker";
+import type { GroupCartLine, MenuItem, SelectedOption } from "@/types";
+
+export default function GroupOrderPage() {
+    return (
+        <Suspense
+            fallback={
+                <div className="min-h-screen bg-zayko-900 flex items-center justify-center">
+                    <div className="w-10 h-10 border-4 border-gold-400 border-t-transparent rounded-full animate-spin"></div>
+                </div>
+            }
+        >
+            <GroupOrderPageInner />
+        </Suspense>
+    );
+}
+
+function GroupOrderPageInner() {
+    const { user, loading, getIdToken, requestPinToken, refreshProfile } = useAuth();
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    const groupId = searchParams?.get("id") || null;
+    const [joined, setJoined] = useState(false);
+    const [joinError, setJoinError] = useState<string | null>(null);
+    const { cart, loading: cartLoading } = useGroupCart(groupId, joined);
+    const { items: menuItems } = useMenu();
+    const [saving, setSaving] = useState(false);
+    const [placing, setPlacing] = useState(false);
+    const [pickupAt, setPickupAt] = useState<string | null>(null);
+    const [customizing, setCustomizing] = useState<MenuItem | null>(null);
+
+    useEffect(() => {
+        if (!loading && !user) router.push("/auth");
+    }, [user, loading, router]);
+
+    // Opening the link joins the cart (a no-op for existing members)
+    useEffect(() => {
+        if (!user || !groupId) return;
+        let cancelled = false;
+        (async () => {
+            try {
+                const token = await getIdToken();
+                if (!token) return;
+                const data = await updateGroupOrder(token, groupId, { action: "join" });
+                if (cancelled) return;
+                if (data.success) setJoined(true);
+                else setJoinError(data.error || "Could not join this group order");
+            } catch {
+                if (!cancelled) setJoinError("Could not join this group order");
+            }
+        })();
+        return () => { cancelled = true; };
+    }, [user, groupId, getIdToken]);
+
+    const outletMenu = useMemo(
+        () => (cart ? menuItems.filter((item) => outletIdOf(item) === cart.outletId && item.available && item.quantity > 0) : []),
+        [menuItems, cart]
+    );
+
+    if (loading || !user) {
+        return (
+            <div className="min-h-screen bg-zayko-900 flex items-center justify-center">
+                <div className="w-10 h-10 border-4 border-gold-400 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+        );
+    }
+
+    if (!groupId || joinError || (joined && !cartLoading && !cart)) {
+        return (
+            <div className="min-h-screen bg-zayko-900 flex items-center justify-center px-4">
+                <div className="text-center py-16 px-6 bg-white/[0.03] rounded-3xl border border-white/[0.05] max-w-sm w-full">
+                    <div className="text-5xl mb-4">👥</div>
+                    <h3 className="text-lg font-display font-bold text-white mb-2">Group order unavailable</h3>
+                    <p className="text-zayko-400 text-sm mb-6">{joinError || "This group order link isn't valid."}</p>
+                    <Link href="/" className="px-6 py-3 bg-gold-400 text-zayko-900 rounded-xl font-bold inline-block active:scale-95 transition-all">
+                        Browse Menu 🍽️
+                    </Link>
+                </div>
+            </div>
+        );
+    }
+
+    if (!cart) {
+        return (
+            <div className="min-h-screen bg-zayko-900 flex items-center justify-center">
+                <div className="w-10 h-10 border-4 border-gold-400 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+        );
+    }
+
+    const isHost = cart.hostId === user.uid;
+    const split = cart.paymentMode === "split";
+    const myLines = cart.lines.filter((line) => line.memberId === user.uid);
+    const me = cart.members[user.uid];
+    const cartTotal = cart.lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+    const totalOf = (uid: string) => cart.lines.filter((l) => l.memberId === uid).reduce((sum, l) => sum + l.price * l.quantity, 0);
+    const waiting = cart.memberIds.filter((uid) => uid !== cart.hostId && totalOf(uid) > 0 && !cart.members[uid]?.ready);
+
+    const run = async (update: Parameters<typeof updateGroupOrder>[2], failure: string) => {
+        const token = await getIdToken();
+        if (!token) return false;
+        try {
+            let data = await updateGroupOrder(token, cart.id, update);
+
+            // Confirming a share above the PIN threshold needs the PIN — try
+            // a still-valid token first, then prompt
+            for (const fresh of [false, true]) {
+                if (data.code !== "PIN_REQUIRED") break;
+                const pinToken = await requestPinToken({ fresh });
+                if (!pinToken) return false;
+                data = await updateGroupOrder(token, cart.id, update, pinToken);
+            }
+
+            if (!data.success && data.code !== "PIN_REQUIRED") toast.error(data.error || failure);
+            return !!data.success;
+        } catch {
+            toast.error(failure);
+            return false;
+        }
+    };
+
+    const saveLines = async (lines: GroupCartLine[]) => {
+        setSaving(true);
+        await run({ action: "set_items", items: lines }, "Could not update your items");
+        setSaving(false);
+    };
+
+    const addLine = (item: MenuItem, selectedOptions?: SelectedOption[], unitPrice?: number) => {
+        const line: GroupCartLine = {
+            id: item.id,
+            name: item.name,
+            price: unitPrice || item.price,
+            quantity: 1,
+            maxQuantity: item.quantity,
+            category: item.category,
+            image: item.image,
+            selectedOptions,
+            outletId: cart.outletId,
+            memberId: user.uid,
+        };
+        const existing = myLines.find((l) => sameCartLine(l, line));
+        if (existing && existing.quantity >= existing.maxQuantity) {
+            toast.error("Maximum available quantity reached");
+            return;
+        }
+        saveLines(existing
+            ? myLines.map((l) => (l === existing ? { ...l, quantity: l.quantity + 1 } : l))
+            : [...myLines, line]);
+    };
+
+    const handleAdd = (item: MenuItem) => {
+        if (item.customizations && item.customizations.length > 0) {
+            setCustomizing(item);
+            return;
+        }
+        addLine(item);
+    };
+
+    const changeQuantity = (line: GroupCartLine, quantity: number) => {
+        saveLines(quantity <= 0
+            ? myLines.filter((l) => l !== line)
+            : myLines.map((l) => (l === line ? { ...l, quantity: Math.min(quantity, l.maxQuantity) } : l)));
+    };
+
+    const shareLink = async () => {
+        const url = `${window.location.origin}/group?id=${cart.id}`;
+        try {
+            if (navigator.share) {
+                await navigator.share({ title: "Join my group order", url });
+            } else {
+                await navigator.clipboard.writeText(url);
+                toast.success("Link copied — send it to your friends");
+            }
+        } catch {
+            // Share sheet dismissed
+        }
+    };
+
+    const leave = async () => {
+        if (!confirm(isHost ? "Cancel this group order for everyone?" : "Leave this group order? Your items will be removed.")) return;
+        if (await run({ action: "leave" }, "Could not leave the group order")) router.push("/");
+    };
+
+    const checkout = async () => {
+        setPlacing(true);
+        try {
+            const token = await getIdToken();
+            if (!token) return;
+            let data = await checkoutGroupOrder(token, cart.id, pickupAt);
+
+            // The host's share above the PIN threshold needs the PIN — try a
+            // still-valid token first, then prompt
+            for (const fresh of [false, true]) {
+                if (data.code !== "PIN_REQUIRED") break;
+                const pinToken = await requestPinToken({ fresh });
+                if (!pinToken) break;
+                data = await checkoutGroupOrder(token, cart.id, pickupAt, pinToken);
+            }
+
+            if (data.success) {
+                toast.success(data.requested
+                    ? `Order #${data.orderId} placed! Money requests sent to ${data.requested} ${data.requested === 1 ? "friend" : "friends"} 🤝`
+                    : `Order #${data.orderId} placed! 🎉`);
+                await refreshProfile();
+            } else if (data.code === "PRICE_CHANGED") {
+                toast.error("Some prices have changed — the cart is updated, please check and confirm again.");
+            } else if (data.code === "PICKUP_UNAVAILABLE" || data.code === "PICKUP_SLOT_FULL") {
+                setPickupAt(null);
+                toast.error(data.error || "Please choose another pickup time");
+            } else if (data.code !== "PIN_REQUIRED") {
+                toast.error(data.error || "Failed to place the group order");
+            }
+        } catch {
+            toast.error("Failed to place the group order");
+        } finally {
+            setPlacing(false);
+        }
+    };
+
+    if (cart.status !== "open") {
+        return (
+            <div className="min-h-screen bg-zayko-900 flex items-center justify-center px-4">
+                <div className="text-center py-16 px-6 bg-white/[0.03] rounded-3xl border border-white/[0.05] max-w-sm w-full">
+                    <div className="text-5xl mb-4">{cart.status === "placed" ? "🎉" : "✗"}</div>
+                    <h3 className="text-lg font-display font-bold text-white mb-2">
+                        {cart.status === "placed" ? `Group Order #${cart.orderId} placed` : "Group order cancelled"}
+                    </h3>
+                    <p className="text-zayko-400 text-sm mb-6">
+                        {cart.status === "placed"
+                            ? split || isHost
+                                ? `Your share: ₹${totalOf(user.uid)}`
+                                : `${cart.hostName} paid — check your wallet for a request of ₹${totalOf(user.uid)}`
+                            : `${cart.hostName} cancelled this group order.`}
+                    </p>
+                    <Link
+                        href={cart.status === "placed" ? "/orders" : "/"}
+                        className="px-6 py-3 bg-gold-400 text-zayko-900 rounded-xl font-bold inline-block active:scale-95 transition-all"
+                    >
+                        {cart.status === "placed" ? "Track Order 📋" : "Browse Menu 🍽️"}
+                    </Link>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-zayko-900 pb-36 md:pb-24">
+            {/* Header */}
+            <div className="bg-zayko-800/80 backdrop-blur-xl border-b border-white/[0.06] px-4 py-4 sm:px-6 sticky top-0 z-40">
+                <div className="max-w-3xl mx-auto flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                        <h1 className="text-xl font-display font-bold text-white uppercase tracking-tight">Group Order 👥</h1>
+                        <p className="text-[10px] text-zayko-400 font-bold tracking-widest uppercase mt-0.5 truncate">
+                            Hosted by {isHost ? "you" : cart.hostName} · {cart.memberIds.length} {cart.memberIds.length === 1 ? "person" : "people"}
+                        </p>
+                    </div>
+                    <button
+                        onClick={shareLink}
+                        className="text-xs font-bold text-gold-400 bg-gold-400/10 px-3 py-1.5 rounded-full border border-gold-400/20 active:scale-95 transition-all shrink-0"
+                    >
+                        🔗 INVITE
+                    </button>
+                </div>
+            </div>
+
+            <div className="px-4 sm:px-6 max-w-3xl mx-auto py-6 space-y-4">
+                {/* Who pays */}
+                <div className="bg-zayko-800/20 border border-white/[0.04] p-5 rounded-3xl space-y-3">
+                    <h3 className="font-display font-bold text-sm text-zayko-400 uppercase tracking-widest">Who Pays</h3>
+                    <div className="grid grid-cols-2 gap-2">
+                        {(["split", "host"] as const).map((mode) => (
+                            <button
+                                key={mode}
+                                onClick={() => isHost && run({ action: "payment_mode", paymentMode: mode }, "Could not change who pays")}
+                                disabled={!isHost}
+                                className={`py-2.5 rounded-xl text-xs font-bold transition-all ${cart.paymentMode === mode ? "bg-gold-400 text-zayko-900" : "bg-white/[0.04] text-zayko-400"} ${isHost ? "" : "cursor-default"}`}
+                            >
+                                {mode === "split" ? "💸 Everyone pays own" : `👑 ${isHost ? "I pay" : cart.hostName + " pays"}`}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-[10px] text-zayko-500">
+                        {split
+                            ? "Each person's items are paid from their own wallet when the host places the order."
+                            : "The host pays for everything and everyone else gets a money request for their share."}
+                    </p>
+                </div>
+
+                {/* Members and their lines */}
+                <div className="space-y-3">
+                    {cart.memberIds.map((uid) => {
+                        const member = cart.members[uid];
+                        const lines = cart.lines.filter((l) => l.memberId === uid);
+                        const mine = uid === user.uid;
+                        return (
+                            <div key={uid} className={`bg-zayko-800/40 border rounded-2xl overflow-hidden ${mine ? "border-gold-400/20" : "border-white/[0.06]"}`}>
+                                <div className="px-4 py-3 flex items-center justify-between border-b border-white/[0.04]">
+                                    <div className="flex items-center gap-2 min-w-0">
+                                        <span className="text-sm font-bold text-white truncate">
+                                            {mine ? "You" : member?.name}{uid === cart.hostId && " 👑"}
+                                        </span>
+                                        {split && uid !== cart.hostId && lines.length > 0 && (
+                                            <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full uppercase tracking-wider ${member?.ready ? "bg-emerald-400/10 text-emerald-400" : "bg-amber-400/10 text-amber-400"}`}>
+                                                {member?.ready ? "Ready" : "Choosing"}
+                                            </span>
+                                        )}
+                                    </div>
+                                    <span className="font-display font-bold text-white">₹{totalOf(uid)}</span>
+                                </div>
+                                <div className="px-4 py-3 space-y-2">
+                                    {lines.length === 0 ? (
+                                        <p className="text-xs text-zayko-500 italic">No items yet</p>
+                                    ) : lines.map((line, idx) => (
+                                        <div key={idx} className="flex items-center justify-between gap-3 text-xs">
+                                            <div className="min-w-0">
+                                                <p className="text-zayko-300 truncate">
+                                                    <span className="font-bold text-white">{line.quantity}x</span> {line.name}
+                                                </p>
+                                                {line.selectedOptions && line.selectedOptions.length > 0 && (
+                                                    <p className="text-[10px] text-purple-400 truncate">{line.selectedOptions.map((o) => o.optionName).join(", ")}</p>
+                                                )}
+                                            </div>
+                                            {mine ? (
+                                                <div className="flex items-center gap-2 shrink-0">
+                                                    <span className="text-zayko-500">₹{line.price * line.quantity}</span>
+                                                    <div className="flex items-center bg-zayko-900 border border-white/[0.08] rounded-xl overflow-hidden">
+                                                        <button
+                                                            onClick={() => changeQuantity(line, line.quantity - 1)}
+                                                            disabled={saving}
+                                                            className="w-7 h-7 flex items-center justify-center text-zayko-400 hover:text-white transition-colors disabled:opacity-30"
+                                                        >
+                                                            −
+                                                        </button>
+                                                        <span className="w-6 text-center font-bold text-white tabular-nums">{line.quantity}</span>
+                                                        <button
+                                                            onClick={() => changeQuantity(line, line.quantity + 1)}
+                                                            disabled={saving || line.quantity >= line.maxQuantity}
+                                                            className="w-7 h-7 flex items-center justify-center text-gold-400 hover:text-white transition-colors disabled:opacity-30"
+                                                        >
+                                                            +
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            ) : (
+                                                <span className="text-zayko-500 shrink-0">₹{line.price * line.quantity}</span>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {/* Add from the outlet's menu */}
+                <div className="bg-zayko-800/20 border border-white/[0.04] p-5 rounded-3xl space-y-3">
+                    <h3 className="font-display font-bold text-sm text-zayko-400 uppercase tracking-widest">Add Your Items</h3>
+                    {outletMenu.length === 0 ? (
+                        <p className="text-xs text-zayko-500">Nothing available right now.</p>
+                    ) : (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                            {outletMenu.map((item) => (
+                                <button
+                                    key={item.id}
+                                    onClick={() => handleAdd(item)}
+                                    disabled={saving}
+                                    className="flex items-center justify-between gap-3 p-3 rounded-xl bg-white/[0.03] border border-white/[0.05] text-left hover:bg-white/[0.06] active:scale-[0.99] transition-all disabled:opacity-50"
+                                >
+                                    <span className="text-sm text-white truncate">{item.name}</span>
+                                    <span className="text-xs font-bold text-gold-400 shrink-0">₹{item.price} +</span>
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {/* Pickup Time — the host decides */}
+                {isHost && cart.lines.length > 0 && (
+                    <PickupTimePicker
+                        itemIds={[...new Set(cart.lines.map((line) => line.id))]}
+                        value={pickupAt}
+                        onChange={setPickupAt}
+                    />
+                )}
+
+                <button
+                    onClick={leave}
+                    className="w-full py-2.5 border border-red-400/30 text-red-400 rounded-xl text-xs font-bold hover:bg-red-400/10 active:scale-[0.98] transition-all"
+                >
+                    {isHost ? "✗ Cancel Group Order" : "Leave Group Order"}
+                </button>
+            </div>
+
+            {/* Sticky Bottom Actions */}
+            <div className="fixed bottom-16 md:bottom-0 left-0 right-0 p-4 bg-zayko-900/80 backdrop-blur-xl border-t border-white/[0.06] z-40 md:static md:bg-transparent md:border-none md:p-0 md:mt-6">
+                <div className="max-w-3xl mx-auto">
+                    {isHost ? (
+                        <>
+                            <button
+                                onClick={checkout}
+                                disabled={placing || saving || cart.lines.length === 0 || (split && waiting.length > 0)}
+                                className="w-full flex items-center justify-between bg-gradient-to-r from-gold-500 to-gold-400 text-zayko-900 px-6 py-4 rounded-2xl font-display font-bold text-lg active:scale-[0.98] transition-all disabled:from-zayko-700 disabled:to-zayko-700 disabled:text-zayko-500"
+                            >
+                                <span>{placing ? "Placing..." : pickupAt ? `Order for ${formatPickupTime(pickupAt)}` : "Place Group Order"}</span>
+                                <span>₹{split ? totalOf(user.uid) : cartTotal}</span>
+                            </button>
+                            {split && waiting.length > 0 && (
+                                <p className="text-center text-[10px] text-amber-400 font-bold mt-2 uppercase tracking-tight">
+                                    Waiting for {waiting.map((uid) => cart.members[uid]?.name).join(", ")} to confirm
+                                </p>
+                            )}
+                        </>
+                    ) : split ? (
+                        <button
+                            onClick={() => run({ action: "ready", ready: !me?.ready }, "Could not update")}
+                            disabled={saving || myLines.length === 0}
+                            className={`w-full flex items-center justify-between px-6 py-4 rounded-2xl font-display font-bold text-lg active:scale-[0.98] transition-all disabled:opacity-40 ${me?.ready
+                                ? "bg-emerald-400/10 text-emerald-400 border border-emerald-400/30"
+                                : "bg-gradient-to-r from-gold-500 to-gold-400 text-zayko-900"
+                                }`}
+                        >
+                            <span>{me?.ready ? "✓ Ready — tap to undo" : "I'm ready — charge my wallet"}</span>
+                            <span>₹{totalOf(user.uid)}</span>
+                        </button>
+                    ) : (
+                        <p className="text-center text-xs text-zayko-400 py-2">
+                            {cart.hostName} will place the order — you&apos;ll get a request for ₹{totalOf(user.uid)}.
+                        </p>
+                    )}
+                </div>
+            </div>
+
+            {customizing && (
+                <CustomizationModal
+                    item={customizing}
+                    isOpen={!!customizing}
+                    onClose={() => setCustomizing(null)}
+                    onAdd={(selectedOptions, subtotal) => {
+                        addLine(customizing, selectedOptions, subtotal);
+                        setCustomizing(null);
+                    }}
+                />
+            )}
+        </div>
+    );
+}
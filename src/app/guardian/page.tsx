@@ -0,0 +1,229 @@
+/**
+ * Guardian Page — Link students, top up their wallets and set their
+ * spending limits. Any account can act as a guardian once the student
+ * accepts the invite on their profile.
+ */
+
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { useRouter } from "next/navigation";
+import toast from "react-hot-toast";
+import { getGuardianStudents, guardianAction } from "@/services/guardianService";
+import { checkoutWalletTopUp } from "@/services/paymentService";
+import SpendingLimitsForm from "@/components/SpendingLimitsForm";
+import type { CategoryDoc, GuardianStudent, SpendingLimits } from "@/types";
+
+export default function GuardianPage() {
+    const { user, profile, loading, getIdToken } = useAuth();
+    const router = useRouter();
+    const [students, setStudents] = useState<GuardianStudent[]>([]);
+    const [categories, setCategories] = useState<CategoryDoc[]>([]);
+    const [fetching, setFetching] = useState(true);
+    const [studentCode, setStudentCode] = useState("");
+    const [inviting, setInviting] = useState(false);
+    const [topUpAmounts, setTopUpAmounts] = useState<Record<string, string>>({});
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!loading && !user) router.push("/auth");
+    }, [user, loading, router]);
+
+    const load = useCallback(async () => {
+        try {
+            const token = await getIdToken();
+            if (!token) return;
+            const data = await getGuardianStudents(token);
+            setStudents(data.students);
+            setCategories(data.categories);
+        } catch {
+            toast.error("Failed to load students");
+        } finally {
+            setFetching(false);
+        }
+    }, [getIdToken]);
+
+    useEffect(() => {
+        if (user) load();
+    }, [user, load]);
+
+    const handleInvite = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (studentCode.trim().length < 4) return;
+        setInviting(true);
+        try {
+            const token = await getIdToken();
+            if (!token) return;
+            const result = await guardianAction(token, { action: "invite", studentCode: studentCode.trim() });
+            if (result.success) {
+                toast.success(result.message || "Invite sent");
+                setStudentCode("");
+                await load();
+            } else {
+                toast.error(result.error || "Invite failed");
+            }
+        } finally {
+            setInviting(false);
+        }
+    };
+
+    const handleRemove = async (student: GuardianStudent) => {
+        const action = student.pending ? "cancel_invite" : "unlink";
+        if (action === "unlink" && !confirm(`Stop being ${student.name}'s guardian? Their limits stay but they can change them.`)) return;
+        setBusyId(student.id);
+        try {
+            const token = await getIdToken();
+            if (!token) return;
+            const result = await guardianAction(token, { action, studentId: student.id });
+            if (result.success) {
+                toast.success(action === "unlink" ? "Unlinked" : "Invite cancelled");
+                await load();
+            } else {
+                toast.error(result.error || "Failed");
+            }
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleSaveLimits = async (student: GuardianStudent, limits: SpendingLimits) => {
+        const token = await getIdToken();
+        if (!token) return;
+        const result = await guardianAction(token, { action: "set_limits", studentId: student.id, limits });
+        if (result.success) {
+            toast.success(`Limits saved for ${student.name.split(" ")[0]}`);
+            await load();
+        } else {
+            toast.error(result.error || "Failed to save limits");
+        }
+    };
+
+    const handleTopUp = async (student: GuardianStudent) => {
+        const amount = Number(topUpAmounts[student.id]);
+        if (!amount || amount < 1) {
+            toast.error("Please enter a valid amount");
+            return;
+        }
+
+        setBusyId(student.id);
+        try {
+            const token = await getIdToken();
+            if (!token) return;
+            const paid = await checkoutWalletTopUp(token, {
+                amount,
+                forUserId: student.id,
+                description: `Wallet top-up for ${student.name}`,
+                prefill: { name: profile?.name, email: profile?.email },
+            });
+            if (paid) {
+                toast.success(`₹${amount} added to ${student.name.split(" ")[0]}'s wallet 🎉`);
+                setTopUpAmounts((prev) => ({ ...prev, [student.id]: "" }));
+                await load();
+            }
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Payment failed");
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    if (loading || fetching) {
+        return (
+            <div className="min-h-screen bg-zayko-900 flex items-center justify-center">
+                <div className="w-10 h-10 border-4 border-gold-400 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-zayko-900 pb-28 md:pb-24">
+            <div className="px-4 py-8 max-w-xl mx-auto space-y-6">
+                <div>
+                    <h1 className="text-2xl font-display font-bold text-white">Guardian Dashboard</h1>
+                    <p className="text-xs text-zayko-400 mt-1">Top up wallets and set spending limits for the students you look after.</p>
+                </div>
+
+                <form onSubmit={handleInvite} className="bg-zayko-800/40 border border-white/[0.06] p-5 rounded-3xl">
+                    <label className="text-[10px] text-zayko-500 font-black uppercase tracking-widest mb-2 block">Link a student by their unique code</label>
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={studentCode}
+                            onChange={(e) => setStudentCode(e.target.value.toUpperCase())}
+                            placeholder="e.g. XYZA12"
+                            maxLength={8}
+                            className="flex-1 bg-white/[0.03] border border-white/[0.08] p-3 rounded-xl text-white font-bold uppercase tracking-widest outline-none focus:border-gold-400/30"
+                        />
+                        <button
+                            type="submit"
+                            disabled={inviting || studentCode.trim().length < 4}
+                            className="px-5 bg-gold-400 text-zayko-900 rounded-xl text-xs font-bold active:scale-95 transition-all disabled:opacity-40"
+                        >
+                            {inviting ? "..." : "INVITE"}
+                        </button>
+                    </div>
+                    <p className="text-[10px] text-zayko-500 mt-2">The student accepts from their profile page.</p>
+                </form>
+
+                {students.length === 0 ? (
+                    <div className="text-center py-16 bg-white/[0.02] rounded-3xl border border-white/[0.05]">
+                        <span className="text-4xl opacity-20 block mb-4">👪</span>
+                        <p className="text-zayko-500 font-bold uppercase tracking-widest text-[10px]">No linked students yet</p>
+                    </div>
+                ) : (
+                    students.map((student) => (
+                        <div key={student.id} className="bg-zayko-800/40 border border-white/[0.06] p-5 rounded-3xl space-y-5">
+                            <div className="flex items-start justify-between gap-3">
+                                <div className="min-w-0">
+                                    <p className="font-bold text-white truncate">{student.name}</p>
+                                    <p className="text-[10px] text-zayko-500 font-bold uppercase tracking-tight mt-0.5">
+                                        {student.rollNumber || "No roll number"}
+                                        {student.pending ? " • Invite pending" : ` • Balance ₹${student.walletBalance}`}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => handleRemove(student)}
+                                    disabled={busyId === student.id}
+                                    className="text-[10px] font-bold text-red-400 uppercase shrink-0 disabled:opacity-30"
+                                >
+                                    {student.pending ? "Cancel Invite" : "Unlink"}
+                                </button>
+                            </div>
+
+                            {!student.pending && (
+                                <>
+                                    <div className="flex gap-2">
+                                        <div className="relative flex-1">
+                                            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gold-400 font-bold">₹</span>
+                                            <input
+                                                type="number"
+                                                value={topUpAmounts[student.id] || ""}
+                                                onChange={(e) => setTopUpAmounts((prev) => ({ ...prev, [student.id]: e.target.value }))}
+                                                placeholder="Top-up amount"
+                                                className="w-full bg-white/[0.03] border border-white/[0.08] py-3 pl-8 pr-3 rounded-xl text-white font-bold outline-none focus:border-gold-400/30"
+                                            />
+                                        </div>
+                                        <button
+                                            onClick={() => handleTopUp(student)}
+                                            disabled={busyId === student.id || !topUpAmounts[student.id]}
+                                            className="px-5 bg-emerald-500 text-zayko-950 rounded-xl text-xs font-bold active:scale-95 transition-all disabled:opacity-30"
+                                        >
+                                            {busyId === student.id ? "..." : "TOP UP"}
+                                        </button>
+                                    </div>
+
+                                    <SpendingLimitsForm
+                                        limits={student.limits}
+                                        usage={student.usage}
+                                        categories={categories}
+                                        onSave={(limits) => handleSaveLimits(student, limits)}
+                                    />
+                                </>
+                            )}
+                        </div>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,5 +1,5 @@
 "use client";
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { useAuth } from "@/context/AuthContext";
 import { useRouter } from "next/navigation";
 import { db } from "@/lib/firebase";
@@ -7,8 +7,16 @@ import { collection, onSnapshot, query, where, orderBy } from "firebase/firestor
 import toast from "react-hot-toast";
 import { useCountdown } from "@/hooks/useCountdown";
 import { useOrderNotifications } from "@/hooks/useOrderNotifications";
+import { useOrderHistory } from "@/hooks/useOrderHistory";
+import OrderTimeline from "@/components/OrderTimeline";
+import { useCanteenStatus } from "@/hooks/useCanteenStatus";
+import { cancelOrder } from "@/services/orderService";
+import { DEFAULT_CANCEL_GRACE_MINUTES, isWithinCancelWindow } from "@/lib/order-status";
 import type { Order } from "@/types";
 import { motion, AnimatePresence } from "framer-motion";
+import { QRCodeSVG } from "qrcode.react";
+import { buildPickupPayload } from "@/lib/pickup";
+import { formatPickupTime } from "@/lib/pickup-slots";
 import Link from "next/link";
 
 /* ─── Status Config ──────────────────────────────────────── */
@@ -23,10 +31,13 @@ const statusConfig: Record<string, { label: string; color: string; bg: string; i
 
 /* ─── Main Orders Page ───────────────────────────────────── */
 export default function OrdersPage() {
-    const { user, loading, profile } = useAuth();
+    const { user, loading, profile, getIdToken } = useAuth();
     const router = useRouter();
-    const [orders, setOrders] = useState<Order[]>([]);
+    const { config } = useCanteenStatus();
+    const [ownOrders, setOwnOrders] = useState<Order[]>([]);
+    const [groupOrders, setGroupOrders] = useState<Order[]>([]);
     const [ordersLoading, setOrdersLoading] = useState(true);
+    const [cancellingId, setCancellingId] = useState<string | null>(null);
 
     // Feedback Modal State
     const [feedbackOrder, setFeedbackOrder] = useState<Order | null>(null);
@@ -50,15 +61,37 @@ export default function OrdersPage() {
                 id: doc.id,
                 ...doc.data(),
             })) as Order[];
-            setOrders(orderList);
+            setOwnOrders(orderList);
             setOrdersLoading(false);
         }, (error) => {
             console.error("Orders listener error:", error);
             setOrdersLoading(false);
         });
-        return () => unsubscribe();
+
+        // Group orders someone else placed with the user's items in them
+        const groupQuery = query(
+            collection(db, "orders"),
+            where("memberIds", "array-contains", user.uid),
+            orderBy("createdAt", "desc")
+        );
+        const unsubscribeGroup = onSnapshot(groupQuery, (snapshot) => {
+            setGroupOrders(snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as Order[]);
+        }, (error) => {
+            console.error("Group orders listener error:", error);
+        });
+
+        return () => {
+            unsubscribe();
+            unsubscribeGroup();
+        };
     }, [user]);
 
+    const orders = useMemo(() => {
+        const ownIds = new Set(ownOrders.map((o) => o.id));
+        return [...ownOrders, ...groupOrders.filter((o) => !ownIds.has(o.id))]
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }, [ownOrders, groupOrders]);
+
     const submitFeedback = async () => {
         if (!feedbackOrder || !user) return;
         setSubmitting(true);
@@ -89,6 +122,27 @@ export default function OrdersPage() {
         }
     };
 
+    const handleCancel = async (order: Order) => {
+        if (!confirm(`Cancel order #${order.orderId}? ₹${order.total} will be refunded to your wallet.`)) return;
+        setCancellingId(order.id);
+        try {
+            const token = await getIdToken();
+            if (!token) throw new Error("Not signed in");
+            const data = await cancelOrder(token, order.id);
+            if (data.success) {
+                toast.success(`Order cancelled — ₹${data.refunded} refunded 💰`);
+            } else {
+                toast.error(data.error || "Failed to cancel order");
+            }
+        } catch {
+            toast.error("Failed to cancel order");
+        } finally {
+            setCancellingId(null);
+        }
+    };
+
+    const graceMinutes = config.cancelGraceMinutes ?? DEFAULT_CANCEL_GRACE_MINUTES;
+
     useOrderNotifications(orders);
 
     if (loading || ordersLoading) {
@@ -136,7 +190,12 @@ export default function OrdersPage() {
                                 </h2>
                                 <div className="space-y-5">
                                     {activeOrders.map((order) => (
-                                        <OrderCard key={order.id} order={order} />
+                                        <OrderCard
+                                            key={order.id}
+                                            order={order}
+                                            onCancel={order.userId === user?.uid && isWithinCancelWindow(order, graceMinutes) ? () => handleCancel(order) : undefined}
+                                            cancelling={cancellingId === order.id}
+                                        />
                                     ))}
                                 </div>
                             </div>
@@ -219,9 +278,21 @@ export default function OrdersPage() {
 }
 
 /* ─── Order Card Component ───────────────────────────────── */
-function OrderCard({ order, onReview }: { order: Order; onReview?: () => void }) {
+function OrderCard({
+    order,
+    onReview,
+    onCancel,
+    cancelling,
+}: {
+    order: Order;
+    onReview?: () => void;
+    onCancel?: () => void;
+    cancelling?: boolean;
+}) {
     const st = statusConfig[order.status] || statusConfig.pending;
     const { formatted, isExpired } = useCountdown(order.readyAt || order.estimatedReadyAt);
+    const [showTimeline, setShowTimeline] = useState(false);
+    const { history, loading: historyLoading } = useOrderHistory(showTimeline ? order.id : undefined);
 
     return (
         <div className={`bg-zayko-800/40 border border-white/[0.06] rounded-2xl overflow-hidden transition-all duration-300 ${order.status === "ready" ? "ring-2 ring-emerald-400/50 scale-[1.01]" : ""}`}>
@@ -231,7 +302,7 @@ function OrderCard({ order, onReview }: { order: Order; onReview?: () => void })
                     <div className="flex items-center gap-2">
                         <span className="text-xl">{st.icon}</span>
                         <div>
-                            <h3 className="text-sm font-bold text-white leading-none mb-1">Order #{order.orderId}</h3>
+                            <h3 className="text-sm font-bold text-white leading-none mb-1">{order.groupId ? "👥 Group " : ""}Order #{order.orderId}</h3>
                             <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full uppercase tracking-wider ${st.bg} ${st.color}`}>
                                 {st.label}
                             </span>
@@ -246,6 +317,18 @@ function OrderCard({ order, onReview }: { order: Order; onReview?: () => void })
                         <p className="text-emerald-400 text-xs font-bold flex items-center gap-1.5">
                             <span className="animate-bounce">🍜</span> Your food is ready for pickup!
                         </p>
+                        {order.pickupToken && (
+                            <div className="mt-3 flex items-center gap-4">
+                                <div className="bg-white p-2 rounded-lg shrink-0">
+                                    <QRCodeSVG value={buildPickupPayload(order.id, order.pickupToken)} size={96} level="M" />
+                                </div>
+                                <div>
+                                    <p className="text-[10px] text-zayko-400 uppercase font-bold tracking-wider">Show at the counter</p>
+                                    <p className="text-2xl font-mono font-bold text-white tracking-[0.3em] mt-1">{order.pickupToken}</p>
+                                    <p className="text-[10px] text-zayko-500 mt-1">Don&apos;t share this code — it&apos;s your proof of order.</p>
+                                </div>
+                            </div>
+                        )}
                     </div>
                 ) : (order.status === "preparing" || order.status === "confirmed") && (order.readyAt || order.estimatedReadyAt) ? (
                     <div className="p-3 rounded-xl bg-orange-400/5 border border-white/[0.04]">
@@ -259,6 +342,12 @@ function OrderCard({ order, onReview }: { order: Order; onReview?: () => void })
                 ) : order.status === "completed" ? (
                     <p className="text-[10px] text-zayko-500 italic px-1">Delivered on {new Date(order.createdAt).toLocaleDateString()}</p>
                 ) : null}
+
+                {order.pickupAt && order.status !== "completed" && order.status !== "cancelled" && (
+                    <p className="mt-2 text-[10px] font-bold text-gold-400 uppercase tracking-wider px-1">
+                        ⏰ Pre-order · pickup {formatPickupTime(order.pickupAt)}
+                    </p>
+                )}
             </div>
 
             {/* Items */}
@@ -266,14 +355,38 @@ function OrderCard({ order, onReview }: { order: Order; onReview?: () => void })
                 <div className="space-y-1.5">
                     {order.items.map((item, idx) => (
                         <div key={idx} className="flex justify-between text-xs">
-                            <span className="text-zayko-300">
-                                <span className="font-bold text-white">{item.quantity}x</span> {item.name}
+                            <span className={item.rejected ? "text-zayko-600 line-through" : "text-zayko-300"}>
+                                <span className={item.rejected ? "" : "font-bold text-white"}>{item.quantity}x</span> {item.name}
+                                {item.memberName && <span className="text-zayko-500"> · {item.memberName}</span>}
                             </span>
-                            <span className="text-zayko-500">₹{item.price * item.quantity}</span>
+                            {item.rejected ? (
+                                <span className="text-red-400 font-semibold">Unavailable · refunded</span>
+                            ) : (
+                                <span className="text-zayko-500">₹{item.price * item.quantity}</span>
+                            )}
+                        </div>
+                    ))}
+                    {order.discounts?.map((discount) => (
+                        <div key={discount.promotionId} className="flex justify-between text-xs">
+                            <span className="text-emerald-400">🏷️ {discount.label}{discount.code ? ` (${discount.code})` : ""}</span>
+                            <span className="text-emerald-400">−₹{discount.amount}</span>
                         </div>
                     ))}
+                    {!!order.refundedAmount && (
+                        <p className="text-[10px] text-emerald-400 pt-1">₹{order.refundedAmount} refunded to your wallet</p>
+                    )}
                 </div>
 
+                {onCancel && (
+                    <button
+                        onClick={onCancel}
+                        disabled={cancelling}
+                        className="mt-4 w-full py-2.5 border border-red-400/30 text-red-400 rounded-xl text-xs font-bold hover:bg-red-400/10 active:scale-[0.98] transition-all disabled:opacity-50"
+                    >
+                        {cancelling ? "Cancelling..." : "✗ Cancel Order"}
+                    </button>
+                )}
+
                 {order.status === "completed" && onReview && (
                     <button
                         onClick={onReview}
@@ -284,7 +397,27 @@ function OrderCard({ order, onReview }: { order: Order; onReview?: () => void })
                 )}
             </div>
 
-            <div className="px-4 py-2 border-t border-white/[0.04]">
+            {showTimeline && (
+                <div className="px-4 py-3 border-t border-white/[0.04]">
+                    <OrderTimeline entries={history} loading={historyLoading} />
+                </div>
+            )}
+
+            <div className="px-4 py-2 border-t border-white/[0.04] flex items-center justify-between">
+                <button
+                    onClick={() => setShowTimeline((v) => !v)}
+                    className="text-[10px] font-bold text-zayko-400 hover:text-white uppercase tracking-wider transition-colors"
+                >
+                    {showTimeline ? "Hide Timeline ▲" : "Timeline ▼"}
+                </button>
+                {order.status !== "cancelled" && !order.groupId && (
+                    <Link
+                        href={`/wallet?split=${order.id}`}
+                        className="text-[10px] font-bold text-gold-400 hover:text-gold-300 uppercase tracking-wider transition-colors"
+                    >
+                        Split Bill 🤝
+                    </Link>
+                )}
                 <p className="text-[10px] text-zayko-500 text-right">
                     {new Date(order.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                 </p>
@@ -3,32 +3,49 @@ import React, { useEffect, useState } from "react";
 import { useAuth } from "@/context/AuthContext";
 import { useRouter } from "next/navigation";
 import { db } from "@/lib/firebase";
-import { collection, doc, onSnapshot, query, orderBy } from "firebase/firestore";
+import { collection, onSnapshot, query, orderBy } from "firebase/firestore";
 import MenuCard from "@/components/MenuCard";
 import { useCart } from "@/context/CartContext";
 import Link from "next/link";
 import { motion, AnimatePresence } from "framer-motion";
 import JarvisChat from "@/components/JarvisChat";
+import { useOutlets } from "@/hooks/useOutlets";
+import { useCanteenStatus } from "@/hooks/useCanteenStatus";
+import { getSelectedOutletId, outletIdOf, SELECTED_OUTLET_KEY } from "@/lib/outlets";
+import { comboSavings, isCombo, withComboStock } from "@/lib/combos";
 
 import { MenuItem, CategoryDoc } from "@/types";
 
-interface CanteenConfig {
-  isOpen: boolean;
-  startTime: string;
-  endTime: string;
-}
-
 export default function MenuPage() {
   const { user, profile, loading } = useAuth();
-  const { itemCount, total } = useCart();
+  const { itemCount, total, outletId: cartOutletId } = useCart();
+  const { outlets } = useOutlets();
   const router = useRouter();
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
   const [search, setSearch] = useState("");
   const [category, setCategory] = useState("all");
   const [menuLoading, setMenuLoading] = useState(true);
   const [showUnavailable, setShowUnavailable] = useState(true);
-  const [canteenConfig, setCanteenConfig] = useState<CanteenConfig | null>(null);
   const [categories, setCategories] = useState<CategoryDoc[]>([]);
+  // A non-empty cart pins the outlet so what's on screen can be added to it
+  const [outletId, setOutletId] = useState(() => cartOutletId || getSelectedOutletId());
+
+  const selectOutlet = (id: string) => {
+    setOutletId(id);
+    setCategory("all");
+    localStorage.setItem(SELECTED_OUTLET_KEY, id);
+  };
+
+  // Fall back to the first outlet if the saved one was deactivated
+  useEffect(() => {
+    if (outlets.length > 0 && !outlets.some((o) => o.id === outletId)) {
+      setOutletId(outlets[0].id);
+    }
+  }, [outlets, outletId]);
+
+  const currentOutlet = outlets.find((o) => o.id === outletId);
+  const { status: canteenStatus, minutesUntilClose } = useCanteenStatus(outletId);
+  const isCanteenOpen = canteenStatus.isOpen;
 
   useEffect(() => {
     if (!loading && !user) {
@@ -44,22 +61,12 @@ export default function MenuPage() {
         id: d.id,
         ...d.data(),
       })) as MenuItem[];
-      setMenuItems(items);
+      setMenuItems(withComboStock(items));
       setMenuLoading(false);
     });
     return () => unsubscribe();
   }, []);
 
-  // Real-time canteen config subscription
-  useEffect(() => {
-    const unsub = onSnapshot(doc(db, "settings", "canteenConfig"), (snap) => {
-      if (snap.exists()) {
-        setCanteenConfig(snap.data() as CanteenConfig);
-      }
-    });
-    return () => unsub();
-  }, []);
-
   // Real-time categories subscription
   useEffect(() => {
     const q = query(collection(db, "categories"), orderBy("order", "asc"));
@@ -69,25 +76,14 @@ export default function MenuPage() {
     return () => unsub();
   }, []);
 
-  // Compute minutes until canteen closes
-  const getMinutesUntilClose = (): number | null => {
-    if (!canteenConfig?.endTime) return null;
-    const now = new Date();
-    const [h, m] = canteenConfig.endTime.split(":").map(Number);
-    const closeTime = new Date();
-    closeTime.setHours(h, m, 0, 0);
-    const diff = (closeTime.getTime() - now.getTime()) / 60000;
-    return Math.max(0, Math.round(diff));
-  };
-
-  const minutesUntilClose = getMinutesUntilClose();
-  const isCanteenOpen = canteenConfig?.isOpen !== false;
+  const outletItems = menuItems.filter((item) => outletIdOf(item) === outletId);
+  const savingsOf = (item: MenuItem) =>
+    isCombo(item) ? comboSavings(item, (id) => menuItems.find((i) => i.id === id)) : 0;
 
-  const filteredItems = menuItems.filter((item) => {
+  const filteredItems = outletItems.filter((item) => {
     const matchesSearch = item.name.toLowerCase().includes(search.toLowerCase());
     const matchesCategory = category === "all" || item.category === category;
     const canPrepare = !item.preparationTime
-      || minutesUntilClose === null
       || minutesUntilClose === 0
       || item.preparationTime <= minutesUntilClose;
     const matchesAvailability = showUnavailable ? true : (item.available && item.quantity > 0);
@@ -99,7 +95,7 @@ export default function MenuPage() {
     return 0;
   });
 
-  const availableCount = menuItems.filter((i) => i.available).length;
+  const availableCount = outletItems.filter((i) => i.available).length;
   const availableItems = filteredItems.filter(i => i.available && i.quantity > 0);
   const unavailableItems = filteredItems.filter(i => !i.available || i.quantity <= 0);
 
@@ -114,10 +110,11 @@ export default function MenuPage() {
             </h1>
             <p className="text-[10px] sm:text-xs text-zayko-400 flex items-center gap-1.5">
               <span className={`w-1.5 h-1.5 rounded-full ${isCanteenOpen ? "bg-emerald-400 animate-pulse" : "bg-red-400"}`} />
-              {isCanteenOpen ? "Canteen is open" : "Canteen is closed"}
-              {minutesUntilClose !== null && minutesUntilClose > 0 && isCanteenOpen
-                ? ` · ${minutesUntilClose}m left`
-                : ""}
+              {currentOutlet && outlets.length > 1 ? `${currentOutlet.name} · ` : ""}
+              {isCanteenOpen
+                ? `Canteen is open${canteenStatus.slot?.label ? ` for ${canteenStatus.slot.label}` : ""}`
+                : canteenStatus.reason}
+              {minutesUntilClose > 0 && isCanteenOpen ? ` · ${minutesUntilClose}m left` : ""}
             </p>
           </div>
           <div className="flex items-center gap-2 shrink-0">
@@ -129,6 +126,28 @@ export default function MenuPage() {
         </div>
       </div>
 
+      {/* ─── Outlet Picker ─── */}
+      {outlets.length > 1 && (
+        <div className="px-4 sm:px-6 max-w-7xl mx-auto mt-4">
+          <div className="flex gap-2 overflow-x-auto no-scrollbar -mx-1 px-1 pb-0.5">
+            {outlets.map((o) => (
+              <button key={o.id} onClick={() => selectOutlet(o.id)}
+                className={`flex flex-col items-start px-4 py-2 rounded-2xl text-left whitespace-nowrap transition-all shrink-0 ${outletId === o.id
+                  ? "bg-gold-500 text-zayko-900 shadow-md shadow-gold-500/20"
+                  : "bg-white/[0.06] text-zayko-300 border border-white/[0.08] active:scale-95"}`}>
+                <span className="text-xs sm:text-sm font-bold">🏬 {o.name}</span>
+                {o.location && <span className="text-[10px] opacity-70">{o.location}</span>}
+              </button>
+            ))}
+          </div>
+          {cartOutletId && cartOutletId !== outletId && itemCount > 0 && (
+            <p className="text-[10px] sm:text-xs text-amber-400 mt-2">
+              Your cart has items from {outlets.find((o) => o.id === cartOutletId)?.name || "another outlet"} — check out or clear it before adding from here.
+            </p>
+          )}
+        </div>
+      )}
+
       {/* ─── Quick Access ─── */}
       <div className="px-4 sm:px-6 max-w-7xl mx-auto mt-4 mb-2">
         <div className="grid grid-cols-3 gap-2.5 sm:gap-4">
@@ -159,7 +178,7 @@ export default function MenuPage() {
           <div className="flex overflow-x-auto no-scrollbar gap-4 px-4 sm:px-6 pb-4">
             {availableItems.slice(0, 5).map((item, idx) => (
               <div key={`trending-${item.id}`} className="min-w-[200px] sm:min-w-[240px] shrink-0">
-                <MenuCard {...item} />
+                <MenuCard {...item} savings={savingsOf(item)} />
               </div>
             ))}
           </div>
@@ -263,7 +282,7 @@ export default function MenuPage() {
                       animate={{ opacity: 1, y: 0 }}
                       transition={{ duration: 0.3, delay: Math.min(idx * 0.04, 0.3) }}
                     >
-                      <MenuCard {...item} />
+                      <MenuCard {...item} savings={savingsOf(item)} />
                     </motion.div>
                   ))}
                 </div>
@@ -286,7 +305,7 @@ export default function MenuPage() {
                       animate={{ opacity: 1, scale: 1 }}
                       transition={{ duration: 0.3, delay: Math.min(idx * 0.04, 0.2) }}
                     >
-                      <MenuCard {...item} />
+                      <MenuCard {...item} savings={savingsOf(item)} />
                     </motion.div>
                   ))}
                 </div>
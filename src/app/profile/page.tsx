@@ -4,12 +4,20 @@
  */
 
 "use client";
-import React, { useEffect } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import { useAuth } from "@/context/AuthContext";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { motion } from "framer-motion";
 import toast from "react-hot-toast";
+import { updatePin } from "@/services/authService";
+import { getSpendingLimits, respondToGuardianInvite, updateSpendingLimits } from "@/services/guardianService";
+import { getLoyalty, redeemLoyaltyReward, type LoyaltySummary } from "@/services/loyaltyService";
+import SpendingLimitsForm from "@/components/SpendingLimitsForm";
+import { addDays, istDateKey } from "@/lib/ist-date";
+import { daysToStreakBonus, describeReward, RUPEES_PER_POINT, STREAK_BONUS_POINTS } from "@/lib/loyalty";
+import { describePromotion } from "@/lib/promotions";
+import type { SpendingLimits } from "@/types";
 
 interface ProfileItem {
     label: string;
@@ -25,6 +33,317 @@ interface ProfileSection {
     items: ProfileItem[];
 }
 
+/** Set a first PIN, or change it with the current one */
+function TransactionPinCard() {
+    const { profile, getIdToken, setPinVerified } = useAuth();
+    const [currentPin, setCurrentPin] = useState("");
+    const [newPin, setNewPin] = useState("");
+    const [saving, setSaving] = useState(false);
+    const hasPin = !!profile?.pinHash;
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!/^\d{4}$/.test(newPin) || (hasPin && !/^\d{4}$/.test(currentPin))) {
+            toast.error("PINs must be 4 digits");
+            return;
+        }
+
+        setSaving(true);
+        try {
+            const token = await getIdToken();
+            if (!token) return;
+            const result = await updatePin(token, hasPin
+                ? { action: "change", pin: newPin, currentPin }
+                : { action: "set", pin: newPin });
+            if (result.success) {
+                // Just proved the PIN — don't bounce to the lock screen
+                setPinVerified(true);
+                toast.success(hasPin ? "PIN changed 🔐" : "PIN set 🔐");
+                setCurrentPin("");
+                setNewPin("");
+            } else {
+                toast.error(result.error || "Failed to update PIN");
+            }
+        } catch {
+            toast.error("Failed to update PIN");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const pinInput = "flex-1 min-w-0 bg-white/[0.03] border border-white/[0.08] p-3 rounded-xl text-white font-mono text-center tracking-[0.5em] outline-none focus:border-gold-400/30";
+
+    return (
+        <div className="space-y-3">
+            <h3 className="px-1 text-[10px] font-black uppercase text-zayko-600 tracking-[0.2em]">Transaction PIN</h3>
+            <form onSubmit={handleSave} className="bg-zayko-800/40 border border-white/[0.06] rounded-3xl p-5 space-y-4">
+                <p className="text-[11px] text-zayko-500 font-medium">
+                    {hasPin
+                        ? "Needed for wallet transfers and large orders. Forgot it? Sign out and back in, then use \"Forgot PIN?\" on the lock screen."
+                        : "Set a 4-digit PIN — it's required for wallet transfers and large orders."}
+                </p>
+                <div className="flex gap-3">
+                    {hasPin && (
+                        <input
+                            type="password"
+                            inputMode="numeric"
+                            maxLength={4}
+                            value={currentPin}
+                            onChange={(e) => setCurrentPin(e.target.value.replace(/\D/g, ""))}
+                            placeholder="Current"
+                            className={pinInput}
+                        />
+                    )}
+                    <input
+                        type="password"
+                        inputMode="numeric"
+                        maxLength={4}
+                        value={newPin}
+                        onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ""))}
+                        placeholder="New PIN"
+                        className={pinInput}
+                    />
+                </div>
+                <button
+                    type="submit"
+                    disabled={saving || newPin.length !== 4 || (hasPin && currentPin.length !== 4)}
+                    className="w-full py-3 bg-gold-400 text-zayko-900 rounded-xl font-bold active:scale-[0.98] disabled:opacity-40 transition-all"
+                >
+                    {saving ? "Saving..." : hasPin ? "Change PIN" : "Set PIN"}
+                </button>
+            </form>
+        </div>
+    );
+}
+
+/** Own spending limits, plus the guardian link / pending invite */
+function SpendingLimitsCard() {
+    const { getIdToken } = useAuth();
+    const [data, setData] = useState<Awaited<ReturnType<typeof getSpendingLimits>> | null>(null);
+    const [responding, setResponding] = useState(false);
+
+    const load = useCallback(async () => {
+        try {
+            const token = await getIdToken();
+            if (token) setData(await getSpendingLimits(token));
+        } catch {
+            toast.error("Failed to load spending limits");
+        }
+    }, [getIdToken]);
+
+    useEffect(() => { load(); }, [load]);
+
+    const handleSave = async (limits: SpendingLimits) => {
+        const token = await getIdToken();
+        if (!token) return;
+        const result = await updateSpendingLimits(token, limits);
+        if (result.success) {
+            toast.success("Spending limits saved");
+            await load();
+        } else {
+            toast.error(result.error || "Failed to save limits");
+        }
+    };
+
+    const handleInvite = async (action: "accept" | "decline") => {
+        setResponding(true);
+        try {
+            const token = await getIdToken();
+            if (!token) return;
+            const result = await respondToGuardianInvite(token, action);
+            if (result.success) {
+                toast.success(action === "accept" ? "Guardian linked 👪" : "Invite declined");
+                await load();
+            } else {
+                toast.error(result.error || "Failed");
+            }
+        } finally {
+            setResponding(false);
+        }
+    };
+
+    if (!data) return null;
+
+    return (
+        <div className="space-y-3">
+            <h3 className="px-1 text-[10px] font-black uppercase text-zayko-600 tracking-[0.2em]">Spending Limits</h3>
+            <div className="bg-zayko-800/40 border border-white/[0.06] rounded-3xl p-5 space-y-4">
+                {data.guardianInvite && (
+                    <div className="p-4 rounded-2xl bg-amber-400/5 border border-amber-400/20">
+                        <p className="text-sm text-white font-bold">{data.guardianInvite.guardianName} wants to be your guardian</p>
+                        <p className="text-[11px] text-zayko-400 mt-1">They&apos;ll manage your spending limits and can top up your wallet.</p>
+                        <div className="flex gap-2 mt-3">
+                            <button
+                                onClick={() => handleInvite("decline")}
+                                disabled={responding}
+                                className="flex-1 py-2 border border-white/10 text-zayko-300 rounded-xl text-xs font-bold disabled:opacity-40"
+                            >
+                                Decline
+                            </button>
+                            <button
+                                onClick={() => handleInvite("accept")}
+                                disabled={responding}
+                                className="flex-1 py-2 bg-gold-400 text-zayko-900 rounded-xl text-xs font-bold disabled:opacity-40"
+                            >
+                                Accept
+                            </button>
+                        </div>
+                    </div>
+                )}
+                <SpendingLimitsForm
+                    limits={data.limits}
+                    usage={data.usage}
+                    categories={data.categories}
+                    onSave={handleSave}
+                    readOnlyNote={data.guardian ? `Managed by your guardian, ${data.guardian.name}.` : undefined}
+                />
+            </div>
+        </div>
+    );
+}
+
+const LEDGER_PREVIEW = 5;
+
+/** Points balance, streak, reward coupons, redeemable rewards and the points ledger */
+function LoyaltyCard() {
+    const { getIdToken } = useAuth();
+    const [data, setData] = useState<LoyaltySummary | null>(null);
+    const [redeeming, setRedeeming] = useState<string | null>(null);
+    const [showAll, setShowAll] = useState(false);
+
+    const load = useCallback(async () => {
+        try {
+            const token = await getIdToken();
+            if (token) setData(await getLoyalty(token));
+        } catch {
+            toast.error("Failed to load loyalty points");
+        }
+    }, [getIdToken]);
+
+    useEffect(() => { load(); }, [load]);
+
+    const handleRedeem = async (rewardId: string, name: string, cost: number) => {
+        if (!confirm(`Spend ${cost} points on ${name}?`)) return;
+        setRedeeming(rewardId);
+        try {
+            const token = await getIdToken();
+            if (!token) return;
+            const result = await redeemLoyaltyReward(token, rewardId);
+            if (result.success && result.coupon) {
+                toast.success(`Redeemed! Use code ${result.coupon.code} at checkout 🎉`);
+                await load();
+            } else {
+                toast.error(result.error || "Failed to redeem reward");
+            }
+        } finally {
+            setRedeeming(null);
+        }
+    };
+
+    if (!data) return null;
+
+    const { account, entries, rewards, coupons } = data;
+    // A streak only survives until the end of the day after its last order
+    const streak = account.lastOrderDate && account.lastOrderDate >= addDays(istDateKey(), -1) ? account.streak : 0;
+    const visibleEntries = showAll ? entries : entries.slice(0, LEDGER_PREVIEW);
+
+    return (
+        <div className="space-y-3">
+            <h3 className="px-1 text-[10px] font-black uppercase text-zayko-600 tracking-[0.2em]">Loyalty Points</h3>
+            <div className="bg-zayko-800/40 border border-white/[0.06] rounded-3xl p-5 space-y-5">
+                <div className="flex items-end justify-between">
+                    <div>
+                        <p className="text-3xl font-display font-bold text-gold-400">{account.points}</p>
+                        <p className="text-[11px] text-zayko-500 font-medium">points · {account.lifetimePoints} earned in total</p>
+                    </div>
+                    <div className="text-right">
+                        <p className="text-sm font-bold text-white">🔥 {streak}-day streak</p>
+                        <p className="text-[11px] text-zayko-500 font-medium">
+                            {daysToStreakBonus(streak)} more day{daysToStreakBonus(streak) === 1 ? "" : "s"} to +{STREAK_BONUS_POINTS}
+                        </p>
+                    </div>
+                </div>
+                <p className="text-[11px] text-zayko-500 font-medium">
+                    Earn 1 point per ₹{RUPEES_PER_POINT} on every collected order. Order on consecutive days for streak bonuses.
+                </p>
+
+                {coupons.length > 0 && (
+                    <div className="space-y-2">
+                        <p className="text-[11px] font-bold text-zayko-400 uppercase tracking-wider">Your reward coupons</p>
+                        {coupons.map((coupon) => (
+                            <div key={coupon.id} className="flex items-center justify-between gap-3 p-3 rounded-2xl bg-gold-400/5 border border-gold-400/20">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-mono font-bold text-gold-400">{coupon.code}</p>
+                                    <p className="text-[11px] text-zayko-400">
+                                        {describePromotion(coupon)} · {coupon.outletName}
+                                        {coupon.endsAt ? ` · until ${new Date(coupon.endsAt).toLocaleDateString("en-IN")}` : ""}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => {
+                                        navigator.clipboard.writeText(coupon.code || "");
+                                        toast.success("Copied to clipboard!");
+                                    }}
+                                    className="text-[10px] font-black text-gold-400 bg-gold-400/10 px-2 py-1 rounded-md active:scale-90 transition-transform"
+                                >
+                                    COPY
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div className="space-y-2">
+                    <p className="text-[11px] font-bold text-zayko-400 uppercase tracking-wider">Rewards</p>
+                    {rewards.length === 0 ? (
+                        <p className="text-[11px] text-zayko-500">No rewards to redeem right now.</p>
+                    ) : rewards.map((reward) => (
+                        <div key={reward.id} className="flex items-center justify-between gap-3 p-3 rounded-2xl bg-white/[0.03] border border-white/[0.05]">
+                            <div className="min-w-0">
+                                <p className="text-sm font-bold text-white">{reward.name}</p>
+                                <p className="text-[11px] text-zayko-500">
+                                    {reward.description || describeReward(reward)} · {reward.outletName}
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => handleRedeem(reward.id, reward.name, reward.pointsCost)}
+                                disabled={redeeming !== null || account.points < reward.pointsCost}
+                                className="shrink-0 px-3 py-2 bg-gold-400 text-zayko-900 rounded-xl text-xs font-bold disabled:opacity-40"
+                            >
+                                {redeeming === reward.id ? "..." : `${reward.pointsCost} pts`}
+                            </button>
+                        </div>
+                    ))}
+                </div>
+
+                {entries.length > 0 && (
+                    <div className="space-y-2">
+                        <p className="text-[11px] font-bold text-zayko-400 uppercase tracking-wider">Points history</p>
+                        <div className="divide-y divide-white/[0.03]">
+                            {visibleEntries.map((entry) => (
+                                <div key={entry.id} className="flex items-center justify-between py-2">
+                                    <div>
+                                        <p className="text-xs text-white font-medium">{entry.description}</p>
+                                        <p className="text-[10px] text-zayko-600">{new Date(entry.createdAt).toLocaleString("en-IN")}</p>
+                                    </div>
+                                    <span className={`text-sm font-bold ${entry.points >= 0 ? "text-emerald-400" : "text-red-400"}`}>
+                                        {entry.points >= 0 ? "+" : ""}{entry.points}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                        {entries.length > LEDGER_PREVIEW && (
+                            <button onClick={() => setShowAll(!showAll)} className="text-[11px] font-bold text-gold-400">
+                                {showAll ? "Show less" : "Show all"}
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
+
 export default function ProfilePage() {
     const { user, profile, loading, signOut } = useAuth();
     const router = useRouter();
@@ -50,6 +369,7 @@ export default function ProfilePage() {
                 { label: "My Orders", icon: "📋", href: "/orders", detail: "Track & manage orders" },
                 { label: "My Daily Needs", icon: "🍱", href: "/dashboard/my-daily-needs", detail: "Recurring meal plans" },
                 { label: "Wallet & Payments", icon: "💰", href: "/wallet", detail: `Balance: ₹${profile.walletBalance}` },
+                { label: "Guardian Dashboard", icon: "👪", href: "/guardian", detail: "Top up & set limits for a student" },
             ]
         },
         {
@@ -158,6 +478,12 @@ export default function ProfilePage() {
                     </div>
                 ))}
 
+                <LoyaltyCard />
+
+                <TransactionPinCard />
+
+                <SpendingLimitsCard />
+
                 {/* Logout Button */}
                 <button
                     onClick={signOut}
@@ -1,21 +1,36 @@
 /**
  * Wallet Page — View balance + transaction history
  * Refactored for Premium Mobile UI (Dark Theme)
+ *
+ * /wallet?split=<order doc id> opens the Transfer tab in request mode to
+ * split that order with classmates.
  */
 
 "use client";
-import React, { useEffect, useState } from "react";
+import React, { Suspense, useCallback, useEffect, useState } from "react";
 import { useAuth } from "@/context/AuthContext";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import { db } from "@/lib/firebase";
-import { collection, onSnapshot, query, where, orderBy, limit } from "firebase/firestore";
+import { collection, doc, getDoc, onSnapshot, query, where, orderBy, limit } from "firebase/firestore";
 import toast from "react-hot-toast";
 import { motion, AnimatePresence } from "framer-motion";
+import {
+    createMoneyRequest,
+    getMoneyRequests,
+    getWithdrawals,
+    requestWithdrawal,
+    respondToMoneyRequest,
+    transferByCode,
+} from "@/services/walletService";
+import { checkoutWalletTopUp } from "@/services/paymentService";
+import type { MoneyRequest, MoneyRequestStatus, Withdrawal, WithdrawalStatus } from "@/types";
 
 interface Transaction {
     id: string;
-    type: "topup" | "transfer" | "payment" | "credit" | "debit" | "refund";
+    type: "topup" | "transfer" | "payment" | "refund" | "adjustment" | "withdrawal" | "credit" | "debit"; // credit/debit: legacy entries
+    direction?: "credit" | "debit";
     amount: number;
+    balanceAfter?: number;
     description: string;
     fromUserId?: string;
     toUserId?: string;
@@ -23,9 +38,47 @@ interface Transaction {
     createdAt: string;
 }
 
+/** Ledger entries carry a direction; older ones are inferred from type */
+function isCreditEntry(txn: Transaction, uid?: string): boolean {
+    if (txn.direction) return txn.direction === "credit";
+    return txn.type === "topup" || txn.type === "credit" || txn.type === "refund" || (txn.type === "transfer" && txn.toUserId === uid);
+}
+
+const WITHDRAWAL_BADGES: Record<WithdrawalStatus, string> = {
+    requested: "bg-amber-400/10 text-amber-400 border-amber-400/20",
+    processing: "bg-blue-400/10 text-blue-400 border-blue-400/20",
+    completed: "bg-emerald-400/10 text-emerald-400 border-emerald-400/20",
+    rejected: "bg-red-400/10 text-red-400 border-red-400/20",
+    failed: "bg-red-400/10 text-red-400 border-red-400/20",
+};
+
+const REQUEST_BADGES: Record<MoneyRequestStatus, string> = {
+    pending: "bg-amber-400/10 text-amber-400 border-amber-400/20",
+    paid: "bg-emerald-400/10 text-emerald-400 border-emerald-400/20",
+    declined: "bg-red-400/10 text-red-400 border-red-400/20",
+    cancelled: "bg-white/5 text-zayko-400 border-white/10",
+    expired: "bg-white/5 text-zayko-400 border-white/10",
+};
+
 export default function WalletPage() {
-    const { user, profile, loading, getIdToken } = useAuth();
+    return (
+        <Suspense
+            fallback={
+                <div className="min-h-screen bg-zayko-900 flex items-center justify-center">
+                    <div className="w-10 h-10 border-4 border-gold-400 border-t-transparent rounded-full animate-spin"></div>
+                </div>
+            }
+        >
+            <WalletPageInner />
+        </Suspense>
+    );
+}
+
+function WalletPageInner() {
+    const { user, profile, loading, getIdToken, requestPinToken } = useAuth();
     const router = useRouter();
+    const searchParams = useSearchParams();
+    const splitOrderId = searchParams.get("split");
     const [transactions, setTransactions] = useState<Transaction[]>([]);
     const [txnLoading, setTxnLoading] = useState(true);
     const [topUpAmount, setTopUpAmount] = useState<string>("");
@@ -35,7 +88,19 @@ export default function WalletPage() {
     const [transferAmount, setTransferAmount] = useState("");
     const [lookupLoading, setLookupLoading] = useState(false);
     const [transferring, setTransferring] = useState(false);
-    const [activeTab, setActiveTab] = useState<"history" | "transfer" | "add">("history");
+    const [activeTab, setActiveTab] = useState<"history" | "transfer" | "add" | "withdraw">("history");
+    const [withdrawals, setWithdrawals] = useState<Withdrawal[]>([]);
+    const [withdrawAmount, setWithdrawAmount] = useState("");
+    const [withdrawing, setWithdrawing] = useState(false);
+    const [transferMode, setTransferMode] = useState<"send" | "request">("send");
+    const [requestCodes, setRequestCodes] = useState("");
+    const [requestAmount, setRequestAmount] = useState("");
+    const [requestNote, setRequestNote] = useState("");
+    const [splitOrder, setSplitOrder] = useState<{ id: string; orderId: string; total: number } | null>(null);
+    const [requesting, setRequesting] = useState(false);
+    const [incomingRequests, setIncomingRequests] = useState<MoneyRequest[]>([]);
+    const [outgoingRequests, setOutgoingRequests] = useState<MoneyRequest[]>([]);
+    const [respondingId, setRespondingId] = useState<string | null>(null);
 
     useEffect(() => {
         if (!loading && !user) router.push("/auth");
@@ -70,79 +135,175 @@ export default function WalletPage() {
         return () => unsubscribe();
     }, [user]);
 
-    const handleTopUp = async (amount: number) => {
-        if (!amount || amount < 1) {
+    const loadMoneyRequests = useCallback(async () => {
+        try {
+            const token = await getIdToken();
+            if (!token) return;
+            const { incoming, outgoing } = await getMoneyRequests(token);
+            setIncomingRequests(incoming);
+            setOutgoingRequests(outgoing);
+        } catch {
+            toast.error("Failed to load money requests");
+        }
+    }, [getIdToken]);
+
+    useEffect(() => {
+        if (user) loadMoneyRequests();
+    }, [user, loadMoneyRequests]);
+
+    // ?split=<order doc id> → request mode prefilled from the order
+    useEffect(() => {
+        if (!user || !splitOrderId) return;
+        setActiveTab("transfer");
+        setTransferMode("request");
+        getDoc(doc(db, "orders", splitOrderId))
+            .then((snap) => {
+                const order = snap.data();
+                if (!snap.exists() || !order || order.userId !== user.uid) {
+                    toast.error("Order not found");
+                    return;
+                }
+                setSplitOrder({ id: snap.id, orderId: order.orderId, total: order.total });
+            })
+            .catch(() => toast.error("Failed to load order"));
+    }, [user, splitOrderId]);
+
+    const requestCodeList = requestCodes.split(/[\s,]+/).map((c) => c.trim().toUpperCase()).filter(Boolean);
+    const splitShare = splitOrder && requestCodeList.length > 0
+        ? Math.round((splitOrder.total / (requestCodeList.length + 1)) * 100) / 100
+        : null;
+
+    const handleCreateRequest = async () => {
+        if (requestCodeList.length === 0) {
+            toast.error("Add at least one classmate's code");
+            return;
+        }
+        const amount = Number(requestAmount);
+        if (!splitOrder && (!amount || amount < 1)) {
             toast.error("Please enter a valid amount");
             return;
         }
 
-        setProcessing(true);
+        setRequesting(true);
         try {
             const token = await getIdToken();
-            const orderRes = await fetch("/api/razorpay/create-order", {
-                method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                    Authorization: `Bearer ${token}`,
-                },
-                body: JSON.stringify({ amount }),
+            if (!token) throw new Error("Please sign in again");
+            const result = await createMoneyRequest(token, {
+                codes: requestCodeList,
+                ...(splitOrder ? { orderId: splitOrder.id } : { amount }),
+                ...(requestNote.trim() && { note: requestNote.trim() }),
             });
+            if (result.success && result.requests) {
+                toast.success(`Requested ₹${result.requests[0].amount} from ${result.requests.length} classmate${result.requests.length > 1 ? "s" : ""}`);
+                setOutgoingRequests((prev) => [...result.requests!, ...prev]);
+                setRequestCodes(""); setRequestAmount(""); setRequestNote(""); setSplitOrder(null);
+                if (splitOrderId) router.replace("/wallet");
+            } else {
+                toast.error(result.error || "Request failed");
+            }
+        } catch (err: any) {
+            toast.error(err.message || "Request failed");
+        } finally {
+            setRequesting(false);
+        }
+    };
+
+    const handleRespond = async (request: MoneyRequest, action: "pay" | "decline" | "cancel") => {
+        setRespondingId(request.id);
+        try {
+            const token = await getIdToken();
+            if (!token) return;
+            let data;
+            if (action === "pay") {
+                // Paying is a transfer — same PIN token + stale-token retry
+                let pinToken = await requestPinToken();
+                if (!pinToken) return;
+                data = await respondToMoneyRequest(token, request.id, action, pinToken);
+                if (data.code === "PIN_REQUIRED") {
+                    pinToken = await requestPinToken({ fresh: true });
+                    if (!pinToken) return;
+                    data = await respondToMoneyRequest(token, request.id, action, pinToken);
+                }
+            } else {
+                data = await respondToMoneyRequest(token, request.id, action);
+            }
+
+            if (data.success) {
+                toast.success(
+                    action === "pay" ? `Paid ₹${request.amount} to ${request.requesterName.split(" ")[0]} 🚀`
+                        : action === "decline" ? "Request declined" : "Request cancelled"
+                );
+            } else {
+                toast.error(data.error || "Failed");
+            }
+            await loadMoneyRequests();
+        } catch {
+            toast.error("Something went wrong");
+        } finally {
+            setRespondingId(null);
+        }
+    };
 
-            const orderData = await orderRes.json();
-            if (!orderRes.ok) throw new Error(orderData.error);
+    // Withdrawal history is fetched when the tab opens
+    useEffect(() => {
+        if (!user || activeTab !== "withdraw") return;
+        let cancelled = false;
+        getIdToken()
+            .then((token) => (token ? getWithdrawals(token) : []))
+            .then((list) => { if (!cancelled) setWithdrawals(list); })
+            .catch(() => toast.error("Failed to load withdrawals"));
+        return () => { cancelled = true; };
+    }, [user, activeTab, getIdToken]);
 
-            const options = {
-                key: process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID,
-                amount: orderData.amount,
-                currency: orderData.currency,
-                name: "Zayko",
-                description: "Wallet Top-up",
-                order_id: orderData.orderId,
-                handler: async (response: any) => {
-                    setProcessing(true);
-                    try {
-                        const verifyRes = await fetch("/api/razorpay/verify", {
-                            method: "POST",
-                            headers: {
-                                "Content-Type": "application/json",
-                                Authorization: `Bearer ${token}`,
-                            },
-                            body: JSON.stringify({
-                                razorpay_order_id: response.razorpay_order_id,
-                                razorpay_payment_id: response.razorpay_payment_id,
-                                razorpay_signature: response.razorpay_signature,
-                            }),
-                        });
-
-                        const verifyData = await verifyRes.json();
-                        if (verifyRes.ok) {
-                            toast.success("Wallet topped up successfully! 🎉");
-                            setTopUpAmount("");
-                            setActiveTab("history");
-                        } else {
-                            throw new Error(verifyData.error);
-                        }
-                    } catch (err: any) {
-                        toast.error(err.message || "Payment verification failed");
-                    } finally {
-                        setProcessing(false);
-                    }
-                },
-                prefill: {
-                    name: profile?.name,
-                    email: profile?.email,
-                },
-                theme: { color: "#fbbf24" },
-                modal: { ondismiss: () => setProcessing(false) },
-            };
-
-            if (!(window as any).Razorpay) {
-                throw new Error("Razorpay SDK not loaded. Please refresh.");
+    const handleWithdraw = async () => {
+        const amount = withdrawAmount ? Number(withdrawAmount) : undefined;
+        if (amount !== undefined && (!amount || amount < 1)) {
+            toast.error("Please enter a valid amount");
+            return;
+        }
+
+        setWithdrawing(true);
+        try {
+            const token = await getIdToken();
+            if (!token) throw new Error("Please sign in again");
+            const result = await requestWithdrawal(token, amount);
+            if (result.success && result.withdrawal) {
+                toast.success(`Withdrawal of ₹${result.withdrawal.amount} requested`);
+                setWithdrawals((prev) => [result.withdrawal!, ...prev]);
+                setWithdrawAmount("");
+            } else {
+                toast.error(result.error || "Withdrawal request failed");
             }
-            const rzp = new (window as any).Razorpay(options);
-            rzp.open();
         } catch (err: any) {
-            toast.error(err.message || "Failed to initiate payment");
+            toast.error(err.message || "Withdrawal request failed");
+        } finally {
+            setWithdrawing(false);
+        }
+    };
+
+    const handleTopUp = async (amount: number) => {
+        if (!amount || amount < 1) {
+            toast.error("Please enter a valid amount");
+            return;
+        }
+
+        setProcessing(true);
+        try {
+            const token = await getIdToken();
+            if (!token) return;
+            const paid = await checkoutWalletTopUp(token, {
+                amount,
+                description: "Wallet Top-up",
+                prefill: { name: profile?.name, email: profile?.email },
+            });
+            if (paid) {
+                toast.success("Wallet topped up successfully! 🎉");
+                setTopUpAmount("");
+                setActiveTab("history");
+            }
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Payment failed");
+        } finally {
             setProcessing(false);
         }
     };
@@ -156,6 +317,7 @@ export default function WalletPage() {
     }
 
     const balance = profile?.walletBalance || 0;
+    const pendingIncoming = incomingRequests.filter((r) => r.status === "pending");
 
     return (
         <div className="min-h-screen bg-zayko-900 pb-28 md:pb-24">
@@ -198,6 +360,7 @@ export default function WalletPage() {
                         { id: "history", label: "History", icon: "📊" },
                         { id: "transfer", label: "Transfer", icon: "💸" },
                         { id: "add", label: "Add Cash", icon: "➕" },
+                        { id: "withdraw", label: "Withdraw", icon: "🏦" },
                     ].map((tab) => (
                         <button
                             key={tab.id}
@@ -214,6 +377,41 @@ export default function WalletPage() {
             </div>
 
             <div className="px-4 py-8 max-w-xl mx-auto">
+                {pendingIncoming.length > 0 && (
+                    <div className="mb-6 space-y-3">
+                        <h3 className="text-[10px] text-amber-400 font-black uppercase tracking-widest">Requests for you</h3>
+                        {pendingIncoming.map((r) => (
+                            <div key={r.id} className="bg-amber-400/5 border border-amber-400/20 p-4 rounded-2xl">
+                                <div className="flex items-center justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <p className="font-bold text-sm text-white truncate">{r.requesterName} requests ₹{r.amount}</p>
+                                        {r.note && <p className="text-xs text-zayko-400 truncate mt-0.5">{r.note}</p>}
+                                        <p className="text-[10px] text-zayko-500 font-bold uppercase tracking-tight mt-0.5">
+                                            Expires {new Date(r.expiresAt).toLocaleDateString([], { month: "short", day: "numeric" })}
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-2 shrink-0">
+                                        <button
+                                            onClick={() => handleRespond(r, "decline")}
+                                            disabled={respondingId === r.id}
+                                            className="px-3 py-2 border border-white/10 text-zayko-300 rounded-xl text-xs font-bold active:scale-95 transition-all disabled:opacity-30"
+                                        >
+                                            Decline
+                                        </button>
+                                        <button
+                                            onClick={() => handleRespond(r, "pay")}
+                                            disabled={respondingId === r.id || balance < r.amount}
+                                            className="px-4 py-2 bg-emerald-500 text-zayko-950 rounded-xl text-xs font-bold active:scale-95 transition-all disabled:opacity-30"
+                                        >
+                                            {respondingId === r.id ? "..." : "Pay"}
+                                        </button>
+                                    </div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
                 <AnimatePresence mode="wait">
                     {/* ADD CASH TAB */}
                     {activeTab === "add" && (
@@ -270,6 +468,19 @@ export default function WalletPage() {
                             exit={{ opacity: 0, y: -10 }}
                             className="space-y-6"
                         >
+                            <div className="flex bg-white/[0.03] border border-white/[0.06] rounded-2xl p-1">
+                                {(["send", "request"] as const).map((mode) => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => setTransferMode(mode)}
+                                        className={`flex-1 py-2.5 rounded-xl text-xs font-bold uppercase tracking-widest transition-all ${transferMode === mode ? "bg-gold-400 text-zayko-900" : "text-zayko-500"}`}
+                                    >
+                                        {mode === "send" ? "Send" : "Request / Split"}
+                                    </button>
+                                ))}
+                            </div>
+
+                            {transferMode === "send" ? (
                             <div className="bg-zayko-800/40 border border-white/[0.06] p-6 rounded-3xl">
                                 <h3 className="text-sm font-bold text-white mb-4">Transfer to Student</h3>
                                 <div className="space-y-4">
@@ -330,19 +541,23 @@ export default function WalletPage() {
                                             setTransferring(true);
                                             try {
                                                 const token = await getIdToken();
-                                                const res = await fetch("/api/wallet/transfer", {
-                                                    method: "POST",
-                                                    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
-                                                    body: JSON.stringify({ recipientCode, amount: amt }),
-                                                });
-                                                const data = await res.json();
-                                                if (res.ok) {
+                                                if (!token) return;
+                                                // Transfers always need a PIN token — retry once if the cached one went stale
+                                                let pinToken = await requestPinToken();
+                                                if (!pinToken) return;
+                                                let data = await transferByCode(token, recipientCode, amt, pinToken);
+                                                if (data.code === "PIN_REQUIRED") {
+                                                    pinToken = await requestPinToken({ fresh: true });
+                                                    if (!pinToken) return;
+                                                    data = await transferByCode(token, recipientCode, amt, pinToken);
+                                                }
+                                                if (data.success) {
                                                     toast.success("Sent successfully! 🚀");
                                                     setRecipientCode(""); setRecipientName(null); setTransferAmount("");
                                                     setActiveTab("history");
                                                 } else toast.error(data.error || "Failed");
                                             } catch { toast.error("Transfer failed"); }
-                                            setTransferring(false);
+                                            finally { setTransferring(false); }
                                         }}
                                         disabled={transferring || !recipientName || !transferAmount}
                                         className="w-full py-4 bg-emerald-500 text-zayko-950 rounded-2xl font-bold active:scale-[0.98] disabled:opacity-30 transition-all font-display shadow-lg shadow-emerald-500/10 mt-4"
@@ -351,6 +566,160 @@ export default function WalletPage() {
                                     </button>
                                 </div>
                             </div>
+                            ) : (
+                            <>
+                                <div className="bg-zayko-800/40 border border-white/[0.06] p-6 rounded-3xl">
+                                    <h3 className="text-sm font-bold text-white mb-4">{splitOrder ? `Split Order #${splitOrder.orderId}` : "Request Money"}</h3>
+                                    <div className="space-y-4">
+                                        <div>
+                                            <label className="text-[10px] text-zayko-500 font-black uppercase tracking-widest mb-2 block">Classmates&apos; Unique Codes</label>
+                                            <input
+                                                type="text"
+                                                value={requestCodes}
+                                                onChange={(e) => setRequestCodes(e.target.value.toUpperCase())}
+                                                placeholder="e.g. XYZA12, PQRS34"
+                                                className="w-full bg-white/[0.03] border border-white/[0.08] p-4 rounded-xl text-white font-bold uppercase tracking-widest outline-none focus:border-gold-400/30 transition-all"
+                                            />
+                                        </div>
+                                        {splitOrder ? (
+                                            <div className="p-4 rounded-xl bg-gold-400/5 border border-gold-400/20 text-xs text-zayko-300">
+                                                Order total <span className="font-bold text-white">₹{splitOrder.total}</span>
+                                                {splitShare !== null
+                                                    ? <> split {requestCodeList.length + 1} ways — each classmate pays <span className="font-bold text-gold-400">₹{splitShare}</span></>
+                                                    : " — add codes to see each share"}
+                                            </div>
+                                        ) : (
+                                            <div>
+                                                <label className="text-[10px] text-zayko-500 font-black uppercase tracking-widest mb-2 block">Amount Each</label>
+                                                <input
+                                                    type="number"
+                                                    value={requestAmount}
+                                                    onChange={(e) => setRequestAmount(e.target.value)}
+                                                    placeholder="₹ 0"
+                                                    className="w-full bg-white/[0.03] border border-white/[0.08] p-4 rounded-xl text-white font-bold text-xl outline-none focus:border-gold-400/30"
+                                                />
+                                            </div>
+                                        )}
+                                        <input
+                                            type="text"
+                                            value={requestNote}
+                                            onChange={(e) => setRequestNote(e.target.value)}
+                                            placeholder={splitOrder ? `Split: Order #${splitOrder.orderId}` : "What's it for? (optional)"}
+                                            maxLength={100}
+                                            className="w-full bg-white/[0.03] border border-white/[0.08] p-4 rounded-xl text-white text-sm outline-none focus:border-gold-400/30"
+                                        />
+                                        <button
+                                            onClick={handleCreateRequest}
+                                            disabled={requesting || requestCodeList.length === 0 || (!splitOrder && !requestAmount)}
+                                            className="w-full py-4 bg-gold-400 text-zayko-900 rounded-2xl font-bold active:scale-[0.98] disabled:opacity-30 transition-all font-display mt-4"
+                                        >
+                                            {requesting ? "Requesting..." : splitOrder ? "Send Split Requests 🤝" : "Send Request 🤝"}
+                                        </button>
+                                        {splitOrder && (
+                                            <button
+                                                onClick={() => { setSplitOrder(null); router.replace("/wallet"); }}
+                                                className="w-full text-[10px] font-bold text-zayko-500 uppercase tracking-wider"
+                                            >
+                                                Request a custom amount instead
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+
+                                {outgoingRequests.length > 0 && (
+                                    <div className="space-y-3">
+                                        <h3 className="text-[10px] text-zayko-500 font-black uppercase tracking-widest">Your Requests</h3>
+                                        {outgoingRequests.map((r) => (
+                                            <div key={r.id} className="bg-zayko-800/40 border border-white/[0.06] p-4 rounded-2xl flex items-center justify-between gap-3">
+                                                <div className="min-w-0">
+                                                    <p className="font-bold text-sm text-white truncate">₹{r.amount} from {r.payerName}</p>
+                                                    <p className="text-[10px] text-zayko-500 font-bold uppercase tracking-tight mt-0.5 truncate">
+                                                        {new Date(r.createdAt).toLocaleDateString([], { month: "short", day: "numeric" })}{r.note && ` • ${r.note}`}
+                                                    </p>
+                                                </div>
+                                                <div className="flex items-center gap-2 shrink-0">
+                                                    <span className={`px-2.5 py-1 rounded-full border text-[10px] font-black uppercase tracking-wider ${REQUEST_BADGES[r.status]}`}>
+                                                        {r.status}
+                                                    </span>
+                                                    {r.status === "pending" && (
+                                                        <button
+                                                            onClick={() => handleRespond(r, "cancel")}
+                                                            disabled={respondingId === r.id}
+                                                            className="text-[10px] font-bold text-red-400 uppercase disabled:opacity-30"
+                                                        >
+                                                            Cancel
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </>
+                            )}
+                        </motion.div>
+                    )}
+
+                    {/* WITHDRAW TAB */}
+                    {activeTab === "withdraw" && (
+                        <motion.div
+                            key="withdraw"
+                            initial={{ opacity: 0, y: 10 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0, y: -10 }}
+                            className="space-y-6"
+                        >
+                            <div className="bg-zayko-800/40 border border-white/[0.06] p-6 rounded-3xl">
+                                <h3 className="text-sm font-bold text-white mb-2">Refund to Original Payment</h3>
+                                <p className="text-xs text-zayko-400 mb-5">
+                                    Money you topped up via Razorpay is refunded to the same UPI / card, oldest top-up first.
+                                    The amount is held from your wallet until the canteen approves it.
+                                </p>
+                                <div className="relative">
+                                    <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gold-400 font-bold text-xl">₹</span>
+                                    <input
+                                        type="number"
+                                        value={withdrawAmount}
+                                        onChange={(e) => setWithdrawAmount(e.target.value)}
+                                        placeholder="Leave empty for full balance"
+                                        className="w-full bg-white/[0.03] border border-white/[0.08] rounded-2xl py-4 pl-10 pr-4 text-white focus:outline-none focus:ring-2 focus:ring-gold-400/30 font-bold text-lg"
+                                        disabled={withdrawing}
+                                    />
+                                </div>
+                                <button
+                                    onClick={handleWithdraw}
+                                    disabled={withdrawing || balance < 1}
+                                    className="w-full mt-6 py-4 bg-gold-400 text-zayko-900 rounded-2xl font-display font-bold text-lg active:scale-[0.98] disabled:opacity-50 transition-all"
+                                >
+                                    {withdrawing ? "Requesting..." : withdrawAmount ? `Withdraw ₹${withdrawAmount}` : "Withdraw Full Balance"}
+                                </button>
+                            </div>
+
+                            {withdrawals.length > 0 && (
+                                <div className="space-y-3">
+                                    {withdrawals.map((w) => (
+                                        <div key={w.id} className="bg-zayko-800/40 border border-white/[0.06] p-4 rounded-2xl">
+                                            <div className="flex items-center justify-between">
+                                                <div>
+                                                    <p className="font-display font-bold text-white text-lg">₹{w.amount}</p>
+                                                    <p className="text-[10px] text-zayko-500 font-bold uppercase tracking-tight mt-0.5">
+                                                        {new Date(w.requestedAt).toLocaleDateString([], { month: "short", day: "numeric" })}
+                                                    </p>
+                                                </div>
+                                                <span className={`px-2.5 py-1 rounded-full border text-[10px] font-black uppercase tracking-wider ${WITHDRAWAL_BADGES[w.status]}`}>
+                                                    {w.status}
+                                                </span>
+                                            </div>
+                                            {w.status === "completed" && w.returnedAmount > 0 && (
+                                                <p className="text-xs text-zayko-400 mt-2">₹{w.refundedAmount} refunded • ₹{w.returnedAmount} returned to wallet</p>
+                                            )}
+                                            {w.rejectionReason && (
+                                                <p className="text-xs text-red-400/80 mt-2">{w.rejectionReason}</p>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
                         </motion.div>
                     )}
 
@@ -373,7 +742,7 @@ export default function WalletPage() {
                                     <div key={txn.id} className="bg-zayko-800/40 border border-white/[0.06] p-4 rounded-2xl flex items-center justify-between hover:bg-zayko-800/60 transition-all">
                                         <div className="flex items-center gap-4">
                                             <div className={`w-12 h-12 rounded-xl flex items-center justify-center text-xl bg-white/[0.03] border border-white/[0.05]`}>
-                                                {txn.type === "topup" || txn.type === "credit" ? "💳" : txn.type === "refund" ? "🔄" : txn.type === "transfer" ? "💸" : "🍱"}
+                                                {txn.type === "topup" || txn.type === "credit" ? "💳" : txn.type === "refund" ? "🔄" : txn.type === "transfer" ? "💸" : txn.type === "withdrawal" ? "🏦" : "🍱"}
                                             </div>
                                             <div className="min-w-0">
                                                 <p className="font-bold text-sm text-white truncate max-w-[150px]">{txn.description}</p>
@@ -383,10 +752,12 @@ export default function WalletPage() {
                                             </div>
                                         </div>
                                         <div className="text-right shrink-0">
-                                            <p className={`font-display font-bold text-lg ${(txn.type === "topup" || txn.type === "credit" || txn.type === "refund" || (txn.type === "transfer" && txn.toUserId === user?.uid)) ? "text-emerald-400" : "text-white opacity-80"}`}>
-                                                {(txn.type === "topup" || txn.type === "credit" || txn.type === "refund" || (txn.type === "transfer" && txn.toUserId === user?.uid)) ? "+" : "-"}₹{txn.amount}
+                                            <p className={`font-display font-bold text-lg ${isCreditEntry(txn, user?.uid) ? "text-emerald-400" : "text-white opacity-80"}`}>
+                                                {isCreditEntry(txn, user?.uid) ? "+" : "-"}₹{txn.amount}
                                             </p>
-                                            <span className="text-[9px] font-black uppercase text-zayko-600 tracking-tighter">{txn.type}</span>
+                                            <span className="text-[9px] font-black uppercase text-zayko-600 tracking-tighter">
+                                                {txn.type}{typeof txn.balanceAfter === "number" && ` • Bal ₹${txn.balanceAfter}`}
+                                            </span>
                                         </div>
                                     </div>
                                 ))
@@ -5,11 +5,13 @@
  * - No longer trusts any string in localStorage as valid auth
  * - Calls GET /api/admin/verify to confirm JWT validity on mount
  * - Redirects to /admin login if token is invalid or expired
+ * - Pins outlet admins to their outlet (see lib/admin-auth)
  */
 
 "use client";
 import React, { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
+import { getAdminOutletId, setAdminOutlet } from "@/services/adminService";
 
 export default function AdminGuard({ children }: { children: React.ReactNode }) {
     const router = useRouter();
@@ -32,6 +34,7 @@ export default function AdminGuard({ children }: { children: React.ReactNode })
             .then((res) => res.json())
             .then((data) => {
                 if (data.valid) {
+                    setAdminOutlet(data.outletId || getAdminOutletId(), !!data.outletId);
                     setAuthorized(true);
                 } else {
                     localStorage.removeItem("adminToken");
@@ -13,6 +13,7 @@ interface OrderItem {
     name: string;
     price: number;
     quantity: number;
+    rejected?: boolean;
 }
 
 interface InvoiceOrder {
@@ -21,7 +22,10 @@ interface InvoiceOrder {
     userEmail: string;
     userRollNumber?: string;
     items: OrderItem[];
+    subtotal?: number;
+    discounts?: { label: string; code?: string; amount: number }[];
     total: number;
+    refundedAmount?: number;
     paymentMode?: string;
     status: string;
     prepTime?: number;
@@ -135,16 +139,49 @@ export default function InvoiceModal({ order, onClose }: InvoiceModalProps) {
                             </thead>
                             <tbody>
                                 {order.items.map((item, idx) => (
-                                    <tr key={idx} className="border-b border-gray-200">
+                                    <tr key={idx} className={`border-b border-gray-200 ${item.rejected ? "text-gray-400" : ""}`}>
                                         <td className="py-2.5 text-gray-600">{idx + 1}</td>
-                                        <td className="py-2.5 font-medium text-gray-800">{item.name}</td>
+                                        <td className="py-2.5 font-medium text-gray-800">
+                                            <span className={item.rejected ? "line-through text-gray-400" : ""}>{item.name}</span>
+                                            {item.rejected && <span className="ml-2 text-xs font-semibold text-red-600">Unavailable — refunded</span>}
+                                        </td>
                                         <td className="py-2.5 text-center text-gray-700">{item.quantity}</td>
                                         <td className="py-2.5 text-right text-gray-700">₹{item.price.toFixed(2)}</td>
-                                        <td className="py-2.5 text-right font-semibold text-gray-800">₹{(item.price * item.quantity).toFixed(2)}</td>
+                                        <td className={`py-2.5 text-right font-semibold ${item.rejected ? "line-through text-gray-400" : "text-gray-800"}`}>
+                                            ₹{(item.price * item.quantity).toFixed(2)}
+                                        </td>
                                     </tr>
                                 ))}
                             </tbody>
                             <tfoot>
+                                {!!order.discounts?.length && (
+                                    <>
+                                        <tr className="border-t border-gray-300">
+                                            <td colSpan={4} className="pt-3 text-right text-gray-600 text-sm">Item Total</td>
+                                            <td className="pt-3 text-right text-gray-700">₹{(order.subtotal ?? 0).toFixed(2)}</td>
+                                        </tr>
+                                        {order.discounts.map((discount, idx) => (
+                                            <tr key={idx}>
+                                                <td colSpan={4} className="py-1 text-right text-emerald-700 text-sm">
+                                                    {discount.label}{discount.code ? ` (${discount.code})` : ""}
+                                                </td>
+                                                <td className="py-1 text-right text-emerald-700">−₹{discount.amount.toFixed(2)}</td>
+                                            </tr>
+                                        ))}
+                                    </>
+                                )}
+                                {!!order.refundedAmount && (
+                                    <>
+                                        <tr className="border-t border-gray-300">
+                                            <td colSpan={4} className="pt-3 text-right text-gray-600 text-sm">Order Amount</td>
+                                            <td className="pt-3 text-right text-gray-700">₹{(order.total + order.refundedAmount).toFixed(2)}</td>
+                                        </tr>
+                                        <tr>
+                                            <td colSpan={4} className="py-1 text-right text-red-600 text-sm">Refunded (unavailable items)</td>
+                                            <td className="py-1 text-right text-red-600">−₹{order.refundedAmount.toFixed(2)}</td>
+                                        </tr>
+                                    </>
+                                )}
                                 <tr className="border-t-2 border-gray-800">
                                     <td colSpan={4} className="py-3 text-right font-bold text-gray-900 uppercase text-sm">Total Amount</td>
                                     <td className="py-3 text-right font-bold text-lg text-gray-900">₹{order.total.toFixed(2)}</td>
@@ -4,6 +4,7 @@ import { useAuth } from "@/context/AuthContext";
 import { useCart } from "@/context/CartContext";
 import { motion, AnimatePresence } from "framer-motion";
 import toast from "react-hot-toast";
+import { getSelectedOutletId } from "@/lib/outlets";
 
 interface ChatMessage {
     role: "assistant" | "user" | "system";
@@ -13,7 +14,7 @@ interface ChatMessage {
 
 export default function JarvisChat() {
     const { user, profile, getIdToken } = useAuth();
-    const { items, total, clearCart } = useCart();
+    const { items, total, clearCart, outletId } = useCart();
     const [open, setOpen] = useState(false);
     const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [input, setInput] = useState("");
@@ -71,7 +72,8 @@ export default function JarvisChat() {
                     messages: messages.concat(userMsg ? [{ role: "user", content: userMsg, timestamp: Date.now() }] : []),
                     cart: items,
                     userProfile: profile,
-                    action: action || "chat"
+                    action: action || "chat",
+                    outletId: outletId || getSelectedOutletId(),
                 }),
             });
 
@@ -5,9 +5,12 @@ import toast from "react-hot-toast";
 import { motion, AnimatePresence } from "framer-motion";
 
 import { MenuItem, SelectedOption } from "@/types";
+import { describeComponents, isCombo } from "@/lib/combos";
 import CustomizationModal from "./CustomizationModal";
 
-export default function MenuCard({ id, name, price, category, available, quantity, preparationTime, image, description, customizations }: MenuItem & { id: string }) {
+/** `savings` — for combos, ₹ saved over ordering the components separately */
+export default function MenuCard({ id, name, price, category, available, quantity, preparationTime, image, description, customizations, outletId, type, components, savings = 0 }: MenuItem & { id: string; savings?: number }) {
+    const combo = isCombo({ type });
     const { addItem, items } = useCart();
     const cartItem = items.find((i) => i.id === id);
     const inCart = cartItem ? cartItem.quantity : 0;
@@ -34,15 +37,20 @@ export default function MenuCard({ id, name, price, category, available, quantit
     };
 
     const executeAdd = (selectedOptions?: SelectedOption[], finalPrice?: number) => {
-        addItem({
+        const added = addItem({
             id,
             name,
             price: finalPrice || price,
             maxQuantity: quantity,
             category,
             image,
-            selectedOptions
+            selectedOptions,
+            outletId,
         });
+        if (!added) {
+            toast.error("Your cart has items from another outlet — order those first or clear the cart");
+            return;
+        }
         setFlyAnim(true);
         setTimeout(() => setFlyAnim(false), 400);
         toast.success(`${name} added to cart! 🛒`, {
@@ -69,7 +77,7 @@ export default function MenuCard({ id, name, price, category, available, quantit
                         <img src={image} alt={name} className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105" loading="lazy" />
                     ) : (
                         <div className="w-full h-full flex items-center justify-center text-4xl sm:text-5xl opacity-40 group-hover:scale-105 transition-transform duration-500">
-                            {categoryEmoji}
+                            {combo ? "🍱" : categoryEmoji}
                         </div>
                     )}
 
@@ -81,6 +89,13 @@ export default function MenuCard({ id, name, price, category, available, quantit
                         ₹{price}
                     </span>
 
+                    {/* Combo badge */}
+                    {combo && (
+                        <span className="absolute top-2 left-2 px-2 py-1 rounded-lg text-[10px] sm:text-xs font-bold text-zayko-900 bg-gold-400 shadow">
+                            COMBO{savings > 0 ? ` · SAVE ₹${savings}` : ""}
+                        </span>
+                    )}
+
                     {/* Sold out overlay */}
                     <AnimatePresence>
                         {(!available || quantity <= 0) && (
@@ -104,6 +119,11 @@ export default function MenuCard({ id, name, price, category, available, quantit
                         {name}
                     </h3>
 
+                    {/* What's in the combo */}
+                    {combo && components && components.length > 0 && (
+                        <p className="text-[11px] sm:text-xs text-gold-300/80 line-clamp-2 leading-relaxed">{describeComponents(components)}</p>
+                    )}
+
                     {/* Description — hide on very small mobile for compact cards */}
                     {description && (
                         <p className="hidden sm:block text-xs text-zayko-400 line-clamp-2 leading-relaxed">{description}</p>
@@ -0,0 +1,54 @@
+"use client";
+import React from "react";
+import type { OrderStatusChange } from "@/types";
+
+interface OrderTimelineProps {
+    entries: OrderStatusChange[];
+    loading?: boolean;
+    /** Show who made each change (admin view) */
+    showActor?: boolean;
+}
+
+const dotColors: Record<string, string> = {
+    pending: "bg-amber-400",
+    confirmed: "bg-blue-400",
+    preparing: "bg-orange-400",
+    ready: "bg-emerald-400",
+    completed: "bg-gray-400",
+    cancelled: "bg-red-400",
+};
+
+export default function OrderTimeline({ entries, loading, showActor }: OrderTimelineProps) {
+    if (loading) {
+        return <p className="text-[10px] text-zayko-500 italic">Loading timeline...</p>;
+    }
+
+    if (entries.length === 0) {
+        return <p className="text-[10px] text-zayko-500 italic">No status history recorded.</p>;
+    }
+
+    return (
+        <ol className="border-l border-white/10 ml-1.5 space-y-3">
+            {entries.map((entry) => (
+                <li key={entry.id} className="relative ml-4">
+                    <span className={`absolute -left-[21px] top-1 w-2.5 h-2.5 rounded-full ${dotColors[entry.to] || "bg-zayko-500"}`} />
+                    <div className="flex flex-wrap items-baseline gap-x-2">
+                        <span className="text-xs font-bold text-white capitalize">
+                            {entry.from ? `${entry.from} → ${entry.to}` : `Order placed`}
+                        </span>
+                        <span className="text-[10px] text-zayko-500 tabular-nums">
+                            {new Date(entry.createdAt).toLocaleString([], { dateStyle: "short", timeStyle: "short" })}
+                        </span>
+                    </div>
+                    {(showActor || entry.note) && (
+                        <p className="text-[10px] text-zayko-400 mt-0.5">
+                            {showActor && <span>by {entry.changedBy} ({entry.actorRole})</span>}
+                            {showActor && entry.note && <span> · </span>}
+                            {entry.note}
+                        </p>
+                    )}
+                </li>
+            ))}
+        </ol>
+    );
+}
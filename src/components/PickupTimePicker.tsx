@@ -0,0 +1,127 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { getPickupSlots } from "@/services/orderService";
+import { formatPickupDay } from "@/lib/pickup-slots";
+import type { PickupSlot } from "@/types";
+
+interface PickupTimePickerProps {
+    /** Menu item ids in the cart — decide the outlet and the prep time */
+    itemIds: string[];
+    /** Selected slot start (ISO), null for "as soon as it's ready" */
+    value: string | null;
+    onChange: (pickupAt: string | null) => void;
+}
+
+/** "Now / Schedule" choice for the cart; hidden while the outlet doesn't take pre-orders */
+export default function PickupTimePicker({ itemIds, value, onChange }: PickupTimePickerProps) {
+    const { getIdToken } = useAuth();
+    const [enabled, setEnabled] = useState(false);
+    const [scheduling, setScheduling] = useState(!!value);
+    const [dates, setDates] = useState<string[]>([]);
+    const [date, setDate] = useState<string | undefined>();
+    const [slots, setSlots] = useState<PickupSlot[]>([]);
+    const [prepMinutes, setPrepMinutes] = useState(0);
+    const [loading, setLoading] = useState(false);
+    const itemKey = itemIds.join(",");
+
+    useEffect(() => {
+        if (!itemKey) return;
+        let cancelled = false;
+        setLoading(true);
+        (async () => {
+            try {
+                const token = await getIdToken();
+                if (!token) return;
+                const data = await getPickupSlots(token, itemKey.split(","), date);
+                if (cancelled) return;
+                setEnabled(!!data.enabled);
+                setDates(data.dates || []);
+                setSlots(data.slots || []);
+                setPrepMinutes(data.prepMinutes || 0);
+                if (data.date && data.date !== date) setDate(data.date);
+            } catch {
+                if (!cancelled) setEnabled(false);
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        })();
+        return () => { cancelled = true; };
+    }, [itemKey, date, getIdToken]);
+
+    // Drop a chosen slot that's no longer offered (cart changed, slot filled up)
+    useEffect(() => {
+        if (value && !loading && !slots.some((s) => s.at === value && s.remaining > 0)) onChange(null);
+    }, [slots, loading, value, onChange]);
+
+    if (!enabled) return null;
+
+    const chooseNow = () => {
+        setScheduling(false);
+        onChange(null);
+    };
+
+    return (
+        <div className="bg-zayko-800/20 border border-white/[0.04] p-5 rounded-3xl space-y-3">
+            <h3 className="font-display font-bold text-sm text-zayko-400 uppercase tracking-widest">Pickup Time</h3>
+            <div className="grid grid-cols-2 gap-2">
+                <button
+                    onClick={chooseNow}
+                    className={`py-2.5 rounded-xl text-xs font-bold transition-all ${!scheduling ? "bg-gold-400 text-zayko-900" : "bg-white/[0.04] text-zayko-400"}`}
+                >
+                    ⚡ As soon as ready
+                </button>
+                <button
+                    onClick={() => setScheduling(true)}
+                    className={`py-2.5 rounded-xl text-xs font-bold transition-all ${scheduling ? "bg-gold-400 text-zayko-900" : "bg-white/[0.04] text-zayko-400"}`}
+                >
+                    ⏰ Schedule
+                </button>
+            </div>
+
+            {scheduling && (
+                <div className="space-y-3">
+                    <div className="flex gap-2 overflow-x-auto scrollbar-hide">
+                        {dates.map((d) => (
+                            <button
+                                key={d}
+                                onClick={() => { setDate(d); onChange(null); }}
+                                className={`px-3 py-1.5 rounded-full text-[11px] font-bold whitespace-nowrap border transition-all ${d === date
+                                    ? "bg-gold-400/10 text-gold-400 border-gold-400/30"
+                                    : "text-zayko-400 border-white/[0.06]"
+                                    }`}
+                            >
+                                {formatPickupDay(d)}
+                            </button>
+                        ))}
+                    </div>
+
+                    {loading ? (
+                        <p className="text-xs text-zayko-500">Loading pickup times...</p>
+                    ) : slots.length === 0 ? (
+                        <p className="text-xs text-zayko-500">No pickup times left on this day.</p>
+                    ) : (
+                        <div className="grid grid-cols-4 gap-2">
+                            {slots.map((slot) => (
+                                <button
+                                    key={slot.at}
+                                    onClick={() => onChange(slot.at)}
+                                    disabled={slot.remaining === 0}
+                                    className={`py-2 rounded-xl text-xs font-bold tabular-nums transition-all disabled:opacity-30 disabled:line-through ${value === slot.at
+                                        ? "bg-gold-400 text-zayko-900"
+                                        : "bg-white/[0.04] text-white hover:bg-white/[0.08]"
+                                        }`}
+                                >
+                                    {slot.time}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    {prepMinutes > 0 && (
+                        <p className="text-[10px] text-zayko-500">Times at least {prepMinutes} min from now — the kitchen starts your order just in time. Items are reserved when you order.</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,108 @@
+/**
+ * SpendingLimitsForm — Daily / weekly ₹ caps and per-category item caps,
+ * with today's usage. Used on /profile (own limits) and /guardian.
+ * Blank fields mean "no limit".
+ */
+
+"use client";
+import React, { useEffect, useState } from "react";
+import type { CategoryDoc, SpendingLimits, SpendingUsage } from "@/types";
+
+interface SpendingLimitsFormProps {
+    limits: SpendingLimits;
+    usage: SpendingUsage;
+    categories: CategoryDoc[];
+    onSave?: (limits: SpendingLimits) => Promise<void>;
+    /** Shown instead of the save button when the limits can't be edited */
+    readOnlyNote?: string;
+}
+
+const toInput = (value?: number) => (value === undefined ? "" : String(value));
+
+export default function SpendingLimitsForm({ limits, usage, categories, onSave, readOnlyNote }: SpendingLimitsFormProps) {
+    const [daily, setDaily] = useState(toInput(limits.daily));
+    const [weekly, setWeekly] = useState(toInput(limits.weekly));
+    const [categoryCaps, setCategoryCaps] = useState<Record<string, string>>({});
+    const [saving, setSaving] = useState(false);
+    const readOnly = !!readOnlyNote || !onSave;
+
+    useEffect(() => {
+        setDaily(toInput(limits.daily));
+        setWeekly(toInput(limits.weekly));
+        setCategoryCaps(Object.fromEntries(Object.entries(limits.categories || {}).map(([slug, max]) => [slug, String(max)])));
+    }, [limits]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!onSave) return;
+        setSaving(true);
+        try {
+            const categoriesOut: Record<string, number> = {};
+            for (const [slug, value] of Object.entries(categoryCaps)) {
+                if (value.trim() !== "") categoriesOut[slug] = Number(value);
+            }
+            await onSave({
+                ...(daily.trim() && { daily: Number(daily) }),
+                ...(weekly.trim() && { weekly: Number(weekly) }),
+                categories: categoriesOut,
+            });
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const input = "w-full bg-white/[0.03] border border-white/[0.08] p-3 rounded-xl text-white font-bold outline-none focus:border-gold-400/30 disabled:opacity-60";
+    const label = "text-[10px] text-zayko-500 font-black uppercase tracking-widest mb-2 block";
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className={label}>Daily ₹</label>
+                    <input type="number" min={0} value={daily} onChange={(e) => setDaily(e.target.value)} placeholder="No limit" disabled={readOnly} className={input} />
+                    <p className="text-[10px] text-zayko-500 mt-1.5">Spent today: ₹{usage.today}</p>
+                </div>
+                <div>
+                    <label className={label}>Weekly ₹</label>
+                    <input type="number" min={0} value={weekly} onChange={(e) => setWeekly(e.target.value)} placeholder="No limit" disabled={readOnly} className={input} />
+                    <p className="text-[10px] text-zayko-500 mt-1.5">This week: ₹{usage.thisWeek}</p>
+                </div>
+            </div>
+
+            {categories.length > 0 && (
+                <div>
+                    <label className={label}>Max items per day</label>
+                    <div className="space-y-2">
+                        {categories.map((cat) => (
+                            <div key={cat.slug} className="flex items-center gap-3">
+                                <span className="flex-1 text-sm text-white truncate">{cat.name}</span>
+                                <span className="text-[10px] text-zayko-500 shrink-0">{usage.categoriesToday[cat.slug] || 0} today</span>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={categoryCaps[cat.slug] ?? ""}
+                                    onChange={(e) => setCategoryCaps((prev) => ({ ...prev, [cat.slug]: e.target.value }))}
+                                    placeholder="—"
+                                    disabled={readOnly}
+                                    className="w-20 bg-white/[0.03] border border-white/[0.08] p-2 rounded-lg text-white text-center font-bold outline-none focus:border-gold-400/30 disabled:opacity-60"
+                                />
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {readOnly ? (
+                readOnlyNote && <p className="text-[11px] text-zayko-500">{readOnlyNote}</p>
+            ) : (
+                <button
+                    type="submit"
+                    disabled={saving}
+                    className="w-full py-3 bg-gold-400 text-zayko-900 rounded-xl font-bold active:scale-[0.98] disabled:opacity-40 transition-all"
+                >
+                    {saving ? "Saving..." : "Save Limits"}
+                </button>
+            )}
+        </form>
+    );
+}
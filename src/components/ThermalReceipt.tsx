@@ -2,7 +2,9 @@
  * ThermalReceipt — POS-compatible thermal receipt for admin panel.
  *
  * Supports 58mm and 80mm thermal printers.
- * Features: QR code, GST breakdown, monospace layout, print & PDF.
+ * Features: QR code, GST breakdown, discount lines, monospace layout, print & PDF.
+ * GST is included in what was charged, so it's worked out from the
+ * total after discounts.
  */
 
 "use client";
@@ -13,6 +15,7 @@ interface OrderItem {
     name: string;
     price: number;
     quantity: number;
+    rejected?: boolean;
 }
 
 interface ReceiptOrder {
@@ -22,7 +25,10 @@ interface ReceiptOrder {
     userPhone?: string;
     userRollNumber?: string;
     items: OrderItem[];
+    subtotal?: number;
+    discounts?: { label: string; code?: string; amount: number }[];
     total: number;
+    refundedAmount?: number;
     paymentMode?: string;
     status: string;
     prepTime?: number;
@@ -188,9 +194,16 @@ export default function ThermalReceipt({ order, onClose }: ThermalReceiptProps)
                         const itemTotal = item.price * item.quantity;
                         const name = truncate(item.name, 18);
                         const qtyStr = `x${item.quantity}`;
-                        const amtStr = `₹${itemTotal}`;
+                        const amtStr = item.rejected ? "REFUND" : `₹${itemTotal}`;
                         return (
-                            <pre key={idx} style={{ fontSize: "11px", margin: "1px 0" }}>
+                            <pre
+                                key={idx}
+                                style={{
+                                    fontSize: "11px",
+                                    margin: "1px 0",
+                                    ...(item.rejected && { color: "#999", textDecoration: "line-through" }),
+                                }}
+                            >
                                 {padLine(name, `${qtyStr}  ${amtStr}`)}
                             </pre>
                         );
@@ -200,8 +213,21 @@ export default function ThermalReceipt({ order, onClose }: ThermalReceiptProps)
 
                     {/* ── Totals ── */}
                     <div style={{ fontSize: "11px" }}>
+                        {!!order.discounts?.length && (
+                            <>
+                                <pre style={{ margin: "1px 0" }}>{padLine("Item total", `₹${(order.subtotal ?? 0).toFixed(2)}`)}</pre>
+                                {order.discounts.map((discount, idx) => (
+                                    <pre key={idx} style={{ margin: "1px 0" }}>
+                                        {padLine(truncate(discount.code || discount.label, 20), `-₹${discount.amount.toFixed(2)}`)}
+                                    </pre>
+                                ))}
+                            </>
+                        )}
                         <pre style={{ margin: "1px 0" }}>{padLine("Subtotal", `₹${baseAmount.toFixed(2)}`)}</pre>
                         <pre style={{ margin: "1px 0", color: "#666" }}>{padLine("GST @5%", `₹${gstAmount.toFixed(2)}`)}</pre>
+                        {!!order.refundedAmount && (
+                            <pre style={{ margin: "1px 0", color: "#666" }}>{padLine("Refunded", `-₹${order.refundedAmount.toFixed(2)}`)}</pre>
+                        )}
                     </div>
 
                     <pre style={{ margin: "4px 0", color: "#999", textAlign: "center", fontSize: "11px" }}>{THICK_DIVIDER}</pre>
@@ -4,6 +4,7 @@ import React, { useState, useEffect } from "react";
 import toast from "react-hot-toast";
 import { db } from "@/lib/firebase";
 import { collection, onSnapshot, query, orderBy } from "firebase/firestore";
+import { getAdminHeaders } from "@/services/adminService";
 
 /**
  * ParsedItemsPreview — Editable preview table for AI-parsed menu items.
@@ -72,13 +73,9 @@ export default function ParsedItemsPreview({ items: initialItems, onClose }: Par
 
         setSaving(true);
         try {
-            const token = localStorage.getItem("adminToken");
             const response = await fetch("/api/admin/menu/bulk", {
                 method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                    Authorization: `Bearer ${token}`,
-                },
+                headers: getAdminHeaders(),
                 body: JSON.stringify({ items }),
             });
 
@@ -4,11 +4,13 @@
  * SECURITY/UX CHANGES:
  * - Profile uses onSnapshot for REAL-TIME updates (wallet balance, etc.)
  * - Exposes getIdToken() for API calls that need Firebase ID tokens
+ * - Exposes requestPinToken() — prompts for the PIN (or reuses a token
+ *   still valid) for transfers / large orders that need X-Pin-Token
  * - No more stale wallet balance after orders
  */
 
 "use client";
-import React, { createContext, useContext, useEffect, useState, useCallback, ReactNode } from "react";
+import React, { createContext, useContext, useEffect, useRef, useState, useCallback, ReactNode } from "react";
 import { auth, db } from "@/lib/firebase";
 import {
     onAuthStateChanged,
@@ -16,6 +18,8 @@ import {
     signOut as firebaseSignOut,
 } from "firebase/auth";
 import { doc, onSnapshot } from "firebase/firestore";
+import toast from "react-hot-toast";
+import { updatePin, verifyPin } from "@/services/authService";
 
 interface UserProfile {
     uid: string;
@@ -39,6 +43,8 @@ interface AuthContextType {
     signOut: () => Promise<void>;
     refreshProfile: () => Promise<void>;
     getIdToken: () => Promise<string | null>;
+    /** PIN token for X-Pin-Token; `fresh` skips the cached one. null if cancelled. */
+    requestPinToken: (options?: { fresh?: boolean }) => Promise<string | null>;
 }
 
 const AuthContext = createContext<AuthContextType>({
@@ -50,6 +56,7 @@ const AuthContext = createContext<AuthContextType>({
     signOut: async () => { },
     refreshProfile: async () => { },
     getIdToken: async () => null,
+    requestPinToken: async () => null,
 });
 
 export function AuthProvider({ children }: { children: ReactNode }) {
@@ -57,6 +64,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     const [profile, setProfile] = useState<UserProfile | null>(null);
     const [loading, setLoading] = useState(true);
     const [isPinVerified, setPinVerified] = useState(false);
+    const pinTokenRef = useRef<{ token: string; expiresAt: number } | null>(null);
+    const [pinPrompt, setPinPrompt] = useState<((token: string | null) => void) | null>(null);
 
     // Real-time profile listener
     useEffect(() => {
@@ -96,6 +105,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setUser(null);
         setProfile(null);
         setPinVerified(false);
+        pinTokenRef.current = null;
     };
 
     const getIdToken = useCallback(async (): Promise<string | null> => {
@@ -107,23 +117,50 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         }
     }, [user]);
 
+    const rememberPinToken = useCallback((token: string, expiresIn: number) => {
+        pinTokenRef.current = { token, expiresAt: Date.now() + expiresIn * 1000 };
+    }, []);
+
+    const requestPinToken = useCallback(async (options?: { fresh?: boolean }): Promise<string | null> => {
+        if (!profile?.pinHash) {
+            toast.error("Set a transaction PIN in your profile first");
+            return null;
+        }
+        const cached = pinTokenRef.current;
+        // Keep a margin so the token doesn't expire in flight
+        if (!options?.fresh && cached && cached.expiresAt - Date.now() > 30_000) {
+            return cached.token;
+        }
+        return new Promise<string | null>((resolve) => setPinPrompt(() => resolve));
+    }, [profile?.pinHash]);
+
     return (
-        <AuthContext.Provider value={{ user, profile, loading, isPinVerified, setPinVerified, signOut, refreshProfile: async () => { }, getIdToken }}>
+        <AuthContext.Provider value={{ user, profile, loading, isPinVerified, setPinVerified, signOut, refreshProfile: async () => { }, getIdToken, requestPinToken }}>
             {children}
+            {pinPrompt && (
+                <PinPromptModal
+                    onDone={(token) => {
+                        pinPrompt(token);
+                        setPinPrompt(null);
+                    }}
+                    rememberPinToken={rememberPinToken}
+                />
+            )}
             {/* Global PIN Lock Screen Overlay */}
             {user && profile && profile.pinHash && !isPinVerified && (
-                <PinLockScreen />
+                <PinLockScreen rememberPinToken={rememberPinToken} />
             )}
         </AuthContext.Provider>
     );
 }
 
 // ─── PIN Lock Screen Component ─────────────────────────────────────
-function PinLockScreen() {
-    const { user, profile, setPinVerified, signOut, getIdToken } = useAuth();
+function PinLockScreen({ rememberPinToken }: { rememberPinToken: (token: string, expiresIn: number) => void }) {
+    const { profile, setPinVerified, signOut, getIdToken } = useAuth();
     const [pin, setPin] = useState("");
     const [error, setError] = useState("");
     const [verifying, setVerifying] = useState(false);
+    const [resetting, setResetting] = useState(false);
 
     const handleVerifyPin = async () => {
         if (pin.length !== 4) return;
@@ -131,20 +168,25 @@ function PinLockScreen() {
         setError("");
         try {
             const token = await getIdToken();
-            const res = await fetch("/api/users/verify-pin", {
-                method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                    Authorization: `Bearer ${token}`
-                },
-                body: JSON.stringify({ pin })
-            });
-
-            if (res.ok) {
+            if (!token) throw new Error("Not signed in");
+
+            const data = resetting
+                ? await updatePin(token, { action: "reset", pin })
+                : await verifyPin(token, pin);
+
+            if (data.success && data.pinToken) {
+                rememberPinToken(data.pinToken, data.expiresIn || 0);
+                if (resetting) toast.success("PIN reset 🔐");
                 setPinVerified(true);
+            } else if ("code" in data && data.code === "REAUTH_REQUIRED") {
+                setError("For security, sign out and sign in again, then reset your PIN right away.");
+                setPin("");
             } else {
-                const data = await res.json();
-                setError(data.error || "Incorrect PIN");
+                const attemptsLeft = "attemptsLeft" in data ? data.attemptsLeft : undefined;
+                setError(
+                    (data.error || "Incorrect PIN") +
+                    (attemptsLeft !== undefined ? ` (${attemptsLeft} ${attemptsLeft === 1 ? "try" : "tries"} left)` : "")
+                );
                 setPin("");
             }
         } catch (err) {
@@ -165,8 +207,12 @@ function PinLockScreen() {
                     🔐
                 </div>
 
-                <h2 className="text-2xl font-display font-bold text-white mb-2">Welcome Back!</h2>
-                <p className="text-zayko-400 text-sm mb-8">Hello, {profile?.email}<br />Please enter your 4-digit PIN to continue.</p>
+                <h2 className="text-2xl font-display font-bold text-white mb-2">{resetting ? "Reset PIN" : "Welcome Back!"}</h2>
+                <p className="text-zayko-400 text-sm mb-8">
+                    {resetting
+                        ? <>Choose a new 4-digit PIN.<br />Works right after signing in.</>
+                        : <>Hello, {profile?.email}<br />Please enter your 4-digit PIN to continue.</>}
+                </p>
 
                 <div className="relative mb-8">
                     <input
@@ -190,6 +236,12 @@ function PinLockScreen() {
                 {error && <p className="text-red-400 text-sm mb-6 animate-shake">❌ {error}</p>}
 
                 <div className="flex flex-col gap-4">
+                    <button
+                        onClick={() => { setResetting((v) => !v); setPin(""); setError(""); }}
+                        className="text-gold-400 hover:text-gold-300 text-sm font-bold transition-colors"
+                    >
+                        {resetting ? "← Back to PIN entry" : "Forgot PIN?"}
+                    </button>
                     <button
                         onClick={signOut}
                         className="text-zayko-500 hover:text-red-400 text-sm font-bold transition-colors"
@@ -203,4 +255,79 @@ function PinLockScreen() {
     );
 }
 
+// ─── PIN Prompt (transfers / large orders) ─────────────────────────
+function PinPromptModal({
+    onDone,
+    rememberPinToken,
+}: {
+    onDone: (token: string | null) => void;
+    rememberPinToken: (token: string, expiresIn: number) => void;
+}) {
+    const { getIdToken } = useAuth();
+    const [pin, setPin] = useState("");
+    const [error, setError] = useState("");
+    const [verifying, setVerifying] = useState(false);
+
+    useEffect(() => {
+        if (pin.length !== 4) return;
+        let cancelled = false;
+
+        (async () => {
+            setVerifying(true);
+            setError("");
+            try {
+                const token = await getIdToken();
+                if (!token) throw new Error("Not signed in");
+                const data = await verifyPin(token, pin);
+                if (cancelled) return;
+                if (data.success && data.pinToken) {
+                    rememberPinToken(data.pinToken, data.expiresIn || 0);
+                    onDone(data.pinToken);
+                    return;
+                }
+                setError(
+                    (data.error || "Incorrect PIN") +
+                    (data.attemptsLeft !== undefined ? ` (${data.attemptsLeft} left)` : "")
+                );
+                setPin("");
+            } catch {
+                if (!cancelled) setError("Connection error");
+            } finally {
+                if (!cancelled) setVerifying(false);
+            }
+        })();
+
+        return () => { cancelled = true; };
+    }, [pin]);
+
+    return (
+        <div className="fixed inset-0 z-[9998] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6 animate-fade-in">
+            <div className="w-full max-w-xs bg-zayko-800 border border-white/[0.08] rounded-3xl p-6 text-center">
+                <p className="text-3xl mb-3">🔐</p>
+                <h3 className="text-lg font-display font-bold text-white mb-1">Confirm with PIN</h3>
+                <p className="text-zayko-400 text-xs mb-5">Enter your 4-digit PIN to continue.</p>
+                <input
+                    type="password"
+                    inputMode="numeric"
+                    autoFocus
+                    maxLength={4}
+                    value={pin}
+                    disabled={verifying}
+                    onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+                    className="w-full bg-zayko-900 border-2 border-zayko-700 text-white text-center text-3xl font-mono tracking-[0.8em] py-4 rounded-2xl focus:border-gold-400 focus:outline-none transition-all"
+                    placeholder="●●●●"
+                />
+                {error && <p className="text-red-400 text-xs mt-4">❌ {error}</p>}
+                <button
+                    onClick={() => onDone(null)}
+                    disabled={verifying}
+                    className="mt-5 w-full py-3 rounded-xl bg-white/5 text-zayko-300 text-sm font-bold hover:bg-white/10 transition-colors disabled:opacity-50"
+                >
+                    Cancel
+                </button>
+            </div>
+        </div>
+    );
+}
+
 export const useAuth = () => useContext(AuthContext);
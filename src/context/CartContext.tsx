@@ -1,37 +1,70 @@
 /**
  * CartContext — Shopping cart state management
- * 
+ *
  * UX FIX: Cart is now persisted to localStorage so items survive page refreshes.
+ * A cart holds items from one outlet only — addItem refuses the rest.
+ *
+ * Signed-in carts are also saved server-side (/api/cart → carts/{uid}) so
+ * they follow the user across devices: the browser's cart is merged in at
+ * sign-in, changes are written back (debounced), and other devices' edits
+ * arrive through an onSnapshot listener. The cart is re-checked against
+ * the menu in the background; `priceChanges` and `stockIssues` list what
+ * moved, for the cart page to show.
  */
 
 "use client";
-import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from "react";
+import React, { createContext, useContext, useState, useEffect, useMemo, useRef, ReactNode, useCallback } from "react";
+import { doc, onSnapshot } from "firebase/firestore";
+import toast from "react-hot-toast";
 
-import { CartItem, SelectedOption } from "@/types";
+import { CartItem, CartPriceChange, CartStockIssue, SelectedOption } from "@/types";
+import { db } from "@/lib/firebase";
+import { outletIdOf } from "@/lib/outlets";
+import { CART_REVALIDATE_MS, cartSignature, sameCartLine } from "@/lib/cart-sync";
+import { useAuth } from "@/context/AuthContext";
+import { getSavedCart, mergeCart, saveCart } from "@/services/cartService";
 
 interface CartContextType {
     items: CartItem[];
-    addItem: (item: Omit<CartItem, "quantity"> & { quantity?: number }) => void;
+    /** Outlet of the items in the cart, null while it's empty */
+    outletId: string | null;
+    /** False (and nothing added) when the item is from a different outlet than the cart */
+    addItem: (item: Omit<CartItem, "quantity"> & { quantity?: number }) => boolean;
     removeItem: (id: string, selectedOptions?: SelectedOption[]) => void;
     updateQuantity: (id: string, quantity: number, selectedOptions?: SelectedOption[]) => void;
     clearCart: () => void;
+    applyPriceChanges: (changes: CartPriceChange[]) => void;
+    /** Menu prices that differ from the cart's, found by the last background check */
+    priceChanges: CartPriceChange[];
+    /** Lines that are sold out or exceed the stock left */
+    stockIssues: CartStockIssue[];
+    /** Re-check the cart against the menu now (signed-in users only) */
+    revalidate: () => Promise<void>;
     total: number;
     itemCount: number;
 }
 
 const CartContext = createContext<CartContextType>({
     items: [],
-    addItem: () => { },
+    outletId: null,
+    addItem: () => false,
     removeItem: () => { },
     updateQuantity: () => { },
     clearCart: () => { },
+    applyPriceChanges: () => { },
+    priceChanges: [],
+    stockIssues: [],
+    revalidate: async () => { },
     total: 0,
     itemCount: 0,
 });
 
 const CART_STORAGE_KEY = "canteen_cart";
+const SAVE_DELAY_MS = 800;
 
 export function CartProvider({ children }: { children: ReactNode }) {
+    const { user, getIdToken } = useAuth();
+
     // UX FIX: Initialize cart from localStorage to survive page refreshes
     const [items, setItems] = useState<CartItem[]>(() => {
         if (typeof window === "undefined") return [];
@@ -42,6 +75,17 @@ export function CartProvider({ children }: { children: ReactNode }) {
             return [];
         }
     });
+    const [checkedChanges, setCheckedChanges] = useState<CartPriceChange[]>([]);
+    const [checkedStock, setCheckedStock] = useState<CartStockIssue[]>([]);
+
+    // uid whose saved cart this one is synced with — set once the sign-in merge is done
+    const [syncedUid, setSyncedUid] = useState<string | null>(null);
+    const itemsRef = useRef(items);
+    itemsRef.current = items;
+    // Signature of the cart as last saved server-side, and whether a save is queued
+    const savedSignature = useRef<string | null>(null);
+    const savePending = useRef(false);
+    const previousUid = useRef<string | null>(null);
 
     // UX FIX: Persist cart to localStorage on every change
     useEffect(() => {
@@ -52,29 +96,162 @@ export function CartProvider({ children }: { children: ReactNode }) {
         }
     }, [items]);
 
+    const applyCheck = useCallback((check: { items?: CartItem[]; changes?: CartPriceChange[]; stockIssues?: CartStockIssue[] }, replace: boolean) => {
+        if (!check.items) return;
+        const checked = check.items;
+        if (replace) {
+            savedSignature.current = cartSignature(checked);
+            setItems(checked);
+        } else {
+            // Only refresh stock limits — the lines themselves are the user's
+            setItems((prev) => prev.map((line) => {
+                const fresh = checked.find((c) => sameCartLine(c, line));
+                return fresh && fresh.maxQuantity !== line.maxQuantity ? { ...line, maxQuantity: fresh.maxQuantity } : line;
+            }));
+        }
+        setCheckedChanges(check.changes || []);
+        setCheckedStock(check.stockIssues || []);
+    }, []);
+
+    // Sign-in: merge the browser's cart into the saved one. Sign-out: the
+    // cart belonged to that account, so it's cleared from this browser.
+    useEffect(() => {
+        const uid = user?.uid ?? null;
+        if (uid === previousUid.current) return;
+        const signedOut = previousUid.current !== null && uid === null;
+        previousUid.current = uid;
+        setSyncedUid(null);
+        savedSignature.current = null;
+        setCheckedChanges([]);
+        setCheckedStock([]);
+
+        if (signedOut) {
+            setItems([]);
+            return;
+        }
+        if (!uid) return;
+
+        let cancelled = false;
+        (async () => {
+            try {
+                const token = await getIdToken();
+                if (!token || cancelled) return;
+                let check = await mergeCart(token, itemsRef.current);
+                if (!check.success) {
+                    // The browser's copy couldn't be merged (e.g. malformed) — take the saved cart
+                    console.error("Cart merge failed:", check.error);
+                    check = await getSavedCart(token);
+                }
+                if (cancelled) return;
+                applyCheck(check, true);
+                if (check.dropped) {
+                    toast(`${check.dropped} item${check.dropped === 1 ? "" : "s"} from this device didn't fit your saved cart`, { icon: "🛒" });
+                }
+                setSyncedUid(uid);
+            } catch (error) {
+                console.error("Cart sync failed:", error);
+            }
+        })();
+        return () => { cancelled = true; };
+    }, [user, getIdToken, applyCheck]);
+
+    // Live updates from the user's other devices
+    useEffect(() => {
+        if (!syncedUid) return;
+        const unsubscribe = onSnapshot(
+            doc(db, "carts", syncedUid),
+            (snapshot) => {
+                const remote = (snapshot.data()?.items as CartItem[]) || [];
+                const signature = cartSignature(remote);
+                // Ignore echoes of our own saves, and anything while a local edit is queued
+                if (savePending.current || signature === savedSignature.current) return;
+                savedSignature.current = signature;
+                setItems(remote);
+            },
+            (error) => {
+                console.error("Cart listener error:", error);
+            }
+        );
+        return () => unsubscribe();
+    }, [syncedUid]);
+
+    // Write local changes back to the saved cart
+    useEffect(() => {
+        if (!syncedUid) return;
+        const signature = cartSignature(items);
+        if (signature === savedSignature.current) return;
+
+        savePending.current = true;
+        const timer = setTimeout(async () => {
+            savedSignature.current = signature;
+            try {
+                const token = await getIdToken();
+                if (!token) return;
+                const data = await saveCart(token, items);
+                if (!data.success) {
+                    console.error("Cart save failed:", data.error);
+                    savedSignature.current = null;
+                }
+            } catch (error) {
+                console.error("Cart save failed:", error);
+                savedSignature.current = null;
+            } finally {
+                savePending.current = false;
+            }
+        }, SAVE_DELAY_MS);
+        return () => {
+            clearTimeout(timer);
+            savePending.current = false;
+        };
+    }, [items, syncedUid, getIdToken]);
+
+    const revalidate = useCallback(async () => {
+        // The saved cart is what gets checked, so wait for queued edits to land
+        if (!syncedUid || savePending.current) return;
+        try {
+            const token = await getIdToken();
+            if (!token) return;
+            applyCheck(await getSavedCart(token), false);
+        } catch (error) {
+            console.error("Cart revalidation failed:", error);
+        }
+    }, [syncedUid, getIdToken, applyCheck]);
+
+    // Background re-checks: when the tab comes back into view, and periodically
+    useEffect(() => {
+        if (!syncedUid) return;
+        const onVisible = () => {
+            if (document.visibilityState === "visible") revalidate();
+        };
+        document.addEventListener("visibilitychange", onVisible);
+        const interval = setInterval(onVisible, CART_REVALIDATE_MS);
+        return () => {
+            document.removeEventListener("visibilitychange", onVisible);
+            clearInterval(interval);
+        };
+    }, [syncedUid, revalidate]);
+
+    const outletId = items.length > 0 ? outletIdOf(items[0]) : null;
+
     const addItem = useCallback((item: Omit<CartItem, "quantity"> & { quantity?: number }) => {
+        if (outletId && outletIdOf(item) !== outletId) return false;
         setItems((prev) => {
-            const existing = prev.find((i) =>
-                i.id === item.id &&
-                JSON.stringify(i.selectedOptions) === JSON.stringify(item.selectedOptions)
-            );
+            const existing = prev.find((i) => sameCartLine(i, item));
             if (existing) {
                 if (existing.quantity >= existing.maxQuantity) return prev;
                 return prev.map((i) => (
-                    i.id === item.id &&
-                        JSON.stringify(i.selectedOptions) === JSON.stringify(item.selectedOptions)
+                    i === existing
                         ? { ...i, quantity: i.quantity + 1 }
                         : i
                 ));
             }
             return [...prev, { ...item, quantity: item.quantity || 1 }];
         });
-    }, []);
+        return true;
+    }, [outletId]);
 
     const removeItem = useCallback((id: string, selectedOptions?: SelectedOption[]) => {
-        setItems((prev) => prev.filter((i) =>
-            !(i.id === id && JSON.stringify(i.selectedOptions) === JSON.stringify(selectedOptions))
-        ));
+        setItems((prev) => prev.filter((i) => !sameCartLine(i, { id, selectedOptions })));
     }, []);
 
     const updateQuantity = useCallback((id: string, quantity: number, selectedOptions?: SelectedOption[]) => {
@@ -82,7 +259,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
             removeItem(id, selectedOptions);
         } else {
             setItems((prev) => prev.map((i) => (
-                i.id === id && JSON.stringify(i.selectedOptions) === JSON.stringify(selectedOptions)
+                sameCartLine(i, { id, selectedOptions })
                     ? { ...i, quantity: Math.min(quantity, i.maxQuantity) }
                     : i
             )));
@@ -98,11 +275,29 @@ export function CartProvider({ children }: { children: ReactNode }) {
         }
     }, []);
 
+    // Accept server prices returned in a PRICE_CHANGED response (indexes match the submitted cart)
+    const applyPriceChanges = useCallback((changes: CartPriceChange[]) => {
+        setItems((prev) => prev.map((item, idx) => {
+            const change = changes.find((c) => c.index === idx && c.id === item.id);
+            return change ? { ...item, price: change.newPrice } : item;
+        }));
+    }, []);
+
+    // Background findings, re-pointed at the current cart and dropped once resolved
+    const priceChanges = useMemo(() => checkedChanges.flatMap((change) => {
+        const index = items.findIndex((i) => sameCartLine(i, change) && i.price === change.oldPrice);
+        return index === -1 ? [] : [{ ...change, index }];
+    }), [checkedChanges, items]);
+    const stockIssues = useMemo(
+        () => checkedStock.filter((issue) => items.some((i) => sameCartLine(i, issue) && i.quantity > issue.available)),
+        [checkedStock, items]
+    );
+
     const total = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
     const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
 
     return (
-        <CartContext.Provider value={{ items, addItem, removeItem, updateQuantity, clearCart, total, itemCount }}>
+        <CartContext.Provider value={{ items, outletId, addItem, removeItem, updateQuantity, clearCart, applyPriceChanges, priceChanges, stockIssues, revalidate, total, itemCount }}>
             {children}
         </CartContext.Provider>
     );
@@ -1,6 +1,7 @@
 /**
- * useCanteenStatus — Real-time canteen config subscription.
- * Returns the current config, computed isCurrentlyOpen, and minutesUntilClose.
+ * useCanteenStatus — Real-time canteen config subscription for one outlet.
+ * Returns the current config, computed isCurrentlyOpen, minutesUntilClose
+ * and the full schedule `status` (same evaluator as order placement, IST).
  */
 
 "use client";
@@ -8,6 +9,8 @@
 import { useState, useEffect, useMemo } from "react";
 import { doc, onSnapshot } from "firebase/firestore";
 import { db } from "@/lib/firebase";
+import { canteenConfigDocId, DEFAULT_OUTLET_ID } from "@/lib/outlets";
+import { evaluateCanteenStatus } from "@/lib/canteen-schedule";
 import type { CanteenConfig } from "@/types";
 
 const DEFAULT_CONFIG: CanteenConfig = {
@@ -16,22 +19,17 @@ const DEFAULT_CONFIG: CanteenConfig = {
     endTime: "17:00",
 };
 
-export function useCanteenStatus() {
+export function useCanteenStatus(outletId: string = DEFAULT_OUTLET_ID) {
     const [config, setConfig] = useState<CanteenConfig>(DEFAULT_CONFIG);
     const [loading, setLoading] = useState(true);
-    const [currentMinutes, setCurrentMinutes] = useState(() => {
-        const now = new Date();
-        return now.getHours() * 60 + now.getMinutes();
-    });
+    const [now, setNow] = useState(() => new Date());
 
     // Real-time config listener
     useEffect(() => {
         const unsubscribe = onSnapshot(
-            doc(db, "settings", "canteenConfig"),
+            doc(db, "settings", canteenConfigDocId(outletId)),
             (docSnap) => {
-                if (docSnap.exists()) {
-                    setConfig(docSnap.data() as CanteenConfig);
-                }
+                setConfig(docSnap.exists() ? (docSnap.data() as CanteenConfig) : DEFAULT_CONFIG);
                 setLoading(false);
             },
             (error) => {
@@ -41,31 +39,21 @@ export function useCanteenStatus() {
         );
 
         return () => unsubscribe();
-    }, []);
+    }, [outletId]);
 
-    // Update current time every minute
+    // Re-evaluate every 30s so slot boundaries flip close to on time
     useEffect(() => {
-        const interval = setInterval(() => {
-            const now = new Date();
-            setCurrentMinutes(now.getHours() * 60 + now.getMinutes());
-        }, 60000);
-
+        const interval = setInterval(() => setNow(new Date()), 30_000);
         return () => clearInterval(interval);
     }, []);
 
-    const { isCurrentlyOpen, minutesUntilClose } = useMemo(() => {
-        if (!config.isOpen) return { isCurrentlyOpen: false, minutesUntilClose: 0 };
-
-        const [startH, startM] = config.startTime.split(":").map(Number);
-        const [endH, endM] = config.endTime.split(":").map(Number);
-        const startMin = startH * 60 + startM;
-        const endMin = endH * 60 + endM;
-
-        const withinHours = currentMinutes >= startMin && currentMinutes <= endMin;
-        const remaining = withinHours ? endMin - currentMinutes : 0;
-
-        return { isCurrentlyOpen: withinHours, minutesUntilClose: remaining };
-    }, [config, currentMinutes]);
+    const status = useMemo(() => evaluateCanteenStatus(config, now), [config, now]);
 
-    return { config, isCurrentlyOpen, minutesUntilClose, loading };
+    return {
+        config,
+        status,
+        isCurrentlyOpen: status.isOpen,
+        minutesUntilClose: status.minutesUntilClose,
+        loading,
+    };
 }
@@ -0,0 +1,41 @@
+/**
+ * useGroupCart — Real-time shared cart subscription via onSnapshot.
+ * Only members can read a group cart, so subscribe once joined.
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { doc, onSnapshot } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import type { GroupCart } from "@/types";
+
+export function useGroupCart(groupId: string | null, joined: boolean) {
+    const [cart, setCart] = useState<GroupCart | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        if (!groupId || !joined) {
+            setCart(null);
+            setLoading(!!groupId);
+            return;
+        }
+
+        const unsubscribe = onSnapshot(
+            doc(db, "groupCarts", groupId),
+            (snapshot) => {
+                setCart(snapshot.exists() ? ({ id: snapshot.id, ...snapshot.data() } as GroupCart) : null);
+                setLoading(false);
+            },
+            (error) => {
+                console.error("Group cart listener error:", error);
+                setCart(null);
+                setLoading(false);
+            }
+        );
+
+        return () => unsubscribe();
+    }, [groupId, joined]);
+
+    return { cart, loading };
+}
@@ -0,0 +1,53 @@
+/**
+ * useKitchenOrders — Real-time subscription to orders the kitchen still
+ * has to work on (pending / confirmed / preparing) at one outlet, in the
+ * order they should be started: pre-orders by prepStartAt, the rest by
+ * createdAt (see isPrepDue in lib/pickup-slots).
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { collection, onSnapshot, query, where, orderBy } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import type { Order, OrderStatus } from "@/types";
+
+export const KITCHEN_STATUSES: OrderStatus[] = ["pending", "confirmed", "preparing"];
+
+/** When the kitchen should start on an order */
+export function kitchenStartTime(order: Pick<Order, "createdAt" | "prepStartAt">): string {
+    return order.prepStartAt || order.createdAt;
+}
+
+export function useKitchenOrders(outletId: string) {
+    const [orders, setOrders] = useState<Order[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        const q = query(
+            collection(db, "orders"),
+            where("outletId", "==", outletId),
+            where("status", "in", KITCHEN_STATUSES),
+            orderBy("createdAt", "asc")
+        );
+
+        const unsubscribe = onSnapshot(
+            q,
+            (snapshot) => {
+                const orderList = snapshot.docs
+                    .map((doc) => ({ id: doc.id, ...doc.data() }) as Order)
+                    .sort((a, b) => kitchenStartTime(a).localeCompare(kitchenStartTime(b)));
+                setOrders(orderList);
+                setLoading(false);
+            },
+            (error) => {
+                console.error("Kitchen orders listener error:", error);
+                setLoading(false);
+            }
+        );
+
+        return () => unsubscribe();
+    }, [outletId]);
+
+    return { orders, loading };
+}
@@ -1,5 +1,6 @@
 /**
- * useMenu — Real-time menu items subscription via onSnapshot.
+ * useMenu — Real-time menu items subscription via onSnapshot. Combos come
+ * with their stock worked out from their components.
  */
 
 "use client";
@@ -7,6 +8,7 @@
 import { useState, useEffect } from "react";
 import { collection, onSnapshot, query, orderBy } from "firebase/firestore";
 import { db } from "@/lib/firebase";
+import { withComboStock } from "@/lib/combos";
 import type { MenuItem } from "@/types";
 
 export function useMenu() {
@@ -21,7 +23,7 @@ export function useMenu() {
                 const menuItems = snapshot.docs.map(
                     (doc) => ({ id: doc.id, ...doc.data() }) as MenuItem
                 );
-                setItems(menuItems);
+                setItems(withComboStock(menuItems));
                 setLoading(false);
             },
             (error) => {
@@ -0,0 +1,45 @@
+/**
+ * useOrderHistory — Real-time subscription to orders/{orderId}/statusHistory.
+ * Pass undefined to stay idle (e.g. while the timeline is collapsed).
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { collection, onSnapshot, query, orderBy } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import type { OrderStatusChange } from "@/types";
+
+export function useOrderHistory(orderDocId: string | undefined) {
+    const [history, setHistory] = useState<OrderStatusChange[]>([]);
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        if (!orderDocId) {
+            setHistory([]);
+            return;
+        }
+
+        setLoading(true);
+        const q = query(
+            collection(db, "orders", orderDocId, "statusHistory"),
+            orderBy("createdAt", "asc")
+        );
+
+        const unsubscribe = onSnapshot(
+            q,
+            (snapshot) => {
+                setHistory(snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as OrderStatusChange));
+                setLoading(false);
+            },
+            (error) => {
+                console.error("Order history listener error:", error);
+                setLoading(false);
+            }
+        );
+
+        return () => unsubscribe();
+    }, [orderDocId]);
+
+    return { history, loading };
+}
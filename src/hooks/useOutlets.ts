@@ -0,0 +1,35 @@
+/**
+ * useOutlets — Real-time list of the outlets students can order from.
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { collection, onSnapshot } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { withDefaultOutlet } from "@/lib/outlets";
+import type { Outlet } from "@/types";
+
+export function useOutlets() {
+    const [outlets, setOutlets] = useState<Outlet[]>(() => withDefaultOutlet([]));
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        const unsubscribe = onSnapshot(
+            collection(db, "outlets"),
+            (snapshot) => {
+                const list = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as Outlet);
+                setOutlets(withDefaultOutlet(list).filter((o) => o.active));
+                setLoading(false);
+            },
+            (error) => {
+                console.error("Outlets listener error:", error);
+                setLoading(false);
+            }
+        );
+
+        return () => unsubscribe();
+    }, []);
+
+    return { outlets, loading };
+}
@@ -4,27 +4,35 @@
  * SECURITY: Replaces the insecure Base64 token with properly signed JWTs.
  * - signAdminToken() creates a signed JWT with ADMIN_SECRET (8h expiry)
  * - verifyAdmin() extracts + verifies the JWT from the Authorization header
+ *
+ * Outlets: the env-configured admin is the campus-wide super admin and
+ * picks the outlet to work on with the X-Outlet-Id header. Outlet admins
+ * (outletAdmins collection) carry `outletId` in their token and are pinned
+ * to that outlet whatever the header says.
  */
 
 import jwt from "jsonwebtoken";
 import { NextRequest } from "next/server";
+import { DEFAULT_OUTLET_ID, OUTLET_ID_PATTERN, outletIdOf } from "@/lib/outlets";
 
-interface AdminPayload {
+export interface AdminPayload {
     role: "admin";
     username: string;
+    /** Set for outlet admins; absent for the super admin */
+    outletId?: string;
 }
 
 /**
  * Create a signed JWT for an authenticated admin.
  */
-export function signAdminToken(username: string): string {
+export function signAdminToken(username: string, outletId?: string): string {
     const secret = process.env.ADMIN_SECRET;
     if (!secret) {
         throw new Error("ADMIN_SECRET not configured");
     }
 
     return jwt.sign(
-        { role: "admin", username } as AdminPayload,
+        { role: "admin", username, ...(outletId && { outletId }) } as AdminPayload,
         secret,
         { expiresIn: "8h" }
     );
@@ -50,3 +58,18 @@ export function verifyAdmin(req: NextRequest): AdminPayload | null {
         return null;
     }
 }
+
+/**
+ * Outlet an admin request works on: an outlet admin's own outlet, or the
+ * super admin's X-Outlet-Id choice (default outlet when missing).
+ */
+export function adminOutletId(req: NextRequest, admin: AdminPayload): string {
+    if (admin.outletId) return admin.outletId;
+    const requested = req.headers.get("x-outlet-id")?.trim();
+    return requested && OUTLET_ID_PATTERN.test(requested) ? requested : DEFAULT_OUTLET_ID;
+}
+
+/** Whether the admin may act on a record (order, menu item, ...) of another outlet */
+export function canManageOutlet(admin: AdminPayload, record: { outletId?: string } | null | undefined): boolean {
+    return !admin.outletId || admin.outletId === outletIdOf(record);
+}
@@ -0,0 +1,214 @@
+/**
+ * Canteen opening-hours evaluator, shared by order placement, the chat
+ * assistant and useCanteenStatus so they all agree on whether an outlet
+ * is open (no Firebase imports — safe on client and server).
+ *
+ * Hours are Asia/Kolkata wall-clock times wherever the code runs. A config
+ * without a `schedule` is open startTime–endTime every day; with one, each
+ * weekday has its own slots (breakfast, lunch, ...) and a day without slots
+ * is closed. Holidays close the whole IST day, and `isOpen: false` closes
+ * the canteen until an admin switches it back.
+ */
+
+import { addDays, IST_OFFSET_MS, isDateKey } from "@/lib/ist-date";
+import type { CanteenConfig, CanteenHoliday, CanteenTimeSlot, DayOfWeek, WeeklySchedule } from "@/types";
+
+export const CANTEEN_TIME_ZONE = "Asia/Kolkata";
+
+/** Indexed like Date#getUTCDay() */
+export const WEEKDAYS: DayOfWeek[] = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const MAX_SLOTS_PER_DAY = 6;
+export const MAX_HOLIDAYS = 60;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export type ScheduleConfig = Pick<CanteenConfig, "isOpen" | "startTime" | "endTime" | "schedule" | "holidays">;
+
+export class ScheduleError extends Error {
+    constructor(message: string, public status: number = 400) {
+        super(message);
+        this.name = "ScheduleError";
+    }
+}
+
+/** IST calendar day, weekday and minutes since midnight at `now` */
+export function istClock(now: Date = new Date()): { date: string; weekday: DayOfWeek; minutes: number } {
+    const ist = new Date(now.getTime() + IST_OFFSET_MS);
+    return {
+        date: ist.toISOString().slice(0, 10),
+        weekday: WEEKDAYS[ist.getUTCDay()],
+        minutes: ist.getUTCHours() * 60 + ist.getUTCMinutes(),
+    };
+}
+
+export function toMinutes(time: string): number {
+    const [h, m] = time.split(":").map(Number);
+    return h * 60 + m;
+}
+
+export function weekdayOf(dateKey: string): DayOfWeek {
+    return WEEKDAYS[new Date(`${dateKey}T00:00:00.000Z`).getUTCDay()];
+}
+
+/** Opening slots on a weekday, earliest first. Configs with no hours at all are open all day. */
+export function slotsFor(config: ScheduleConfig, weekday: DayOfWeek): CanteenTimeSlot[] {
+    if (!config.schedule) {
+        return config.startTime && config.endTime
+            ? [{ start: config.startTime, end: config.endTime }]
+            : [{ start: "00:00", end: "24:00" }];
+    }
+    return [...(config.schedule[weekday] || [])].sort((a, b) => toMinutes(a.start) - toMinutes(b.start));
+}
+
+export function holidayOn(config: ScheduleConfig, dateKey: string): CanteenHoliday | null {
+    return config.holidays?.find((h) => h.date === dateKey) || null;
+}
+
+/** "Lunch 12:00–15:00" */
+export function formatSlot(slot: CanteenTimeSlot): string {
+    return `${slot.label ? `${slot.label} ` : ""}${slot.start}–${slot.end}`;
+}
+
+export function formatSlots(slots: CanteenTimeSlot[]): string {
+    return slots.length > 0 ? slots.map(formatSlot).join(", ") : "Closed";
+}
+
+export interface CanteenOpening {
+    date: string;
+    weekday: DayOfWeek;
+    slot: CanteenTimeSlot;
+}
+
+export interface CanteenStatus {
+    isOpen: boolean;
+    /** User-facing reason while closed, null when open */
+    reason: string | null;
+    /** Slot the canteen is open in right now */
+    slot: CanteenTimeSlot | null;
+    minutesUntilClose: number;
+    /** Next slot start within a week (not known while switched off) */
+    nextOpening: CanteenOpening | null;
+    holiday: CanteenHoliday | null;
+}
+
+/** First slot starting after `clock` within the next seven days, skipping holidays */
+function findNextOpening(config: ScheduleConfig, clock: ReturnType<typeof istClock>): CanteenOpening | null {
+    for (let offset = 0; offset <= 7; offset++) {
+        const date = addDays(clock.date, offset);
+        if (holidayOn(config, date)) continue;
+        const weekday = weekdayOf(date);
+        const slot = slotsFor(config, weekday).find((s) => offset > 0 || toMinutes(s.start) > clock.minutes);
+        if (slot) return { date, weekday, slot };
+    }
+    return null;
+}
+
+function describeOpening(opening: CanteenOpening, today: string): string {
+    const when = opening.date === today
+        ? ""
+        : opening.date === addDays(today, 1) ? " tomorrow" : ` on ${opening.weekday}`;
+    return `opens${when} at ${opening.slot.start}${opening.slot.label ? ` for ${opening.slot.label}` : ""}`;
+}
+
+/** Whether the canteen is open at `now` (IST) and, if not, why and until when */
+export function evaluateCanteenStatus(config: ScheduleConfig, now: Date = new Date()): CanteenStatus {
+    const clock = istClock(now);
+    const closed = { isOpen: false, slot: null, minutesUntilClose: 0 };
+
+    if (config.isOpen === false) {
+        return { ...closed, reason: "Canteen is currently closed", nextOpening: null, holiday: null };
+    }
+
+    const nextOpening = findNextOpening(config, clock);
+    const holiday = holidayOn(config, clock.date);
+    if (holiday) {
+        const reason = holiday.message || "Canteen is closed today for a holiday";
+        return { ...closed, reason, nextOpening, holiday };
+    }
+
+    const slot = slotsFor(config, clock.weekday).find(
+        (s) => toMinutes(s.start) <= clock.minutes && clock.minutes < toMinutes(s.end)
+    );
+    if (slot) {
+        const minutesUntilClose = toMinutes(slot.end) - clock.minutes;
+        return { isOpen: true, reason: null, slot, minutesUntilClose, nextOpening: null, holiday: null };
+    }
+
+    const reason = nextOpening
+        ? `Canteen is closed right now — ${describeOpening(nextOpening, clock.date)}`
+        : "Canteen is closed";
+    return { ...closed, reason, nextOpening, holiday: null };
+}
+
+/** The next seven days of hours, one line each — used in the chat assistant's prompt */
+export function describeWeek(config: ScheduleConfig, now: Date = new Date()): string {
+    const today = istClock(now).date;
+    const lines: string[] = [];
+    for (let offset = 0; offset < 7; offset++) {
+        const date = addDays(today, offset);
+        const weekday = weekdayOf(date);
+        const holiday = holidayOn(config, date);
+        const label = offset === 0 ? `Today (${weekday})` : `${weekday} ${date.slice(5)}`;
+        lines.push(`${label}: ${holiday ? `Closed — ${holiday.message || "holiday"}` : formatSlots(slotsFor(config, weekday))}`);
+    }
+    return lines.join("\n");
+}
+
+/**
+ * Validate a weekly schedule from the admin settings form. Slots must be
+ * "HH:MM", start before end (no overnight slots) and not overlap.
+ * Throws ScheduleError with a message for the admin.
+ */
+export function normalizeSchedule(input: unknown): WeeklySchedule {
+    if (!input || typeof input !== "object" || Array.isArray(input)) {
+        throw new ScheduleError("Schedule must list slots per weekday");
+    }
+
+    const schedule: WeeklySchedule = {};
+    for (const day of WEEKDAYS) {
+        const raw = (input as Record<string, unknown>)[day];
+        // Every day is written out so a merge-save can't keep a removed day's old slots
+        if (raw === undefined || raw === null) {
+            schedule[day] = [];
+            continue;
+        }
+        if (!Array.isArray(raw) || raw.length > MAX_SLOTS_PER_DAY) {
+            throw new ScheduleError(`${day}: at most ${MAX_SLOTS_PER_DAY} slots`);
+        }
+
+        const slots = raw.map((s: Partial<CanteenTimeSlot>) => {
+            if (typeof s?.start !== "string" || typeof s?.end !== "string" || !TIME_PATTERN.test(s.start) || !TIME_PATTERN.test(s.end)) {
+                throw new ScheduleError(`${day}: times must be HH:MM`);
+            }
+            if (toMinutes(s.start) >= toMinutes(s.end)) {
+                throw new ScheduleError(`${day}: ${s.start}–${s.end} must end after it starts`);
+            }
+            const label = typeof s.label === "string" ? s.label.trim().slice(0, 30) : "";
+            return { start: s.start, end: s.end, ...(label && { label }) };
+        }).sort((a, b) => toMinutes(a.start) - toMinutes(b.start));
+
+        for (let i = 1; i < slots.length; i++) {
+            if (toMinutes(slots[i].start) < toMinutes(slots[i - 1].end)) {
+                throw new ScheduleError(`${day}: ${formatSlot(slots[i - 1])} overlaps ${formatSlot(slots[i])}`);
+            }
+        }
+        schedule[day] = slots;
+    }
+    return schedule;
+}
+
+/** Validate holiday closures: unique IST dates, sorted, optional short message */
+export function normalizeHolidays(input: unknown): CanteenHoliday[] {
+    if (!Array.isArray(input) || input.length > MAX_HOLIDAYS) {
+        throw new ScheduleError(`At most ${MAX_HOLIDAYS} holidays`);
+    }
+
+    const byDate = new Map<string, CanteenHoliday>();
+    for (const h of input as Partial<CanteenHoliday>[]) {
+        if (!isDateKey(h?.date)) throw new ScheduleError("Holiday dates must be YYYY-MM-DD");
+        const message = typeof h.message === "string" ? h.message.trim().slice(0, 120) : "";
+        byDate.set(h.date, { date: h.date, ...(message && { message }) });
+    }
+    return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
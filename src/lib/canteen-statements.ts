@@ -0,0 +1,117 @@
+/**
+ * Canteen settlement statements (server-side only).
+ *
+ * Built from an outlet's canteenTransactions, one statement per IST calendar day:
+ * opening balance → + completed orders − refunds − payouts → closing.
+ * Only totalBalance movements are counted; money still pending on
+ * confirmed orders appears on the day the order completes.
+ *
+ * Finished days can't change (entries are only ever appended with the
+ * current time), so their totals are cached in canteenStatements (see
+ * statementDocId) and the next day's opening balance is read from there instead of
+ * summing the whole history again.
+ */
+
+import { adminDb } from "@/lib/firebase-admin";
+import { roundMoney } from "@/lib/wallet-ledger";
+import { addDays, istDateKey, istDayStart } from "@/lib/ist-date";
+import { DEFAULT_OUTLET_ID } from "@/lib/outlets";
+import type { CanteenTransaction, SettlementStatement } from "@/types";
+
+export const MAX_STATEMENT_DAYS = 31;
+
+/** Signed effect of an entry on the canteen's totalBalance */
+function balanceDelta(entry: Pick<CanteenTransaction, "type" | "amount">): number {
+    const amount = Number(entry.amount) || 0;
+    return entry.type === "credit" ? amount : -amount;
+}
+
+/** Cache doc id for a finished day; the default outlet keeps the plain date */
+function statementDocId(outletId: string, date: string): string {
+    return outletId === DEFAULT_OUTLET_ID ? date : `${outletId}_${date}`;
+}
+
+/** Balance at the start of `date`: previous day's cached closing, or the sum of everything before */
+async function openingBalance(outletId: string, date: string): Promise<number> {
+    const previous = await adminDb.collection("canteenStatements").doc(statementDocId(outletId, addDays(date, -1))).get();
+    if (previous.exists) return Number(previous.data()!.closingBalance) || 0;
+
+    const before = await adminDb
+        .collection("canteenTransactions")
+        .where("outletId", "==", outletId)
+        .where("createdAt", "<", istDayStart(date))
+        .select("type", "amount")
+        .get();
+    return roundMoney(before.docs.reduce((sum, d) => sum + balanceDelta(d.data() as CanteenTransaction), 0));
+}
+
+/**
+ * Statements for each day from `from` to `to` (inclusive, "YYYY-MM-DD").
+ * `withLines` attaches each day's entries, oldest first.
+ */
+export async function buildStatements(
+    outletId: string,
+    from: string,
+    to: string,
+    withLines = false
+): Promise<SettlementStatement[]> {
+    const today = istDateKey();
+    let balance = await openingBalance(outletId, from);
+
+    const snap = await adminDb
+        .collection("canteenTransactions")
+        .where("outletId", "==", outletId)
+        .where("createdAt", ">=", istDayStart(from))
+        .where("createdAt", "<", istDayStart(addDays(to, 1)))
+        .orderBy("createdAt", "asc")
+        .get();
+
+    const byDay = new Map<string, CanteenTransaction[]>();
+    for (const doc of snap.docs) {
+        const entry = { id: doc.id, ...doc.data() } as CanteenTransaction;
+        const key = istDateKey(entry.createdAt);
+        byDay.set(key, [...(byDay.get(key) || []), entry]);
+    }
+
+    const statements: SettlementStatement[] = [];
+    const batch = adminDb.batch();
+    let cached = 0;
+
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+        const lines = byDay.get(date) || [];
+        const sum = (type: CanteenTransaction["type"]) => {
+            const matching = lines.filter((l) => l.type === type);
+            return { total: roundMoney(matching.reduce((s, l) => s + (Number(l.amount) || 0), 0)), count: matching.length };
+        };
+        const credits = sum("credit");
+        const refunds = sum("refund_deduction");
+        const withdrawals = sum("withdrawal");
+
+        const statement: SettlementStatement = {
+            date,
+            openingBalance: balance,
+            orderCredits: credits.total,
+            orderCount: credits.count,
+            refunds: refunds.total,
+            refundCount: refunds.count,
+            withdrawals: withdrawals.total,
+            withdrawalCount: withdrawals.count,
+            closingBalance: roundMoney(balance + credits.total - refunds.total - withdrawals.total),
+            finalized: date < today,
+        };
+        balance = statement.closingBalance;
+
+        if (statement.finalized) {
+            batch.set(adminDb.collection("canteenStatements").doc(statementDocId(outletId, date)), {
+                ...statement,
+                outletId,
+                generatedAt: new Date().toISOString(),
+            });
+            cached++;
+        }
+        statements.push(withLines ? { ...statement, lines } : statement);
+    }
+
+    if (cached > 0) await batch.commit();
+    return statements;
+}
@@ -1,11 +1,15 @@
 import { FieldValue, Transaction, DocumentReference } from "firebase-admin/firestore";
 import { adminDb } from "./firebase-admin";
+import { canteenWalletId, DEFAULT_OUTLET_ID } from "./outlets";
+import { applyLoyaltyChange, prepareLoyaltyChange } from "./loyalty-store";
 
-const CANTEEN_WALLET_ID = "canteen_owner";
+/** Default outlet's wallet — other outlets use canteenWalletId(outletId) */
+export const CANTEEN_WALLET_ID = canteenWalletId(DEFAULT_OUTLET_ID);
 
 export interface WalletTransaction {
     amount: number;
     type: "credit" | "withdrawal" | "refund_deduction";
+    outletId?: string;
     orderId?: string;
     description: string;
     createdAt: string;
@@ -14,18 +18,26 @@ export interface WalletTransaction {
 /**
  * Syncs the Canteen Wallet balances safely within an existing Firestore transaction.
  * Automatically handles pendingAmount vs totalBalance based on order status changes.
+ * Each outlet has its own wallet; `outletId` is the order's outlet.
+ * With the order's `userId`, the student's loyalty points follow the
+ * order into and back out of `completed` (lib/loyalty-store).
  */
 export async function updateCanteenWallet(
     transaction: Transaction,
     oldStatus: string,
     newStatus: string,
     amount: number,
-    orderId: string
+    orderId: string,
+    outletId: string = DEFAULT_OUTLET_ID,
+    userId?: string
 ) {
     if (amount <= 0 || oldStatus === newStatus) return;
 
-    const walletRef = adminDb.collection("wallets").doc(CANTEEN_WALLET_ID);
+    const walletRef = adminDb.collection("wallets").doc(canteenWalletId(outletId));
     const walletDoc = await transaction.get(walletRef);
+    const loyalty = userId
+        ? await prepareLoyaltyChange(transaction, { userId, orderId, amount, oldStatus, newStatus })
+        : null;
 
     // Initialize wallet if it doesn't exist
     let todayCollection = 0;
@@ -135,7 +147,12 @@ export async function updateCanteenWallet(
         const txnRef = adminDb.collection("canteenTransactions").doc();
         transaction.set(txnRef, {
             ...transactionRecordDetails,
+            outletId,
             createdAt: new Date().toISOString(),
         });
     }
+
+    if (loyalty) {
+        applyLoyaltyChange(transaction, loyalty, new Date().toISOString());
+    }
 }
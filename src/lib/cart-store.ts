@@ -0,0 +1,169 @@
+/**
+ * Saved carts (server-side only) — carts/{uid}, behind /api/cart.
+ *
+ * The saved cart is what the client displayed: prices are NOT corrected
+ * when it's written. revalidateCart() re-checks it against menuItems so
+ * the cart page can show price changes (accepted like a PRICE_CHANGED
+ * checkout) and lines that are sold out or short on stock. Orders are
+ * still re-priced and stock-checked by placeOrder.
+ */
+
+import { DocumentData } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { OrderPlacementError, priceLine } from "@/lib/order-placement";
+import { MAX_CART_LINE_QUANTITY, MAX_CART_LINES, mergeCartItems } from "@/lib/cart-sync";
+import { outletIdOf } from "@/lib/outlets";
+import { comboStock, isCombo } from "@/lib/combos";
+import type { CartItem, CartPriceChange, CartStockIssue, ComboComponent, MenuItem, SavedCart, SelectedOption } from "@/types";
+
+export class CartError extends Error {
+    constructor(message: string, public status: number = 400) {
+        super(message);
+        this.name = "CartError";
+    }
+}
+
+const cartRef = (uid: string) => adminDb.collection("carts").doc(uid);
+
+const isText = (value: unknown, max: number): value is string =>
+    typeof value === "string" && value.length > 0 && value.length <= max;
+
+function parseOption(raw: unknown): SelectedOption {
+    const option = raw as SelectedOption;
+    if (
+        !option || !isText(option.customizationId, 100) || !isText(option.optionId, 100) ||
+        typeof option.customizationTitle !== "string" || typeof option.optionName !== "string" ||
+        !Number.isFinite(option.price)
+    ) {
+        throw new CartError("Invalid item option in cart");
+    }
+    return {
+        customizationId: option.customizationId,
+        customizationTitle: option.customizationTitle.slice(0, 100),
+        optionId: option.optionId,
+        optionName: option.optionName.slice(0, 100),
+        price: option.price,
+    };
+}
+
+/** Validate a cart sent by the client; all lines must be from one outlet */
+export function parseCartItems(raw: unknown): CartItem[] {
+    if (!Array.isArray(raw)) throw new CartError("items must be an array");
+    if (raw.length > MAX_CART_LINES) throw new CartError(`A cart can have at most ${MAX_CART_LINES} lines`);
+
+    const items = raw.map((entry): CartItem => {
+        const line = entry as CartItem;
+        const quantity = Number(line?.quantity);
+        const maxQuantity = Number(line?.maxQuantity);
+        if (
+            !line || !isText(line.id, 100) || !isText(line.name, 200) ||
+            !Number.isFinite(line.price) || line.price < 0 ||
+            !Number.isInteger(quantity) || quantity < 1 || quantity > MAX_CART_LINE_QUANTITY ||
+            !Number.isInteger(maxQuantity) || maxQuantity < 0
+        ) {
+            throw new CartError("Invalid item in cart");
+        }
+        const item: CartItem = {
+            id: line.id,
+            name: line.name,
+            price: line.price,
+            quantity,
+            maxQuantity,
+            category: typeof line.category === "string" ? line.category.slice(0, 100) : "",
+        };
+        if (isText(line.image, 500)) item.image = line.image;
+        if (Array.isArray(line.selectedOptions) && line.selectedOptions.length > 0) {
+            item.selectedOptions = line.selectedOptions.map(parseOption);
+        }
+        if (isText(line.outletId, 30)) item.outletId = line.outletId;
+        return item;
+    });
+
+    if (new Set(items.map((item) => outletIdOf(item))).size > 1) {
+        throw new CartError("A cart can only hold items from one outlet");
+    }
+    return items;
+}
+
+export async function readSavedCart(uid: string): Promise<SavedCart> {
+    const doc = await cartRef(uid).get();
+    const data = doc.data();
+    return { items: (data?.items as CartItem[]) || [], updatedAt: data?.updatedAt || "" };
+}
+
+export async function saveCart(uid: string, items: CartItem[]): Promise<SavedCart> {
+    const cart: SavedCart = { items, updatedAt: new Date().toISOString() };
+    await cartRef(uid).set(cart);
+    return cart;
+}
+
+/** Merge the browser's cart into the saved one at sign-in (see mergeCartItems) */
+export async function mergeSavedCart(uid: string, local: CartItem[]): Promise<SavedCart & { dropped: number }> {
+    return adminDb.runTransaction(async (transaction) => {
+        const doc = await transaction.get(cartRef(uid));
+        const { items, dropped } = mergeCartItems((doc.data()?.items as CartItem[]) || [], local);
+        const cart: SavedCart = { items, updatedAt: new Date().toISOString() };
+        transaction.set(cartRef(uid), cart);
+        return { ...cart, dropped };
+    });
+}
+
+/**
+ * Check cart lines against the live menu. Returns the lines with
+ * `maxQuantity` refreshed from current stock, the unit prices that have
+ * changed (indexes match `items`) and the lines that can't be filled.
+ */
+export async function revalidateCart(items: CartItem[]): Promise<{
+    items: CartItem[];
+    changes: CartPriceChange[];
+    stockIssues: CartStockIssue[];
+}> {
+    if (items.length === 0) return { items, changes: [], stockIssues: [] };
+
+    const uniqueIds = [...new Set(items.map((item) => item.id))];
+    const snapshots = await adminDb.getAll(...uniqueIds.map((id) => adminDb.collection("menuItems").doc(id)));
+    const byId = new Map(snapshots.map((s) => [s.id, s]));
+
+    // A combo's stock is its components'
+    const componentIds = [...new Set(snapshots.flatMap((s) => (isCombo(s.data()) ? (s.data()!.components as ComboComponent[]).map((c) => c.itemId) : [])))]
+        .filter((id) => !byId.has(id));
+    if (componentIds.length > 0) {
+        const components = await adminDb.getAll(...componentIds.map((id) => adminDb.collection("menuItems").doc(id)));
+        for (const snapshot of components) byId.set(snapshot.id, snapshot);
+    }
+    const stockOf = (data: DocumentData): number => {
+        const item = data as MenuItem;
+        const { available, quantity } = isCombo(item)
+            ? comboStock(item, (id) => byId.get(id)?.data() as MenuItem | undefined)
+            : item;
+        return available === false ? 0 : Math.max(0, Number(quantity) || 0);
+    };
+
+    const changes: CartPriceChange[] = [];
+    const stockIssues: CartStockIssue[] = [];
+    const refreshed = items.map((item, index) => {
+        const snapshot = byId.get(item.id)!;
+        const data = snapshot.data();
+        const issue = { id: item.id, name: item.name, ...(item.selectedOptions && { selectedOptions: item.selectedOptions }) };
+
+        let price: number;
+        try {
+            price = priceLine(item, snapshot).price;
+        } catch (error) {
+            if (!(error instanceof OrderPlacementError)) throw error;
+            stockIssues.push({ ...issue, available: 0, reason: error.message });
+            return item;
+        }
+
+        const stock = stockOf(data!);
+        if (stock < item.quantity) {
+            stockIssues.push({ ...issue, available: stock, ...(stock === 0 && { reason: `${item.name} is sold out` }) });
+        }
+        if (Math.abs(price - item.price) >= 0.01) {
+            changes.push({ ...issue, index, name: data!.name || item.name, oldPrice: item.price, newPrice: price });
+        }
+        return stock === item.maxQuantity ? item : { ...item, maxQuantity: stock };
+    });
+
+    return { items: refreshed, changes, stockIssues };
+}
@@ -0,0 +1,60 @@
+/**
+ * Cart sync helpers shared by CartContext and /api/cart (no Firebase imports).
+ *
+ * A signed-in user's cart lives in carts/{uid}; the browser keeps a copy in
+ * localStorage so a guest cart survives until sign-in, when it's merged
+ * into the saved one (mergeCartItems).
+ */
+
+import { outletIdOf } from "@/lib/outlets";
+import type { CartItem } from "@/types";
+
+export const MAX_CART_LINES = 50;
+export const MAX_CART_LINE_QUANTITY = 99;
+/** How often an open tab re-checks its cart against the menu */
+export const CART_REVALIDATE_MS = 5 * 60_000;
+
+// Firestore hands maps back with their keys sorted, so lines are compared
+// field by field rather than with JSON.stringify of the objects
+const optionsKey = (options: CartItem["selectedOptions"]) =>
+    (options || []).map((o) => `${o.customizationId}:${o.optionId}`).join(",");
+
+/** Same menu item with the same customization choices */
+export function sameCartLine(
+    a: Pick<CartItem, "id" | "selectedOptions">,
+    b: Pick<CartItem, "id" | "selectedOptions">
+): boolean {
+    return a.id === b.id && optionsKey(a.selectedOptions) === optionsKey(b.selectedOptions);
+}
+
+/** Compact fingerprint of a cart, equal for carts with the same lines, prices and quantities */
+export function cartSignature(items: CartItem[]): string {
+    return JSON.stringify(items.map((i) => [i.id, optionsKey(i.selectedOptions), i.price, i.quantity, i.maxQuantity]));
+}
+
+/**
+ * Merge the browser's cart into the saved one at sign-in. Lines on both
+ * keep the larger quantity — the browser copy usually mirrors an earlier
+ * sync, so adding them up would double the cart. A browser cart from a
+ * different outlet than a non-empty saved cart is dropped (carts are per
+ * outlet); `dropped` counts those lines.
+ */
+export function mergeCartItems(saved: CartItem[], local: CartItem[]): { items: CartItem[]; dropped: number } {
+    if (saved.length === 0) return { items: local.slice(0, MAX_CART_LINES), dropped: Math.max(0, local.length - MAX_CART_LINES) };
+    if (local.length === 0) return { items: saved, dropped: 0 };
+    if (outletIdOf(saved[0]) !== outletIdOf(local[0])) return { items: saved, dropped: local.length };
+
+    const items = saved.map((line) => {
+        const mine = local.find((l) => sameCartLine(l, line));
+        if (!mine) return line;
+        const maxQuantity = Math.max(line.maxQuantity, mine.maxQuantity);
+        return { ...mine, maxQuantity, quantity: Math.min(Math.max(line.quantity, mine.quantity), maxQuantity) };
+    });
+    let dropped = 0;
+    for (const line of local) {
+        if (items.some((l) => sameCartLine(l, line))) continue;
+        if (items.length >= MAX_CART_LINES) dropped++;
+        else items.push(line);
+    }
+    return { items, dropped };
+}
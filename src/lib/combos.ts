@@ -0,0 +1,121 @@
+/**
+ * Combo meals — helpers shared by the menu pages, cart revalidation and
+ * order placement (no Firebase imports).
+ *
+ * A combo is a menuItems doc with `type: "combo"` bundling other items of
+ * the same outlet (each with fixed customization choices, if any) at one
+ * bundle price. It has no stock of its own: it can be ordered as often as
+ * its components' stock allows, and ordering, cancelling or rejecting it
+ * moves the components' stock (expandCombos). Its own `available` flag
+ * still lets an admin switch the combo off.
+ */
+
+import type { ComboComponent, MenuItem, OrderItem, SelectedOption } from "@/types";
+
+export const MAX_COMBO_COMPONENTS = 8;
+export const MAX_COMBO_COMPONENT_QUANTITY = 10;
+
+export class ComboError extends Error {
+    constructor(message: string, public status: number = 400) {
+        super(message);
+        this.name = "ComboError";
+    }
+}
+
+/** A component as sent by the admin panel; names and option details are filled in by the API */
+export interface ComboComponentInput {
+    itemId: string;
+    quantity: number;
+    selectedOptions: Pick<SelectedOption, "customizationId" | "optionId">[];
+}
+
+export function isCombo(item: Pick<MenuItem, "type"> | null | undefined): boolean {
+    return item?.type === "combo";
+}
+
+type StockFields = Pick<MenuItem, "available" | "quantity">;
+
+/**
+ * How many of a combo its components' stock allows. `lookup` returns a
+ * component's menu data; a missing or switched-off component makes the
+ * combo unavailable.
+ */
+export function comboStock(
+    combo: Pick<MenuItem, "available" | "components">,
+    lookup: (itemId: string) => StockFields | undefined
+): StockFields {
+    const components = combo.components || [];
+    let quantity = components.length > 0 ? Infinity : 0;
+    for (const component of components) {
+        const item = lookup(component.itemId);
+        const stock = item && item.available !== false ? Math.max(0, Number(item.quantity) || 0) : 0;
+        quantity = Math.min(quantity, Math.floor(stock / component.quantity));
+    }
+    return { available: combo.available !== false && quantity > 0, quantity };
+}
+
+/** Menu items with every combo's `available` / `quantity` worked out from its components */
+export function withComboStock<T extends MenuItem>(items: T[]): T[] {
+    const byId = new Map(items.map((item) => [item.id, item]));
+    return items.map((item) => (isCombo(item) ? { ...item, ...comboStock(item, (id) => byId.get(id)) } : item));
+}
+
+/** Unit price of one component as ordered on its own: base price plus its fixed options */
+export function componentUnitPrice(basePrice: number, selectedOptions: SelectedOption[] = []): number {
+    return basePrice + selectedOptions.reduce((sum, o) => sum + o.price, 0);
+}
+
+/** ₹ a combo saves over ordering its components separately (0 when it doesn't) */
+export function comboSavings(combo: Pick<MenuItem, "price" | "components">, lookup: (itemId: string) => Pick<MenuItem, "price"> | undefined): number {
+    let separately = 0;
+    for (const component of combo.components || []) {
+        const item = lookup(component.itemId);
+        if (!item) return 0;
+        separately += componentUnitPrice(item.price, component.selectedOptions) * component.quantity;
+    }
+    return Math.max(0, Math.round((separately - combo.price) * 100) / 100);
+}
+
+/**
+ * Validate a combo's components from the admin panel; throws ComboError
+ * with a message for the admin.
+ */
+export function normalizeComponents(input: unknown): ComboComponentInput[] {
+    if (!Array.isArray(input) || input.length === 0) throw new ComboError("Add at least one item to the combo");
+    if (input.length > MAX_COMBO_COMPONENTS) throw new ComboError(`A combo can have at most ${MAX_COMBO_COMPONENTS} items`);
+
+    return input.map((raw) => {
+        const component = (raw || {}) as Partial<ComboComponent>;
+        if (typeof component.itemId !== "string" || !component.itemId || component.itemId.length > 100) {
+            throw new ComboError("Pick a menu item for every line of the combo");
+        }
+        const quantity = Number(component.quantity);
+        if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_COMBO_COMPONENT_QUANTITY) {
+            throw new ComboError(`Quantities in a combo must be whole numbers from 1 to ${MAX_COMBO_COMPONENT_QUANTITY}`);
+        }
+        const selectedOptions = Array.isArray(component.selectedOptions)
+            ? component.selectedOptions.map((o) => ({ customizationId: String(o?.customizationId), optionId: String(o?.optionId) }))
+            : [];
+        return { itemId: component.itemId, quantity, selectedOptions };
+    });
+}
+
+/** "2× Samosa, Masala Chai (Less sugar)" */
+export function describeComponents(components: MenuItem["components"] = []): string {
+    return components.map((c) => {
+        const options = c.selectedOptions?.length ? ` (${c.selectedOptions.map((o) => o.optionName).join(", ")})` : "";
+        return `${c.quantity > 1 ? `${c.quantity}× ` : ""}${c.name}${options}`;
+    }).join(", ");
+}
+
+/**
+ * The menu items whose stock order lines move: a combo line stands for
+ * its components (times the line's quantity), other lines for themselves.
+ */
+export function expandCombos(
+    items: Pick<OrderItem, "id" | "name" | "quantity" | "components">[]
+): { id: string; name: string; quantity: number }[] {
+    return items.flatMap((item) => (item.components?.length
+        ? item.components.map((c) => ({ id: c.itemId, name: c.name, quantity: c.quantity * item.quantity }))
+        : [{ id: item.id, name: item.name, quantity: item.quantity }]));
+}
@@ -36,8 +36,8 @@ const FAQ_MAP: FaqEntry[] = [
     },
     // F06 — Food preparation started
     {
-        keywords: ["preparation starts", "preparation start", "food preparation", "once confirmed", "order modify", "can i modify", "change order after", "cancel after preparing"],
-        answer: "Once your order is confirmed by the canteen and preparation starts, the order cannot be modified or cancelled. Please make sure your cart is correct before confirming! ✅",
+        keywords: ["preparation starts", "preparation start", "food preparation", "once confirmed", "order modify", "can i modify", "change order after", "cancel after preparing", "cancel order", "cancel my order", "how to cancel"],
+        answer: "You can cancel an order yourself from My Orders while it is still pending (or for a couple of minutes after the canteen confirms it) — the full amount goes straight back to your wallet. Once preparation starts, the order cannot be modified or cancelled. Please make sure your cart is correct before confirming! ✅",
     },
     // F10 — Cannot collect order
     {
@@ -0,0 +1,352 @@
+/**
+ * Group orders (server-side only).
+ *
+ * A host opens a shared cart in groupCarts/{id} and shares its link
+ * (/group?id=...). Members join and edit only their own lines; everyone
+ * follows the doc live (firestore.rules lets members read it). Checkout
+ * is done by the host and places ONE order — a single kitchen ticket —
+ * through placeOrderInTransaction, with the cart re-read in the same
+ * transaction:
+ *
+ * - "split": each member pays for their own lines from their own wallet.
+ *   Members confirm with `ready` first; changing their lines resets it.
+ *   A share above the PIN threshold must be confirmed with that member's
+ *   PIN, just like an order of their own.
+ * - "host": the host pays for everything and every other member gets a
+ *   money request for their share (lib/money-requests).
+ *
+ * Lines are priced from menuItems whenever they're saved, and priced
+ * again by placeOrder at checkout; a price change found there is written
+ * back to the cart (applyGroupPriceChanges) for the members to re-confirm.
+ */
+
+import { Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import {
+    getCanteenClosedReason,
+    OrderPlacementError,
+    placeOrderInTransaction,
+    quoteOrder,
+    validateOrderLines,
+    type PlaceOrderResult,
+} from "@/lib/order-placement";
+import { newMoneyRequest } from "@/lib/money-requests";
+import { roundMoney } from "@/lib/wallet-ledger";
+import { lineAmount } from "@/lib/promotions";
+import { pinRequirement, pinRequirementMessage, readPinToken, type PinRequirement } from "@/lib/pin-auth";
+import type { CartItem, CartPriceChange, GroupCart, GroupCartLine, GroupPaymentMode } from "@/types";
+
+export const MAX_GROUP_MEMBERS = 10;
+export const MAX_GROUP_LINES = 40;
+export const GROUP_CART_TTL_HOURS = 6;
+
+export class GroupOrderError extends Error {
+    constructor(message: string, public status: number = 400, public code?: PinRequirement) {
+        super(message);
+        this.name = "GroupOrderError";
+    }
+}
+
+export function isGroupPaymentMode(value: unknown): value is GroupPaymentMode {
+    return value === "split" || value === "host";
+}
+
+const groupRef = (groupId: string) => adminDb.collection("groupCarts").doc(groupId);
+
+/** Read an open, unexpired cart; with `memberId`, the caller must have joined it */
+async function readOpenCart(transaction: Transaction, groupId: string, memberId?: string): Promise<GroupCart> {
+    const doc = await transaction.get(groupRef(groupId));
+    const cart = doc.exists ? ({ id: doc.id, ...doc.data() } as GroupCart) : null;
+    if (!cart || (memberId && !cart.memberIds.includes(memberId))) {
+        throw new GroupOrderError("Group order not found", 404);
+    }
+    if (cart.status !== "open") {
+        throw new GroupOrderError(cart.status === "placed" ? "This group order has already been placed" : "This group order was cancelled", 409);
+    }
+    if (new Date(cart.expiresAt).getTime() <= Date.now()) {
+        throw new GroupOrderError("This group order link has expired", 410);
+    }
+    return cart;
+}
+
+/**
+ * Price a member's cart lines against the menu. Prices are always taken
+ * from menuItems; name, image and stock limits are for display only.
+ */
+async function priceMemberLines(raw: unknown, outletId: string, memberId: string): Promise<GroupCartLine[]> {
+    if (Array.isArray(raw) && raw.length === 0) return [];
+    const lines = validateOrderLines(raw);
+    const quote = await quoteOrder(lines.map((line) => ({ ...line, price: undefined })));
+    if (quote.outletId !== outletId) {
+        throw new GroupOrderError("These items are from a different outlet than the group order", 409);
+    }
+
+    return quote.items.map((item, i) => {
+        const client = (raw as Partial<CartItem>[])[i];
+        const line: GroupCartLine = {
+            id: item.id,
+            name: item.name,
+            price: item.price,
+            quantity: item.quantity,
+            maxQuantity: Math.max(item.quantity, Number(client.maxQuantity) || item.quantity),
+            category: item.category || "",
+            outletId,
+            memberId,
+        };
+        if (item.selectedOptions) line.selectedOptions = item.selectedOptions;
+        if (typeof client.image === "string" && client.image.length <= 500) line.image = client.image;
+        return line;
+    });
+}
+
+/** Open a shared cart, optionally seeded with the host's current cart */
+export async function createGroupCart(
+    host: { uid: string; name: string },
+    outletId: string,
+    seed: unknown
+): Promise<GroupCart> {
+    const lines = seed === undefined ? [] : await priceMemberLines(seed, outletId, host.uid);
+    const now = new Date();
+    const ref = adminDb.collection("groupCarts").doc();
+    const cart: Omit<GroupCart, "id"> = {
+        hostId: host.uid,
+        hostName: host.name,
+        outletId,
+        status: "open",
+        paymentMode: "split",
+        members: { [host.uid]: { name: host.name, ready: false, joinedAt: now.toISOString() } },
+        memberIds: [host.uid],
+        lines,
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + GROUP_CART_TTL_HOURS * 3600_000).toISOString(),
+    };
+    await ref.set(cart);
+    return { id: ref.id, ...cart };
+}
+
+/** Add the caller to a cart (no-op if they're already in) */
+export async function joinGroupCart(groupId: string, user: { uid: string; name: string }): Promise<void> {
+    await adminDb.runTransaction(async (transaction) => {
+        const cart = await readOpenCart(transaction, groupId);
+        if (cart.memberIds.includes(user.uid)) return;
+        if (cart.memberIds.length >= MAX_GROUP_MEMBERS) {
+            throw new GroupOrderError(`A group order can have at most ${MAX_GROUP_MEMBERS} people`);
+        }
+        const now = new Date().toISOString();
+        transaction.update(groupRef(groupId), {
+            [`members.${user.uid}`]: { name: user.name, ready: false, joinedAt: now },
+            memberIds: [...cart.memberIds, user.uid],
+            updatedAt: now,
+        });
+    });
+}
+
+/** Replace the caller's own lines; their `ready` confirmation is reset */
+export async function setMemberLines(groupId: string, memberId: string, raw: unknown): Promise<void> {
+    // Priced before the transaction — a cart's outlet never changes
+    const outletId = (await groupRef(groupId).get()).data()?.outletId;
+    if (typeof outletId !== "string") throw new GroupOrderError("Group order not found", 404);
+    const mine = await priceMemberLines(raw, outletId, memberId);
+
+    await adminDb.runTransaction(async (transaction) => {
+        const cart = await readOpenCart(transaction, groupId, memberId);
+        const lines = [...cart.lines.filter((l) => l.memberId !== memberId), ...mine];
+        if (lines.length > MAX_GROUP_LINES) {
+            throw new GroupOrderError(`A group order can have at most ${MAX_GROUP_LINES} lines`);
+        }
+        transaction.update(groupRef(groupId), {
+            lines,
+            [`members.${memberId}.ready`]: false,
+            updatedAt: new Date().toISOString(),
+        });
+    });
+}
+
+/** What a member's lines come to, before any order discounts */
+function memberShare(cart: GroupCart, memberId: string): number {
+    return roundMoney(cart.lines.filter((l) => l.memberId === memberId).reduce((sum, l) => sum + lineAmount(l), 0));
+}
+
+/**
+ * Members confirm (or withdraw) that they'll pay for their lines. A share
+ * above `pin.requiredAbove` needs a PIN token, as it would at checkout;
+ * the check is stored on the cart (`pinConfirmed`) for the host's checkout.
+ */
+export async function setMemberReady(
+    groupId: string,
+    memberId: string,
+    ready: boolean,
+    pin: { token: ReturnType<typeof readPinToken>; requiredAbove: number }
+): Promise<void> {
+    await adminDb.runTransaction(async (transaction) => {
+        const cart = await readOpenCart(transaction, groupId, memberId);
+        let pinConfirmed = false;
+        if (ready && memberShare(cart, memberId) > pin.requiredAbove) {
+            const user = await transaction.get(adminDb.collection("users").doc(memberId));
+            const requirement = pinRequirement(pin.token, user.data() || {});
+            if (requirement) throw new GroupOrderError(pinRequirementMessage(requirement), 403, requirement);
+            pinConfirmed = true;
+        }
+        transaction.update(groupRef(groupId), {
+            [`members.${memberId}.ready`]: ready,
+            [`members.${memberId}.pinConfirmed`]: pinConfirmed,
+            updatedAt: new Date().toISOString(),
+        });
+    });
+}
+
+/** Host only: who pays. Switching resets everyone's confirmation */
+export async function setPaymentMode(groupId: string, hostId: string, paymentMode: GroupPaymentMode): Promise<void> {
+    await adminDb.runTransaction(async (transaction) => {
+        const cart = await readOpenCart(transaction, groupId, hostId);
+        if (cart.hostId !== hostId) throw new GroupOrderError("Only the host can change who pays", 403);
+        if (cart.paymentMode === paymentMode) return;
+        const update: Record<string, unknown> = { paymentMode, updatedAt: new Date().toISOString() };
+        for (const uid of cart.memberIds) update[`members.${uid}.ready`] = false;
+        transaction.update(groupRef(groupId), update);
+    });
+}
+
+/** A member leaves (their lines go with them); the host leaving cancels the cart */
+export async function leaveGroupCart(groupId: string, memberId: string): Promise<void> {
+    await adminDb.runTransaction(async (transaction) => {
+        const cart = await readOpenCart(transaction, groupId, memberId);
+        const now = new Date().toISOString();
+        if (cart.hostId === memberId) {
+            transaction.update(groupRef(groupId), { status: "cancelled", updatedAt: now });
+            return;
+        }
+        const members = { ...cart.members };
+        delete members[memberId];
+        transaction.update(groupRef(groupId), {
+            members,
+            memberIds: cart.memberIds.filter((uid) => uid !== memberId),
+            lines: cart.lines.filter((l) => l.memberId !== memberId),
+            updatedAt: now,
+        });
+    });
+}
+
+/**
+ * Write new prices from a PRICE_CHANGED checkout failure into the cart
+ * (indexes match cart.lines) and reset the affected members' confirmation.
+ */
+export async function applyGroupPriceChanges(groupId: string, changes: CartPriceChange[]): Promise<void> {
+    await adminDb.runTransaction(async (transaction) => {
+        const cart = await readOpenCart(transaction, groupId);
+        const update: Record<string, unknown> = {
+            lines: cart.lines.map((line, i) => {
+                const change = changes.find((c) => c.index === i && c.id === line.id);
+                if (change) update[`members.${line.memberId}.ready`] = false;
+                return change ? { ...line, price: change.newPrice } : line;
+            }),
+            updatedAt: new Date().toISOString(),
+        };
+        transaction.update(groupRef(groupId), update);
+    });
+}
+
+/**
+ * Host checkout: place the whole cart as one order and close the cart,
+ * atomically. Throws GroupOrderError for cart problems and
+ * OrderPlacementError for the order itself (closed outlet, stock,
+ * balances, PIN, ...). On PRICE_CHANGED the new prices are saved to the
+ * cart before the error is rethrown.
+ */
+export async function checkoutGroupCart(
+    groupId: string,
+    hostId: string,
+    options: { pinToken: ReturnType<typeof readPinToken>; pinRequiredAbove: number; pickupAt?: string }
+): Promise<PlaceOrderResult & { requested: number }> {
+    const outletId = (await groupRef(groupId).get()).data()?.outletId;
+    if (typeof outletId !== "string") throw new GroupOrderError("Group order not found", 404);
+    const closedReason = await getCanteenClosedReason(outletId, new Date(), !!options.pickupAt);
+    if (closedReason) throw new OrderPlacementError(closedReason, 403);
+
+    try {
+        return await placeGroupOrder(groupId, hostId, options);
+    } catch (error) {
+        if (error instanceof OrderPlacementError && error.code === "PRICE_CHANGED" && error.changes) {
+            await applyGroupPriceChanges(groupId, error.changes);
+        }
+        throw error;
+    }
+}
+
+function placeGroupOrder(
+    groupId: string,
+    hostId: string,
+    options: Parameters<typeof checkoutGroupCart>[2]
+): Promise<PlaceOrderResult & { requested: number }> {
+    return adminDb.runTransaction(async (transaction) => {
+        // Read the cart before placeOrderInTransaction does its own reads
+        const cart = await readOpenCart(transaction, groupId, hostId);
+        if (cart.hostId !== hostId) throw new GroupOrderError("Only the host can place the group order", 403);
+        if (cart.lines.length === 0) throw new GroupOrderError("The group cart is empty");
+
+        const split = cart.paymentMode === "split";
+        const withLines = cart.memberIds.filter((uid) => cart.lines.some((l) => l.memberId === uid));
+        const waiting = withLines.filter((uid) => uid !== hostId && !cart.members[uid]?.ready);
+        if (split && waiting.length > 0) {
+            const names = waiting.map((uid) => cart.members[uid]?.name || "A member").join(", ");
+            throw new GroupOrderError(`Waiting for ${names} to confirm their share`, 409);
+        }
+        // Other members' large shares are debited on the strength of their own PIN
+        const unconfirmed = split
+            ? withLines.filter((uid) => uid !== hostId && !cart.members[uid]?.pinConfirmed && memberShare(cart, uid) > options.pinRequiredAbove)
+            : [];
+        if (unconfirmed.length > 0) {
+            const names = unconfirmed.map((uid) => cart.members[uid]?.name || "A member").join(", ");
+            throw new GroupOrderError(`Waiting for ${names} to confirm their share with their PIN`, 409);
+        }
+
+        const result = await placeOrderInTransaction(transaction, {
+            userId: hostId,
+            items: cart.lines,
+            userName: cart.hostName,
+            describe: (orderId) => `Group Order #${orderId}${split ? " (your share)" : ""}`,
+            pin: { token: options.pinToken, requiredAbove: options.pinRequiredAbove },
+            pickupAt: options.pickupAt,
+            group: {
+                id: groupId,
+                lineMembers: cart.lines.map((l) => ({ userId: l.memberId, name: cart.members[l.memberId]?.name || "Member" })),
+                split,
+            },
+        });
+
+        // Host paid for everyone — ask the others to pay back their share
+        let requested = 0;
+        if (!split) {
+            const now = new Date();
+            const shares = new Map<string, number>();
+            for (const item of result.items) {
+                if (!item.memberId || item.memberId === hostId) continue;
+                shares.set(item.memberId, roundMoney((shares.get(item.memberId) || 0) + lineAmount(item)));
+            }
+            for (const [payerId, amount] of shares) {
+                if (amount <= 0) continue;
+                transaction.set(adminDb.collection("moneyRequests").doc(), newMoneyRequest({
+                    requesterId: hostId,
+                    requesterName: cart.hostName,
+                    payerId,
+                    payerName: cart.members[payerId]?.name || "Unknown",
+                    amount,
+                    note: `Your share of Group Order #${result.orderId}`,
+                    groupId,
+                    orderId: result.orderId,
+                }, now));
+                requested++;
+            }
+        }
+
+        transaction.update(groupRef(groupId), {
+            status: "placed",
+            orderId: result.orderId,
+            orderDocId: result.orderDocId,
+            updatedAt: new Date().toISOString(),
+        });
+
+        return { ...result, requested };
+    });
+}
@@ -0,0 +1,106 @@
+/**
+ * Stock returns for cancelled / rejected order lines (server-side only).
+ *
+ * Quantities decremented at order time either go back on the shelf
+ * ("restock") or are written off ("waste"). Either way an
+ * inventoryAdjustments entry is written so stock reports can tell sold,
+ * returned and wasted units apart.
+ *
+ * Split into prepare (reads) + apply (writes) so it can sit inside a
+ * larger transaction that still has to honour reads-before-writes.
+ */
+
+import { FieldValue, DocumentSnapshot, Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { canteenConfigDocId, DEFAULT_OUTLET_ID } from "@/lib/outlets";
+import { expandCombos } from "@/lib/combos";
+import type { InventoryAdjustment, OrderItem, StockDisposition } from "@/types";
+
+export const DEFAULT_STOCK_DISPOSITION: StockDisposition = "restock";
+
+export function isStockDisposition(value: unknown): value is StockDisposition {
+    return value === "restock" || value === "waste";
+}
+
+/**
+ * Admin-chosen disposition for cancelled/rejected stock
+ * (the outlet's canteenConfig.cancelledStockDisposition), defaulting to restock.
+ */
+export async function getConfiguredStockDisposition(outletId: string = DEFAULT_OUTLET_ID): Promise<StockDisposition> {
+    const configDoc = await adminDb.collection("settings").doc(canteenConfigDocId(outletId)).get();
+    const configured = configDoc.data()?.cancelledStockDisposition;
+    return isStockDisposition(configured) ? configured : DEFAULT_STOCK_DISPOSITION;
+}
+
+export interface PreparedStockReturn {
+    disposition: StockDisposition;
+    lines: { id: string; name: string; quantity: number; snapshot?: DocumentSnapshot }[];
+}
+
+/**
+ * READ PHASE: sum quantities per menu item (combo lines count as their
+ * components) and, when restocking, read the current menuItems docs.
+ * Call before any transaction write.
+ */
+export async function prepareStockReturn(
+    transaction: Transaction,
+    items: Pick<OrderItem, "id" | "name" | "quantity" | "components">[],
+    disposition: StockDisposition
+): Promise<PreparedStockReturn> {
+    const byId = new Map<string, { id: string; name: string; quantity: number }>();
+    for (const item of expandCombos(items)) {
+        if (!item.id || !(item.quantity > 0)) continue;
+        const line = byId.get(item.id) || { id: item.id, name: item.name, quantity: 0 };
+        line.quantity += item.quantity;
+        byId.set(item.id, line);
+    }
+
+    const lines: PreparedStockReturn["lines"] = [];
+    for (const line of byId.values()) {
+        const snapshot = disposition === "restock"
+            ? await transaction.get(adminDb.collection("menuItems").doc(line.id))
+            : undefined;
+        lines.push({ ...line, snapshot });
+    }
+
+    return { disposition, lines };
+}
+
+/**
+ * WRITE PHASE: put restocked quantities back on menuItems and record one
+ * inventoryAdjustments entry per item.
+ */
+export function applyStockReturn(
+    transaction: Transaction,
+    prepared: PreparedStockReturn,
+    context: Pick<InventoryAdjustment, "orderId" | "orderDocId" | "outletId" | "reason" | "changedBy" | "createdAt">
+): void {
+    for (const line of prepared.lines) {
+        let action = prepared.disposition;
+
+        if (action === "restock") {
+            if (line.snapshot?.exists) {
+                const currentQty = line.snapshot.data()?.quantity || 0;
+                const update: Record<string, unknown> = {
+                    quantity: FieldValue.increment(line.quantity),
+                    updatedAt: context.createdAt,
+                };
+                // Only re-enable items that sold out — not ones an admin switched off
+                if (currentQty <= 0) update.available = true;
+                transaction.update(line.snapshot.ref, update);
+            } else {
+                // Item was deleted from the menu since — nothing to restock into
+                action = "waste";
+            }
+        }
+
+        const entry: Omit<InventoryAdjustment, "id"> = {
+            menuItemId: line.id,
+            itemName: line.name,
+            quantity: line.quantity,
+            action,
+            ...context,
+        };
+        transaction.set(adminDb.collection("inventoryAdjustments").doc(), entry);
+    }
+}
@@ -0,0 +1,39 @@
+/**
+ * Asia/Kolkata calendar helpers. The canteen runs on IST (UTC+5:30, no
+ * DST), while timestamps are stored as UTC ISO strings — these convert
+ * between the two without depending on the server's timezone.
+ */
+
+export const IST_OFFSET_MS = 330 * 60_000;
+const DAY_MS = 86_400_000;
+
+/** "YYYY-MM-DD" of the IST calendar day containing `date` */
+export function istDateKey(date: Date | string = new Date()): string {
+    const ms = (typeof date === "string" ? new Date(date) : date).getTime();
+    return new Date(ms + IST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/** Start of an IST day ("YYYY-MM-DD") as a UTC ISO string */
+export function istDayStart(dateKey: string): string {
+    return new Date(Date.parse(`${dateKey}T00:00:00.000Z`) - IST_OFFSET_MS).toISOString();
+}
+
+/** IST wall-clock time ("HH:MM") on an IST day as a UTC ISO string */
+export function istDateTime(dateKey: string, time: string): string {
+    return new Date(Date.parse(`${dateKey}T${time}:00.000Z`) - IST_OFFSET_MS).toISOString();
+}
+
+/** Shift a "YYYY-MM-DD" key by whole days */
+export function addDays(dateKey: string, days: number): string {
+    return new Date(Date.parse(`${dateKey}T00:00:00.000Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Monday of the IST week containing `dateKey` */
+export function istWeekStartKey(dateKey: string): string {
+    const weekday = new Date(`${dateKey}T00:00:00.000Z`).getUTCDay();
+    return addDays(dateKey, -((weekday + 6) % 7));
+}
+
+export function isDateKey(value: unknown): value is string {
+    return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+}
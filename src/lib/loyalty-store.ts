@@ -0,0 +1,197 @@
+/**
+ * Loyalty points bookkeeping (server-side only) — the rules are in
+ * lib/loyalty.
+ *
+ * A student's balance and streak live in users/{uid}.loyalty and every
+ * movement is appended to loyaltyLedger. Order points are credited and
+ * taken back by updateCanteenWallet, inside the transaction that moves
+ * the order, so this is split into prepare (reads) + apply (writes) like
+ * lib/inventory. A reversal can leave the balance below zero when the
+ * points were already spent; later orders earn it back.
+ */
+
+import { randomInt } from "crypto";
+import { DocumentData, DocumentReference, FieldValue, Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { istDateKey } from "@/lib/ist-date";
+import { outletIdOf } from "@/lib/outlets";
+import { advanceStreak, LoyaltyError, pointsForAmount, REWARD_COUPON_DAYS } from "@/lib/loyalty";
+import type { LoyaltyAccount, LoyaltyEntry, LoyaltyReward, Promotion } from "@/types";
+
+type AccountState = Omit<LoyaltyAccount, "updatedAt">;
+type PendingEntry = Pick<LoyaltyEntry, "type" | "points" | "description" | "orderId">;
+
+export const loyaltyLedgerRef = () => adminDb.collection("loyaltyLedger");
+
+/** A users doc's loyalty account, zeroed for students who haven't earned yet */
+export function readLoyaltyAccount(data: DocumentData | undefined): AccountState {
+    const stored = (data?.loyalty || {}) as Partial<LoyaltyAccount>;
+    return {
+        points: Number(stored.points) || 0,
+        lifetimePoints: Number(stored.lifetimePoints) || 0,
+        streak: Number(stored.streak) || 0,
+        ...(stored.lastOrderDate && { lastOrderDate: stored.lastOrderDate }),
+    };
+}
+
+/** users/{uid}.loyalty for an account state (no undefined fields — Firestore rejects them) */
+function accountFields(account: AccountState, updatedAt: string): LoyaltyAccount {
+    return {
+        points: account.points,
+        lifetimePoints: account.lifetimePoints,
+        streak: account.streak,
+        ...(account.lastOrderDate && { lastOrderDate: account.lastOrderDate }),
+        updatedAt,
+    };
+}
+
+export interface PreparedLoyaltyChange {
+    userRef: DocumentReference;
+    account: AccountState;
+    entries: PendingEntry[];
+}
+
+/**
+ * READ PHASE: the points an order's status change earns (into
+ * `completed`) or takes back (`completed` → `cancelled`). Null when the
+ * change doesn't touch points. Call before any transaction write.
+ */
+export async function prepareLoyaltyChange(
+    transaction: Transaction,
+    change: { userId: string; orderId: string; amount: number; oldStatus: string; newStatus: string }
+): Promise<PreparedLoyaltyChange | null> {
+    const earning = change.newStatus === "completed" && change.oldStatus !== "completed";
+    const reversing = change.oldStatus === "completed" && change.newStatus === "cancelled";
+    if (!earning && !reversing) return null;
+
+    const userRef = adminDb.collection("users").doc(change.userId);
+    const userDoc = await transaction.get(userRef);
+    if (!userDoc.exists) return null;
+    const account = readLoyaltyAccount(userDoc.data());
+
+    if (earning) {
+        const points = pointsForAmount(change.amount);
+        const streak = advanceStreak(account, istDateKey());
+        const entries: PendingEntry[] = [];
+        if (points > 0) {
+            entries.push({ type: "earn", points, description: `Order #${change.orderId}`, orderId: change.orderId });
+        }
+        if (streak.bonus > 0) {
+            entries.push({ type: "streak_bonus", points: streak.bonus, description: `${streak.streak}-day streak bonus`, orderId: change.orderId });
+        }
+        return { userRef, account: { ...account, streak: streak.streak, lastOrderDate: streak.lastOrderDate }, entries };
+    }
+
+    // Take back everything the order earned, streak bonus included (the streak itself stays)
+    const earned = await transaction.get(
+        loyaltyLedgerRef().where("userId", "==", change.userId).where("orderId", "==", change.orderId)
+    );
+    const points = earned.docs.reduce((sum, d) => sum + (Number(d.data().points) || 0), 0);
+    if (points <= 0) return null;
+    return {
+        userRef,
+        account,
+        entries: [{ type: "reversal", points: -points, description: `Order #${change.orderId} cancelled`, orderId: change.orderId }],
+    };
+}
+
+/** WRITE PHASE: update the balance and streak, and append the ledger entries */
+export function applyLoyaltyChange(transaction: Transaction, prepared: PreparedLoyaltyChange, now: string): void {
+    const account = { ...prepared.account };
+    for (const entry of prepared.entries) {
+        account.points += entry.points;
+        account.lifetimePoints += entry.points;
+        const record: Omit<LoyaltyEntry, "id"> = {
+            userId: prepared.userRef.id,
+            ...entry,
+            balanceAfter: account.points,
+            createdAt: now,
+        };
+        transaction.set(loyaltyLedgerRef().doc(), record);
+    }
+    transaction.update(prepared.userRef, { loyalty: accountFields(account, now) });
+}
+
+// Coupon codes skip look-alike characters (0/O, 1/I) since students type them in
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+function rewardCouponCode(): string {
+    let code = "RWD-";
+    for (let i = 0; i < 8; i++) code += CODE_ALPHABET[randomInt(0, CODE_ALPHABET.length)];
+    return code;
+}
+
+/**
+ * Spend points on a reward: issues a personal single-use coupon for the
+ * reward's outlet, valid for REWARD_COUPON_DAYS. A free item is worth the
+ * item's price at redemption time.
+ */
+export async function redeemReward(userId: string, rewardId: string): Promise<{ coupon: Promotion; points: number }> {
+    return adminDb.runTransaction(async (transaction) => {
+        const rewardRef = adminDb.collection("loyaltyRewards").doc(rewardId);
+        const rewardDoc = await transaction.get(rewardRef);
+        if (!rewardDoc.exists || !rewardDoc.data()!.active) {
+            throw new LoyaltyError("This reward isn't available", 404);
+        }
+        const reward = { id: rewardDoc.id, ...rewardDoc.data() } as LoyaltyReward;
+
+        const userRef = adminDb.collection("users").doc(userId);
+        const userDoc = await transaction.get(userRef);
+        if (!userDoc.exists) throw new LoyaltyError("User profile not found", 404);
+        const account = readLoyaltyAccount(userDoc.data());
+        if (account.points < reward.pointsCost) {
+            throw new LoyaltyError(`You need ${reward.pointsCost - account.points} more points for this reward`);
+        }
+
+        let value = reward.discountAmount || 0;
+        if (reward.type === "free_item") {
+            const item = await transaction.get(adminDb.collection("menuItems").doc(reward.itemId!));
+            if (!item.exists || outletIdOf(item.data()) !== reward.outletId) {
+                throw new LoyaltyError("This reward's item is no longer on the menu", 409);
+            }
+            value = Number(item.data()!.price) || 0;
+        }
+        if (value <= 0) throw new LoyaltyError("This reward isn't available", 409);
+
+        const now = new Date();
+        const createdAt = now.toISOString();
+        const couponRef = adminDb.collection("promotions").doc();
+        const coupon: Omit<Promotion, "id"> = {
+            outletId: reward.outletId,
+            type: "coupon",
+            name: `Reward: ${reward.name}`,
+            active: true,
+            endsAt: new Date(now.getTime() + REWARD_COUPON_DAYS * 86_400_000).toISOString(),
+            discountType: "flat",
+            value,
+            code: rewardCouponCode(),
+            usageLimit: 1,
+            perUserLimit: 1,
+            usedCount: 0,
+            ...(reward.type === "free_item" && { itemId: reward.itemId, itemName: reward.itemName || reward.name }),
+            userId,
+            rewardId: reward.id,
+            createdAt,
+            updatedAt: createdAt,
+        };
+        transaction.set(couponRef, coupon);
+
+        const points = account.points - reward.pointsCost;
+        transaction.update(userRef, { loyalty: accountFields({ ...account, points }, createdAt) });
+
+        const entry: Omit<LoyaltyEntry, "id"> = {
+            userId,
+            type: "redeem",
+            points: -reward.pointsCost,
+            balanceAfter: points,
+            description: `Redeemed ${reward.name}`,
+            rewardId: reward.id,
+            couponCode: coupon.code,
+            createdAt,
+        };
+        transaction.set(loyaltyLedgerRef().doc(), entry);
+        transaction.update(rewardRef, { redeemedCount: FieldValue.increment(1), updatedAt: createdAt });
+
+        return { coupon: { id: couponRef.id, ...coupon }, points };
+    });
+}
@@ -0,0 +1,109 @@
+/**
+ * Loyalty program rules shared by the points store (lib/loyalty-store),
+ * the loyalty APIs and the profile page (no Firebase imports).
+ *
+ * - A completed order earns 1 point per RUPEES_PER_POINT of its total;
+ *   cancelling it after completion takes those points back again
+ * - Completing orders on consecutive IST days builds a streak; every
+ *   STREAK_BONUS_DAYS-th day in a row earns STREAK_BONUS_POINTS extra
+ * - Points are spent on an outlet's rewards (a free item or ₹ off), which
+ *   are handed out as personal single-use coupons (lib/promotions)
+ */
+
+import { addDays } from "@/lib/ist-date";
+import type { LoyaltyAccount, LoyaltyReward, LoyaltyRewardType } from "@/types";
+
+export const RUPEES_PER_POINT = 10;
+export const STREAK_BONUS_DAYS = 5;
+export const STREAK_BONUS_POINTS = 25;
+/** How long a redeemed reward's coupon stays valid */
+export const REWARD_COUPON_DAYS = 30;
+export const MAX_REWARDS_PER_OUTLET = 30;
+export const LOYALTY_REWARD_TYPES: LoyaltyRewardType[] = ["free_item", "discount"];
+
+export class LoyaltyError extends Error {
+    constructor(message: string, public status: number = 400) {
+        super(message);
+        this.name = "LoyaltyError";
+    }
+}
+
+/** Points a completed order worth `amount` earns */
+export function pointsForAmount(amount: number): number {
+    return amount > 0 ? Math.floor(amount / RUPEES_PER_POINT) : 0;
+}
+
+/**
+ * The streak after an order completed on IST day `dateKey`. A second
+ * order the same day (or a late completion of an older one) leaves it
+ * alone; a missed day starts over at 1. `bonus` is set on the days that
+ * complete another run of STREAK_BONUS_DAYS.
+ */
+export function advanceStreak(
+    account: Pick<LoyaltyAccount, "streak" | "lastOrderDate"> | undefined,
+    dateKey: string
+): { streak: number; lastOrderDate: string; bonus: number } {
+    const last = account?.lastOrderDate;
+    if (last && dateKey <= last) {
+        return { streak: account?.streak || 1, lastOrderDate: last, bonus: 0 };
+    }
+    const streak = last && addDays(last, 1) === dateKey ? (account?.streak || 0) + 1 : 1;
+    return { streak, lastOrderDate: dateKey, bonus: streak % STREAK_BONUS_DAYS === 0 ? STREAK_BONUS_POINTS : 0 };
+}
+
+/** Days of ordering left until the next streak bonus */
+export function daysToStreakBonus(streak: number): number {
+    return STREAK_BONUS_DAYS - (streak % STREAK_BONUS_DAYS);
+}
+
+/** One-line summary for the profile and admin lists */
+export function describeReward(reward: Pick<LoyaltyReward, "type" | "itemName" | "discountAmount">): string {
+    return reward.type === "free_item"
+        ? `A free ${reward.itemName || "item"}`
+        : `₹${reward.discountAmount} off an order`;
+}
+
+export type LoyaltyRewardFields = Omit<LoyaltyReward, "id" | "outletId" | "redeemedCount" | "createdAt" | "updatedAt">;
+
+/**
+ * Validate a reward from the admin panel; throws LoyaltyError with a
+ * message for the admin. A free item's name is filled in by the API.
+ */
+export function normalizeReward(input: unknown): LoyaltyRewardFields {
+    const raw = (input || {}) as Partial<LoyaltyReward>;
+    const type = raw.type as LoyaltyRewardType;
+    if (!LOYALTY_REWARD_TYPES.includes(type)) throw new LoyaltyError("Unknown reward type");
+
+    const name = typeof raw.name === "string" ? raw.name.trim() : "";
+    if (name.length < 2 || name.length > 60) throw new LoyaltyError("Name must be 2–60 characters");
+
+    const description = typeof raw.description === "string" ? raw.description.trim().slice(0, 200) : "";
+
+    const pointsCost = Number(raw.pointsCost);
+    if (!Number.isInteger(pointsCost) || pointsCost < 1 || pointsCost > 100_000) {
+        throw new LoyaltyError("Points cost must be a whole number from 1 to 100000");
+    }
+
+    const reward: LoyaltyRewardFields = {
+        type,
+        name,
+        ...(description && { description }),
+        pointsCost,
+        active: raw.active !== false,
+    };
+
+    if (type === "free_item") {
+        if (typeof raw.itemId !== "string" || !raw.itemId || raw.itemId.length > 100) {
+            throw new LoyaltyError("Pick the menu item");
+        }
+        reward.itemId = raw.itemId;
+    } else {
+        const discountAmount = Number(raw.discountAmount);
+        if (!Number.isFinite(discountAmount) || discountAmount <= 0 || discountAmount > 10_000) {
+            throw new LoyaltyError("₹ off must be more than 0");
+        }
+        reward.discountAmount = Math.round(discountAmount * 100) / 100;
+    }
+
+    return reward;
+}
@@ -0,0 +1,30 @@
+/**
+ * Money requests (server-side only) — shared by /api/wallet/requests and
+ * group order checkout, where members are asked to pay the host back.
+ * Requests are plain moneyRequests docs; paying one is a wallet transfer.
+ */
+
+import type { MoneyRequest } from "@/types";
+
+export const MONEY_REQUEST_TTL_HOURS = 72;
+
+export function isMoneyRequestExpired(request: Pick<MoneyRequest, "status" | "expiresAt">, now: Date): boolean {
+    return request.status === "pending" && new Date(request.expiresAt).getTime() <= now.getTime();
+}
+
+/** A pending request expiring MONEY_REQUEST_TTL_HOURS from `now` — the caller writes it */
+export function newMoneyRequest(
+    fields: Pick<MoneyRequest, "requesterId" | "requesterName" | "payerId" | "payerName" | "amount" | "note" | "groupId" | "orderId">,
+    now: Date = new Date()
+): Omit<MoneyRequest, "id"> {
+    const { note, groupId, orderId, ...rest } = fields;
+    return {
+        ...rest,
+        ...(note && { note }),
+        status: "pending",
+        ...(groupId && { groupId }),
+        ...(orderId && { orderId }),
+        createdAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + MONEY_REQUEST_TTL_HOURS * 3600_000).toISOString(),
+    };
+}
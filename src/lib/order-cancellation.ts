@@ -0,0 +1,166 @@
+/**
+ * Order cancellation service (server-side only).
+ *
+ * Shared by the customer cancel endpoint and the admin orders API so a
+ * cancelled order is always unwound the same way, inside one transaction:
+ *
+ * 1. State machine check (ORDER_TRANSITIONS) + optional caller guard
+ * 2. Canteen wallet synced via updateCanteenWallet (which also takes back
+ *    the loyalty points of an order cancelled after completion)
+ * 3. Full wallet refund posted to the wallet ledger — to every member who
+ *    paid a share of a split group order
+ * 4. Stock restocked or written off as waste (inventoryAdjustments)
+ * 5. statusHistory entry with the acting user
+ * 6. A pre-order's pickup slot is freed for someone else
+ * 7. A host-paid group order's still-pending money requests are cancelled
+ *    (requests already paid stay between the members)
+ * 8. A redeemed coupon is given back, to the coupon's cap and the student's
+ *    per-coupon count
+ */
+
+import { DocumentData, DocumentReference, FieldValue, Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { updateCanteenWallet } from "@/lib/canteen-wallet";
+import { assertTransition, recordStatusChange } from "@/lib/order-status";
+import { applyStockReturn, getConfiguredStockDisposition, prepareStockReturn } from "@/lib/inventory";
+import { openWallet, postWalletEntry, WALLET_PARTIES, type WalletHandle } from "@/lib/wallet-ledger";
+import { paymentShares, redemptionRef } from "@/lib/order-placement";
+import { outletIdOf } from "@/lib/outlets";
+import { pickupSlotDocId } from "@/lib/pickup-slots";
+import type { OrderDiscount, OrderItem, OrderStatus, OrderStatusChange, StockDisposition } from "@/types";
+
+/**
+ * Error raised for expected cancellation failures (not found, not the
+ * owner, outside the cancel window). `status` is the HTTP status to return.
+ */
+export class OrderCancellationError extends Error {
+    status: number;
+
+    constructor(message: string, status = 400) {
+        super(message);
+        this.name = "OrderCancellationError";
+        this.status = status;
+    }
+}
+
+export interface CancelOrderInput {
+    changedBy: string;
+    actorRole: OrderStatusChange["actorRole"];
+    note?: string;
+    /**
+     * Put the ordered quantities back on menuItems, or write them off.
+     * Defaults to the order's outlet's configured disposition.
+     */
+    stockDisposition?: StockDisposition;
+    /**
+     * Runs after the order is read and before anything is written. Throw
+     * an OrderCancellationError to refuse (ownership, cancel window, ...).
+     */
+    guard?: (order: DocumentData) => void;
+}
+
+export interface CancelOrderResult {
+    orderId: string;
+    refunded: number;
+    stockDisposition: StockDisposition;
+}
+
+/**
+ * Cancel an order inside an existing transaction. All reads happen before
+ * any write, so callers must not have written anything yet.
+ */
+export async function cancelOrderInTransaction(
+    transaction: Transaction,
+    orderRef: DocumentReference,
+    input: CancelOrderInput
+): Promise<CancelOrderResult> {
+    // 1. READ PHASE
+    const orderDoc = await transaction.get(orderRef);
+    if (!orderDoc.exists) throw new OrderCancellationError("Order not found", 404);
+
+    const orderData = orderDoc.data()!;
+    const oldStatus = orderData.status as OrderStatus;
+    input.guard?.(orderData);
+    assertTransition(oldStatus, "cancelled");
+    const stockDisposition = input.stockDisposition || await getConfiguredStockDisposition(outletIdOf(orderData));
+
+    // Rejected lines were already refunded and returned to stock
+    const items = ((orderData.items || []) as OrderItem[]).filter((item) => !item.rejected);
+    const stockReturn = await prepareStockReturn(transaction, items, stockDisposition);
+
+    const total = Number(orderData.total) || 0;
+    const orderIdDisplay = orderData.orderId as string;
+    const refunds: { wallet: WalletHandle; amount: number }[] = [];
+    for (const [payer, amount] of paymentShares(items, orderData.userId as string)) {
+        refunds.push({ wallet: await openWallet(transaction, payer), amount });
+    }
+
+    const pendingRequests = typeof orderData.groupId === "string"
+        ? await transaction.get(adminDb.collection("moneyRequests")
+            .where("groupId", "==", orderData.groupId)
+            .where("status", "==", "pending"))
+        : null;
+
+    // Reads the canteen wallet, then writes — must stay after our own reads
+    await updateCanteenWallet(transaction, oldStatus, "cancelled", total, orderIdDisplay, outletIdOf(orderData), orderData.userId);
+
+    // 2. WRITE PHASE
+    const now = new Date().toISOString();
+
+    transaction.update(orderRef, {
+        status: "cancelled",
+        cancelledAt: now,
+        cancelledBy: input.actorRole,
+        stockDisposition,
+        updatedAt: now,
+    });
+
+    // Refund user wallet(s)
+    for (const { wallet, amount } of refunds) {
+        if (amount <= 0) continue;
+        postWalletEntry(transaction, wallet, {
+            type: "refund",
+            direction: "credit",
+            amount,
+            description: `Refund - Order #${orderIdDisplay} Cancelled`,
+            counterparty: WALLET_PARTIES.canteen,
+            orderId: orderIdDisplay,
+            createdAt: now,
+        });
+    }
+
+    applyStockReturn(transaction, stockReturn, {
+        orderId: orderIdDisplay,
+        orderDocId: orderRef.id,
+        outletId: outletIdOf(orderData),
+        reason: "order_cancelled",
+        changedBy: input.changedBy,
+        createdAt: now,
+    });
+
+    recordStatusChange(transaction, orderRef, {
+        from: oldStatus,
+        to: "cancelled",
+        changedBy: input.changedBy,
+        actorRole: input.actorRole,
+        note: input.note,
+        createdAt: now,
+    });
+
+    for (const request of pendingRequests?.docs || []) {
+        transaction.update(request.ref, { status: "cancelled", respondedAt: now });
+    }
+
+    if (typeof orderData.pickupAt === "string") {
+        const slotRef = adminDb.collection("pickupSlots").doc(pickupSlotDocId(outletIdOf(orderData), orderData.pickupAt));
+        transaction.set(slotRef, { count: FieldValue.increment(-1), updatedAt: now }, { merge: true });
+    }
+
+    const coupon = ((orderData.discounts || []) as OrderDiscount[]).find((d) => d.type === "coupon");
+    if (coupon) {
+        transaction.set(adminDb.collection("promotions").doc(coupon.promotionId), { usedCount: FieldValue.increment(-1) }, { merge: true });
+        transaction.set(redemptionRef(coupon.promotionId, orderData.userId as string), { count: FieldValue.increment(-1), updatedAt: now }, { merge: true });
+    }
+
+    return { orderId: orderIdDisplay, refunded: total, stockDisposition };
+}
@@ -0,0 +1,634 @@
+/**
+ * Order placement service (server-side only).
+ *
+ * The ONE place where orders are created. POST /api/orders, the chat
+ * assistant's confirm_order action and the auto-order cron all go through
+ * here so they behave identically:
+ *
+ * 1. Canteen open/close, weekly schedule and holidays of the outlet the
+ *    items belong to (lib/canteen-schedule, Asia/Kolkata time); one order
+ *    never mixes outlets
+ * 2. Items re-priced from menuItems — client prices are only compared,
+ *    never charged; stale carts are rejected with a PRICE_CHANGED diff
+ * 3. Customization option prices looked up from MenuItem.customizations,
+ *    with required / single-choice rules enforced
+ * 4. Stock checked and decremented atomically with the wallet debit,
+ *    order document and wallet ledger entry (single transaction)
+ * 5. A one-time pickup token is issued for counter verification
+ * 6. Orders above the PIN threshold need a PIN token (lib/pin-auth) when
+ *    the caller passes `pin` — the auto-order cron doesn't
+ * 7. The student's spending limits (lib/spending-limits) apply to every
+ *    order, including auto-orders
+ * 8. Pre-orders (`pickupAt`) skip the "open right now" check; instead the
+ *    pickup slot must be valid for the outlet and not full (lib/pickup-slots)
+ * 9. Group orders (lib/group-orders) tag each line with its member and can
+ *    split the payment: every payer's balance, spending limits and ledger
+ *    entry are handled in the same transaction (see paymentShares)
+ * 10. The outlet's live promotions (lib/promotions) discount the lines;
+ *    a `couponCode` must be valid for the student or the order is refused
+ *    (COUPON_INVALID). Redemptions are counted in the same transaction.
+ * 11. Combos (lib/combos) are priced as one line at the bundle price, but
+ *    their stock is checked and taken from the component items
+ */
+
+import { randomInt } from "crypto";
+import { DocumentReference, DocumentSnapshot, FieldValue, QuerySnapshot, Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { generateOrderId } from "@/lib/orderIdUtils";
+import { recordStatusChange } from "@/lib/order-status";
+import { openWallet, postWalletEntry, roundMoney, WALLET_PARTIES, type WalletHandle } from "@/lib/wallet-ledger";
+import { pinRequirement, pinRequirementMessage, readPinToken } from "@/lib/pin-auth";
+import { checkSpendingLimits } from "@/lib/spending-limits";
+import { canteenConfigDocId, DEFAULT_OUTLET_ID, outletIdOf } from "@/lib/outlets";
+import { evaluateCanteenStatus, type ScheduleConfig } from "@/lib/canteen-schedule";
+import { pickupSlotDocId, pickupUnavailableReason, prepStartFor, type PickupConfig } from "@/lib/pickup-slots";
+import { applyPromotions, findCoupon, lineAmount, normalizeCouponCode, PromotionError, type PromotionResult } from "@/lib/promotions";
+import { expandCombos, isCombo } from "@/lib/combos";
+import type { CartPriceChange, ComboComponent, MenuItemCustomization, OrderDiscount, OrderItem, Promotion, SelectedOption } from "@/types";
+
+/**
+ * Error raised for expected placement failures (closed canteen, stock,
+ * balance, stale cart, pickup slot). `status` is the HTTP status routes should return;
+ * `code` + `changes` are set when the cart's prices are out of date.
+ */
+export class OrderPlacementError extends Error {
+    status: number;
+    code?: "PRICE_CHANGED" | "PIN_REQUIRED" | "PIN_NOT_SET" | "SPENDING_LIMIT" | "MIXED_OUTLETS" | "PICKUP_UNAVAILABLE" | "PICKUP_SLOT_FULL" | "COUPON_INVALID";
+    changes?: CartPriceChange[];
+
+    constructor(message: string, status = 400) {
+        super(message);
+        this.name = "OrderPlacementError";
+        this.status = status;
+    }
+
+    /** JSON body for API responses */
+    toJSON() {
+        return { error: this.message, code: this.code, changes: this.changes };
+    }
+}
+
+/**
+ * A cart line as sent by the client — only id, quantity and options are
+ * trusted. `price` is the unit price the client displayed; when present it
+ * is compared against the server price to detect stale carts.
+ */
+export interface OrderLineInput {
+    id: string;
+    quantity: number;
+    name?: string;
+    price?: number;
+    selectedOptions?: Pick<SelectedOption, "customizationId" | "optionId">[];
+}
+
+export interface PlaceOrderInput {
+    userId: string;
+    items: OrderLineInput[];
+    userName?: string;
+    userEmail?: string;
+    /** Builds the user's wallet debit description, defaults to "Order #<id>" */
+    describe?: (orderId: string) => string;
+    /** Extra fields merged into the order document (e.g. autoOrderId) */
+    extra?: Record<string, unknown>;
+    /** Who placed the order, for the status history (defaults to "user") */
+    actorRole?: "user" | "system";
+    /** PIN enforcement for interactive orders: token from the request and the total it applies above */
+    pin?: { token: ReturnType<typeof readPinToken>; requiredAbove: number };
+    /** Scheduled pickup (slot start, ISO) — omit for an order picked up as soon as it's ready */
+    pickupAt?: string;
+    /**
+     * Group orders: the member each line is for (same index as `items`).
+     * With `split`, each member pays for their own lines from their own
+     * wallet; otherwise `userId` (the host) pays for everything.
+     */
+    group?: { id: string; lineMembers: { userId: string; name: string }[]; split: boolean };
+    /** Coupon the student entered at checkout (redeemed by `userId`) */
+    couponCode?: string;
+}
+
+export interface PlaceOrderResult {
+    orderId: string;
+    orderDocId: string;
+    outletId: string;
+    items: OrderItem[];
+    discounts: OrderDiscount[];
+    total: number;
+}
+
+/**
+ * Check the outlet's canteenConfig and return a user-facing reason if
+ * orders cannot be placed right now, or null if the outlet is open.
+ * Pre-orders only need the outlet to be taking orders at all — their
+ * pickup slot is checked by placeOrderInTransaction.
+ */
+export async function getCanteenClosedReason(
+    outletId: string = DEFAULT_OUTLET_ID,
+    now: Date = new Date(),
+    preOrder = false
+): Promise<string | null> {
+    const [configDoc, outletDoc] = await Promise.all([
+        adminDb.collection("settings").doc(canteenConfigDocId(outletId)).get(),
+        adminDb.collection("outlets").doc(outletId).get(),
+    ]);
+    if (outletDoc.data()?.active === false) {
+        return `${outletDoc.data()!.name || "This outlet"} is not taking orders`;
+    }
+    if (!configDoc.exists || preOrder) return null;
+
+    return evaluateCanteenStatus(configDoc.data() as ScheduleConfig, now).reason;
+}
+
+/**
+ * What each payer was charged for `items` (net of line discounts): lines
+ * paid by a group member carry `paidBy`, everything else is paid by the
+ * order's `userId`. Rejected lines are skipped — they've been refunded already.
+ */
+export function paymentShares(items: OrderItem[], ownerId: string): Map<string, number> {
+    const shares = new Map<string, number>();
+    for (const item of items) {
+        if (item.rejected) continue;
+        const payer = item.paidBy || ownerId;
+        shares.set(payer, roundMoney((shares.get(payer) || 0) + lineAmount(item)));
+    }
+    return shares;
+}
+
+/**
+ * Validate the shape of client cart lines before touching Firestore.
+ */
+export function validateOrderLines(items: unknown): OrderLineInput[] {
+    if (!items || !Array.isArray(items) || items.length === 0) {
+        throw new OrderPlacementError("No items in order");
+    }
+
+    return items.map((raw) => {
+        const line = raw as OrderLineInput;
+        if (!line || typeof line.id !== "string" || !line.id) {
+            throw new OrderPlacementError("Invalid item in order");
+        }
+        const quantity = Number(line.quantity);
+        if (!Number.isInteger(quantity) || quantity < 1) {
+            throw new OrderPlacementError(`Invalid quantity for ${line.name || "item"}`);
+        }
+        return {
+            id: line.id,
+            quantity,
+            name: line.name,
+            price: typeof line.price === "number" && Number.isFinite(line.price) ? line.price : undefined,
+            selectedOptions: Array.isArray(line.selectedOptions) ? line.selectedOptions : [],
+        };
+    });
+}
+
+/**
+ * Re-price one cart line from its menuItems document: base price plus the
+ * current price of every chosen customization option. Enforces the item's
+ * customization rules (required groups, single-choice groups). A combo
+ * line takes the bundle price and a snapshot of its components.
+ */
+export function priceLine(line: OrderLineInput, snapshot: DocumentSnapshot): OrderItem {
+    if (!snapshot.exists) {
+        throw new OrderPlacementError(`Item ${line.name || line.id} no longer exists`, 409);
+    }
+
+    const data = snapshot.data()!;
+    const customizations: MenuItemCustomization[] = data.customizations || [];
+
+    const selectedOptions: SelectedOption[] = (line.selectedOptions || []).map((sel) => {
+        const cust = customizations.find((c) => c.id === sel.customizationId);
+        const opt = cust?.options.find((o) => o.id === sel.optionId);
+        if (!cust || !opt) {
+            throw new OrderPlacementError(`A selected option for ${data.name} is no longer available`, 409);
+        }
+        return {
+            customizationId: cust.id,
+            customizationTitle: cust.title,
+            optionId: opt.id,
+            optionName: opt.name,
+            price: Number(opt.price) || 0,
+        };
+    });
+
+    for (const cust of customizations) {
+        const chosen = selectedOptions.filter((o) => o.customizationId === cust.id);
+        if (new Set(chosen.map((o) => o.optionId)).size !== chosen.length) {
+            throw new OrderPlacementError(`${data.name}: "${cust.title}" has a duplicate selection`);
+        }
+        if (cust.required && chosen.length === 0) {
+            throw new OrderPlacementError(`${data.name}: please choose "${cust.title}"`, 409);
+        }
+        if (cust.type === "single" && chosen.length > 1) {
+            throw new OrderPlacementError(`${data.name}: only one "${cust.title}" can be chosen`);
+        }
+    }
+
+    const unitPrice = (Number(data.price) || 0) + selectedOptions.reduce((s, o) => s + o.price, 0);
+
+    const item: OrderItem = {
+        id: snapshot.id,
+        name: data.name,
+        price: unitPrice,
+        quantity: line.quantity,
+    };
+    if (selectedOptions.length > 0) item.selectedOptions = selectedOptions;
+    if (data.category) item.category = data.category;
+    if (isCombo(data)) item.components = data.components || [];
+    return item;
+}
+
+/**
+ * Throw a PRICE_CHANGED error listing every line whose client-side unit
+ * price differs from the freshly computed one. Lines sent without a price
+ * (e.g. auto-orders) are not compared.
+ */
+function assertPricesUnchanged(lines: OrderLineInput[], items: OrderItem[]) {
+    const changes: CartPriceChange[] = [];
+    lines.forEach((line, index) => {
+        const item = items[index];
+        if (line.price === undefined || Math.abs(line.price - item.price) < 0.01) return;
+        changes.push({
+            index,
+            id: item.id,
+            name: item.name,
+            selectedOptions: item.selectedOptions,
+            oldPrice: line.price,
+            newPrice: item.price,
+        });
+    });
+
+    if (changes.length === 0) return;
+
+    const summary = changes.map((c) => `${c.name} ₹${c.oldPrice} → ₹${c.newPrice}`).join(", ");
+    const error = new OrderPlacementError(`Prices updated: ${summary}`, 409);
+    error.code = "PRICE_CHANGED";
+    error.changes = changes;
+    throw error;
+}
+
+/**
+ * The single outlet a set of menu item snapshots belongs to. Carts are
+ * per outlet, so a mix is rejected rather than split into several orders.
+ */
+export function outletOfSnapshots(snapshots: Iterable<DocumentSnapshot>): string {
+    const outlets = new Set<string>();
+    for (const snapshot of snapshots) {
+        if (snapshot.exists) outlets.add(outletIdOf(snapshot.data()));
+    }
+    if (outlets.size > 1) {
+        const error = new OrderPlacementError("Your cart has items from different outlets — order from one outlet at a time", 409);
+        error.code = "MIXED_OUTLETS";
+        throw error;
+    }
+    return [...outlets][0] || DEFAULT_OUTLET_ID;
+}
+
+/** Outlet the cart lines will be ordered from (throws MIXED_OUTLETS) */
+export async function resolveOrderOutlet(lines: Pick<OrderLineInput, "id">[]): Promise<string> {
+    const uniqueIds = [...new Set(lines.map((l) => l.id))];
+    if (uniqueIds.length === 0) return DEFAULT_OUTLET_ID;
+    const snapshots = await adminDb.getAll(...uniqueIds.map((id) => adminDb.collection("menuItems").doc(id)));
+    return outletOfSnapshots(snapshots);
+}
+
+/**
+ * Active automatic promotions of an outlet — live-ness is checked by
+ * applyPromotions. Coupons are looked up by code (couponQuery), since
+ * every redeemed loyalty reward adds a personal one.
+ */
+const automaticPromotionsQuery = (outletId: string) =>
+    adminDb.collection("promotions")
+        .where("outletId", "==", outletId)
+        .where("active", "==", true)
+        .where("type", "in", ["happy_hour", "buy_x_get_y"]);
+
+const couponQuery = (outletId: string, code: string) =>
+    adminDb.collection("promotions")
+        .where("outletId", "==", outletId)
+        .where("code", "==", code)
+        .where("active", "==", true);
+
+const toPromotions = (...snaps: QuerySnapshot[]) =>
+    snaps.flatMap((snap) => snap.docs.map((d) => ({ id: d.id, ...d.data() }) as Promotion));
+
+/** promotionRedemptions/{promotionId}_{userId} — how often a student used a coupon */
+export const redemptionRef = (promotionId: string, userId: string) =>
+    adminDb.collection("promotionRedemptions").doc(`${promotionId}_${userId}`);
+
+/** applyPromotions, with a refused coupon turned into a COUPON_INVALID placement error */
+function discountOrder(
+    items: OrderItem[],
+    promotions: Promotion[],
+    coupon: { code: string; uses: number; userId?: string } | null
+): PromotionResult {
+    try {
+        return applyPromotions(items, promotions, coupon);
+    } catch (err) {
+        if (!(err instanceof PromotionError)) throw err;
+        const error = new OrderPlacementError(err.message, 409);
+        error.code = "COUPON_INVALID";
+        throw error;
+    }
+}
+
+/**
+ * Price cart lines against the current menu without writing anything.
+ * Used to show an accurate summary (or a "prices updated" diff) before
+ * the user confirms. Promotions are applied as placeOrder would; a
+ * coupon's per-student cap needs `userId`.
+ */
+export async function quoteOrder(
+    lines: OrderLineInput[],
+    options: { couponCode?: string; userId?: string } = {}
+): Promise<PromotionResult & { outletId: string }> {
+    const uniqueIds = [...new Set(lines.map((l) => l.id))];
+    const snapshots = await adminDb.getAll(...uniqueIds.map((id) => adminDb.collection("menuItems").doc(id)));
+    const byId = new Map(snapshots.map((s) => [s.id, s]));
+
+    const items = lines.map((line) => priceLine(line, byId.get(line.id)!));
+    const outletId = outletOfSnapshots(snapshots);
+    assertPricesUnchanged(lines, items);
+
+    const couponCode = normalizeCouponCode(options.couponCode);
+    const [automaticSnap, couponSnap] = await Promise.all([
+        automaticPromotionsQuery(outletId).get(),
+        couponCode ? couponQuery(outletId, couponCode).get() : null,
+    ]);
+    const promotions = toPromotions(automaticSnap, ...(couponSnap ? [couponSnap] : []));
+    let coupon: { code: string; uses: number; userId?: string } | null = null;
+    if (couponCode) {
+        const promotion = findCoupon(promotions, couponCode);
+        const redemption = promotion && options.userId ? await redemptionRef(promotion.id, options.userId).get() : null;
+        coupon = { code: couponCode, uses: Number(redemption?.data()?.count) || 0, userId: options.userId };
+    }
+    return { ...discountOrder(items, promotions, coupon), outletId };
+}
+
+/**
+ * Place an order inside an existing Firestore transaction.
+ *
+ * Performs all of its reads before any writes, so callers that need to
+ * read extra documents must do so BEFORE calling this, and may only
+ * write AFTER it returns. Canteen hours are NOT checked here, but a
+ * `pickupAt` slot is (it has to be counted in the same transaction).
+ */
+export async function placeOrderInTransaction(
+    transaction: Transaction,
+    input: PlaceOrderInput
+): Promise<PlaceOrderResult> {
+    const { userId } = input;
+    const orderId = generateOrderId();
+
+    // 1. READ PHASE: Fetch all required data first
+
+    // 1.1 Fetch user wallet (and, for split group orders, every member's)
+    const wallet = await openWallet(transaction, userId, () => new OrderPlacementError("User not found", 404));
+    const wallets = new Map<string, WalletHandle>([[userId, wallet]]);
+    if (input.group && input.group.lineMembers.length !== input.items.length) {
+        throw new OrderPlacementError("Every group order line needs a member");
+    }
+    if (input.group?.split) {
+        for (const member of input.group.lineMembers) {
+            if (wallets.has(member.userId)) continue;
+            wallets.set(member.userId, await openWallet(transaction, member.userId, () => new OrderPlacementError(`${member.name} no longer has an account`, 404)));
+        }
+    }
+
+    // 1.2 Fetch each distinct menu item once (the same item may appear on
+    //     several lines with different customizations)
+    const uniqueIds = [...new Set(input.items.map((l) => l.id))];
+    const snapshots = new Map<string, DocumentSnapshot>();
+    for (const id of uniqueIds) {
+        const itemDoc = await transaction.get(adminDb.collection("menuItems").doc(id));
+        snapshots.set(id, itemDoc);
+    }
+    // ...and the components of any combo, whose stock the combo takes
+    for (const snapshot of [...snapshots.values()]) {
+        if (!isCombo(snapshot.data())) continue;
+        for (const component of (snapshot.data()!.components || []) as ComboComponent[]) {
+            if (snapshots.has(component.itemId)) continue;
+            snapshots.set(component.itemId, await transaction.get(adminDb.collection("menuItems").doc(component.itemId)));
+        }
+    }
+
+    // 2. VALIDATION PHASE
+
+    // 2.1 Re-price every line from Firestore (client prices are ignored)
+    const pricedItems = input.items.map((line, index) => {
+        const item = priceLine(line, snapshots.get(line.id)!);
+        const member = input.group?.lineMembers[index];
+        if (!member) return item;
+        return { ...item, memberId: member.userId, memberName: member.name, ...(input.group!.split && { paidBy: member.userId }) };
+    });
+    const outletId = outletOfSnapshots(snapshots.values());
+    assertPricesUnchanged(input.items, pricedItems);
+
+    // 2.1.1 Discounts from the outlet's promotions (reads the promotions and,
+    //       for a coupon, the student's redemption count)
+    const couponCode = normalizeCouponCode(input.couponCode);
+    const promotions = toPromotions(
+        await transaction.get(automaticPromotionsQuery(outletId)),
+        ...(couponCode ? [await transaction.get(couponQuery(outletId, couponCode))] : [])
+    );
+    const couponPromotion = couponCode ? findCoupon(promotions, couponCode) : undefined;
+    const couponRedemption = couponPromotion ? await transaction.get(redemptionRef(couponPromotion.id, userId)) : null;
+    const { items, discounts, subtotal, total } = discountOrder(
+        pricedItems,
+        promotions,
+        couponCode ? { code: couponCode, uses: Number(couponRedemption?.data()?.count) || 0, userId } : null
+    );
+    if (subtotal <= 0) throw new OrderPlacementError("Invalid order total");
+    const shares = paymentShares(items, userId);
+    const memberName = (payer: string) => input.group?.lineMembers.find((m) => m.userId === payer)?.name || "A member";
+
+    // 2.2 Large orders need a PIN-verified token (for the caller's own share)
+    if (input.pin && (shares.get(userId) || 0) > input.pin.requiredAbove) {
+        const requirement = pinRequirement(input.pin.token, wallet.data);
+        if (requirement) {
+            const error = new OrderPlacementError(pinRequirementMessage(requirement), 403);
+            error.code = requirement;
+            throw error;
+        }
+    }
+
+    // 2.3 Check each payer's wallet balance
+    for (const [payer, amount] of shares) {
+        if (wallets.get(payer)!.balance >= amount) continue;
+        throw new OrderPlacementError(
+            payer === userId ? "Insufficient wallet balance" : `${memberName(payer)} doesn't have enough wallet balance for their share`,
+            402
+        );
+    }
+
+    // 2.4 Spending limits (reads today's ledger + orders — still before any write)
+    for (const [payer, amount] of shares) {
+        const payerItems = items.filter((item) => (item.paidBy || userId) === payer);
+        const limitReason = await checkSpendingLimits(transaction, payer, wallets.get(payer)!.data.spendingLimits, { amount, items: payerItems });
+        if (limitReason) {
+            const error = new OrderPlacementError(payer === userId ? limitReason : `${memberName(payer)}: ${limitReason}`, 403);
+            error.code = "SPENDING_LIMIT";
+            throw error;
+        }
+    }
+
+    // 2.5 Check menu item quantities (summed across lines, combos counted
+    //     as their components; a combo itself can still be switched off)
+    for (const item of items) {
+        if (item.components && snapshots.get(item.id)!.data()!.available === false) {
+            throw new OrderPlacementError(`${item.name} is currently unavailable`, 409);
+        }
+    }
+    const requested = new Map<string, number>();
+    for (const line of expandCombos(items)) {
+        requested.set(line.id, (requested.get(line.id) || 0) + line.quantity);
+    }
+    for (const [id, qty] of requested) {
+        const snapshot = snapshots.get(id)!;
+        if (!snapshot.exists) {
+            throw new OrderPlacementError("An item in one of your combos is no longer on the menu", 409);
+        }
+        const data = snapshot.data()!;
+        const currentQty = data.quantity || 0;
+        if (data.available === false) {
+            throw new OrderPlacementError(`${data.name} is currently unavailable`, 409);
+        }
+        if (currentQty < qty) {
+            throw new OrderPlacementError(`${data.name} only has ${currentQty} left`, 409);
+        }
+    }
+
+    // 2.6 Scheduled pickup: valid slot for the outlet with room left, far
+    //     enough ahead for the slowest item (reads config + slot counter)
+    let pickup: { at: string; prepStartAt: string; slotRef: DocumentReference } | null = null;
+    if (input.pickupAt) {
+        const configDoc = await transaction.get(adminDb.collection("settings").doc(canteenConfigDocId(outletId)));
+        const config = (configDoc.data() || {}) as PickupConfig;
+        const prepMinutes = Math.max(0, ...[...snapshots.values()].map((s) => Number(s.data()?.preparationTime) || 0));
+
+        const reason = pickupUnavailableReason(config, input.pickupAt, new Date(), prepMinutes);
+        if (reason) {
+            const error = new OrderPlacementError(reason, 409);
+            error.code = "PICKUP_UNAVAILABLE";
+            throw error;
+        }
+
+        const at = new Date(input.pickupAt).toISOString();
+        const slotRef = adminDb.collection("pickupSlots").doc(pickupSlotDocId(outletId, at));
+        const slotDoc = await transaction.get(slotRef);
+        if ((Number(slotDoc.data()?.count) || 0) >= (config.pickupSlotCapacity || 0)) {
+            const error = new OrderPlacementError("That pickup slot is full — please choose another time", 409);
+            error.code = "PICKUP_SLOT_FULL";
+            throw error;
+        }
+        pickup = { at, prepStartAt: prepStartFor(at, prepMinutes), slotRef };
+    }
+
+    // 3. WRITE PHASE: All updates happen after all reads/validations
+    const now = new Date().toISOString();
+
+    // 3.1 Update menu item quantities
+    for (const [id, qty] of requested) {
+        const snapshot = snapshots.get(id)!;
+        const newQty = (snapshot.data()?.quantity || 0) - qty;
+
+        transaction.update(snapshot.ref, {
+            quantity: newQty,
+            available: newQty > 0,
+            updatedAt: now,
+        });
+    }
+
+    // 3.2 Create order document
+    const userData = wallet.data;
+    const userName = input.userName || userData?.name || "Unknown";
+    const orderRef = adminDb.collection("orders").doc();
+    transaction.set(orderRef, {
+        orderId,
+        outletId,
+        userId,
+        userName,
+        userEmail: input.userEmail || userData?.email || "Unknown",
+        userPhone: userData?.phone || "",
+        userRollNumber: userData?.rollNumber || "",
+        items,
+        ...(discounts.length > 0 && { subtotal, discounts }),
+        total,
+        paymentMode: "Wallet",
+        status: "pending",
+        pickupToken: generatePickupToken(),
+        ...(pickup && { pickupAt: pickup.at, prepStartAt: pickup.prepStartAt }),
+        ...(input.group && {
+            groupId: input.group.id,
+            memberIds: [...new Set([userId, ...input.group.lineMembers.map((m) => m.userId)])],
+        }),
+        ...input.extra,
+        createdAt: now,
+        updatedAt: now,
+    });
+
+    // 3.3 Book the pickup slot (freed again by cancelOrderInTransaction)
+    if (pickup) {
+        transaction.set(pickup.slotRef, {
+            outletId,
+            pickupAt: pickup.at,
+            count: FieldValue.increment(1),
+            updatedAt: now,
+        }, { merge: true });
+    }
+
+    // 3.3.1 Count the coupon redemption (given back by cancelOrderInTransaction)
+    if (couponPromotion) {
+        transaction.update(adminDb.collection("promotions").doc(couponPromotion.id), {
+            usedCount: FieldValue.increment(1),
+        });
+        transaction.set(couponRedemption!.ref, {
+            promotionId: couponPromotion.id,
+            userId,
+            count: FieldValue.increment(1),
+            updatedAt: now,
+        }, { merge: true });
+    }
+
+    // 3.4 Start the status history
+    const actorRole = input.actorRole || "user";
+    recordStatusChange(transaction, orderRef, {
+        from: null,
+        to: "pending",
+        changedBy: actorRole === "system" ? "system" : userName,
+        actorRole,
+        createdAt: now,
+    });
+
+    // 3.5 Debit each payer's wallet through the ledger (nothing to debit
+    //     when a discount covered someone's whole share)
+    for (const [payer, amount] of shares) {
+        if (amount <= 0) continue;
+        postWalletEntry(transaction, wallets.get(payer)!, {
+            type: "payment",
+            direction: "debit",
+            amount,
+            description: input.describe ? input.describe(orderId) : `Order #${orderId}`,
+            counterparty: WALLET_PARTIES.canteen,
+            orderId,
+            createdAt: now,
+        });
+    }
+
+    return { orderId, orderDocId: orderRef.id, outletId, items, discounts, total };
+}
+
+/** 6-digit one-time code the student shows at the counter (see /api/admin/orders/pickup) */
+export function generatePickupToken(): string {
+    return randomInt(0, 1_000_000).toString().padStart(6, "0");
+}
+
+/**
+ * Place an order in its own Firestore transaction after checking that the
+ * items' outlet is open (or, for pre-orders, taking orders at all).
+ * Throws OrderPlacementError for expected failures.
+ */
+export async function placeOrder(input: PlaceOrderInput): Promise<PlaceOrderResult> {
+    const closedReason = await getCanteenClosedReason(await resolveOrderOutlet(input.items), new Date(), !!input.pickupAt);
+    if (closedReason) throw new OrderPlacementError(closedReason, 403);
+
+    return adminDb.runTransaction((transaction) => placeOrderInTransaction(transaction, input));
+}
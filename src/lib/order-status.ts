@@ -0,0 +1,89 @@
+/**
+ * Order status state machine.
+ *
+ * Single source of truth for which Order["status"] transitions are legal.
+ * Safe to import from client components (the Firestore import is type-only)
+ * so the admin UI can disable buttons for illegal moves.
+ */
+
+import type { Transaction, DocumentReference } from "firebase-admin/firestore";
+import type { Order, OrderStatus, OrderStatusChange } from "@/types";
+
+export const ORDER_STATUSES: OrderStatus[] = ["pending", "confirmed", "preparing", "ready", "completed", "cancelled"];
+
+/** Allowed next statuses for each status. Terminal states map to []. */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    pending: ["confirmed", "preparing", "cancelled"],
+    confirmed: ["preparing", "ready", "cancelled"],
+    preparing: ["ready", "cancelled"],
+    ready: ["completed", "cancelled"],
+    // Refunding a completed order is a rare admin action but still supported
+    completed: ["cancelled"],
+    cancelled: [],
+};
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+    return typeof value === "string" && (ORDER_STATUSES as string[]).includes(value);
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+    return ORDER_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/** A status change the order's current state doesn't allow (409 by default) */
+export class OrderTransitionError extends Error {
+    constructor(message: string, public status: number = 409) {
+        super(message);
+        this.name = "OrderTransitionError";
+    }
+}
+
+/**
+ * Throws an OrderTransitionError if `from → to` is not a legal transition.
+ */
+export function assertTransition(from: OrderStatus, to: OrderStatus): void {
+    if (!canTransition(from, to)) {
+        throw new OrderTransitionError(`Cannot change order from ${from} to ${to}`);
+    }
+}
+
+/** Default for CanteenConfig.cancelGraceMinutes */
+export const DEFAULT_CANCEL_GRACE_MINUTES = 2;
+
+/**
+ * Whether the customer may still cancel their own order: always while
+ * `pending`, and while `confirmed` only within `graceMinutes` of placing it.
+ * Once preparation starts only the canteen can cancel.
+ */
+export function isWithinCancelWindow(
+    order: Pick<Order, "status" | "createdAt">,
+    graceMinutes: number = DEFAULT_CANCEL_GRACE_MINUTES,
+    now: number = Date.now()
+): boolean {
+    if (order.status === "pending") return true;
+    if (order.status !== "confirmed" || graceMinutes <= 0) return false;
+
+    const placedAt = new Date(order.createdAt).getTime();
+    return now - placedAt <= graceMinutes * 60 * 1000;
+}
+
+/**
+ * Append an entry to orders/{orderId}/statusHistory inside a transaction.
+ * Server-side only (pass an Admin SDK transaction + order reference).
+ */
+export function recordStatusChange(
+    transaction: Transaction,
+    orderRef: DocumentReference,
+    change: Omit<OrderStatusChange, "id" | "createdAt"> & { createdAt?: string }
+): void {
+    const entryRef = orderRef.collection("statusHistory").doc();
+    const entry: Record<string, unknown> = {
+        from: change.from,
+        to: change.to,
+        changedBy: change.changedBy,
+        actorRole: change.actorRole,
+        createdAt: change.createdAt || new Date().toISOString(),
+    };
+    if (change.note) entry.note = change.note;
+    transaction.set(entryRef, entry);
+}
@@ -0,0 +1,53 @@
+/**
+ * Outlet helpers shared by client and server (no Firebase imports).
+ *
+ * Each outlet has its own menu items, operating hours, stock, orders,
+ * admin accounts and canteen wallet. Everything created before outlets
+ * existed has no `outletId` and belongs to the default outlet, which also
+ * keeps the original document ids (settings/canteenConfig,
+ * wallets/canteen_owner).
+ */
+
+import type { Outlet } from "@/types";
+
+export const DEFAULT_OUTLET_ID = "main";
+
+export const DEFAULT_OUTLET: Outlet = {
+    id: DEFAULT_OUTLET_ID,
+    name: "Main Canteen",
+    active: true,
+    order: 0,
+};
+
+/** localStorage key for the outlet a student is browsing */
+export const SELECTED_OUTLET_KEY = "zayko_outlet";
+
+/** Outlet the student last picked on the home page (client only) */
+export function getSelectedOutletId(): string {
+    if (typeof window === "undefined") return DEFAULT_OUTLET_ID;
+    return localStorage.getItem(SELECTED_OUTLET_KEY) || DEFAULT_OUTLET_ID;
+}
+
+/** Outlet ids are used in document ids, so keep them short and URL-safe */
+export const OUTLET_ID_PATTERN = /^[a-z0-9-]{2,30}$/;
+
+/** Outlet a menu item, order or canteen entry belongs to */
+export function outletIdOf(record: { outletId?: string } | null | undefined): string {
+    return record?.outletId || DEFAULT_OUTLET_ID;
+}
+
+/** Document id under settings/ holding the outlet's CanteenConfig */
+export function canteenConfigDocId(outletId: string = DEFAULT_OUTLET_ID): string {
+    return outletId === DEFAULT_OUTLET_ID ? "canteenConfig" : `canteenConfig_${outletId}`;
+}
+
+/** Document id under wallets/ holding the outlet's CanteenWallet */
+export function canteenWalletId(outletId: string = DEFAULT_OUTLET_ID): string {
+    return outletId === DEFAULT_OUTLET_ID ? "canteen_owner" : `canteen_owner_${outletId}`;
+}
+
+/** Outlet docs sorted for display, with the default outlet present even before it has a doc */
+export function withDefaultOutlet(outlets: Outlet[]): Outlet[] {
+    const list = outlets.some((o) => o.id === DEFAULT_OUTLET_ID) ? outlets : [DEFAULT_OUTLET, ...outlets];
+    return [...list].sort((a, b) => (a.order ?? 0) - (b.order ?? 0) || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,148 @@
+/**
+ * Scheduled pickup ("pre-order") slots, shared by order placement, the
+ * pickup-slots API and the cart's time picker (no Firebase imports).
+ *
+ * An outlet's opening hours (lib/canteen-schedule) are cut into pickup
+ * slots of `pickupSlotMinutes`, and each slot takes at most
+ * `pickupSlotCapacity` orders, counted in pickupSlots/{pickupSlotDocId}.
+ * A capacity of 0 (the default) turns pre-orders off. Stock is reserved
+ * when a pre-order is placed — it's decremented like any other order and
+ * returned if the order is cancelled.
+ *
+ * The kitchen starts a scheduled order at `prepStartAt`: the pickup time
+ * minus the longest preparationTime in the order.
+ */
+
+import { addDays, istDateTime } from "@/lib/ist-date";
+import { holidayOn, istClock, slotsFor, toMinutes, weekdayOf, type ScheduleConfig } from "@/lib/canteen-schedule";
+import type { CanteenConfig, Order } from "@/types";
+
+export const PICKUP_SLOT_LENGTHS = [10, 15, 20, 30];
+export const DEFAULT_PICKUP_SLOT_MINUTES = 15;
+export const MAX_PICKUP_SLOT_CAPACITY = 200;
+export const MAX_PRE_ORDER_DAYS = 7;
+
+export type PickupConfig = ScheduleConfig & Pick<CanteenConfig, "pickupSlotCapacity" | "pickupSlotMinutes" | "preOrderDaysAhead">;
+
+export function pickupSlotLength(config: PickupConfig): number {
+    return PICKUP_SLOT_LENGTHS.includes(config.pickupSlotMinutes ?? 0) ? config.pickupSlotMinutes! : DEFAULT_PICKUP_SLOT_MINUTES;
+}
+
+export function preOrdersEnabled(config: PickupConfig): boolean {
+    return config.isOpen !== false && (config.pickupSlotCapacity || 0) > 0;
+}
+
+function toTime(minutes: number): string {
+    return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/** IST days pickups can be booked for: today plus preOrderDaysAhead, skipping holidays */
+export function pickupDates(config: PickupConfig, now: Date = new Date()): string[] {
+    if (!preOrdersEnabled(config)) return [];
+    const today = istClock(now).date;
+    const daysAhead = Math.min(MAX_PRE_ORDER_DAYS, Math.max(0, config.preOrderDaysAhead || 0));
+    const dates: string[] = [];
+    for (let offset = 0; offset <= daysAhead; offset++) {
+        const date = addDays(today, offset);
+        if (!holidayOn(config, date)) dates.push(date);
+    }
+    return dates;
+}
+
+/** Start of every pickup slot ("HH:MM") on an IST day, earliest first */
+export function pickupTimesOn(config: PickupConfig, dateKey: string): string[] {
+    if (holidayOn(config, dateKey)) return [];
+    const length = pickupSlotLength(config);
+    const times: string[] = [];
+    for (const slot of slotsFor(config, weekdayOf(dateKey))) {
+        for (let m = toMinutes(slot.start); m + length <= toMinutes(slot.end); m += length) {
+            times.push(toTime(m));
+        }
+    }
+    return times;
+}
+
+/**
+ * Pickup slots on `dateKey` an order needing `prepMinutes` can still
+ * make. Capacity isn't known here — see /api/orders/pickup-slots.
+ */
+export function upcomingPickupTimes(
+    config: PickupConfig,
+    dateKey: string,
+    now: Date = new Date(),
+    prepMinutes = 0
+): { at: string; time: string }[] {
+    if (!pickupDates(config, now).includes(dateKey)) return [];
+    const earliest = now.getTime() + prepMinutes * 60_000;
+    return pickupTimesOn(config, dateKey)
+        .map((time) => ({ at: istDateTime(dateKey, time), time }))
+        .filter((slot) => Date.parse(slot.at) >= earliest);
+}
+
+/**
+ * Why an order needing `prepMinutes` can't be picked up at `pickupAt`,
+ * or null if it can (capacity aside).
+ */
+export function pickupUnavailableReason(
+    config: PickupConfig,
+    pickupAt: string,
+    now: Date = new Date(),
+    prepMinutes = 0
+): string | null {
+    if (!preOrdersEnabled(config)) return "Scheduled pickup isn't available right now";
+
+    const at = Date.parse(pickupAt);
+    if (Number.isNaN(at)) return "Invalid pickup time";
+
+    const { date } = istClock(new Date(at));
+    const holiday = holidayOn(config, date);
+    if (holiday) return holiday.message || "The canteen is closed that day";
+
+    const dates = pickupDates(config, now);
+    if (dates.length === 0 || date > dates[dates.length - 1]) {
+        const days = config.preOrderDaysAhead || 0;
+        return days > 0
+            ? `Pickups can be booked up to ${days} day${days === 1 ? "" : "s"} ahead`
+            : "Pickups can only be booked for today";
+    }
+
+    const iso = new Date(at).toISOString();
+    if (!pickupTimesOn(config, date).some((time) => istDateTime(date, time) === iso)) {
+        return "Please pick one of the listed pickup times";
+    }
+    if (at < now.getTime() + prepMinutes * 60_000) {
+        return `That pickup time is too soon — this order needs about ${prepMinutes} min to prepare`;
+    }
+    return null;
+}
+
+/** When the kitchen should start an order needing `prepMinutes` for pickup at `pickupAt` */
+export function prepStartFor(pickupAt: string, prepMinutes: number): string {
+    return new Date(Date.parse(pickupAt) - prepMinutes * 60_000).toISOString();
+}
+
+/** pickupSlots doc counting the orders booked into one slot */
+export function pickupSlotDocId(outletId: string, pickupAt: string): string {
+    const { date, minutes } = istClock(new Date(pickupAt));
+    return `${outletId}_${date}_${toTime(minutes).replace(":", "")}`;
+}
+
+/** Whether the kitchen should be working on an order at `now` (ASAP orders always are) */
+export function isPrepDue(order: Pick<Order, "prepStartAt">, now: number = Date.now()): boolean {
+    return !order.prepStartAt || Date.parse(order.prepStartAt) <= now;
+}
+
+/** "Today", "Tomorrow", "Mon 21 Oct" for an IST day */
+export function formatPickupDay(dateKey: string, now: Date = new Date()): string {
+    const today = istClock(now).date;
+    if (dateKey === today) return "Today";
+    if (dateKey === addDays(today, 1)) return "Tomorrow";
+    const month = new Date(`${dateKey}T00:00:00.000Z`).toLocaleString("en-IN", { month: "short", timeZone: "UTC" });
+    return `${weekdayOf(dateKey)} ${Number(dateKey.slice(8))} ${month}`;
+}
+
+/** "Today 13:00", "Tomorrow 08:30", "Mon 21 Oct 12:15" — IST */
+export function formatPickupTime(pickupAt: string, now: Date = new Date()): string {
+    const { date, minutes } = istClock(new Date(pickupAt));
+    return `${formatPickupDay(date, now)} ${toTime(minutes)}`;
+}
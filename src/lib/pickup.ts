@@ -0,0 +1,24 @@
+/**
+ * Pickup QR payload — shared by the student's order card (encode) and the
+ * admin scanner page (decode). Safe to import from client components.
+ *
+ * Format: ZAYKO-PICKUP:<order doc id>:<pickupToken>
+ *
+ * The QR carries the Firestore doc id rather than the short order ID
+ * ("ZKO4F7X"), which isn't guaranteed unique.
+ */
+
+const PICKUP_QR_PREFIX = "ZAYKO-PICKUP";
+
+export const ORDER_DOC_ID_PATTERN = /^[A-Za-z0-9]{1,40}$/;
+
+export function buildPickupPayload(orderDocId: string, pickupToken: string): string {
+    return `${PICKUP_QR_PREFIX}:${orderDocId}:${pickupToken}`;
+}
+
+/** Returns null if the scanned text is not a Zayko pickup code */
+export function parsePickupPayload(text: string): { id: string; token: string } | null {
+    const match = text.trim().match(/^ZAYKO-PICKUP:([A-Za-z0-9]{1,40}):(\d{6})$/);
+    if (!match) return null;
+    return { id: match[1], token: match[2] };
+}
@@ -0,0 +1,108 @@
+/**
+ * Transaction PIN helpers (server-side only).
+ *
+ * /api/users/verify-pin checks the PIN and issues a short-lived signed
+ * token; money-moving routes require it in the X-Pin-Token header:
+ * - wallet transfers — always
+ * - orders — when the total is above settings/canteenConfig.pinOrderThreshold
+ *
+ * Tokens carry the user's `pinVersion`, bumped on every PIN change/reset,
+ * so tokens issued for an old PIN stop working immediately. Wrong PINs
+ * count towards a lockout stored on the user document.
+ */
+
+import jwt from "jsonwebtoken";
+import { NextRequest } from "next/server";
+import { DocumentData } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+
+export const PIN_TOKEN_HEADER = "x-pin-token";
+export const PIN_TOKEN_TTL_SECONDS = 5 * 60;
+export const MAX_PIN_ATTEMPTS = 5;
+export const PIN_LOCKOUT_MINUTES = 15;
+/** Orders above this total (₹) need a PIN unless configured otherwise */
+export const DEFAULT_PIN_ORDER_THRESHOLD = 200;
+/** A PIN reset needs a Firebase sign-in at most this old */
+export const PIN_RESET_MAX_AUTH_AGE_SECONDS = 5 * 60;
+
+interface PinTokenPayload {
+    purpose: "pin";
+    uid: string;
+    pinVersion: number;
+}
+
+export type PinRequirement = "PIN_REQUIRED" | "PIN_NOT_SET";
+
+export function isValidPinFormat(pin: unknown): pin is string {
+    return typeof pin === "string" && /^\d{4}$/.test(pin);
+}
+
+/** Minutes left on a lockout, or 0 when the user may try again */
+export function pinLockoutMinutesLeft(user: DocumentData, now: Date = new Date()): number {
+    if (!user.pinLockedUntil) return 0;
+    const ms = new Date(user.pinLockedUntil).getTime() - now.getTime();
+    return ms > 0 ? Math.ceil(ms / 60000) : 0;
+}
+
+/**
+ * Create a signed PIN token for a user who just entered the right PIN.
+ */
+export function signPinToken(uid: string, pinVersion: number): string {
+    const secret = process.env.PIN_TOKEN_SECRET;
+    if (!secret) {
+        throw new Error("PIN_TOKEN_SECRET not configured");
+    }
+
+    return jwt.sign(
+        { purpose: "pin", uid, pinVersion } as PinTokenPayload,
+        secret,
+        { expiresIn: PIN_TOKEN_TTL_SECONDS }
+    );
+}
+
+/**
+ * Verify the X-Pin-Token header for `uid`. Only checks the signature and
+ * expiry — compare against the user document with pinRequirement().
+ */
+export function readPinToken(req: NextRequest, uid: string): PinTokenPayload | null {
+    const secret = process.env.PIN_TOKEN_SECRET;
+    if (!secret) return null;
+
+    const token = req.headers.get(PIN_TOKEN_HEADER);
+    if (!token) return null;
+
+    try {
+        const decoded = jwt.verify(token, secret) as PinTokenPayload;
+        if (decoded.purpose !== "pin" || decoded.uid !== uid) return null;
+        return decoded;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * What's missing for a PIN-protected action, given the user document as
+ * read in the caller's transaction — null when the token is valid and
+ * matches the current PIN.
+ */
+export function pinRequirement(token: PinTokenPayload | null, user: DocumentData): PinRequirement | null {
+    if (!user.pinHash) return "PIN_NOT_SET";
+    if (!token || token.pinVersion !== (user.pinVersion || 0)) return "PIN_REQUIRED";
+    return null;
+}
+
+export function pinRequirementMessage(requirement: PinRequirement): string {
+    return requirement === "PIN_NOT_SET"
+        ? "Set a transaction PIN in your profile to continue"
+        : "Enter your PIN to confirm";
+}
+
+/**
+ * Admin-configured order total above which a PIN is required
+ * (settings/canteenConfig.pinOrderThreshold).
+ */
+export async function getPinOrderThreshold(): Promise<number> {
+    const configDoc = await adminDb.doc("settings/canteenConfig").get();
+    const configured = configDoc.data()?.pinOrderThreshold;
+    return typeof configured === "number" && configured >= 0 ? configured : DEFAULT_PIN_ORDER_THRESHOLD;
+}
@@ -0,0 +1,328 @@
+/**
+ * Promotions — discount rules shared by order placement, the admin
+ * promotions API and the cart page (no Firebase imports).
+ *
+ * An outlet's promotions (promotions/{id}) come in three kinds:
+ * - coupon       percent (optionally capped) or flat ₹ off the order, only
+ *                with its code; total and per-student redemption caps
+ * - happy_hour   percent or ₹-per-unit off items of some categories during
+ *                a daily IST time window, on chosen weekdays
+ * - buy_x_get_y  on one menu item: every X + Y units on a line, Y are free
+ *
+ * Happy hours and buy-X-get-Y offers apply automatically and don't stack:
+ * each line gets the single best one. A coupon then comes off what's left
+ * and is spread over the lines in proportion, so every line knows what it
+ * was charged (`OrderItem.discount`) — refunds, group-order shares and
+ * spending limits all use lineAmount(). Live-ness is judged at placement
+ * time, also for pre-orders.
+ *
+ * Loyalty rewards (lib/loyalty) are issued as personal single-use coupons:
+ * `userId` limits them to one student, and a coupon with `itemId` comes
+ * off one unit of that item only.
+ */
+
+import { istClock, toMinutes, WEEKDAYS } from "@/lib/canteen-schedule";
+import type { DayOfWeek, DiscountType, OrderDiscount, OrderItem, Promotion, PromotionType } from "@/types";
+
+export const PROMOTION_TYPES: PromotionType[] = ["coupon", "happy_hour", "buy_x_get_y"];
+export const COUPON_CODE_PATTERN = /^[A-Z0-9_-]{3,20}$/;
+export const MAX_PROMOTIONS_PER_OUTLET = 50;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class PromotionError extends Error {
+    constructor(message: string, public status: number = 400) {
+        super(message);
+        this.name = "PromotionError";
+    }
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export function normalizeCouponCode(code: unknown): string {
+    return typeof code === "string" ? code.trim().toUpperCase() : "";
+}
+
+/** What a line is charged: unit price × quantity less its discount */
+export function lineAmount(item: Pick<OrderItem, "price" | "quantity" | "discount">): number {
+    return round(item.price * item.quantity - (item.discount || 0));
+}
+
+function withinWindow(promotion: Promotion, now: Date): boolean {
+    const at = now.toISOString();
+    return (!promotion.startsAt || promotion.startsAt <= at) && (!promotion.endsAt || at < promotion.endsAt);
+}
+
+/** Switched on, inside its validity window and — for happy hours — its time of day */
+export function isPromotionLive(promotion: Promotion, now: Date = new Date()): boolean {
+    if (!promotion.active || !withinWindow(promotion, now)) return false;
+    if (promotion.type !== "happy_hour") return true;
+
+    const { weekday, minutes } = istClock(now);
+    if (promotion.days?.length && !promotion.days.includes(weekday)) return false;
+    return !!promotion.startTime && !!promotion.endTime &&
+        minutes >= toMinutes(promotion.startTime) && minutes < toMinutes(promotion.endTime);
+}
+
+/** ₹ an automatic promotion takes off one line (0 when it doesn't apply) */
+function automaticDiscount(promotion: Promotion, item: OrderItem): number {
+    const gross = item.price * item.quantity;
+    if (promotion.type === "happy_hour") {
+        if (!item.category || !promotion.categories?.includes(item.category)) return 0;
+        const value = promotion.value || 0;
+        return round(promotion.discountType === "flat"
+            ? Math.min(value, item.price) * item.quantity
+            : gross * Math.min(value, 100) / 100);
+    }
+    if (promotion.type === "buy_x_get_y") {
+        const buy = promotion.buyQuantity || 0;
+        const free = promotion.freeQuantity || 0;
+        if (item.id !== promotion.itemId || buy < 1 || free < 1) return 0;
+        return round(Math.floor(item.quantity / (buy + free)) * free * item.price);
+    }
+    return 0;
+}
+
+/** The active coupon with this code, if any (codes are matched case-insensitively) */
+export function findCoupon(promotions: Promotion[], code: string): Promotion | undefined {
+    const wanted = normalizeCouponCode(code);
+    return promotions.find((p) => p.type === "coupon" && p.active && p.code === wanted);
+}
+
+/**
+ * Why a coupon can't be used on an order worth `amount` (after automatic
+ * discounts) by a student who has redeemed it `uses` times, or null.
+ */
+export function couponRejection(coupon: Promotion, amount: number, uses: number, now: Date = new Date()): string | null {
+    const code = coupon.code || "This coupon";
+    if (!isPromotionLive(coupon, now)) {
+        return coupon.startsAt && now.toISOString() < coupon.startsAt ? `${code} isn't valid yet` : `${code} has expired`;
+    }
+    if (coupon.usageLimit && (coupon.usedCount || 0) >= coupon.usageLimit) {
+        return `${code} has been fully redeemed`;
+    }
+    if (coupon.perUserLimit && uses >= coupon.perUserLimit) {
+        return coupon.perUserLimit === 1 ? `You've already used ${code}` : `You've already used ${code} ${coupon.perUserLimit} times`;
+    }
+    if (coupon.minOrderAmount && amount < coupon.minOrderAmount) {
+        return `${code} needs an order of at least ₹${coupon.minOrderAmount}`;
+    }
+    return null;
+}
+
+function couponDiscount(coupon: Promotion, amount: number): number {
+    const value = coupon.value || 0;
+    const off = coupon.discountType === "flat"
+        ? value
+        : Math.min(amount * Math.min(value, 100) / 100, coupon.maxDiscount || Infinity);
+    return round(Math.min(off, amount));
+}
+
+export interface PromotionResult {
+    items: OrderItem[];
+    discounts: OrderDiscount[];
+    subtotal: number;
+    total: number;
+}
+
+/**
+ * Apply an outlet's promotions to freshly priced order lines. `promotions`
+ * may hold anything the outlet has — only live automatic ones are used.
+ * `coupon` is the code the student entered (matched with findCoupon), how
+ * often they've redeemed it and who they are; an unusable coupon throws
+ * PromotionError rather than being silently dropped.
+ */
+export function applyPromotions(
+    items: OrderItem[],
+    promotions: Promotion[],
+    coupon: { code: string; uses: number; userId?: string } | null = null,
+    now: Date = new Date()
+): PromotionResult {
+    const totals = new Map<string, OrderDiscount>();
+    const addDiscount = (promotion: Promotion, amount: number) => {
+        const entry = totals.get(promotion.id) || {
+            promotionId: promotion.id,
+            type: promotion.type,
+            label: promotion.name,
+            ...(promotion.code && { code: promotion.code }),
+            amount: 0,
+        };
+        entry.amount = round(entry.amount + amount);
+        totals.set(promotion.id, entry);
+    };
+
+    const automatic = promotions.filter((p) => p.type !== "coupon" && isPromotionLive(p, now));
+    const discounted = items.map((item) => {
+        let best: { promotion: Promotion; amount: number } | null = null;
+        for (const promotion of automatic) {
+            const amount = automaticDiscount(promotion, item);
+            if (amount > 0 && (!best || amount > best.amount)) best = { promotion, amount };
+        }
+        if (!best) return item;
+        addDiscount(best.promotion, best.amount);
+        return { ...item, discount: best.amount };
+    });
+
+    if (coupon) {
+        const promotion = findCoupon(promotions, coupon.code);
+        if (!promotion || (promotion.userId && promotion.userId !== coupon.userId)) {
+            throw new PromotionError(`Coupon ${normalizeCouponCode(coupon.code)} is not valid`);
+        }
+
+        const amounts = discounted.map(lineAmount);
+        const net = round(amounts.reduce((sum, a) => sum + a, 0));
+        const reason = couponRejection(promotion, net, coupon.uses, now);
+        if (reason) throw new PromotionError(reason);
+
+        let off: number;
+        let shares: number[];
+        if (promotion.itemId) {
+            // One unit of the item, on its most expensive line
+            const index = amounts.reduce(
+                (best, a, i) => (discounted[i].id === promotion.itemId && (best === -1 || a > amounts[best]) ? i : best),
+                -1
+            );
+            if (index === -1) {
+                throw new PromotionError(`${promotion.code} is for ${promotion.itemName || "a specific item"} — add it first`);
+            }
+            off = round(Math.min(promotion.value || 0, discounted[index].price, amounts[index]));
+            shares = amounts.map((_, i) => (i === index ? off : 0));
+        } else {
+            off = couponDiscount(promotion, net);
+            // Spread over the lines by what they cost; rounding leftovers go to the largest
+            shares = amounts.map((a) => round(off * a / net));
+            const largest = amounts.indexOf(Math.max(...amounts));
+            shares[largest] = round(shares[largest] + off - shares.reduce((sum, s) => sum + s, 0));
+        }
+        if (off <= 0) throw new PromotionError(`${promotion.code} doesn't take anything off this order`);
+
+        discounted.forEach((item, i) => {
+            if (shares[i] > 0) discounted[i] = { ...item, discount: round((item.discount || 0) + shares[i]) };
+        });
+        addDiscount(promotion, off);
+    }
+
+    const subtotal = round(items.reduce((sum, item) => sum + item.price * item.quantity, 0));
+    const total = round(discounted.reduce((sum, item) => sum + lineAmount(item), 0));
+    return { items: discounted, discounts: [...totals.values()], subtotal, total };
+}
+
+/** One-line summary for admin lists and the cart's offers strip */
+export function describePromotion(promotion: Promotion): string {
+    const off = (type: DiscountType | undefined, value = 0) => (type === "flat" ? `₹${value}` : `${value}%`);
+    if (promotion.type === "coupon") {
+        if (promotion.itemId) return `Up to ₹${promotion.value} off one ${promotion.itemName || "item"} with ${promotion.code}`;
+        const cap = promotion.discountType !== "flat" && promotion.maxDiscount ? ` (up to ₹${promotion.maxDiscount})` : "";
+        const min = promotion.minOrderAmount ? ` on orders over ₹${promotion.minOrderAmount}` : "";
+        return `${off(promotion.discountType, promotion.value)} off${cap}${min} with ${promotion.code}`;
+    }
+    if (promotion.type === "happy_hour") {
+        const days = promotion.days?.length && promotion.days.length < 7 ? ` ${promotion.days.join(", ")}` : " daily";
+        const each = promotion.discountType === "flat" ? " each" : "";
+        return `${off(promotion.discountType, promotion.value)} off${each} ${(promotion.categories || []).join(", ")}${days} ${promotion.startTime}–${promotion.endTime}`;
+    }
+    return `Buy ${promotion.buyQuantity} ${promotion.itemName || "items"}, get ${promotion.freeQuantity} free`;
+}
+
+const positive = (value: unknown): number | undefined => {
+    const n = Number(value);
+    return Number.isFinite(n) && n > 0 ? round(n) : undefined;
+};
+const count = (value: unknown): number | undefined => {
+    const n = Number(value);
+    return Number.isInteger(n) && n > 0 ? n : undefined;
+};
+const isoOrUndefined = (value: unknown, field: string): string | undefined => {
+    if (value === undefined || value === null || value === "") return undefined;
+    const ms = typeof value === "string" ? Date.parse(value) : NaN;
+    if (Number.isNaN(ms)) throw new PromotionError(`${field} must be a date`);
+    return new Date(ms).toISOString();
+};
+
+export type PromotionFields = Omit<Promotion, "id" | "outletId" | "usedCount" | "createdAt" | "updatedAt">;
+
+/**
+ * Validate a promotion from the admin panel. Only the fields of its type
+ * are kept; throws PromotionError with a message for the admin. The
+ * buy-X-get-Y item's name is filled in by the API.
+ */
+export function normalizePromotion(input: unknown): PromotionFields {
+    const raw = (input || {}) as Partial<Promotion>;
+    const type = raw.type as PromotionType;
+    if (!PROMOTION_TYPES.includes(type)) throw new PromotionError("Unknown promotion type");
+
+    const name = typeof raw.name === "string" ? raw.name.trim() : "";
+    if (name.length < 2 || name.length > 60) throw new PromotionError("Name must be 2–60 characters");
+
+    const startsAt = isoOrUndefined(raw.startsAt, "Start");
+    const endsAt = isoOrUndefined(raw.endsAt, "End");
+    if (startsAt && endsAt && startsAt >= endsAt) throw new PromotionError("The promotion must end after it starts");
+
+    const promotion: PromotionFields = {
+        type,
+        name,
+        active: raw.active !== false,
+        ...(startsAt && { startsAt }),
+        ...(endsAt && { endsAt }),
+    };
+
+    if (type === "coupon" || type === "happy_hour") {
+        const discountType: DiscountType = raw.discountType === "flat" ? "flat" : "percent";
+        const value = positive(raw.value);
+        if (!value || (discountType === "percent" && value > 100)) {
+            throw new PromotionError(discountType === "percent" ? "Percent off must be 1–100" : "₹ off must be more than 0");
+        }
+        promotion.discountType = discountType;
+        promotion.value = value;
+    }
+
+    if (type === "coupon") {
+        const code = normalizeCouponCode(raw.code);
+        if (!COUPON_CODE_PATTERN.test(code)) {
+            throw new PromotionError("Code must be 3–20 letters, digits, dashes or underscores");
+        }
+        promotion.code = code;
+        const maxDiscount = positive(raw.maxDiscount);
+        if (maxDiscount && promotion.discountType === "percent") promotion.maxDiscount = maxDiscount;
+        const minOrderAmount = positive(raw.minOrderAmount);
+        if (minOrderAmount) promotion.minOrderAmount = minOrderAmount;
+        const usageLimit = count(raw.usageLimit);
+        if (usageLimit) promotion.usageLimit = usageLimit;
+        const perUserLimit = count(raw.perUserLimit);
+        if (perUserLimit) promotion.perUserLimit = perUserLimit;
+    }
+
+    if (type === "happy_hour") {
+        const categories = Array.isArray(raw.categories)
+            ? [...new Set(raw.categories.filter((c): c is string => typeof c === "string" && c.length > 0 && c.length <= 100))]
+            : [];
+        if (categories.length === 0) throw new PromotionError("Pick at least one category");
+        if (typeof raw.startTime !== "string" || typeof raw.endTime !== "string" || !TIME_PATTERN.test(raw.startTime) || !TIME_PATTERN.test(raw.endTime)) {
+            throw new PromotionError("Times must be HH:MM");
+        }
+        if (toMinutes(raw.startTime) >= toMinutes(raw.endTime)) {
+            throw new PromotionError("The happy hour must end after it starts");
+        }
+        const days = Array.isArray(raw.days) ? WEEKDAYS.filter((d: DayOfWeek) => raw.days!.includes(d)) : [];
+        promotion.categories = categories;
+        promotion.startTime = raw.startTime;
+        promotion.endTime = raw.endTime;
+        if (days.length > 0 && days.length < 7) promotion.days = days;
+    }
+
+    if (type === "buy_x_get_y") {
+        if (typeof raw.itemId !== "string" || !raw.itemId || raw.itemId.length > 100) {
+            throw new PromotionError("Pick the menu item");
+        }
+        const buyQuantity = count(raw.buyQuantity);
+        const freeQuantity = count(raw.freeQuantity);
+        if (!buyQuantity || !freeQuantity || buyQuantity > 20 || freeQuantity > 20) {
+            throw new PromotionError("Buy and free quantities must be 1–20");
+        }
+        promotion.itemId = raw.itemId;
+        promotion.buyQuantity = buyQuantity;
+        promotion.freeQuantity = freeQuantity;
+    }
+
+    return promotion;
+}
@@ -0,0 +1,175 @@
+/**
+ * Razorpay wallet top-ups (server-side only).
+ *
+ * Both the checkout callback (/api/razorpay/verify) and the webhook
+ * (/api/razorpay/webhook) credit through creditTopup(), so whichever
+ * arrives first credits the wallet and the other is a no-op. The
+ * payments/{paymentId} document is the dedup key for credits and refunds.
+ */
+
+import { adminDb } from "@/lib/firebase-admin";
+import { openWallet, postWalletEntry, roundMoney, WALLET_PARTIES } from "@/lib/wallet-ledger";
+import type { Payment } from "@/types";
+
+/** Top-up limits in rupees — mirrors /api/razorpay/create-order */
+export const MIN_TOPUP_AMOUNT = 1;
+export const MAX_TOPUP_AMOUNT = 5000;
+
+export interface TopupInput {
+    paymentId: string;
+    orderId: string;
+    userId: string;
+    /** Guardian paying for the student's top-up (create-order notes.paidBy) */
+    paidBy?: string;
+    amountPaise: number;
+    source: NonNullable<Payment["source"]>;
+}
+
+export interface TopupResult {
+    /** false when the payment had already been credited */
+    credited: boolean;
+    amount: number;
+    /** Owner of the existing payment doc (may differ from the caller) */
+    userId: string;
+}
+
+/**
+ * Credit a captured payment to the user's wallet exactly once. A payment
+ * previously recorded as failed can still be credited — Razorpay may
+ * capture a payment after reporting a failed attempt.
+ */
+export async function creditTopup(input: TopupInput): Promise<TopupResult> {
+    const amount = Math.round(input.amountPaise / 100);
+    if (amount < MIN_TOPUP_AMOUNT || amount > MAX_TOPUP_AMOUNT) {
+        throw new Error("Invalid amount");
+    }
+
+    return adminDb.runTransaction(async (transaction) => {
+        const paymentRef = adminDb.collection("payments").doc(input.paymentId);
+        const paymentDoc = await transaction.get(paymentRef);
+        const existing = paymentDoc.data() as Payment | undefined;
+
+        if (existing?.verified) {
+            return { credited: false, amount: existing.amount, userId: existing.userId };
+        }
+
+        const wallet = await openWallet(transaction, input.userId);
+        const now = new Date().toISOString();
+
+        const record: Payment = {
+            razorpayPaymentId: input.paymentId,
+            razorpayOrderId: input.orderId,
+            userId: input.userId,
+            amount,
+            amountPaise: input.amountPaise,
+            verified: true,
+            status: "captured",
+            source: input.source,
+            ...(input.paidBy && { paidBy: input.paidBy }),
+            createdAt: existing?.createdAt || now,
+            creditedAt: now,
+        };
+        transaction.set(paymentRef, record, { merge: true });
+
+        postWalletEntry(transaction, wallet, {
+            type: "topup",
+            direction: "credit",
+            amount,
+            description: input.paidBy ? "Top-up from guardian via Razorpay" : "Wallet top-up via Razorpay",
+            counterparty: WALLET_PARTIES.razorpay,
+            razorpayPaymentId: input.paymentId,
+            razorpayOrderId: input.orderId,
+            createdAt: now,
+        });
+
+        return { credited: true, amount, userId: input.userId };
+    });
+}
+
+/**
+ * Record a failed payment attempt. Never touches a payment that has
+ * already been credited.
+ */
+export async function recordFailedPayment(input: {
+    paymentId: string;
+    orderId: string;
+    userId?: string;
+    amountPaise: number;
+    reason?: string;
+}): Promise<void> {
+    const paymentRef = adminDb.collection("payments").doc(input.paymentId);
+    await adminDb.runTransaction(async (transaction) => {
+        const paymentDoc = await transaction.get(paymentRef);
+        if (paymentDoc.exists && paymentDoc.data()?.verified) return;
+
+        transaction.set(paymentRef, {
+            razorpayPaymentId: input.paymentId,
+            razorpayOrderId: input.orderId,
+            userId: input.userId || "",
+            amount: roundMoney(input.amountPaise / 100),
+            amountPaise: input.amountPaise,
+            verified: false,
+            status: "failed",
+            source: "webhook",
+            ...(input.reason && { failureReason: input.reason }),
+            createdAt: paymentDoc.data()?.createdAt || new Date().toISOString(),
+        }, { merge: true });
+    });
+}
+
+export interface RefundResult {
+    /** false when this refund id was already applied */
+    applied: boolean;
+    debited: number;
+    /** Part of the refund the wallet could not cover (already spent) */
+    shortfall: number;
+}
+
+/**
+ * Take a processed refund back out of the wallet, once per refund id.
+ * Money already spent can't be clawed back — the uncovered part is
+ * recorded as `shortfall` on the refund for an admin to settle.
+ */
+export async function applyRefund(input: {
+    refundId: string;
+    paymentId: string;
+    amountPaise: number;
+}): Promise<RefundResult> {
+    return adminDb.runTransaction(async (transaction) => {
+        const paymentRef = adminDb.collection("payments").doc(input.paymentId);
+        const paymentDoc = await transaction.get(paymentRef);
+        const payment = paymentDoc.data() as Payment | undefined;
+
+        // Refund for a payment we never credited (or already applied)
+        if (!payment?.verified || payment.refunds?.[input.refundId]) {
+            return { applied: false, debited: 0, shortfall: 0 };
+        }
+
+        const wallet = await openWallet(transaction, payment.userId);
+        const amount = roundMoney(input.amountPaise / 100);
+        const debited = roundMoney(Math.min(amount, Math.max(0, wallet.balance)));
+        const shortfall = roundMoney(amount - debited);
+        const now = new Date().toISOString();
+
+        transaction.update(paymentRef, {
+            [`refunds.${input.refundId}`]: { amount, debited, shortfall, processedAt: now },
+            refundedAmount: roundMoney((payment.refundedAmount || 0) + amount),
+        });
+
+        if (debited > 0) {
+            postWalletEntry(transaction, wallet, {
+                type: "adjustment",
+                direction: "debit",
+                amount: debited,
+                description: `Razorpay refund to original payment method`,
+                counterparty: WALLET_PARTIES.razorpay,
+                referenceId: input.refundId,
+                razorpayPaymentId: input.paymentId,
+                razorpayOrderId: payment.razorpayOrderId,
+                createdAt: now,
+            });
+        }
+
+        return { applied: true, debited, shortfall };
+    });
+}
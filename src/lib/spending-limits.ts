@@ -0,0 +1,182 @@
+/**
+ * Per-student spending limits (server-side only).
+ *
+ * Limits live on users/{uid}.spendingLimits and are set by the student, or
+ * only by their guardian once one is linked. Usage is derived from the
+ * wallet ledger and today's orders rather than stored counters, so
+ * cancellations and refunds are reflected without extra bookkeeping:
+ * - daily / weekly ₹: order payments + outgoing transfers, minus refunds
+ *   of orders paid in the same window
+ * - categories: items per menu category ordered today, including the
+ *   user's lines in group orders (cancelled orders and rejected lines
+ *   don't count)
+ *
+ * Days and weeks are Asia/Kolkata calendar days, weeks start Monday.
+ */
+
+import { DocumentData, Query, QuerySnapshot, Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { roundMoney } from "@/lib/wallet-ledger";
+import { istDateKey, istDayStart, istWeekStartKey } from "@/lib/ist-date";
+import type { CategoryDoc, OrderItem, SpendingLimits, SpendingUsage, WalletTransaction } from "@/types";
+
+export const MAX_SPENDING_LIMIT = 50_000;
+export const MAX_CATEGORY_LIMIT = 100;
+
+/** Start of the current IST day and week (Monday) as ISO strings */
+export function spendingWindow(now: Date = new Date()): { dayStart: string; weekStart: string } {
+    const today = istDateKey(now);
+    return { dayStart: istDayStart(today), weekStart: istDayStart(istWeekStartKey(today)) };
+}
+
+/**
+ * Validate limits sent by a client. Empty values (and a ₹0 daily / weekly
+ * limit) clear a limit; a category limit of 0 blocks that category.
+ * Returns the cleaned limits or a user-facing error.
+ */
+export function parseSpendingLimits(raw: unknown): { limits: SpendingLimits } | { error: string } {
+    const input = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+    const limits: SpendingLimits = {};
+
+    for (const key of ["daily", "weekly"] as const) {
+        if (input[key] === undefined || input[key] === null || input[key] === "") continue;
+        const value = Number(input[key]);
+        if (!Number.isFinite(value) || value < 0 || value > MAX_SPENDING_LIMIT) {
+            return { error: `${key === "daily" ? "Daily" : "Weekly"} limit must be between ₹0 and ₹${MAX_SPENDING_LIMIT}` };
+        }
+        if (value > 0) limits[key] = roundMoney(value);
+    }
+    if (limits.daily && limits.weekly && limits.weekly < limits.daily) {
+        return { error: "Weekly limit can't be lower than the daily limit" };
+    }
+
+    if (input.categories && typeof input.categories === "object") {
+        const categories: Record<string, number> = {};
+        for (const [slug, rawMax] of Object.entries(input.categories as Record<string, unknown>)) {
+            if (rawMax === undefined || rawMax === null || rawMax === "") continue;
+            const max = Number(rawMax);
+            if (!Number.isInteger(max) || max < 0 || max > MAX_CATEGORY_LIMIT) {
+                return { error: `Category limits must be whole numbers from 0 to ${MAX_CATEGORY_LIMIT}` };
+            }
+            categories[slug] = max;
+        }
+        if (Object.keys(categories).length > 0) limits.categories = categories;
+    }
+
+    return { limits };
+}
+
+/** Menu categories a limit can be set on, in menu order */
+export async function getLimitCategories(): Promise<CategoryDoc[]> {
+    const snap = await adminDb.collection("categories").orderBy("order", "asc").get();
+    return snap.docs.map((d) => ({ id: d.id, name: d.data().name, slug: d.data().slug, order: d.data().order }));
+}
+
+export function hasSpendingLimits(limits: SpendingLimits | undefined): limits is SpendingLimits {
+    return !!limits && (!!limits.daily || !!limits.weekly || Object.keys(limits.categories || {}).length > 0);
+}
+
+/**
+ * Current usage for a user. Pass the transaction when the result gates a
+ * write (reads only — call in the read phase).
+ */
+export async function readSpendingUsage(
+    userId: string,
+    options: { transaction?: Transaction; now?: Date } = {}
+): Promise<SpendingUsage> {
+    const { dayStart, weekStart } = spendingWindow(options.now);
+    const run = (q: Query): Promise<QuerySnapshot<DocumentData>> =>
+        options.transaction ? options.transaction.get(q) : q.get();
+
+    const [ledgerSnap, ordersSnap, groupOrdersSnap] = await Promise.all([
+        run(adminDb.collection("walletTransactions")
+            .where("userId", "==", userId)
+            .where("createdAt", ">=", weekStart)
+            .orderBy("createdAt", "desc")),
+        run(adminDb.collection("orders")
+            .where("userId", "==", userId)
+            .where("createdAt", ">=", dayStart)
+            .orderBy("createdAt", "desc")),
+        // Group orders hosted by someone else still hold this user's lines
+        run(adminDb.collection("orders")
+            .where("memberIds", "array-contains", userId)
+            .where("createdAt", ">=", dayStart)
+            .orderBy("createdAt", "desc")),
+    ]);
+
+    const entries = ledgerSnap.docs.map((d) => d.data() as WalletTransaction);
+    const paidOrders = new Set(entries.filter((e) => e.type === "payment" && e.orderId).map((e) => e.orderId));
+
+    let today = 0;
+    let thisWeek = 0;
+    for (const entry of entries) {
+        let delta = 0;
+        if (entry.direction === "debit" && (entry.type === "payment" || entry.type === "transfer")) {
+            delta = entry.amount;
+        } else if (entry.direction === "credit" && entry.type === "refund" && paidOrders.has(entry.orderId)) {
+            delta = -entry.amount;
+        }
+        thisWeek += delta;
+        if (entry.createdAt >= dayStart) today += delta;
+    }
+
+    const categoriesToday: Record<string, number> = {};
+    const orderDocs = new Map([...ordersSnap.docs, ...groupOrdersSnap.docs].map((d) => [d.id, d]));
+    for (const doc of orderDocs.values()) {
+        const order = doc.data();
+        if (order.status === "cancelled") continue;
+        for (const item of (order.items || []) as OrderItem[]) {
+            if (!item.category || item.rejected || (item.memberId ?? order.userId) !== userId) continue;
+            categoriesToday[item.category] = (categoriesToday[item.category] || 0) + item.quantity;
+        }
+    }
+
+    return {
+        today: roundMoney(Math.max(0, today)),
+        thisWeek: roundMoney(Math.max(0, thisWeek)),
+        categoriesToday,
+    };
+}
+
+/**
+ * Check a pending spend against the user's limits inside a transaction.
+ * Returns a user-facing reason if it would exceed one, or null.
+ * `items` (order lines) are only needed for category limits.
+ */
+export async function checkSpendingLimits(
+    transaction: Transaction,
+    userId: string,
+    limits: SpendingLimits | undefined,
+    spend: { amount: number; items?: OrderItem[] }
+): Promise<string | null> {
+    if (!hasSpendingLimits(limits)) return null;
+
+    const usage = await readSpendingUsage(userId, { transaction });
+    const by = limits.updatedBy === "guardian" ? " set by your guardian" : "";
+
+    if (limits.daily && usage.today + spend.amount > limits.daily) {
+        const left = roundMoney(Math.max(0, limits.daily - usage.today));
+        return `Daily spending limit${by} is ₹${limits.daily} — ₹${left} left today`;
+    }
+    if (limits.weekly && usage.thisWeek + spend.amount > limits.weekly) {
+        const left = roundMoney(Math.max(0, limits.weekly - usage.thisWeek));
+        return `Weekly spending limit${by} is ₹${limits.weekly} — ₹${left} left this week`;
+    }
+
+    const requested: Record<string, number> = {};
+    for (const item of spend.items || []) {
+        if (item.category) requested[item.category] = (requested[item.category] || 0) + item.quantity;
+    }
+    for (const [category, quantity] of Object.entries(requested)) {
+        const max = limits.categories?.[category];
+        if (max === undefined) continue;
+        const used = usage.categoriesToday[category] || 0;
+        if (used + quantity > max) {
+            return max === 0
+                ? `${category} items aren't allowed${by}`
+                : `Limit of ${max} ${category} item${max === 1 ? "" : "s"} per day${by} — ${Math.max(0, max - used)} left today`;
+        }
+    }
+
+    return null;
+}
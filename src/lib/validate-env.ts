@@ -19,6 +19,7 @@ const REQUIRED_ENV_VARS = [
     "ADMIN_USERNAME",
     "ADMIN_PASSWORD",
     "ADMIN_SECRET",
+    "PIN_TOKEN_SECRET",
 ] as const;
 
 const PLACEHOLDER_VALUES = [
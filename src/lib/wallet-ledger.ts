@@ -0,0 +1,130 @@
+/**
+ * Student wallet ledger (server-side only).
+ *
+ * Every change to users.walletBalance goes through postWalletEntry() so
+ * walletTransactions is a complete, append-only ledger:
+ * - normalized `type` plus an explicit `direction` (credit / debit)
+ * - `fromUserId` / `toUserId` always set — system parties use WALLET_PARTIES
+ * - `balanceBefore` / `balanceAfter` give a running balance per user
+ *
+ * Two-phase like the rest of the transactional code: openWallet() reads
+ * (call it in the read phase), postWalletEntry() writes.
+ */
+
+import { FieldValue, DocumentData, DocumentReference, Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import type { WalletEntryDirection, WalletEntryType, WalletTransaction } from "@/types";
+
+/** Non-user counterparties recorded in fromUserId / toUserId */
+export const WALLET_PARTIES = {
+    canteen: "canteen",
+    razorpay: "razorpay",
+    admin: "admin",
+} as const;
+
+export interface WalletHandle {
+    userId: string;
+    ref: DocumentReference;
+    /** User document as read in this transaction */
+    data: DocumentData;
+    /** Running balance — advanced by every postWalletEntry() */
+    balance: number;
+}
+
+export interface WalletEntryInput {
+    type: WalletEntryType;
+    direction: WalletEntryDirection;
+    amount: number;
+    description: string;
+    /** The other side: a user id or one of WALLET_PARTIES */
+    counterparty: string;
+    orderId?: string;
+    referenceId?: string;
+    razorpayPaymentId?: string;
+    razorpayOrderId?: string;
+    createdAt?: string;
+}
+
+/**
+ * READ PHASE: load a user's wallet inside a transaction. `notFound` lets
+ * callers throw their own error type for a missing user.
+ */
+export async function openWallet(
+    transaction: Transaction,
+    userId: string,
+    notFound: () => Error = () => new Error("User not found")
+): Promise<WalletHandle> {
+    const ref = adminDb.collection("users").doc(userId);
+    const doc = await transaction.get(ref);
+    if (!doc.exists) throw notFound();
+
+    const data = doc.data()!;
+    return { userId, ref, data, balance: Number(data.walletBalance) || 0 };
+}
+
+/**
+ * WRITE PHASE: apply a balance change and append its ledger entry.
+ * Returns the walletTransactions document id.
+ */
+export function postWalletEntry(transaction: Transaction, wallet: WalletHandle, entry: WalletEntryInput): string {
+    if (!Number.isFinite(entry.amount) || entry.amount <= 0) {
+        throw new Error("Wallet entry amount must be positive");
+    }
+
+    const signed = entry.direction === "credit" ? entry.amount : -entry.amount;
+    const balanceBefore = wallet.balance;
+    const balanceAfter = roundMoney(balanceBefore + signed);
+    if (balanceAfter < 0) throw new Error("Insufficient wallet balance");
+
+    transaction.update(wallet.ref, {
+        walletBalance: FieldValue.increment(signed),
+    });
+
+    const txnRef = adminDb.collection("walletTransactions").doc();
+    const record: Omit<WalletTransaction, "id"> & { transactionId: string } = {
+        userId: wallet.userId,
+        type: entry.type,
+        direction: entry.direction,
+        amount: entry.amount,
+        balanceBefore,
+        balanceAfter,
+        fromUserId: entry.direction === "credit" ? entry.counterparty : wallet.userId,
+        toUserId: entry.direction === "credit" ? wallet.userId : entry.counterparty,
+        description: entry.description,
+        ...(entry.orderId && { orderId: entry.orderId }),
+        ...(entry.referenceId && { referenceId: entry.referenceId }),
+        ...(entry.razorpayPaymentId && { razorpayPaymentId: entry.razorpayPaymentId }),
+        ...(entry.razorpayOrderId && { razorpayOrderId: entry.razorpayOrderId }),
+        transactionId: txnRef.id,
+        createdAt: entry.createdAt || new Date().toISOString(),
+    };
+    transaction.set(txnRef, record);
+
+    wallet.balance = balanceAfter;
+    return txnRef.id;
+}
+
+/**
+ * Signed effect of a ledger entry on its owner's balance. Handles entries
+ * written before `direction` existed ("debit" / "credit" types, transfers
+ * told apart by fromUserId).
+ */
+export function ledgerDelta(entry: Omit<Partial<WalletTransaction>, "type"> & { type?: string }): number {
+    const amount = Number(entry.amount) || 0;
+    if (entry.direction) return entry.direction === "credit" ? amount : -amount;
+
+    switch (entry.type) {
+        case "debit":
+        case "payment":
+            return -amount;
+        case "transfer":
+            return entry.fromUserId === entry.userId ? -amount : amount;
+        default: // "credit", "topup", "refund"
+            return amount;
+    }
+}
+
+/** Round to paise to keep float noise out of running balances */
+export function roundMoney(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,106 @@
+/**
+ * Student-to-student wallet transfers (server-side only).
+ *
+ * Shared by POST /api/wallet/transfer (push payments by uniqueCode) and
+ * paying a money request (/api/wallet/requests), so both debit / credit
+ * atomically through the ledger and enforce the sender's PIN the same way.
+ *
+ * Reads then writes — callers may read their own documents before calling
+ * and must only write after it returns.
+ */
+
+import { Transaction } from "firebase-admin/firestore";
+import { openWallet, postWalletEntry } from "@/lib/wallet-ledger";
+import { pinRequirement, pinRequirementMessage, PinRequirement, readPinToken } from "@/lib/pin-auth";
+import { checkSpendingLimits } from "@/lib/spending-limits";
+
+export const MIN_TRANSFER_AMOUNT = 1;
+export const MAX_TRANSFER_AMOUNT = 5000;
+
+export class TransferError extends Error {
+    constructor(message: string, public status: number = 400, public code?: PinRequirement | "SPENDING_LIMIT") {
+        super(message);
+        this.name = "TransferError";
+    }
+}
+
+export interface TransferInput {
+    senderId: string;
+    recipientId: string;
+    amount: number;
+    /** From readPinToken() on the sender's request */
+    pinToken: ReturnType<typeof readPinToken>;
+    /** Ledger descriptions; default "Transfer to <name>" / "Received from <name>" */
+    describe?: { sender?: (recipientName: string) => string; recipient?: (senderName: string) => string };
+    referenceId?: string;
+    createdAt?: string;
+}
+
+export function assertTransferAmount(amount: number): void {
+    if (!Number.isFinite(amount) || amount < MIN_TRANSFER_AMOUNT) {
+        throw new TransferError(`Amount must be at least ₹${MIN_TRANSFER_AMOUNT}`);
+    }
+    if (amount > MAX_TRANSFER_AMOUNT) {
+        throw new TransferError(`Maximum transfer is ₹${MAX_TRANSFER_AMOUNT}`);
+    }
+}
+
+/**
+ * Move `amount` from sender to recipient inside a transaction. Throws
+ * TransferError for expected failures (PIN, balance, spending limits,
+ * missing user).
+ */
+export async function transferInTransaction(
+    transaction: Transaction,
+    input: TransferInput
+): Promise<{ senderName: string; recipientName: string }> {
+    assertTransferAmount(input.amount);
+    if (input.senderId === input.recipientId) {
+        throw new TransferError("Cannot transfer to yourself");
+    }
+
+    // READ PHASE
+    const sender = await openWallet(transaction, input.senderId, () => new TransferError("Sender not found", 404));
+    const receiver = await openWallet(transaction, input.recipientId, () => new TransferError("Recipient not found", 404));
+
+    const requirement = pinRequirement(input.pinToken, sender.data);
+    if (requirement) {
+        throw new TransferError(pinRequirementMessage(requirement), 403, requirement);
+    }
+
+    if (sender.balance < input.amount) {
+        throw new TransferError("Insufficient wallet balance", 402);
+    }
+
+    const limitReason = await checkSpendingLimits(transaction, input.senderId, sender.data.spendingLimits, { amount: input.amount });
+    if (limitReason) {
+        throw new TransferError(limitReason, 403, "SPENDING_LIMIT");
+    }
+
+    const senderName = sender.data.name || "Unknown";
+    const recipientName = receiver.data.name || "Unknown";
+    const now = input.createdAt || new Date().toISOString();
+
+    // WRITE PHASE
+    postWalletEntry(transaction, sender, {
+        type: "transfer",
+        direction: "debit",
+        amount: input.amount,
+        description: input.describe?.sender ? input.describe.sender(recipientName) : `Transfer to ${recipientName}`,
+        counterparty: input.recipientId,
+        referenceId: input.referenceId,
+        createdAt: now,
+    });
+
+    postWalletEntry(transaction, receiver, {
+        type: "transfer",
+        direction: "credit",
+        amount: input.amount,
+        description: input.describe?.recipient ? input.describe.recipient(senderName) : `Received from ${senderName}`,
+        counterparty: input.senderId,
+        referenceId: input.referenceId,
+        createdAt: now,
+    });
+
+    return { senderName, recipientName };
+}
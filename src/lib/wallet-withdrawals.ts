@@ -0,0 +1,76 @@
+/**
+ * Student wallet withdrawals (server-side only).
+ *
+ * Money goes back out the way it came in: each withdrawal is split FIFO
+ * across the student's Razorpay top-ups (oldest first) and refunded
+ * against those payments. Only topped-up money is refundable — balance
+ * received by transfer or refunds of orders paid from it has no payment
+ * to refund against beyond what the top-ups cover.
+ */
+
+import { Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { roundMoney } from "@/lib/wallet-ledger";
+import type { Payment, WithdrawalRefund, WithdrawalStatus } from "@/types";
+
+/** Statuses that still hold money — at most one per student */
+export const OPEN_WITHDRAWAL_STATUSES: WithdrawalStatus[] = ["requested", "processing"];
+
+export const MIN_WITHDRAWAL_AMOUNT = 1;
+
+export class WithdrawalError extends Error {
+    constructor(message: string, public status: number = 400) {
+        super(message);
+        this.name = "WithdrawalError";
+    }
+}
+
+export interface RefundablePayment {
+    paymentId: string;
+    /** Not yet refunded, in rupees */
+    remaining: number;
+    createdAt: string;
+}
+
+/**
+ * READ PHASE: the user's credited top-ups that still have an unrefunded
+ * amount, oldest first.
+ */
+export async function loadRefundablePayments(transaction: Transaction, userId: string): Promise<RefundablePayment[]> {
+    const snap = await transaction.get(
+        adminDb.collection("payments").where("userId", "==", userId)
+    );
+
+    return snap.docs
+        .map((doc) => doc.data() as Payment)
+        .filter((p) => p.verified)
+        .map((p) => ({
+            paymentId: p.razorpayPaymentId,
+            remaining: roundMoney((Number(p.amount) || 0) - (p.refundedAmount || 0)),
+            createdAt: p.createdAt,
+        }))
+        .filter((p) => p.remaining > 0)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function totalRefundable(payments: RefundablePayment[]): number {
+    return roundMoney(payments.reduce((sum, p) => sum + p.remaining, 0));
+}
+
+/**
+ * Split `amount` across payments FIFO. Stops when the payments run out,
+ * so the allocation can sum to less than `amount`.
+ */
+export function allocateRefunds(payments: RefundablePayment[], amount: number): WithdrawalRefund[] {
+    const refunds: WithdrawalRefund[] = [];
+    let left = roundMoney(amount);
+
+    for (const payment of payments) {
+        if (left <= 0) break;
+        const take = roundMoney(Math.min(left, payment.remaining));
+        refunds.push({ paymentId: payment.paymentId, amount: take, status: "pending" });
+        left = roundMoney(left - take);
+    }
+
+    return refunds;
+}
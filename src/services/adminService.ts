@@ -2,12 +2,53 @@
  * Admin Service — Client-side API wrappers for admin operations.
  */
 
-import type { CanteenConfig } from "@/types";
+import type {
+    CanteenConfig,
+    CanteenPayout,
+    CanteenPayoutStatus,
+    LoyaltyReward,
+    Order,
+    OrderStatus,
+    Outlet,
+    OutletAdmin,
+    Promotion,
+    SettlementStatement,
+    Withdrawal,
+    WithdrawalStatus,
+} from "@/types";
+import { DEFAULT_OUTLET_ID } from "@/lib/outlets";
 
-function getAdminHeaders(contentType = true): HeadersInit {
+const ADMIN_OUTLET_KEY = "adminOutlet";
+const ADMIN_SCOPED_KEY = "adminOutletScoped";
+
+/** Outlet the admin panel is working on (sent as X-Outlet-Id) */
+export function getAdminOutletId(): string {
+    if (typeof window === "undefined") return DEFAULT_OUTLET_ID;
+    return localStorage.getItem(ADMIN_OUTLET_KEY) || DEFAULT_OUTLET_ID;
+}
+
+/** Outlet admins are pinned to one outlet; only the super admin can switch */
+export function isOutletScopedAdmin(): boolean {
+    return typeof window !== "undefined" && localStorage.getItem(ADMIN_SCOPED_KEY) === "1";
+}
+
+export function setAdminOutlet(outletId: string, scoped = false) {
+    localStorage.setItem(ADMIN_OUTLET_KEY, outletId);
+    if (scoped) localStorage.setItem(ADMIN_SCOPED_KEY, "1");
+    else localStorage.removeItem(ADMIN_SCOPED_KEY);
+}
+
+export function clearAdminSession() {
+    localStorage.removeItem("adminToken");
+    localStorage.removeItem(ADMIN_OUTLET_KEY);
+    localStorage.removeItem(ADMIN_SCOPED_KEY);
+}
+
+export function getAdminHeaders(contentType = true): Record<string, string> {
     const token = typeof window !== "undefined" ? localStorage.getItem("adminToken") : null;
     const headers: Record<string, string> = {
         Authorization: `Bearer ${token}`,
+        "X-Outlet-Id": getAdminOutletId(),
     };
     if (contentType) headers["Content-Type"] = "application/json";
     return headers;
@@ -19,10 +60,37 @@ export async function getStats(): Promise<Record<string, unknown>> {
     return res.json();
 }
 
+export interface AdminOrderFilters {
+    status?: OrderStatus;
+    paymentMode?: string;
+    userId?: string;
+    rollNumber?: string;
+    orderId?: string; // prefix, e.g. "ZKO4F"
+    from?: string;    // YYYY-MM-DD
+    to?: string;      // YYYY-MM-DD
+}
+
+export async function getOrders(
+    filters: AdminOrderFilters,
+    page: { cursor?: string | null; limit?: number } = {}
+): Promise<{ orders: Order[]; nextCursor: string | null; counts?: Record<OrderStatus, number> }> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+        if (value) params.set(key, value);
+    }
+    if (page.cursor) params.set("cursor", page.cursor);
+    if (page.limit) params.set("limit", String(page.limit));
+
+    const res = await fetch(`/api/admin/orders?${params}`, { headers: getAdminHeaders(false) });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Failed to fetch orders");
+    return data;
+}
+
 export async function updateOrder(
     orderId: string,
-    data: { status?: string; prepTime?: number }
-): Promise<{ success: boolean }> {
+    data: { status?: string; prepTime?: number; note?: string }
+): Promise<{ success: boolean; error?: string }> {
     const res = await fetch("/api/admin/orders", {
         method: "PATCH",
         headers: getAdminHeaders(),
@@ -31,6 +99,89 @@ export async function updateOrder(
     return res.json();
 }
 
+/** A scanned QR names the order doc (`id`); a typed-in code names the short order ID */
+export type PickupTarget = { id: string } | { orderId: string };
+
+export async function verifyPickup(
+    target: PickupTarget,
+    token: string
+): Promise<{ success?: boolean; error?: string; order?: Pick<Order, "id" | "orderId" | "userName" | "userRollNumber" | "items" | "total"> }> {
+    const res = await fetch("/api/admin/orders/pickup", {
+        method: "POST",
+        headers: getAdminHeaders(),
+        body: JSON.stringify({ ...target, token }),
+    });
+    return res.json();
+}
+
+export async function getWithdrawals(status?: WithdrawalStatus): Promise<Withdrawal[]> {
+    const query = status ? `?status=${status}` : "";
+    const res = await fetch(`/api/admin/wallet/withdrawals${query}`, { headers: getAdminHeaders(false) });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Failed to fetch withdrawals");
+    return data.withdrawals;
+}
+
+export async function reviewWithdrawal(
+    withdrawalId: string,
+    action: "approve" | "reject" | "settle",
+    reason?: string
+): Promise<{ success?: boolean; error?: string; status?: WithdrawalStatus; refundedAmount?: number; returnedAmount?: number }> {
+    const res = await fetch("/api/admin/wallet/withdrawals", {
+        method: "POST",
+        headers: getAdminHeaders(),
+        body: JSON.stringify({ withdrawalId, action, reason }),
+    });
+    return res.json();
+}
+
+export async function getCanteenPayouts(status?: CanteenPayoutStatus): Promise<CanteenPayout[]> {
+    const query = status ? `?status=${status}` : "";
+    const res = await fetch(`/api/admin/wallet/payouts${query}`, { headers: getAdminHeaders(false) });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Failed to fetch payouts");
+    return data.payouts;
+}
+
+export async function requestCanteenPayout(
+    amount: number,
+    note?: string
+): Promise<{ success?: boolean; error?: string; payout?: CanteenPayout }> {
+    const res = await fetch("/api/admin/wallet/payouts", {
+        method: "POST",
+        headers: getAdminHeaders(),
+        body: JSON.stringify({ amount, note }),
+    });
+    return res.json();
+}
+
+export async function updateCanteenPayout(
+    payoutId: string,
+    action: "approve" | "pay" | "reject",
+    extra: { bankReference?: string; reason?: string } = {}
+): Promise<{ success?: boolean; error?: string; status?: CanteenPayoutStatus }> {
+    const res = await fetch("/api/admin/wallet/payouts", {
+        method: "PATCH",
+        headers: getAdminHeaders(),
+        body: JSON.stringify({ payoutId, action, ...extra }),
+    });
+    return res.json();
+}
+
+export async function getSettlementStatements(from: string, to: string): Promise<SettlementStatement[]> {
+    const res = await fetch(`/api/admin/wallet/statements?from=${from}&to=${to}`, { headers: getAdminHeaders(false) });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Failed to fetch statements");
+    return data.statements;
+}
+
+export async function getSettlementStatement(date: string): Promise<SettlementStatement> {
+    const res = await fetch(`/api/admin/wallet/statements?date=${date}`, { headers: getAdminHeaders(false) });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Failed to fetch statement");
+    return data.statement;
+}
+
 export async function addMenuItem(data: Record<string, unknown>): Promise<{ id: string; success: boolean }> {
     const res = await fetch("/api/admin/menu", {
         method: "POST",
@@ -72,3 +223,67 @@ export async function updateCanteenConfig(data: Partial<CanteenConfig>): Promise
     });
     return res.json();
 }
+
+export async function getAdminOutlets(): Promise<{ outlets: Outlet[]; admins: OutletAdmin[] }> {
+    const res = await fetch("/api/admin/outlets", { headers: getAdminHeaders(false) });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Failed to fetch outlets");
+    return data;
+}
+
+export type OutletAction =
+    | { action: "save_outlet"; outlet: Partial<Outlet> & { id: string } }
+    | { action: "create_admin"; username: string; password: string; outletId: string }
+    | { action: "delete_admin"; username: string }
+    | { action: "assign_legacy" };
+
+export async function manageOutlets(body: OutletAction): Promise<{ success?: boolean; error?: string; updated?: Record<string, number> }> {
+    const res = await fetch("/api/admin/outlets", {
+        method: "POST",
+        headers: getAdminHeaders(),
+        body: JSON.stringify(body),
+    });
+    return res.json();
+}
+
+export async function getPromotions(): Promise<Promotion[]> {
+    const res = await fetch("/api/admin/promotions", { headers: getAdminHeaders(false) });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Failed to fetch promotions");
+    return data.promotions;
+}
+
+export type PromotionAction =
+    | { action: "save"; promotion: Partial<Promotion> }
+    | { action: "toggle"; id: string; active: boolean }
+    | { action: "delete"; id: string };
+
+export async function managePromotions(body: PromotionAction): Promise<{ success?: boolean; error?: string; promotion?: Promotion }> {
+    const res = await fetch("/api/admin/promotions", {
+        method: "POST",
+        headers: getAdminHeaders(),
+        body: JSON.stringify(body),
+    });
+    return res.json();
+}
+
+export async function getLoyaltyRewards(): Promise<LoyaltyReward[]> {
+    const res = await fetch("/api/admin/loyalty-rewards", { headers: getAdminHeaders(false) });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Failed to fetch rewards");
+    return data.rewards;
+}
+
+export type LoyaltyRewardAction =
+    | { action: "save"; reward: Partial<LoyaltyReward> }
+    | { action: "toggle"; id: string; active: boolean }
+    | { action: "delete"; id: string };
+
+export async function manageLoyaltyRewards(body: LoyaltyRewardAction): Promise<{ success?: boolean; error?: string; reward?: LoyaltyReward }> {
+    const res = await fetch("/api/admin/loyalty-rewards", {
+        method: "POST",
+        headers: getAdminHeaders(),
+        body: JSON.stringify(body),
+    });
+    return res.json();
+}
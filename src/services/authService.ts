@@ -27,3 +27,33 @@ export async function lookupByUniqueCode(
     if (!res.ok) return null;
     return res.json();
 }
+
+export async function verifyPin(
+    token: string,
+    pin: string
+): Promise<{ success?: boolean; pinToken?: string; expiresIn?: number; error?: string; attemptsLeft?: number }> {
+    const res = await fetch("/api/users/verify-pin", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ pin }),
+    });
+    return res.json();
+}
+
+export async function updatePin(
+    token: string,
+    data: { action: "set" | "change" | "reset"; pin: string; currentPin?: string }
+): Promise<{ success?: boolean; pinToken?: string; expiresIn?: number; error?: string; code?: string }> {
+    const res = await fetch("/api/users/pin", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(data),
+    });
+    return res.json();
+}
@@ -0,0 +1,50 @@
+/**
+ * Cart Service — Client-side API wrappers for the saved (cross-device) cart.
+ */
+
+import type { CartItem, CartPriceChange, CartStockIssue } from "@/types";
+
+type CartCheck = {
+    items?: CartItem[];
+    updatedAt?: string;
+    changes?: CartPriceChange[];
+    stockIssues?: CartStockIssue[];
+    error?: string;
+};
+
+export async function getSavedCart(token: string): Promise<CartCheck> {
+    const res = await fetch("/api/cart", {
+        headers: { Authorization: `Bearer ${token}` },
+    });
+    return res.json();
+}
+
+export async function saveCart(
+    token: string,
+    items: CartItem[]
+): Promise<{ success?: boolean; updatedAt?: string; error?: string }> {
+    const res = await fetch("/api/cart", {
+        method: "PUT",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ items }),
+    });
+    return res.json();
+}
+
+export async function mergeCart(
+    token: string,
+    items: CartItem[]
+): Promise<CartCheck & { success?: boolean; dropped?: number }> {
+    const res = await fetch("/api/cart", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ items }),
+    });
+    return res.json();
+}
@@ -0,0 +1,64 @@
+/**
+ * Group Order Service — Client-side API wrappers for shared carts.
+ * The cart itself is read live from groupCarts/{id} (useGroupCart).
+ */
+
+import type { CartItem, CartPriceChange, GroupPaymentMode } from "@/types";
+
+type GroupAction =
+    | { action: "join" }
+    | { action: "set_items"; items: CartItem[] }
+    | { action: "ready"; ready: boolean }
+    | { action: "payment_mode"; paymentMode: GroupPaymentMode }
+    | { action: "leave" };
+
+export async function createGroupOrder(
+    token: string,
+    items: CartItem[]
+): Promise<{ success?: boolean; groupId?: string; error?: string; code?: string }> {
+    const res = await fetch("/api/group-orders", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ items }),
+    });
+    return res.json();
+}
+
+export async function updateGroupOrder(
+    token: string,
+    groupId: string,
+    update: GroupAction,
+    pinToken?: string | null
+): Promise<{ success?: boolean; error?: string; code?: string }> {
+    const res = await fetch("/api/group-orders", {
+        method: "PATCH",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+            ...(pinToken && { "X-Pin-Token": pinToken }),
+        },
+        body: JSON.stringify({ groupId, ...update }),
+    });
+    return res.json();
+}
+
+export async function checkoutGroupOrder(
+    token: string,
+    groupId: string,
+    pickupAt?: string | null,
+    pinToken?: string | null
+): Promise<{ success?: boolean; orderId?: string; total?: number; requested?: number; error?: string; code?: string; changes?: CartPriceChange[] }> {
+    const res = await fetch("/api/group-orders/checkout", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+            ...(pinToken && { "X-Pin-Token": pinToken }),
+        },
+        body: JSON.stringify({ groupId, ...(pickupAt && { pickupAt }) }),
+    });
+    return res.json();
+}
@@ -0,0 +1,80 @@
+/**
+ * Guardian Service — Client-side API wrappers for spending limits and
+ * guardian controls.
+ */
+
+import type { CategoryDoc, GuardianInvite, GuardianStudent, SpendingLimits, SpendingUsage } from "@/types";
+
+export async function getSpendingLimits(token: string): Promise<{
+    limits: SpendingLimits;
+    usage: SpendingUsage;
+    categories: CategoryDoc[];
+    guardian: { id: string; name: string } | null;
+    guardianInvite: GuardianInvite | null;
+}> {
+    const res = await fetch("/api/users/limits", {
+        headers: { Authorization: `Bearer ${token}` },
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Failed to fetch limits");
+    return data;
+}
+
+export async function updateSpendingLimits(
+    token: string,
+    limits: SpendingLimits
+): Promise<{ success?: boolean; error?: string; limits?: SpendingLimits }> {
+    const res = await fetch("/api/users/limits", {
+        method: "PUT",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(limits),
+    });
+    return res.json();
+}
+
+export async function respondToGuardianInvite(
+    token: string,
+    action: "accept" | "decline"
+): Promise<{ success?: boolean; error?: string }> {
+    const res = await fetch("/api/users/guardian", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ action }),
+    });
+    return res.json();
+}
+
+export async function getGuardianStudents(
+    token: string
+): Promise<{ students: GuardianStudent[]; categories: CategoryDoc[] }> {
+    const res = await fetch("/api/guardian", {
+        headers: { Authorization: `Bearer ${token}` },
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Failed to fetch students");
+    return data;
+}
+
+export async function guardianAction(
+    token: string,
+    body:
+        | { action: "invite"; studentCode: string }
+        | { action: "cancel_invite" | "unlink"; studentId: string }
+        | { action: "set_limits"; studentId: string; limits: SpendingLimits }
+): Promise<{ success?: boolean; message?: string; error?: string }> {
+    const res = await fetch("/api/guardian", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(body),
+    });
+    return res.json();
+}
@@ -0,0 +1,38 @@
+/**
+ * Loyalty Service — Client-side API wrappers for loyalty points and
+ * rewards.
+ */
+
+import type { LoyaltyAccount, LoyaltyEntry, LoyaltyReward, Promotion } from "@/types";
+
+export interface LoyaltySummary {
+    account: Omit<LoyaltyAccount, "updatedAt">;
+    entries: LoyaltyEntry[];
+    rewards: (LoyaltyReward & { outletName: string })[];
+    /** Reward coupons not used yet */
+    coupons: (Promotion & { outletName: string })[];
+}
+
+export async function getLoyalty(token: string): Promise<LoyaltySummary> {
+    const res = await fetch("/api/users/loyalty", {
+        headers: { Authorization: `Bearer ${token}` },
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Failed to fetch loyalty points");
+    return data;
+}
+
+export async function redeemLoyaltyReward(
+    token: string,
+    rewardId: string
+): Promise<{ success?: boolean; error?: string; coupon?: Promotion; points?: number }> {
+    const res = await fetch("/api/users/loyalty", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ action: "redeem", rewardId }),
+    });
+    return res.json();
+}
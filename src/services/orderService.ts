@@ -2,23 +2,28 @@
  * Order Service — Client-side API wrappers for order operations.
  */
 
-import type { OrderItem } from "@/types";
+import type { CartPriceChange, OrderDiscount, OrderItem, PickupSlot, SelectedOption } from "@/types";
+
+type OrderLine = { id: string; name: string; price?: number; quantity: number; selectedOptions?: SelectedOption[] };
 
 export async function createOrder(
     token: string,
     data: {
         userId: string;
-        items: OrderItem[];
-        total: number;
+        items: OrderLine[];
         userName: string;
         userEmail: string;
-    }
-): Promise<{ success: boolean; orderId?: string; error?: string }> {
+        pickupAt?: string;
+        couponCode?: string;
+    },
+    pinToken?: string | null
+): Promise<{ success: boolean; orderId?: string; total?: number; error?: string; code?: string; changes?: CartPriceChange[] }> {
     const res = await fetch("/api/orders", {
         method: "POST",
         headers: {
             "Content-Type": "application/json",
             Authorization: `Bearer ${token}`,
+            ...(pinToken && { "X-Pin-Token": pinToken }),
         },
         body: JSON.stringify(data),
     });
@@ -35,3 +40,56 @@ export async function getOrders(
     if (!res.ok) throw new Error("Failed to fetch orders");
     return res.json();
 }
+
+export async function quoteOrder(
+    token: string,
+    items: OrderLine[],
+    couponCode?: string
+): Promise<{
+    success?: boolean;
+    items?: OrderItem[];
+    subtotal?: number;
+    discounts?: OrderDiscount[];
+    total?: number;
+    error?: string;
+    code?: string;
+    changes?: CartPriceChange[];
+}> {
+    const res = await fetch("/api/orders/quote", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ items, ...(couponCode && { couponCode }) }),
+    });
+    return res.json();
+}
+
+export async function getPickupSlots(
+    token: string,
+    itemIds: string[],
+    date?: string
+): Promise<{ enabled?: boolean; dates?: string[]; date?: string; prepMinutes?: number; slots?: PickupSlot[]; error?: string }> {
+    const params = new URLSearchParams({ items: itemIds.join(",") });
+    if (date) params.set("date", date);
+    const res = await fetch(`/api/orders/pickup-slots?${params}`, {
+        headers: { Authorization: `Bearer ${token}` },
+    });
+    return res.json();
+}
+
+export async function cancelOrder(
+    token: string,
+    orderId: string
+): Promise<{ success?: boolean; orderId?: string; refunded?: number; error?: string }> {
+    const res = await fetch("/api/orders/cancel", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ orderId }),
+    });
+    return res.json();
+}
@@ -4,7 +4,8 @@
 
 export async function createRazorpayOrder(
     token: string,
-    amount: number
+    amount: number,
+    forUserId?: string
 ): Promise<{ orderId: string; amount: number; currency: string }> {
     const res = await fetch("/api/razorpay/create-order", {
         method: "POST",
@@ -12,7 +13,7 @@ export async function createRazorpayOrder(
             "Content-Type": "application/json",
             Authorization: `Bearer ${token}`,
         },
-        body: JSON.stringify({ amount }),
+        body: JSON.stringify(forUserId ? { amount, forUserId } : { amount }),
     });
     if (!res.ok) {
         const data = await res.json();
@@ -40,3 +41,74 @@ export async function verifyPayment(
     });
     return res.json();
 }
+
+export interface RazorpayPaymentResponse {
+    razorpay_order_id: string;
+    razorpay_payment_id: string;
+    razorpay_signature: string;
+}
+
+interface RazorpayCheckoutOptions {
+    key?: string;
+    amount: number;
+    currency: string;
+    name: string;
+    description: string;
+    order_id: string;
+    handler: (response: RazorpayPaymentResponse) => void;
+    prefill?: { name?: string; email?: string };
+    theme?: { color: string };
+    modal?: { ondismiss?: () => void };
+}
+
+// Loaded by the checkout.js script tag in the root layout
+declare global {
+    interface Window {
+        Razorpay?: new (options: RazorpayCheckoutOptions) => { open: () => void };
+    }
+}
+
+/**
+ * Run a wallet top-up through Razorpay Checkout: create the order, open
+ * the checkout and verify the payment. Resolves true once the wallet is
+ * credited, false if the payer closes the checkout; throws on failure.
+ */
+export async function checkoutWalletTopUp(
+    token: string,
+    payment: {
+        amount: number;
+        description: string;
+        forUserId?: string;
+        prefill?: { name?: string; email?: string };
+    }
+): Promise<boolean> {
+    const Razorpay = window.Razorpay;
+    if (!Razorpay) {
+        throw new Error("Razorpay SDK not loaded. Please refresh.");
+    }
+
+    const order = await createRazorpayOrder(token, payment.amount, payment.forUserId);
+
+    return new Promise<boolean>((resolve, reject) => {
+        const rzp = new Razorpay({
+            key: process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID,
+            amount: order.amount,
+            currency: order.currency,
+            name: "Zayko",
+            description: payment.description,
+            order_id: order.orderId,
+            handler: (response) => {
+                verifyPayment(token, { ...response, amount: payment.amount })
+                    .then((result) => {
+                        if (result.success) resolve(true);
+                        else reject(new Error(result.error || "Payment verification failed"));
+                    })
+                    .catch(reject);
+            },
+            prefill: payment.prefill,
+            theme: { color: "#fbbf24" },
+            modal: { ondismiss: () => resolve(false) },
+        });
+        rzp.open();
+    });
+}
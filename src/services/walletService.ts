@@ -2,7 +2,7 @@
  * Wallet Service — Client-side API wrappers for wallet operations.
  */
 
-import type { WalletTransaction } from "@/types";
+import type { MoneyRequest, WalletTransaction, Withdrawal } from "@/types";
 
 export async function getWallet(
     token: string,
@@ -18,15 +18,85 @@ export async function getWallet(
 export async function transferByCode(
     token: string,
     recipientCode: string,
-    amount: number
-): Promise<{ success: boolean; message?: string; error?: string }> {
+    amount: number,
+    pinToken?: string | null
+): Promise<{ success: boolean; message?: string; error?: string; code?: string }> {
     const res = await fetch("/api/wallet/transfer", {
         method: "POST",
         headers: {
             "Content-Type": "application/json",
             Authorization: `Bearer ${token}`,
+            ...(pinToken && { "X-Pin-Token": pinToken }),
         },
         body: JSON.stringify({ recipientCode, amount }),
     });
     return res.json();
 }
+
+export async function getWithdrawals(token: string): Promise<Withdrawal[]> {
+    const res = await fetch("/api/wallet/withdraw", {
+        headers: { Authorization: `Bearer ${token}` },
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Failed to fetch withdrawals");
+    return data.withdrawals;
+}
+
+export async function requestWithdrawal(
+    token: string,
+    amount?: number
+): Promise<{ success?: boolean; error?: string; withdrawal?: Withdrawal }> {
+    const res = await fetch("/api/wallet/withdraw", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(amount ? { amount } : {}),
+    });
+    return res.json();
+}
+
+export async function getMoneyRequests(
+    token: string
+): Promise<{ incoming: MoneyRequest[]; outgoing: MoneyRequest[] }> {
+    const res = await fetch("/api/wallet/requests", {
+        headers: { Authorization: `Bearer ${token}` },
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Failed to fetch requests");
+    return data;
+}
+
+export async function createMoneyRequest(
+    token: string,
+    data: { codes: string[]; amount?: number; orderId?: string; note?: string }
+): Promise<{ success?: boolean; error?: string; requests?: MoneyRequest[] }> {
+    const res = await fetch("/api/wallet/requests", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(data),
+    });
+    return res.json();
+}
+
+export async function respondToMoneyRequest(
+    token: string,
+    requestId: string,
+    action: "pay" | "decline" | "cancel",
+    pinToken?: string | null
+): Promise<{ success?: boolean; status?: string; error?: string; code?: string }> {
+    const res = await fetch("/api/wallet/requests", {
+        method: "PATCH",
+        headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+            ...(pinToken && { "X-Pin-Token": pinToken }),
+        },
+        body: JSON.stringify({ requestId, action }),
+    });
+    return res.json();
+}
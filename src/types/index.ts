@@ -10,11 +10,79 @@ export interface UserProfile {
     email: string;
     phone: string;
     pinHash: string; // BCrypt hash of 4-digit PIN
+    pinVersion?: number; // bumped on every PIN change — invalidates PIN tokens
+    pinFailedAttempts?: number;
+    pinLockedUntil?: string; // ISO — set after too many wrong PINs
     name: string;
     rollNumber?: string;
     walletBalance: number;
     uniqueCode: string;
     role: "user" | "admin";
+    spendingLimits?: SpendingLimits;
+    guardianId?: string;   // linked guardian — only they can change spendingLimits
+    guardianName?: string;
+    guardianInvite?: GuardianInvite; // pending until the student accepts
+    loyalty?: LoyaltyAccount;
+    createdAt: string;
+}
+
+// ─── Spending Limits & Guardians ────────────────
+
+export interface SpendingLimits {
+    daily?: number;   // ₹ per day (orders + outgoing transfers, Asia/Kolkata)
+    weekly?: number;  // ₹ per Monday–Sunday week
+    categories?: Record<string, number>; // menu category slug → max items per day
+    updatedAt?: string;
+    updatedBy?: "self" | "guardian";
+}
+
+/** What counts against the limits in the current day / week */
+export interface SpendingUsage {
+    today: number;
+    thisWeek: number;
+    categoriesToday: Record<string, number>;
+}
+
+export interface GuardianInvite {
+    guardianId: string;
+    guardianName: string;
+    createdAt: string;
+}
+
+/** A student as seen from the guardian's dashboard */
+export interface GuardianStudent {
+    id: string;
+    name: string;
+    rollNumber?: string;
+    walletBalance: number;
+    limits: SpendingLimits;
+    usage: SpendingUsage;
+    pending: boolean; // invite not yet accepted
+}
+
+// ─── Outlets ────────────────────────────────────
+
+/**
+ * A campus outlet with its own menu, hours, stock, orders, admins and
+ * canteen wallet. Records written before outlets existed have no
+ * `outletId` and belong to the default outlet (lib/outlets).
+ */
+export interface Outlet {
+    id: string;
+    name: string;
+    description?: string;
+    location?: string;
+    active: boolean;
+    order: number; // sort position on the home page
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+/** outletAdmins/{username} without the password hash */
+export interface OutletAdmin {
+    username: string;
+    outletId: string;
+    createdBy: string;
     createdAt: string;
 }
 
@@ -34,17 +102,31 @@ export interface MenuItemCustomization {
     options: MenuItemOption[];
 }
 
+/** "combo" bundles other menu items at one price (see lib/combos); unset = a regular item */
+export type MenuItemType = "item" | "combo";
+
+/** One menu item inside a combo, with its customization choices fixed by the admin */
+export interface ComboComponent {
+    itemId: string;
+    name: string;       // snapshot for display
+    quantity: number;   // units per combo
+    selectedOptions?: SelectedOption[];
+}
+
 export interface MenuItem {
     id: string;
     name: string;
     price: number;
     category: string;
     available: boolean;
-    quantity: number;
+    quantity: number;   // combos: unused — their stock comes from the components
     preparationTime: number; // minutes
     description?: string;
     image?: string;
     customizations?: MenuItemCustomization[];
+    type?: MenuItemType;
+    components?: ComboComponent[]; // combos only
+    outletId?: string;
     createdAt?: string;
     updatedAt?: string;
 }
@@ -86,6 +168,32 @@ export interface CartItem {
     category: string;
     image?: string;
     selectedOptions?: SelectedOption[];
+    outletId?: string;
+}
+
+/** A cart line whose client-side unit price no longer matches the menu */
+export interface CartPriceChange {
+    index: number;          // position of the line in the submitted cart
+    id: string;
+    name: string;
+    selectedOptions?: SelectedOption[];
+    oldPrice: number;       // unit price the client sent
+    newPrice: number;       // current unit price (base + options)
+}
+
+/** A cart line the menu can no longer fill: sold out/removed (available 0) or short on stock */
+export interface CartStockIssue {
+    id: string;
+    name: string;
+    selectedOptions?: SelectedOption[];
+    available: number;
+    reason?: string;        // set when the line can't be ordered at all
+}
+
+/** A signed-in user's cart, stored in carts/{uid} so it follows them across devices */
+export interface SavedCart {
+    items: CartItem[];
+    updatedAt: string;
 }
 
 export interface OrderItem {
@@ -94,57 +202,450 @@ export interface OrderItem {
     price: number; // base price + options
     quantity: number;
     selectedOptions?: SelectedOption[];
+    category?: string;    // menu category slug at order time (category spending limits)
+    rejected?: boolean;   // kitchen couldn't fulfil this line — refunded
+    rejectedAt?: string;
+    memberId?: string;    // group orders: uid of the member the line is for
+    memberName?: string;
+    paidBy?: string;      // group orders split per member: uid charged (and refunded) for this line
+    discount?: number;    // ₹ off this line from promotions (see lib/promotions); charged = price × quantity − discount
+    components?: ComboComponent[]; // combo lines: what's in each combo (their stock was taken)
 }
+export type OrderStatus = "pending" | "confirmed" | "preparing" | "ready" | "completed" | "cancelled";
+
 export interface Order {
     id: string;
     orderId: string;
+    outletId?: string;
     userId: string;
     userName: string;
     userEmail: string;
     userRollNumber?: string;
     items: OrderItem[];
+    subtotal?: number;        // before discounts — only set when `discounts` is
+    discounts?: OrderDiscount[];
     total: number;
     paymentMode?: string;
-    status: "pending" | "confirmed" | "preparing" | "ready" | "completed" | "cancelled";
+    status: OrderStatus;
     prepTime?: number;
     estimatedReadyAt?: string;
     readyAt?: string; // canonical countdown target (ISO string)
+    cancelledAt?: string;
+    cancelledBy?: "admin" | "user" | "system";
+    stockDisposition?: StockDisposition;
+    refundedAmount?: number; // sum of per-line refunds; `total` is already net of it
+    pickupToken?: string;     // one-time code shown to the student as a QR; removed once used
+    pickupVerifiedAt?: string;
+    pickupVerifiedBy?: string;
+    groupId?: string;         // placed from groupCarts/{groupId}
+    memberIds?: string[];     // group members who can see the order (userId is the host)
+    pickupAt?: string;        // scheduled pickup (slot start, ISO); absent = as soon as possible
+    prepStartAt?: string;     // when the kitchen should start a scheduled order (see lib/pickup-slots)
     createdAt: string;
     updatedAt?: string;
 }
 
+/** Entry in orders/{orderId}/statusHistory — immutable audit trail */
+export interface OrderStatusChange {
+    id: string;
+    from: OrderStatus | null;   // null for the initial "pending" entry
+    to: OrderStatus;
+    changedBy: string;          // admin username, user name, or "system"
+    actorRole: "admin" | "user" | "system";
+    note?: string;
+    createdAt: string;
+}
+
+// ─── Group Orders ───────────────────────────────
+
+export type GroupCartStatus = "open" | "placed" | "cancelled";
+/** "split": every member pays for their own lines; "host": host pays, members get money requests */
+export type GroupPaymentMode = "split" | "host";
+
+export interface GroupCartMember {
+    name: string;
+    ready: boolean;   // agreed to pay for their lines — reset whenever they change them
+    pinConfirmed?: boolean; // `ready` was confirmed with their PIN (needed above the PIN threshold)
+    joinedAt: string;
+}
+
+/** A member's cart line in a shared cart */
+export interface GroupCartLine extends CartItem {
+    memberId: string;
+}
+
+/** Shared cart in groupCarts/{id}, edited through /api/group-orders */
+export interface GroupCart {
+    id: string;
+    hostId: string;
+    hostName: string;
+    outletId: string;
+    status: GroupCartStatus;
+    paymentMode: GroupPaymentMode;
+    members: Record<string, GroupCartMember>;
+    memberIds: string[];
+    lines: GroupCartLine[];
+    orderId?: string;     // display order ID once placed
+    orderDocId?: string;
+    createdAt: string;
+    updatedAt: string;
+    expiresAt: string;
+}
+
+// ─── Promotions ─────────────────────────────────
+
+export type PromotionType = "coupon" | "happy_hour" | "buy_x_get_y";
+export type DiscountType = "percent" | "flat";
+
+/**
+ * promotions/{id} — an admin-managed discount for one outlet, applied
+ * server-side by placeOrder (see lib/promotions). Coupons need their code
+ * at checkout; happy hours and buy-X-get-Y offers apply on their own.
+ * Loyalty rewards are redeemed as personal coupons (`userId` set), which
+ * the admin promotions list leaves out.
+ */
+export interface Promotion {
+    id: string;
+    outletId: string;
+    type: PromotionType;
+    name: string;            // shown as the discount line on bills
+    active: boolean;
+    startsAt?: string;       // ISO validity window, open-ended when unset
+    endsAt?: string;
+    discountType?: DiscountType;  // coupon + happy_hour
+    value?: number;          // percent off, or ₹ off (per order for coupons, per unit for happy hours)
+    maxDiscount?: number;    // ₹ cap on a percent coupon
+    code?: string;           // coupon: uppercase, unique among active coupons of the outlet
+    minOrderAmount?: number; // coupon: order value needed after other discounts
+    usageLimit?: number;     // coupon: redemptions in total; unset = unlimited
+    perUserLimit?: number;   // coupon: redemptions per student; unset = unlimited
+    usedCount: number;
+    categories?: string[];   // happy_hour: category slugs
+    days?: DayOfWeek[];      // happy_hour: weekdays it runs; unset = every day
+    startTime?: string;      // happy_hour: "HH:MM" (Asia/Kolkata)
+    endTime?: string;
+    itemId?: string;         // buy_x_get_y: the menu item; coupon: only this item is discounted
+    itemName?: string;
+    buyQuantity?: number;    // buy_x_get_y: pay for this many...
+    freeQuantity?: number;   // ...and get this many more free
+    userId?: string;         // personal coupon: only this student can use it
+    rewardId?: string;       // loyalty reward it was redeemed from
+    createdAt: string;
+    updatedAt: string;
+}
+
+/** One discount line on an order (summed over the lines it applied to) */
+export interface OrderDiscount {
+    promotionId: string;
+    type: PromotionType;
+    label: string;
+    code?: string;
+    amount: number;
+}
+
+// ─── Loyalty ────────────────────────────────────
+
+/** users/{uid}.loyalty — written server-side only (see lib/loyalty-store) */
+export interface LoyaltyAccount {
+    points: number;          // spendable balance
+    lifetimePoints: number;  // earned in total, net of reversals
+    streak: number;          // consecutive IST days with a completed order
+    lastOrderDate?: string;  // "YYYY-MM-DD" (IST) of the last day that counted
+    updatedAt: string;
+}
+
+export type LoyaltyEntryType = "earn" | "streak_bonus" | "reversal" | "redeem";
+
+/** loyaltyLedger/{id} — one points movement */
+export interface LoyaltyEntry {
+    id: string;
+    userId: string;
+    type: LoyaltyEntryType;
+    points: number;          // signed: + earned, − reversed / redeemed
+    balanceAfter: number;
+    description: string;
+    orderId?: string;
+    rewardId?: string;
+    couponCode?: string;     // redeem: the personal coupon issued
+    createdAt: string;
+}
+
+export type LoyaltyRewardType = "free_item" | "discount";
+
+/** loyaltyRewards/{id} — what an outlet lets students spend points on */
+export interface LoyaltyReward {
+    id: string;
+    outletId: string;
+    name: string;
+    description?: string;
+    type: LoyaltyRewardType;
+    pointsCost: number;
+    itemId?: string;         // free_item: the menu item given away
+    itemName?: string;
+    discountAmount?: number; // discount: ₹ off an order
+    active: boolean;
+    redeemedCount: number;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// ─── Inventory Adjustments ──────────────────────
+
+/** What happens to stock from a cancelled or rejected order line */
+export type StockDisposition = "restock" | "waste";
+
+/** Entry in inventoryAdjustments — one per menu item per cancellation/rejection */
+export interface InventoryAdjustment {
+    id: string;
+    menuItemId: string;
+    itemName: string;
+    quantity: number;
+    action: StockDisposition;
+    reason: "order_cancelled" | "item_rejected";
+    orderId: string;     // display order ID
+    orderDocId: string;
+    outletId: string;    // outlet of the order
+    changedBy: string;
+    createdAt: string;
+}
+
 // ─── Wallet ─────────────────────────────────────
 
+export type WalletEntryType = "topup" | "payment" | "refund" | "transfer" | "adjustment" | "withdrawal";
+export type WalletEntryDirection = "credit" | "debit";
+
+/**
+ * Entry in walletTransactions — the immutable student wallet ledger.
+ * Entries written before the ledger was normalized may carry the legacy
+ * types "debit" / "credit" and lack direction / running balance.
+ */
 export interface WalletTransaction {
     id: string;
-    fromUserId: string;
+    fromUserId: string;  // user id, or "canteen" / "razorpay" / "admin"
     toUserId: string;
     userId: string; // owner of this transaction record
-    amount: number;
-    type: "topup" | "transfer" | "payment" | "refund";
+    amount: number; // always positive — see `direction`
+    type: WalletEntryType;
+    direction: WalletEntryDirection;
+    balanceBefore?: number;
+    balanceAfter?: number;
     description: string;
+    orderId?: string;
     referenceId?: string;
     razorpayPaymentId?: string;
     razorpayOrderId?: string;
     createdAt: string;
 }
 
+/** One user's result from GET /api/admin/wallet/reconcile */
+export interface WalletReconciliation {
+    userId: string;
+    name: string;
+    walletBalance: number;
+    ledgerBalance: number;
+    drift: number;          // walletBalance - ledgerBalance
+    entries: number;
+    brokenChainAt?: string; // first entry whose balanceBefore doesn't follow the previous one
+}
+
+// ─── Money Requests ─────────────────────────────
+
+export type MoneyRequestStatus = "pending" | "paid" | "declined" | "cancelled" | "expired";
+
+/**
+ * One student asking another to pay them. A split bill creates one
+ * request per payer, sharing a `groupId`.
+ */
+export interface MoneyRequest {
+    id: string;
+    requesterId: string;
+    requesterName: string;
+    payerId: string;
+    payerName: string;
+    amount: number;
+    note?: string;
+    status: MoneyRequestStatus;
+    groupId?: string;
+    /** Display order ID when splitting an order */
+    orderId?: string;
+    createdAt: string;
+    expiresAt: string;
+    respondedAt?: string;
+}
+
+// ─── Wallet Withdrawals ─────────────────────────
+
+export type WithdrawalStatus = "requested" | "processing" | "completed" | "rejected" | "failed";
+
+/** One Razorpay refund issued against a top-up payment */
+export interface WithdrawalRefund {
+    paymentId: string;
+    amount: number;
+    status: "pending" | "processed" | "failed";
+    razorpayRefundId?: string;
+    error?: string;
+}
+
+/**
+ * Student request to get wallet balance back to the original payment
+ * method. The amount is held (debited) when requested and returned to the
+ * wallet if rejected or if Razorpay refunds fail.
+ */
+export interface Withdrawal {
+    id: string;
+    userId: string;
+    userName: string;
+    userRollNumber?: string;
+    amount: number;
+    status: WithdrawalStatus;
+    /** FIFO allocation across the user's top-ups, set on approval */
+    refunds: WithdrawalRefund[];
+    refundedAmount: number;
+    /** Held amount credited back to the wallet */
+    returnedAmount: number;
+    requestedAt: string;
+    reviewedAt?: string;
+    reviewedBy?: string;
+    rejectionReason?: string;
+    completedAt?: string;
+}
+
+// ─── Canteen Wallet & Settlements ───────────────
+
+/** wallets/canteen_owner (default outlet) or wallets/canteen_owner_{outletId} */
+export interface CanteenWallet {
+    totalBalance: number;
+    pendingAmount: number;   // confirmed orders not yet completed
+    todayCollection: number;
+    todayDate: string;
+    payoutHeld?: number;     // reserved by open payout requests
+    lastUpdated: string;
+}
+
+/** canteenTransactions — money in / out of the canteen's balance */
+export interface CanteenTransaction {
+    id: string;
+    amount: number;
+    type: "credit" | "withdrawal" | "refund_deduction";
+    outletId?: string;
+    orderId?: string;
+    payoutId?: string;
+    bankReference?: string;
+    description: string;
+    createdAt: string;
+}
+
+export type CanteenPayoutStatus = "requested" | "approved" | "paid" | "rejected";
+
+/**
+ * Canteen owner payout to the bank. The amount is reserved (payoutHeld)
+ * on request and only leaves totalBalance once marked paid with the
+ * bank's reference number (UTR).
+ */
+export interface CanteenPayout {
+    id: string;
+    outletId?: string;
+    amount: number;
+    status: CanteenPayoutStatus;
+    note?: string;
+    requestedBy: string;
+    requestedAt: string;
+    approvedBy?: string;
+    approvedAt?: string;
+    bankReference?: string;
+    paidBy?: string;
+    paidAt?: string;
+    rejectedBy?: string;
+    rejectedAt?: string;
+    rejectionReason?: string;
+}
+
+/** Daily settlement statement for one IST calendar day */
+export interface SettlementStatement {
+    date: string;            // "YYYY-MM-DD" (Asia/Kolkata)
+    openingBalance: number;
+    orderCredits: number;
+    orderCount: number;
+    refunds: number;
+    refundCount: number;
+    withdrawals: number;
+    withdrawalCount: number;
+    closingBalance: number;
+    /** Day has ended — figures can no longer change */
+    finalized: boolean;
+    lines?: CanteenTransaction[];
+}
+
 // ─── Payments (Razorpay dedup) ──────────────────
 
+export interface PaymentRefund {
+    amount: number;
+    /** Taken back out of the wallet */
+    debited: number;
+    /** Already spent — could not be debited */
+    shortfall: number;
+    processedAt: string;
+    /** Set when issued by a student withdrawal */
+    withdrawalId?: string;
+}
+
 export interface Payment {
     razorpayPaymentId: string;
+    razorpayOrderId?: string;
     userId: string;
     amount: number;
+    amountPaise?: number;
+    /** true once the wallet has been credited */
     verified: boolean;
+    status?: "captured" | "failed";
+    /** Which path recorded it first */
+    source?: "checkout" | "webhook";
+    /** Guardian who paid for a student's top-up */
+    paidBy?: string;
+    failureReason?: string;
+    refunds?: Record<string, PaymentRefund>;
+    refundedAmount?: number;
     createdAt: string;
+    creditedAt?: string;
 }
 
 // ─── Canteen Settings ───────────────────────────
 
+/** One opening window, e.g. lunch 12:00–15:00 ("HH:MM", Asia/Kolkata) */
+export interface CanteenTimeSlot {
+    label?: string; // "Breakfast", "Lunch", ...
+    start: string;
+    end: string;
+}
+
+/** Slots per weekday; a missing or empty day is closed */
+export type WeeklySchedule = Partial<Record<DayOfWeek, CanteenTimeSlot[]>>;
+
+export interface CanteenHoliday {
+    date: string; // "YYYY-MM-DD" (IST)
+    message?: string; // shown to students instead of the hours
+}
+
+/** settings/canteenConfig for the default outlet, settings/canteenConfig_{outletId} for the rest */
 export interface CanteenConfig {
-    startTime: string; // "HH:MM" format, e.g. "09:00"
+    startTime: string; // "HH:MM" format, e.g. "09:00" — daily hours when there's no `schedule`
     endTime: string;   // "HH:MM" format, e.g. "17:00"
-    isOpen: boolean;
+    isOpen: boolean;   // manual switch; false closes the canteen regardless of the schedule
+    schedule?: WeeklySchedule; // see lib/canteen-schedule
+    holidays?: CanteenHoliday[];
+    cancelGraceMinutes?: number; // how long after placing a confirmed order the user may still cancel
+    cancelledStockDisposition?: StockDisposition; // admin cancellations: put stock back or write it off
+    pinOrderThreshold?: number; // orders above this total (₹) need the student's PIN; 0 = every order
+    pickupSlotCapacity?: number; // scheduled-pickup orders per slot; 0/unset = no pre-orders
+    pickupSlotMinutes?: number;  // length of one pickup slot, see lib/pickup-slots
+    preOrderDaysAhead?: number;  // how many days ahead pickups can be booked; 0 = today only
+}
+
+/** A bookable pickup time as listed by /api/orders/pickup-slots */
+export interface PickupSlot {
+    at: string;        // slot start, ISO
+    time: string;      // IST "HH:MM"
+    remaining: number; // orders the slot can still take
 }
 
 // ─── Chat ───────────────────────────────────────